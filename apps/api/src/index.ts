@@ -9,51 +9,188 @@
  * - SQLite mode (USE_SQLITE=true): Persistent SQLite storage for production
  */
 
-import Fastify from "fastify";
+import { createHash, timingSafeEqual } from "node:crypto";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
-import { Effect, Exit, Layer } from "effect";
+import { Effect, Either, Exit, Layer, type Schema } from "effect";
 import {
   getArticle,
   listArticles,
   verifyPaymentAndIssueSession,
   getBalance,
+  getEntitlements,
+  getReceiptSigningKeys,
   getUserPolicy,
   setUserPolicy,
   createAgent,
   listAgents,
   getAgentByToken,
   checkPaymentPolicy,
-  recordSpend,
   createTransfer,
   verifyTransfer,
+  listTransfers,
+  recheckRecentReceipts,
+  indexPayments,
+  paymentMethodsFor,
+  acceptedTermsOf,
+  setPriceOverride,
+  startVerification,
+  runVerification,
+  getVerification,
+  listUnfinishedVerifications,
+  registerUser,
+  createUserApiKey,
+  authenticateUser,
+  authenticateOptionalUser,
+  issueSiweNonce,
+  signInWithEthereum,
+  listUserReceipts,
+  recoverSessions,
+  inspectSession,
+  revokeSession,
+  rotateSession,
+  mergeSessions,
+  findAuthorizedChallenge,
+  settleTransferAuthorization,
   MockCapabilities,
   MockArticlesStore,
-  MockChallengesStore,
   MockClock,
   MockIdGen,
   MockLogger,
   MockPaymentVerifier,
+  MockPaymentSettler,
   MockChainConfig,
   MockPlasmaRpc,
+  MockPlasmaRpcRegistry,
+  MockReceiptSigner,
+  MockSessionTokens,
+  ChainConfigService,
+  createLivePlasmaRpcRegistry,
+  createMultiChainPaymentVerifier,
+  createRetryingPaymentVerifier,
+  createLivePaymentSettler,
+  createPriceOracle,
+  createReceiptSigner,
+  parseReceiptSigningKeys,
+  createSessionTokens,
+  createSignedChallengesStore,
+  parseChallengeKeyring,
+  staticPriceSource,
+  jsonFeedPriceSource,
+  DEFAULT_CENTS_PER_UNIT,
+  parsePriceTable,
+  type VerifyPaymentOutput,
 } from "@decagon/core";
-import type { ApiError, PaymentRequiredError, SpendPolicy } from "@decagon/x402";
-import { DEFAULT_SPEND_POLICY, TOPUP_PRICE_CENTS } from "@decagon/x402";
+import type { ApiError, PaymentChallenge, SpendPolicy, VerificationJob, VerifyAcceptedResponse, X402ExactPayload, X402SettlementResponse } from "@decagon/x402";
+import {
+  DEFAULT_SPEND_POLICY,
+  TOPUP_PRICE_CENTS,
+  usd,
+  decodeSpendPolicy,
+  decodeWire,
+  encodeWire,
+  ApiErrorSchema,
+  ArticleResponseSchema,
+  PaymentRequiredResponseSchema,
+  ReceiptJwksSchema,
+  VerificationJobSchema,
+  VerifyAcceptedResponseSchema,
+  X402PaymentRequiredResponseSchema,
+  X402_MEDIA_TYPE,
+  X402_EXACT_SCHEME,
+  X_PAYMENT_RESPONSE_HEADER,
+  decodePaymentHeader,
+  chainOfPayment,
+  verifyRequestFromPayment,
+  settlementFor,
+  encodeSettlementHeader,
+  toX402PaymentRequired,
+  RECEIPT_KEYS_PATH,
+} from "@decagon/x402";
 import {
   LiveReceiptsStore,
+  LiveChallengesStore,
   LivePolicyStore,
   LiveAgentStore,
   LiveUsageStore,
+  LiveUsedTransactionsStore,
+  LiveUnitOfWork,
+  LiveVerificationJobsStore,
+  LiveDepositAddressStore,
+  LiveSettlementsStore,
+  LiveBlockCursorStore,
+  LiveUserStore,
+  LiveAuthNonceStore,
   getDb,
   closeDb,
 } from "./sqlite/index.js";
+import {
+  RegisterBody,
+  SiweVerifyBody,
+  RecoverSessionsBody,
+  MergeSessionsBody,
+  VerifyBody,
+  SetPolicyBody,
+  PolicyCheckBody,
+  CreateAgentBody,
+  CreateTransferBody,
+  PriceOverrideBody,
+  HealthResponse,
+  InsufficientCreditsResponse,
+  ArticleListResponse,
+  BalanceResponse,
+  EntitlementsResponse,
+  VerifiedResponse,
+  RecoveredSessionsResponse,
+  SessionDetailsResponse,
+  SessionResponse,
+  SessionRevokedResponse,
+  RegisteredResponse,
+  ApiKeyResponse,
+  MeResponse,
+  SiweNonceResponse,
+  UserReceiptsResponse,
+  PolicyResponse,
+  PolicyCheckResponse,
+  CreatedAgentResponse,
+  AgentListResponse,
+  TransferChallengeResponse,
+  TransferHistoryResponse,
+  PriceOverrideResponse,
+} from "./schemas.js";
 
 // ============================================
 // Environment Configuration
 // ============================================
 
 const USE_SQLITE = process.env["USE_SQLITE"] === "true" || process.env["NODE_ENV"] === "production";
+// Verify payments against each accepted chain's RPC node (SQLite mode only; otherwise any transaction ref is accepted)
+const VERIFY_ON_CHAIN = process.env["VERIFY_ON_CHAIN"] === "true" || process.env["NODE_ENV"] === "production";
 const PORT = parseInt(process.env["PORT"] ?? "4000", 10);
 const HOST = process.env["HOST"] ?? "0.0.0.0";
+// How often confirmed receipts are re-checked for reorgs (0 disables)
+const REORG_RECHECK_INTERVAL_MS = parseInt(process.env["REORG_RECHECK_INTERVAL_MS"] ?? "60000", 10);
+// How often new blocks are scanned for payments nobody verified (0 disables)
+const INDEXER_INTERVAL_MS = parseInt(process.env["INDEXER_INTERVAL_MS"] ?? "15000", 10);
+// How long a payment is re-verified while its tx is not yet found or confirmed
+const VERIFY_TIMEOUT_MS = parseInt(process.env["VERIFY_TIMEOUT_MS"] ?? "15000", 10);
+// How often an SSE stream checks its verification job for changes
+const VERIFY_EVENTS_POLL_MS = 500;
+// Local JSON price feed consulted before the static rate table (optional)
+const PRICE_FEED_PATH = process.env["PRICE_FEED_PATH"];
+// Bearer token for /admin routes (unset disables them)
+const ADMIN_TOKEN = process.env["ADMIN_TOKEN"];
+// Signing keys for stateless challenges, "keyId:secret,..." newest first (unset stores every challenge)
+const CHALLENGE_KEYRING = parseChallengeKeyring(process.env["CHALLENGE_SIGNING_KEYS"] ?? "");
+// Ed25519 receipt signing keys, "keyId:<32-byte hex>,..." current first (required with SQLite; unset signs with the dev key)
+const RECEIPT_SIGNING_KEYS = parseReceiptSigningKeys(process.env["RECEIPT_SIGNING_KEYS"] ?? "");
+// Secret session tokens are signed with, 32+ characters (required with SQLite; unset signs with the dev secret)
+const SESSION_TOKEN_SECRET = process.env["SESSION_TOKEN_SECRET"];
+// Key of the account that submits "exact" transfer authorizations and pays their gas, 0x-prefixed hex
+// (required to accept them when verifying on chain)
+const SETTLEMENT_PRIVATE_KEY = process.env["SETTLEMENT_PRIVATE_KEY"];
+// Domain Sign-In with Ethereum messages must name (required with SQLite; unset accepts the request's Host)
+const SIWE_DOMAIN = process.env["SIWE_DOMAIN"];
 
 // CORS origins — allow all .vercel.app subdomains + localhost for demo
 const ALLOWED_ORIGINS = process.env["ALLOWED_ORIGINS"]
@@ -69,6 +206,7 @@ const corsOrigin = (origin: string | undefined, cb: (err: Error | null, allow: b
 };
 
 console.log(`[Config] USE_SQLITE: ${USE_SQLITE}`);
+console.log(`[Config] VERIFY_ON_CHAIN: ${VERIFY_ON_CHAIN}`);
 console.log(`[Config] ALLOWED_ORIGINS: ${ALLOWED_ORIGINS.join(", ")}`);
 
 // ============================================
@@ -83,14 +221,61 @@ const server = Fastify({
 await server.register(cors, {
   origin: corsOrigin,
   methods: ["GET", "POST", "PUT", "DELETE"],
-  allowedHeaders: ["Content-Type", "Authorization", "X-User-Id"],
-  exposedHeaders: ["X-Payment-Required", "X-Challenge-Id"],
+  allowedHeaders: ["Content-Type", "Authorization", "X-Api-Key", "Prefer", "X-PAYMENT"],
+  exposedHeaders: ["X-Payment-Required", "X-Challenge-Id", "Location", "X-PAYMENT-RESPONSE"],
 });
 
 // ============================================
 // Capability Layer Selection
 // ============================================
 
+/**
+ * Rates: admin override, then the JSON feed (if configured), then the static table
+ */
+const LivePriceOracle = createPriceOracle([
+  ...(PRICE_FEED_PATH ? [jsonFeedPriceSource(PRICE_FEED_PATH)] : []),
+  staticPriceSource({
+    ...DEFAULT_CENTS_PER_UNIT,
+    ...parsePriceTable(process.env["ASSET_PRICES_CENTS"] ?? ""),
+  }),
+]);
+
+/**
+ * Receipts are signed with the configured keys, or the published dev key
+ */
+const LiveReceiptSigner =
+  RECEIPT_SIGNING_KEYS.length > 0 ? createReceiptSigner(RECEIPT_SIGNING_KEYS) : MockReceiptSigner;
+
+/**
+ * Session tokens are signed with the configured secret, or the published dev secret
+ */
+const LiveSessionTokens = SESSION_TOKEN_SECRET ? createSessionTokens(SESSION_TOKEN_SECRET) : MockSessionTokens;
+
+/**
+ * Accepted chains, default first, as configured in the environment
+ */
+const ACCEPTED_CHAINS = Effect.runSync(
+  Effect.provide(Effect.flatMap(ChainConfigService, (chainConfig) => chainConfig.listChains()), MockChainConfig)
+);
+
+/**
+ * Payments are verified on the chain they were made on, through that
+ * chain's RPC node, retrying until the tx is found and confirmed; the reorg
+ * check and payment indexer read the same nodes
+ */
+const LivePaymentVerifier = createRetryingPaymentVerifier({ timeoutMs: VERIFY_TIMEOUT_MS }).pipe(
+  Layer.provide(Layer.merge(createMultiChainPaymentVerifier(ACCEPTED_CHAINS), MockLogger))
+);
+const LivePlasmaRpcRegistry = createLivePlasmaRpcRegistry(ACCEPTED_CHAINS);
+
+/**
+ * Transfer authorizations are submitted through the same nodes, from the
+ * configured account
+ */
+const LivePaymentSettler = SETTLEMENT_PRIVATE_KEY
+  ? createLivePaymentSettler(ACCEPTED_CHAINS, SETTLEMENT_PRIVATE_KEY)
+  : MockPaymentSettler;
+
 /**
  * SQLite-backed capabilities for production
  * Uses SQLite for persistent stores, mock for stateless services
@@ -98,20 +283,76 @@ await server.register(cors, {
 const SqliteCapabilities = Layer.mergeAll(
   MockArticlesStore,        // Articles are static
   LiveReceiptsStore,        // Persistent
-  MockChallengesStore,      // Short-lived, can be in-memory
+  LiveChallengesStore,      // Persistent (must survive restarts between 402 and verify)
   LivePolicyStore,          // Persistent
   LiveAgentStore,           // Persistent
   LiveUsageStore,           // Persistent
+  LiveUsedTransactionsStore, // Persistent (double-spend registry)
+  LiveUnitOfWork,           // SQLite transactions
+  LiveVerificationJobsStore, // Persistent (async verify progress)
+  LiveDepositAddressStore,  // Persistent (derivation index → challenge)
+  LiveSettlementsStore,     // Persistent (each authorization submitted once)
+  LiveBlockCursorStore,     // Persistent (indexer resumes after restart)
+  LiveUserStore,            // Persistent (users and API key hashes)
+  LiveAuthNonceStore,       // Persistent (sign-in nonces survive restarts)
   MockClock,                // Stateless
   MockIdGen,                // Stateless
   MockLogger,               // Stateless (could add file logging later)
-  MockPaymentVerifier,      // Stateless mock (swap for LivePaymentVerifier)
+  VERIFY_ON_CHAIN ? LivePaymentVerifier : MockPaymentVerifier,     // One RPC node per accepted chain
   MockChainConfig,          // Config from env
   MockPlasmaRpc,            // Stateless mock (swap for LivePlasmaRpc)
+  VERIFY_ON_CHAIN ? LivePlasmaRpcRegistry : MockPlasmaRpcRegistry, // Same nodes as the verifier
+  VERIFY_ON_CHAIN ? LivePaymentSettler : MockPaymentSettler,       // Configured account (required for "exact")
+  LivePriceOracle,          // Override → feed → static table
+  LiveReceiptSigner,        // Configured keys (required)
+  LiveSessionTokens,        // Configured secret (required)
 );
 
+/**
+ * With signing keys, 402s hand out signed challenges and only paid ones
+ * reach the underlying store
+ */
+const withChallengeSigning = <ROut>(capabilities: Layer.Layer<ROut, never, never>) =>
+  CHALLENGE_KEYRING.length > 0
+    ? Layer.provideMerge(createSignedChallengesStore(CHALLENGE_KEYRING), capabilities)
+    : capabilities;
+
 // Choose capabilities based on mode
-const Capabilities = USE_SQLITE ? SqliteCapabilities : MockCapabilities;
+const Capabilities = withChallengeSigning(USE_SQLITE ? SqliteCapabilities : MockCapabilities);
+
+// The development key is published, so receipts it signs prove nothing
+if (USE_SQLITE && RECEIPT_SIGNING_KEYS.length === 0) {
+  console.error("[Receipts] RECEIPT_SIGNING_KEYS must be set when USE_SQLITE is enabled");
+  process.exit(1);
+}
+
+// Anyone can mint tokens under the development secret
+if (USE_SQLITE && !SESSION_TOKEN_SECRET) {
+  console.error("[Sessions] SESSION_TOKEN_SECRET must be set when USE_SQLITE is enabled");
+  process.exit(1);
+}
+
+// A client picks its own Host header, so sign-in messages could name any domain
+if (USE_SQLITE && !SIWE_DOMAIN) {
+  console.error("[SIWE] SIWE_DOMAIN must be set when USE_SQLITE is enabled");
+  process.exit(1);
+}
+
+// A chain without an RPC node could never have a payment verified
+const chainsWithoutRpc = ACCEPTED_CHAINS.filter((chain) => !chain.rpcUrl);
+if (USE_SQLITE && VERIFY_ON_CHAIN && chainsWithoutRpc.length > 0) {
+  console.error(`[Payments] Set CHAIN_<id>_RPC_URL for chain ${chainsWithoutRpc.map((chain) => chain.chainId).join(", ")}`);
+  process.exit(1);
+}
+
+// Advertising "exact" without an account to submit authorizations would strand every one of them
+const chainsWithAuthorizations = ACCEPTED_CHAINS.filter((chain) => chain.transferAuthorization);
+if (USE_SQLITE && VERIFY_ON_CHAIN && chainsWithAuthorizations.length > 0 && !SETTLEMENT_PRIVATE_KEY) {
+  console.error(
+    `[Payments] SETTLEMENT_PRIVATE_KEY must be set to accept transfer authorizations on chain ${chainsWithAuthorizations.map((chain) => chain.chainId).join(", ")}`
+  );
+  process.exit(1);
+}
 
 // Initialize SQLite if enabled
 if (USE_SQLITE) {
@@ -119,6 +360,10 @@ if (USE_SQLITE) {
   getDb(); // This creates tables if needed
 }
 
+if (CHALLENGE_KEYRING.length > 0) {
+  console.log(`[Challenges] Stateless, signing with key ${CHALLENGE_KEYRING[0]!.keyId}`);
+}
+
 // ============================================
 // Effect Runtime Helper
 // ============================================
@@ -166,14 +411,60 @@ const errorToStatusCode = (error: ApiError): number => {
       return 401;
     case "InsufficientCreditsError":
       return 402;
+    case "PaymentPendingError":
+      return 409;
     case "ValidationError":
       return 400;
+    case "PolicyViolationError":
+      return 403;
+    case "AgentNotAuthorisedError":
+      return 401;
+    case "UnauthorizedError":
+      return 401;
+    case "SessionCaveatError":
+      return 403;
     case "InternalError":
     default:
       return 500;
   }
 };
 
+/**
+ * Send a response in its wire form (Money as JSON, policies in cents)
+ */
+const send = <A, I>(reply: FastifyReply, schema: Schema.Schema<A, I>, value: NoInfer<A>, status = 200) =>
+  reply.status(status).send(encodeWire(schema, value));
+
+/**
+ * Send an ApiError with its HTTP status code
+ */
+const sendError = (reply: FastifyReply, error: ApiError, status = errorToStatusCode(error)) =>
+  send(reply, ApiErrorSchema, error, status);
+
+/**
+ * 401 for a request without the Bearer token it needs
+ */
+const missingBearer = (reply: FastifyReply) =>
+  sendError(reply, {
+    _tag: "ValidationError",
+    message: "Authorization header required",
+    timestamp: new Date().toISOString(),
+    field: "Authorization",
+    reason: "Missing Bearer token",
+  }, 401);
+
+/**
+ * 400 for a verify request with neither a txHash nor a transactionRef
+ */
+const missingPaymentProof = (reply: FastifyReply) =>
+  sendError(reply, {
+    _tag: "ValidationError",
+    message: "Missing required field: txHash or transactionRef",
+    timestamp: new Date().toISOString(),
+    field: "txHash",
+    reason: "Missing payment proof",
+  });
+
 /**
  * Extract session token from Authorization header
  */
@@ -192,10 +483,153 @@ const extractAgentToken = (authHeader: string | undefined): string | undefined =
 };
 
 /**
- * Get user ID from header or default to "demo-user"
+ * Extract a session token, ignoring agent tokens (those identify the payer, not a session)
  */
-const getUserId = (request: { headers: { "x-user-id"?: string } }): string => {
-  return request.headers["x-user-id"] ?? "demo-user";
+const extractSessionTokenOnly = (authHeader: string | undefined): string | undefined => {
+  const token = extractSessionToken(authHeader);
+  return token?.startsWith("agt_") ? undefined : token;
+};
+
+/**
+ * The user behind the X-Api-Key header; fails if there is none
+ */
+const authenticate = (request: { headers: { "x-api-key"?: string } }) =>
+  runWorkflow(authenticateUser(request.headers["x-api-key"]));
+
+/**
+ * The user behind the X-Api-Key header, or undefined for anonymous payers
+ */
+const identifyPayer = (request: { headers: { "x-api-key"?: string } }) =>
+  runWorkflow(authenticateOptionalUser(request.headers["x-api-key"]));
+
+/**
+ * Domain a SIWE message must name. The Host header is the client's to set,
+ * so it is only trusted by the mock API.
+ */
+const siweDomain = (request: { headers: { host?: string } }): string =>
+  SIWE_DOMAIN ?? request.headers.host ?? "";
+
+/**
+ * Whether the Authorization header carries the admin token. Both sides are
+ * hashed first so the comparison takes the same time wherever they differ.
+ */
+const isAdmin = (authorization: string | undefined): boolean => {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return (
+    ADMIN_TOKEN !== undefined &&
+    timingSafeEqual(digest(authorization ?? ""), digest(`Bearer ${ADMIN_TOKEN}`))
+  );
+};
+
+/**
+ * Whether the client speaks open x402: it sent X-PAYMENT or asked for the
+ * standard 402 body in Accept. Everyone else gets Decagon's own 402 body.
+ */
+const wantsX402 = (headers: { accept?: string; "x-payment"?: string }): boolean =>
+  headers["x-payment"] !== undefined || (headers.accept ?? "").includes(X402_MEDIA_TYPE);
+
+/**
+ * Absolute URL of the requested resource (the x402 `resource`)
+ */
+const resourceUrl = (request: FastifyRequest): string =>
+  `${request.protocol}://${request.hostname}${request.url}`;
+
+/**
+ * Send the standard x402 402 body for a challenge
+ */
+const sendX402PaymentRequired = (
+  reply: FastifyReply,
+  challenge: PaymentChallenge,
+  resource: string,
+  error: string
+) => {
+  reply.type(X402_MEDIA_TYPE);
+  return send(
+    reply,
+    X402PaymentRequiredResponseSchema,
+    toX402PaymentRequired(challenge, acceptedTermsOf(challenge), resource, error),
+    402
+  );
+};
+
+/**
+ * Who an X-PAYMENT header pays for, from the rest of the request
+ */
+type PaymentHeaderSubject = { userId?: string; agentToken?: string; origin?: string; existingSessionTokenId?: string };
+
+/**
+ * Settle the transfer authorization of an "exact" payload, for the
+ * challenge it already belongs to or else a fresh one for the article,
+ * bound to the authorizing wallet
+ */
+const settleAuthorization = async (
+  payment: X402ExactPayload,
+  articleId: string,
+  subject: PaymentHeaderSubject
+): Promise<{ ok: true; data: VerifyPaymentOutput } | { ok: false; error: ApiError }> => {
+  const chainId = chainOfPayment(payment);
+  if (Either.isLeft(chainId)) return { ok: false, error: chainId.left };
+  const { authorization, signature } = payment.payload;
+
+  const found = await runWorkflow(findAuthorizedChallenge(chainId.right, authorization));
+  if (!found.ok) return found;
+  let challengeId = found.data;
+  if (!challengeId) {
+    const issued = await runWorkflow(getArticle({
+      articleId,
+      userId: subject.userId,
+      agentToken: subject.agentToken,
+      origin: subject.origin,
+      payerAddress: authorization.from,
+    }));
+    if (issued.ok || issued.error._tag !== "PaymentRequiredError") {
+      return {
+        ok: false,
+        error: issued.ok
+          ? {
+              _tag: "ValidationError",
+              message: "Nothing to pay for",
+              timestamp: new Date().toISOString(),
+              field: "X-PAYMENT",
+              reason: `Article ${articleId} needs no payment`,
+            }
+          : issued.error,
+      };
+    }
+    challengeId = issued.error.challenge.challengeId;
+  }
+
+  return runWorkflow(settleTransferAuthorization({ ...subject, challengeId, chainId: chainId.right, authorization, signature }));
+};
+
+/**
+ * Verify the payment in an X-PAYMENT header, crediting a session the way
+ * POST /pay/verify would. An "exact" payload is settled on chain first.
+ */
+const settlePaymentHeader = async (
+  header: string,
+  articleId: string,
+  subject: PaymentHeaderSubject
+): Promise<{ ok: true; data: { settlement: X402SettlementResponse; sessionTokenId: string } } | { ok: false; error: ApiError }> => {
+  const payment = decodePaymentHeader(header);
+  if (Either.isLeft(payment)) return { ok: false, error: payment.left };
+
+  let result: { ok: true; data: VerifyPaymentOutput } | { ok: false; error: ApiError };
+  if (payment.right.scheme === X402_EXACT_SCHEME) {
+    result = await settleAuthorization(payment.right, articleId, subject);
+  } else {
+    const verifyRequest = verifyRequestFromPayment(payment.right);
+    if (Either.isLeft(verifyRequest)) return { ok: false, error: verifyRequest.left };
+    result = await runWorkflow(verifyPaymentAndIssueSession({ ...verifyRequest.right, ...subject }));
+  }
+  if (!result.ok) return result;
+  return {
+    ok: true,
+    data: {
+      settlement: settlementFor(result.data.receipt, payment.right.network, result.data.sessionToken.tokenId),
+      sessionTokenId: result.data.sessionToken.tokenId,
+    },
+  };
 };
 
 // ============================================
@@ -205,28 +639,71 @@ const getUserId = (request: { headers: { "x-user-id"?: string } }): string => {
 /**
  * Health check endpoint
  */
-server.get("/health", async () => {
-  return { ok: true, timestamp: new Date().toISOString() };
+server.get("/health", async (_request, reply) => {
+  return send(reply, HealthResponse, { ok: true, timestamp: new Date().toISOString() });
 });
 
 /**
  * Get article by ID - HTTP 402 flow
  * - No session token → 402 with PaymentChallenge
  * - Expired session → 402 with PaymentChallenge
- * - Insufficient credits → 402 with PaymentChallenge
- * - Valid session with credits → 200 with full content (1 credit consumed)
+ * - Insufficient credits → 402 with required/available + top-up PaymentChallenge
+ * - Valid session with credits → 200 with full content (article's credit cost consumed)
+ * - Spend policy violation (user or agt_ token) → 403, no challenge issued
+ *
+ * Optional ?payer=0x… binds the issued challenge to that wallet.
+ *
+ * Open x402 clients (Accept: application/vnd.x402+json, or an X-PAYMENT
+ * header) get the standard `accepts` body instead. An X-PAYMENT header is
+ * verified first (an "exact" authorization is submitted on chain to do so);
+ * its session then pays for the read, and the settlement comes back in
+ * X-PAYMENT-RESPONSE.
  */
 server.get<{
   Params: { id: string };
-  Headers: { authorization?: string };
+  Querystring: { payer?: string };
+  Headers: { authorization?: string; "x-api-key"?: string; origin?: string; accept?: string; "x-payment"?: string };
 }>("/article/:id", async (request, reply) => {
   const { id } = request.params;
-  const sessionTokenId = extractSessionToken(request.headers.authorization);
-  console.log(`[/article/${id}] → session=${sessionTokenId ? sessionTokenId.slice(0, 8) + "…" : "<none>"}`);
+  let sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+  const agentToken = extractAgentToken(request.headers.authorization);
+  console.log(`[/article/${id}] → session=${sessionTokenId ? sessionTokenId.slice(0, 8) + "…" : "<none>"} agent=${agentToken ? "yes" : "no"}`);
+
+  const payer = await identifyPayer(request);
+  if (!payer.ok) {
+    return sendError(reply, payer.error);
+  }
+  const userId = payer.data?.userId;
+
+  const x402 = wantsX402(request.headers);
+  reply.header("Vary", "Accept, X-PAYMENT");
+
+  let paymentError: string | undefined;
+  const paymentHeader = request.headers["x-payment"];
+  if (paymentHeader) {
+    const settled = await settlePaymentHeader(paymentHeader, id, {
+      userId,
+      agentToken,
+      origin: request.headers.origin,
+      existingSessionTokenId: sessionTokenId,
+    });
+    if (settled.ok) {
+      sessionTokenId = settled.data.sessionTokenId;
+      reply.header(X_PAYMENT_RESPONSE_HEADER, encodeSettlementHeader(settled.data.settlement));
+      console.log(`[/article/${id}] X-PAYMENT settled tx=${settled.data.settlement.transaction}`);
+    } else {
+      paymentError = settled.error.message;
+      console.log(`[/article/${id}] X-PAYMENT rejected: ${paymentError}`);
+    }
+  }
 
   const result = await runWorkflow(getArticle({ 
     articleId: id, 
-    sessionTokenId 
+    sessionTokenId,
+    userId,
+    agentToken,
+    origin: request.headers.origin,
+    payerAddress: request.query.payer,
   }));
 
   if (!result.ok) {
@@ -234,26 +711,47 @@ server.get<{
     
     // Special handling for 402 responses
     if (error._tag === "PaymentRequiredError") {
-      const paymentError = error as PaymentRequiredError;
-      console.log(`[/article/${id}] 402 challengeId=${paymentError.challenge.challengeId}`);
+      console.log(`[/article/${id}] 402 challengeId=${error.challenge.challengeId}`);
       reply.header("X-Payment-Required", "true");
-      reply.header("X-Challenge-Id", paymentError.challenge.challengeId);
+      reply.header("X-Challenge-Id", error.challenge.challengeId);
+
+      if (x402) {
+        return sendX402PaymentRequired(reply, error.challenge, resourceUrl(request), paymentError ?? "X-PAYMENT header is required");
+      }
       
-      return reply.status(402).send({
+      return send(reply, PaymentRequiredResponseSchema, {
         status: 402,
-        message: paymentError.message,
-        challenge: paymentError.challenge,
-        acceptedPaymentMethods: [
-          { type: "usdt", name: "USDT on Plasma", available: true },
-        ],
-      });
+        message: error.message,
+        challenge: error.challenge,
+        acceptedPaymentMethods: paymentMethodsFor(error.challenge),
+      }, 402);
+    }
+
+    // Session ran short: still a 402, with the shortfall and a top-up challenge
+    if (error._tag === "InsufficientCreditsError" && error.challenge) {
+      console.log(`[/article/${id}] 402 insufficient credits required=${error.required} available=${error.available}`);
+      reply.header("X-Payment-Required", "true");
+      reply.header("X-Challenge-Id", error.challenge.challengeId);
+
+      if (x402) {
+        return sendX402PaymentRequired(reply, error.challenge, resourceUrl(request), paymentError ?? error.message);
+      }
+
+      return send(reply, InsufficientCreditsResponse, {
+        status: 402,
+        message: error.message,
+        challenge: error.challenge,
+        required: error.required,
+        available: error.available,
+        acceptedPaymentMethods: paymentMethodsFor(error.challenge),
+      }, 402);
     }
     
-    return reply.status(errorToStatusCode(error)).send(error);
+    return sendError(reply, error);
   }
 
   console.log(`[/article/${id}] ✓ fullAccess=${result.data.hasFullAccess}`);
-  return result.data;
+  return send(reply, ArticleResponseSchema, result.data);
 });
 
 /**
@@ -263,10 +761,24 @@ server.get("/articles", async (request, reply) => {
   const result = await runWorkflow(listArticles());
 
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
 
-  return { articles: result.data };
+  return send(reply, ArticleListResponse, { articles: result.data });
+});
+
+/**
+ * Public keys receipts are signed with (JWK set), for offline `verifyReceipt`
+ * GET /.well-known/jwks.json
+ */
+server.get(RECEIPT_KEYS_PATH, async (_request, reply) => {
+  const result = await runWorkflow(getReceiptSigningKeys());
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, ReceiptJwksSchema, result.data);
 });
 
 /**
@@ -279,25 +791,168 @@ server.get<{
   const sessionTokenId = extractSessionToken(request.headers.authorization);
 
   if (!sessionTokenId) {
-    return reply.status(401).send({
-      _tag: "ValidationError",
-      message: "Authorization header required",
-      timestamp: new Date().toISOString(),
-      field: "Authorization",
-      reason: "Missing Bearer token",
-    });
+    return missingBearer(reply);
   }
 
   const result = await runWorkflow(getBalance(sessionTokenId));
 
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
 
-  return {
+  return send(reply, BalanceResponse, {
     credits: result.data.credits,
     expiresAt: result.data.expiresAt,
-  };
+  });
+});
+
+/**
+ * List the resources the current session has unlocked
+ * GET /credits/entitlements
+ */
+server.get<{
+  Headers: { authorization?: string };
+}>("/credits/entitlements", async (request, reply) => {
+  const sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+
+  if (!sessionTokenId) {
+    return missingBearer(reply);
+  }
+
+  const result = await runWorkflow(getEntitlements(sessionTokenId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, EntitlementsResponse, { entitlements: result.data });
+});
+
+/**
+ * Recover the sessions a wallet's payments opened, proven by a signed SIWE message
+ * (nonce from GET /auth/siwe/nonce). With `merge: true` they are folded,
+ * together with the Bearer session if one is sent, into one session.
+ * POST /sessions/recover
+ */
+server.post<{
+  Headers: { authorization?: string };
+}>("/sessions/recover", async (request, reply) => {
+  const body = decodeWire(RecoverSessionsBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const result = await runWorkflow(recoverSessions({
+    message: body.right.message,
+    signature: body.right.signature,
+    domain: siweDomain(request),
+    merge: body.right.merge,
+    currentSessionTokenId: extractSessionTokenOnly(request.headers.authorization),
+  }));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, RecoveredSessionsResponse, result.data);
+});
+
+/**
+ * Full state of the Bearer session: credits, access count, expiry,
+ * entitlements and the receipts that funded it
+ * GET /sessions/current
+ */
+server.get<{
+  Headers: { authorization?: string };
+}>("/sessions/current", async (request, reply) => {
+  const sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+
+  if (!sessionTokenId) {
+    return missingBearer(reply);
+  }
+
+  const result = await runWorkflow(inspectSession(sessionTokenId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, SessionDetailsResponse, result.data);
+});
+
+/**
+ * Revoke the Bearer session, e.g. after its token leaked
+ * DELETE /sessions/current
+ */
+server.delete<{
+  Headers: { authorization?: string };
+}>("/sessions/current", async (request, reply) => {
+  const sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+
+  if (!sessionTokenId) {
+    return missingBearer(reply);
+  }
+
+  const result = await runWorkflow(revokeSession(sessionTokenId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, SessionRevokedResponse, { ok: true, revoked: true });
+});
+
+/**
+ * Move the Bearer session to a new token, keeping its credits; the old
+ * token stops working
+ * POST /sessions/current/rotate
+ */
+server.post<{
+  Headers: { authorization?: string };
+}>("/sessions/current/rotate", async (request, reply) => {
+  const sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+
+  if (!sessionTokenId) {
+    return missingBearer(reply);
+  }
+
+  const result = await runWorkflow(rotateSession(sessionTokenId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, SessionResponse, { sessionToken: result.data });
+});
+
+/**
+ * Fold another session into the Bearer one; the other is revoked
+ * POST /sessions/merge
+ */
+server.post<{
+  Headers: { authorization?: string };
+}>("/sessions/merge", async (request, reply) => {
+  const sessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+
+  if (!sessionTokenId) {
+    return missingBearer(reply);
+  }
+
+  const body = decodeWire(MergeSessionsBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const result = await runWorkflow(mergeSessions({
+    sessionToken: sessionTokenId,
+    sourceSessionToken: body.right.sourceSessionToken,
+  }));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, SessionResponse, { sessionToken: result.data });
 });
 
 /**
@@ -307,66 +962,294 @@ server.get<{
  * Accepts either:
  * - txHash: actual blockchain transaction hash
  * - transactionRef + payerAddress: legacy mock payment
+ *
+ * `chainId` names the chain the payment was sent on when the challenge
+ * accepts several (defaults to the challenge's default chain).
+ *
+ * With `Prefer: respond-async` the request returns 202 immediately and
+ * verification continues in the background (see GET /pay/verify/:id).
  */
 server.post<{
-  Body: {
-    challengeId: string;
-    txHash?: string;
-    transactionRef?: string;
-    payerAddress?: string;
-  };
-  Headers: { authorization?: string };
+  Headers: { authorization?: string; "x-api-key"?: string; origin?: string; prefer?: string };
 }>("/pay/verify", async (request, reply) => {
-  const { challengeId, txHash, transactionRef, payerAddress } = request.body ?? {};
+  const body = decodeWire(VerifyBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const { challengeId, txHash, transactionRef, payerAddress, chainId } = body.right;
   const txRef = txHash || transactionRef || "<none>";
   console.log(`[/pay/verify] → challengeId=${challengeId} txRef=${txRef} payer=${payerAddress ?? "<none>"}`);
 
-  if (!challengeId) {
-    return reply.status(400).send({
-      _tag: "ValidationError",
-      message: "Missing required field: challengeId",
-      timestamp: new Date().toISOString(),
-      field: "body",
-      reason: "Missing challengeId",
-    });
-  }
-
   // Must have either txHash or transactionRef
   if (!txHash && !transactionRef) {
-    return reply.status(400).send({
-      _tag: "ValidationError",
-      message: "Missing required field: txHash or transactionRef",
-      timestamp: new Date().toISOString(),
-      field: "body",
-      reason: "Missing payment proof",
-    });
+    return missingPaymentProof(reply);
+  }
+
+  const payer = await identifyPayer(request);
+  if (!payer.ok) {
+    return sendError(reply, payer.error);
   }
 
   // Check if there's an existing session token to add credits to
-  const existingSessionTokenId = extractSessionToken(request.headers.authorization);
+  const existingSessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+  const agentToken = extractAgentToken(request.headers.authorization);
 
-  const result = await runWorkflow(
-    verifyPaymentAndIssueSession({
-      challengeId,
-      txHash,
-      transactionRef,
-      payerAddress,
-      existingSessionTokenId,
-    })
-  );
+  const input = {
+    challengeId,
+    txHash,
+    transactionRef,
+    payerAddress,
+    chainId,
+    existingSessionTokenId,
+    userId: payer.data?.userId,
+    agentToken,
+    origin: request.headers.origin,
+  };
+
+  if (request.headers.prefer?.includes("respond-async")) {
+    const started = await runWorkflow(startVerification(input));
+    if (!started.ok) {
+      return sendError(reply, started.error);
+    }
+
+    const { job, accessToken } = started.data;
+    const { verificationId } = job;
+    // Runs detached; progress is recorded on the job
+    void runWorkflow(runVerification(verificationId));
+
+    console.log(`[/pay/verify] ⋯ challengeId=${challengeId} txRef=${txRef} verificationId=${verificationId}`);
+    const accepted: VerifyAcceptedResponse = {
+      verificationId,
+      status: job.status,
+      accessToken,
+      statusUrl: `/pay/verify/${verificationId}`,
+      eventsUrl: `/pay/verify/${verificationId}/events?access_token=${encodeURIComponent(accessToken)}`,
+    };
+    reply.header("Location", accepted.statusUrl);
+    return send(reply, VerifyAcceptedResponseSchema, accepted, 202);
+  }
+
+  const result = await runWorkflow(verifyPaymentAndIssueSession(input));
 
   if (!result.ok) {
     console.log(`[/pay/verify] ✗ challengeId=${challengeId} txRef=${txRef} error=${result.error.message}`);
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
 
   console.log(`[/pay/verify] ✓ challengeId=${challengeId} txRef=${txRef} receiptId=${result.data.receipt.receiptId} credits=${result.data.sessionToken.credits}`);
-  return {
+  return send(reply, VerifiedResponse, {
     success: true,
     receipt: result.data.receipt,
     sessionToken: result.data.sessionToken,
     message: `Payment verified! You now have ${result.data.sessionToken.credits} credits.`,
+  });
+});
+
+/**
+ * Access token of an asynchronous verification: the Bearer token, or the
+ * `access_token` query parameter, since EventSource cannot send headers
+ */
+const verificationAccessToken = (request: {
+  headers: { authorization?: string };
+  query: { access_token?: string };
+}): string | undefined => request.query.access_token ?? extractSessionToken(request.headers.authorization);
+
+/**
+ * Current state of an asynchronous verification
+ * GET /pay/verify/:id
+ *
+ * The receipt and session token are only included for the job's access
+ * token (returned by the 202); without it the job shows its progress.
+ */
+server.get<{
+  Params: { id: string };
+  Headers: { authorization?: string };
+  Querystring: { access_token?: string };
+}>("/pay/verify/:id", async (request, reply) => {
+  const result = await runWorkflow(getVerification(request.params.id, verificationAccessToken(request)));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, VerificationJobSchema, result.data);
+});
+
+/**
+ * Server-sent events for an asynchronous verification
+ * GET /pay/verify/:id/events
+ *
+ * Emits a `status` event (data: VerificationJob) for the current state and
+ * for every transition, then closes once the job is confirmed or failed.
+ * Access works as for GET /pay/verify/:id.
+ */
+server.get<{
+  Params: { id: string };
+  Headers: { authorization?: string };
+  Querystring: { access_token?: string };
+}>("/pay/verify/:id/events", async (request, reply) => {
+  const { id } = request.params;
+  const accessToken = verificationAccessToken(request);
+  const first = await runWorkflow(getVerification(id, accessToken));
+
+  if (!first.ok) {
+    return sendError(reply, first.error);
+  }
+
+  // Take over the socket, keeping headers (CORS) already set on the reply
+  reply.hijack();
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  reply.raw.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  let lastKey = "";
+  const push = (job: VerificationJob): boolean => {
+    const key = `${job.status}:${job.confirmations ?? ""}`;
+    if (key !== lastKey) {
+      lastKey = key;
+      reply.raw.write(`event: status\ndata: ${JSON.stringify(encodeWire(VerificationJobSchema, job))}\n\n`);
+    }
+    return job.status === "confirmed" || job.status === "failed";
   };
+
+  if (push(first.data)) {
+    reply.raw.end();
+    return;
+  }
+
+  const timer = setInterval(async () => {
+    const result = await runWorkflow(getVerification(id, accessToken));
+    if (!result.ok || push(result.data)) {
+      clearInterval(timer);
+      reply.raw.end();
+    }
+  }, VERIFY_EVENTS_POLL_MS);
+
+  request.raw.on("close", () => clearInterval(timer));
+});
+
+// ============================================
+// Auth Routes
+// ============================================
+
+/**
+ * Register a user and issue its first API key
+ * POST /auth/register
+ */
+server.post("/auth/register", async (request, reply) => {
+  const body = decodeWire(RegisterBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const result = await runWorkflow(registerUser(body.right.name ?? `User ${Date.now()}`));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, RegisteredResponse, result.data, 201);
+});
+
+/**
+ * Issue another API key for the calling user
+ * POST /auth/keys
+ */
+server.post<{
+  Headers: { "x-api-key"?: string };
+}>("/auth/keys", async (request, reply) => {
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+
+  const result = await runWorkflow(createUserApiKey(auth.data.userId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, ApiKeyResponse, { apiKey: result.data }, 201);
+});
+
+/**
+ * The user behind the API key
+ * GET /auth/me
+ */
+server.get<{
+  Headers: { "x-api-key"?: string };
+}>("/auth/me", async (request, reply) => {
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+
+  return send(reply, MeResponse, { user: auth.data });
+});
+
+/**
+ * Receipts paid from the signed-in user's wallet
+ * GET /auth/me/receipts
+ */
+server.get<{
+  Headers: { "x-api-key"?: string };
+}>("/auth/me/receipts", async (request, reply) => {
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+
+  const result = await runWorkflow(listUserReceipts(auth.data));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, UserReceiptsResponse, { receipts: result.data });
+});
+
+/**
+ * Nonce for a Sign-In with Ethereum (EIP-4361) message
+ * GET /auth/siwe/nonce
+ */
+server.get("/auth/siwe/nonce", async (_request, reply) => {
+  const result = await runWorkflow(issueSiweNonce());
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, SiweNonceResponse, result.data);
+});
+
+/**
+ * Verify a signed SIWE message and sign its wallet in: returns the
+ * wallet's user and a new API key
+ * POST /auth/siwe/verify
+ */
+server.post("/auth/siwe/verify", async (request, reply) => {
+  const body = decodeWire(SiweVerifyBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const result = await runWorkflow(signInWithEthereum({
+    message: body.right.message,
+    signature: body.right.signature,
+    domain: siweDomain(request),
+  }));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, RegisteredResponse, result.data);
 });
 
 // ============================================
@@ -378,20 +1261,24 @@ server.post<{
  * GET /policy
  */
 server.get<{
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/policy", async (request, reply) => {
-  const userId = getUserId(request);
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+  const { userId } = auth.data;
   
   const result = await runWorkflow(getUserPolicy(userId));
   
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
   
-  return {
+  return send(reply, PolicyResponse, {
     userId,
     policy: result.data,
-  };
+  });
 });
 
 /**
@@ -399,35 +1286,32 @@ server.get<{
  * POST /policy
  */
 server.post<{
-  Body: {
-    policy?: Partial<SpendPolicy>;
-  };
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/policy", async (request, reply) => {
-  const userId = getUserId(request);
-  const policyInput = request.body?.policy ?? {};
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+  const { userId } = auth.data;
+  const body = decodeWire(SetPolicyBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
   
   // Merge with defaults
-  const policy: SpendPolicy = {
-    maxPerActionCents: policyInput.maxPerActionCents ?? DEFAULT_SPEND_POLICY.maxPerActionCents,
-    dailyCapCents: policyInput.dailyCapCents ?? DEFAULT_SPEND_POLICY.dailyCapCents,
-    autoApproveUnderCents: policyInput.autoApproveUnderCents ?? DEFAULT_SPEND_POLICY.autoApproveUnderCents,
-    requireConfirmAboveCents: policyInput.requireConfirmAboveCents ?? DEFAULT_SPEND_POLICY.requireConfirmAboveCents,
-    allowedOrigins: policyInput.allowedOrigins ?? DEFAULT_SPEND_POLICY.allowedOrigins,
-    allowedPaths: policyInput.allowedPaths ?? DEFAULT_SPEND_POLICY.allowedPaths,
-  };
+  const policy = decodeSpendPolicy(body.right.policy ?? {}, DEFAULT_SPEND_POLICY);
   
   const result = await runWorkflow(setUserPolicy(userId, policy));
   
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
   
-  return {
+  return send(reply, PolicyResponse, {
     ok: true,
     userId,
     policy: result.data,
-  };
+  });
 });
 
 /**
@@ -435,21 +1319,26 @@ server.post<{
  * POST /policy/check
  */
 server.post<{
-  Body: {
-    amountCents?: number;
-    path?: string;
-  };
-  Headers: { authorization?: string; "x-user-id"?: string; origin?: string };
+  Headers: { authorization?: string; "x-api-key"?: string; origin?: string };
 }>("/policy/check", async (request, reply) => {
-  const userId = getUserId(request);
+  const body = decodeWire(PolicyCheckBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const payer = await identifyPayer(request);
+  if (!payer.ok) {
+    return sendError(reply, payer.error);
+  }
+  const userId = payer.data?.userId;
   const agentToken = extractAgentToken(request.headers.authorization);
-  const amountCents = request.body?.amountCents ?? TOPUP_PRICE_CENTS;
-  const path = request.body?.path ?? "/article/*";
+  const amountCents = body.right.amountCents ?? TOPUP_PRICE_CENTS;
+  const path = body.right.path ?? "/article/*";
   const origin = request.headers.origin;
   
   const result = await runWorkflow(
     checkPaymentPolicy({
-      amountCents,
+      amount: usd(amountCents),
       origin,
       path,
       userId: agentToken ? undefined : userId,
@@ -458,71 +1347,77 @@ server.post<{
   );
   
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
   
   if (!result.data.allowed) {
-    return reply.status(403).send({
+    return send(reply, PolicyCheckResponse, {
       allowed: false,
       error: result.data.error,
       policy: result.data.policy,
       currentDailySpend: result.data.currentDailySpend,
-    });
+    }, 403);
   }
   
-  return {
+  return send(reply, PolicyCheckResponse, {
     allowed: true,
     needsConfirm: result.data.needsConfirm,
     subjectType: result.data.subjectType,
     subjectId: result.data.subjectId,
     policy: result.data.policy,
     currentDailySpend: result.data.currentDailySpend,
-  };
+  });
 });
 
 // ============================================
 // Agent Management Routes
 // ============================================
 
+const AGENT_DEFAULT_POLICY: SpendPolicy = {
+  maxPerAction: usd(100),        // $1 max per action
+  dailyCap: usd(500),            // $5 daily cap
+  autoApproveUnder: usd(50),     // Auto-approve under $0.50
+  requireConfirmAbove: usd(100), // Confirm over $1
+  allowedOrigins: ["*"],
+  allowedPaths: ["/article/*"],  // Only articles by default
+};
+
 /**
  * Create a new agent
  * POST /agent/create
  */
 server.post<{
-  Body: {
-    name?: string;
-    policy?: Partial<SpendPolicy>;
-  };
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/agent/create", async (request, reply) => {
-  const userId = getUserId(request);
-  const name = request.body?.name ?? `Agent ${Date.now()}`;
-  const policyInput = request.body?.policy ?? {};
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+  const body = decodeWire(CreateAgentBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const { userId } = auth.data;
+  const name = body.right.name ?? `Agent ${Date.now()}`;
   
   // Default agent policy is stricter than user policy
-  const policy: SpendPolicy = {
-    maxPerActionCents: policyInput.maxPerActionCents ?? 100,     // $1 max per action
-    dailyCapCents: policyInput.dailyCapCents ?? 500,             // $5 daily cap
-    autoApproveUnderCents: policyInput.autoApproveUnderCents ?? 50, // Auto-approve under $0.50
-    requireConfirmAboveCents: policyInput.requireConfirmAboveCents ?? 100, // Confirm over $1
-    allowedOrigins: policyInput.allowedOrigins ?? ["*"],
-    allowedPaths: policyInput.allowedPaths ?? ["/article/*"],    // Only articles by default
-  };
+  const policy = decodeSpendPolicy(body.right.policy ?? {}, AGENT_DEFAULT_POLICY);
   
   const result = await runWorkflow(createAgent({ userId, name, policy }));
   
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
   
-  return {
+  return send(reply, CreatedAgentResponse, {
     ok: true,
     agentId: result.data.agentId,
     agentToken: result.data.agentToken,
     name: result.data.name,
     policy: result.data.policy,
     curl: `curl -H "Authorization: Bearer ${result.data.agentToken}" http://localhost:4000/article/article-1`,
-  };
+  });
 });
 
 /**
@@ -530,17 +1425,21 @@ server.post<{
  * GET /agent/list
  */
 server.get<{
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/agent/list", async (request, reply) => {
-  const userId = getUserId(request);
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+  const { userId } = auth.data;
   
   const result = await runWorkflow(listAgents(userId));
   
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
   
-  return {
+  return send(reply, AgentListResponse, {
     userId,
     agents: result.data.map(agent => ({
       agentId: agent.agentId,
@@ -551,7 +1450,7 @@ server.get<{
       // Don't expose full token in list, just preview
       tokenPreview: agent.agentToken.slice(0, 12) + "...",
     })),
-  };
+  });
 });
 
 // ============================================
@@ -559,25 +1458,19 @@ server.get<{
 // ============================================
 
 server.post<{
-  Body: {
-    recipientAddress?: string;
-    amountCents?: number;
-    note?: string;
-  };
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/transfer/create", async (request, reply) => {
-  const userId = getUserId(request);
-  const { recipientAddress, amountCents, note } = request.body ?? {};
-
-  if (!recipientAddress) {
-    return reply.status(400).send({
-      _tag: "ValidationError",
-      message: "Missing required field: recipientAddress",
-      timestamp: new Date().toISOString(),
-      field: "body",
-      reason: "Missing recipientAddress",
-    });
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
   }
+  const body = decodeWire(CreateTransferBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const { userId } = auth.data;
+  const { recipientAddress, amountCents, note, senderAddress } = body.right;
 
   const result = await runWorkflow(
     createTransfer({
@@ -585,57 +1478,44 @@ server.post<{
       recipientAddress,
       amountCents: amountCents ?? TOPUP_PRICE_CENTS,
       note,
+      senderAddress,
     })
   );
 
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
 
-  return {
+  return send(reply, TransferChallengeResponse, {
     status: 402,
     message: "Payment required to complete transfer",
     challenge: result.data.challenge,
     recipientAddress: result.data.recipientAddress,
     note: result.data.note,
-    acceptedPaymentMethods: [
-      { type: "plasma", name: "XPL on Plasma", available: true },
-    ],
-  };
+    acceptedPaymentMethods: paymentMethodsFor(result.data.challenge),
+  });
 });
 
 server.post<{
-  Body: {
-    challengeId: string;
-    txHash?: string;
-    transactionRef?: string;
-    payerAddress?: string;
-  };
-  Headers: { authorization?: string };
+  Headers: { authorization?: string; "x-api-key"?: string; origin?: string };
 }>("/transfer/verify", async (request, reply) => {
-  const { challengeId, txHash, transactionRef, payerAddress } = request.body ?? {};
-
-  if (!challengeId) {
-    return reply.status(400).send({
-      _tag: "ValidationError",
-      message: "Missing required field: challengeId",
-      timestamp: new Date().toISOString(),
-      field: "body",
-      reason: "Missing challengeId",
-    });
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
+  }
+  const body = decodeWire(VerifyBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
   }
 
+  const { challengeId, txHash, transactionRef, payerAddress, chainId } = body.right;
+
   if (!txHash && !transactionRef) {
-    return reply.status(400).send({
-      _tag: "ValidationError",
-      message: "Missing required field: txHash or transactionRef",
-      timestamp: new Date().toISOString(),
-      field: "body",
-      reason: "Missing payment proof",
-    });
+    return missingPaymentProof(reply);
   }
 
-  const existingSessionTokenId = extractSessionToken(request.headers.authorization);
+  const existingSessionTokenId = extractSessionTokenOnly(request.headers.authorization);
+  const agentToken = extractAgentToken(request.headers.authorization);
 
   const result = await runWorkflow(
     verifyTransfer({
@@ -643,38 +1523,88 @@ server.post<{
       txHash,
       transactionRef,
       payerAddress,
+      chainId,
       existingSessionTokenId,
+      userId: auth.data.userId,
+      agentToken,
+      origin: request.headers.origin,
     })
   );
 
   if (!result.ok) {
-    return reply.status(errorToStatusCode(result.error)).send(result.error);
+    return sendError(reply, result.error);
   }
 
-  return {
+  return send(reply, VerifiedResponse, {
     success: true,
     receipt: result.data.receipt,
     sessionToken: result.data.sessionToken,
     message: "Transfer verified and confirmed on-chain.",
-  };
+  });
 });
 
 server.get<{
-  Headers: { "x-user-id"?: string };
+  Headers: { "x-api-key"?: string };
 }>("/transfer/history", async (request, reply) => {
-  if (!USE_SQLITE) {
-    return { transfers: [] };
-  }
-  try {
-    const db = getDb();
-    const userId = getUserId(request);
-    const rows = db.prepare(
-      `SELECT * FROM receipts WHERE resourceId LIKE 'transfer:%' ORDER BY verifiedAt DESC LIMIT 50`
-    ).all() as Array<Record<string, unknown>>;
-    return { transfers: rows };
-  } catch {
-    return { transfers: [] };
+  const auth = await authenticate(request);
+  if (!auth.ok) {
+    return sendError(reply, auth.error);
   }
+
+  const result = await runWorkflow(listTransfers(auth.data.userId));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, TransferHistoryResponse, { transfers: result.data });
+});
+
+// ============================================
+// Admin Routes
+// ============================================
+
+/**
+ * Pin the rate for an asset, or release it with `centsPerUnit: null`.
+ * Only new challenges are affected; issued ones keep their locked quote.
+ * PUT /admin/prices/:symbol
+ */
+server.put<{
+  Params: { symbol: string };
+  Headers: { authorization?: string };
+}>("/admin/prices/:symbol", async (request, reply) => {
+  if (!ADMIN_TOKEN) {
+    return sendError(reply, {
+      _tag: "NotFoundError",
+      message: "Admin routes are disabled",
+      timestamp: new Date().toISOString(),
+      resourceType: "route",
+      resourceId: "/admin/prices",
+    });
+  }
+  if (!isAdmin(request.headers.authorization)) {
+    return sendError(reply, {
+      _tag: "UnauthorizedError",
+      message: "Invalid admin token",
+      timestamp: new Date().toISOString(),
+      reason: "Invalid admin token",
+    });
+  }
+
+  const body = decodeWire(PriceOverrideBody, request.body ?? {});
+  if (Either.isLeft(body)) {
+    return sendError(reply, body.left);
+  }
+
+  const { symbol } = request.params;
+  const { centsPerUnit } = body.right;
+  const result = await runWorkflow(setPriceOverride(symbol, centsPerUnit));
+
+  if (!result.ok) {
+    return sendError(reply, result.error);
+  }
+
+  return send(reply, PriceOverrideResponse, { ok: true, assetSymbol: symbol.toUpperCase(), centsPerUnit });
 });
 
 // ============================================
@@ -700,24 +1630,42 @@ try {
 ║                                                               ║
 ║   Session Management:                                         ║
 ║     GET  /credits/balance → Current credit balance            ║
+║     GET  /credits/entitlements → Unlocked articles            ║
 ║     POST /pay/verify      → Verify payment, get session       ║
+║     GET  /pay/verify/:id  → Async verification status         ║
+║     POST /sessions/recover → Wallet-signed session recovery   ║
+║     GET  /sessions/current → Session state and its receipts   ║
+║     DELETE /sessions/current → Revoke the session             ║
+║     POST /sessions/current/rotate → New token, same credits   ║
+║     POST /sessions/merge  → Fold another session into this    ║
+║                                                               ║
+║   Auth (X-Api-Key header):                                    ║
+║     POST /auth/register   → Create user, get API key          ║
+║     POST /auth/keys       → Issue another API key             ║
+║     GET  /auth/me         → Current user                      ║
+║     GET  /auth/me/receipts → Receipts paid by your wallet     ║
+║     GET  /auth/siwe/nonce → Nonce for Sign-In with Ethereum   ║
+║     POST /auth/siwe/verify → Signed message → API key         ║
 ║                                                               ║
-║   Policy Management:                                          ║
+║   Policy Management (X-Api-Key):                              ║
 ║     GET  /policy          → Get spend policy                  ║
 ║     POST /policy          → Set spend policy                  ║
 ║     POST /policy/check    → Check if payment allowed          ║
 ║                                                               ║
-║   Agent Management:                                           ║
+║   Agent Management (X-Api-Key):                               ║
 ║     POST /agent/create    → Create agent token                ║
 ║     GET  /agent/list      → List agents                       ║
 ║                                                               ║
-║   Remittance:                                                 ║
+║   Remittance (X-Api-Key):                                     ║
 ║     POST /transfer/create → Create transfer challenge         ║
 ║     POST /transfer/verify → Verify transfer payment           ║
 ║     GET  /transfer/history→ Transfer history                  ║
 ║                                                               ║
+║   Admin (Bearer ADMIN_TOKEN):                                 ║
+║     PUT  /admin/prices/:symbol → Override an asset's rate     ║
+║                                                               ║
 ║   Authorization: Bearer <sessionTokenId|agentToken>           ║
-║   User ID: x-user-id header (default: demo-user)              ║
+║   User: X-Api-Key header (optional on paid routes)            ║
 ║                                                               ║
 ╚═══════════════════════════════════════════════════════════════╝
   `);
@@ -725,3 +1673,58 @@ try {
   server.log.error(err);
   process.exit(1);
 }
+
+// ============================================
+// Resume Async Verifications
+// ============================================
+
+// Jobs run detached, so a restart leaves unfinished ones behind
+const unfinished = await runWorkflow(listUnfinishedVerifications());
+if (!unfinished.ok) {
+  server.log.error({ error: unfinished.error }, "[verify-async] could not list unfinished jobs");
+} else if (unfinished.data.length > 0) {
+  server.log.info({ verificationIds: unfinished.data }, "[verify-async] resuming unfinished jobs");
+  for (const verificationId of unfinished.data) {
+    void runWorkflow(runVerification(verificationId));
+  }
+}
+
+// ============================================
+// Background Reorg Re-check
+// ============================================
+
+if (REORG_RECHECK_INTERVAL_MS > 0) {
+  setInterval(async () => {
+    const result = await runWorkflow(recheckRecentReceipts());
+    if (!result.ok) {
+      server.log.error({ error: result.error }, "[reorg] re-check failed");
+    } else {
+      if (result.data.reorged.length > 0) {
+        server.log.warn({ reorged: result.data.reorged }, "[reorg] receipts reorged, credits revoked");
+      }
+      if (result.data.remined.length > 0) {
+        server.log.info({ remined: result.data.remined }, "[reorg] receipts moved to the block they were re-mined in");
+      }
+    }
+  }, REORG_RECHECK_INTERVAL_MS).unref();
+}
+
+// ============================================
+// Background Payment Indexer
+// ============================================
+
+if (INDEXER_INTERVAL_MS > 0) {
+  let indexing = false;
+  setInterval(async () => {
+    // A slow pass must not overlap the next one
+    if (indexing) return;
+    indexing = true;
+    const result = await runWorkflow(indexPayments());
+    indexing = false;
+    if (!result.ok) {
+      server.log.error({ error: result.error }, "[indexer] scan failed");
+    } else if (result.data.credited.length > 0) {
+      server.log.info({ credited: result.data.credited }, "[indexer] payments credited");
+    }
+  }, INDEXER_INTERVAL_MS).unref();
+}
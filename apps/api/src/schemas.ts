@@ -0,0 +1,227 @@
+/**
+ * HTTP Schemas
+ *
+ * Request bodies and response envelopes of the API routes, built from
+ * the protocol schemas in @decagon/x402. Bodies are decoded with
+ * `decodeWire` before any workflow runs; every response is encoded
+ * with `encodeWire`, which also turns Money into its JSON form.
+ */
+
+import { Schema } from "effect";
+import {
+  AgentSchema,
+  ApiErrorSchema,
+  ArticleResponseSchema,
+  EntitlementSchema,
+  PaymentRequiredResponseSchema,
+  ReceiptSchema,
+  SessionCaveatSchema,
+  SessionTokenSchema,
+  SpendPolicyJsonSchema,
+  SpendPolicySchema,
+  UsdCentsSchema,
+  UserSchema,
+  VerifyRequestSchema,
+} from "@decagon/x402";
+
+// ============================================
+// Request Bodies
+// ============================================
+
+/** POST /auth/register */
+export const RegisterBody = Schema.Struct({
+  name: Schema.optional(Schema.NonEmptyString),
+});
+
+/** POST /auth/siwe/verify */
+export const SiweVerifyBody = Schema.Struct({
+  message: Schema.NonEmptyString,
+  signature: Schema.NonEmptyString,
+});
+
+/** POST /sessions/recover */
+export const RecoverSessionsBody = Schema.extend(
+  SiweVerifyBody,
+  Schema.Struct({
+    merge: Schema.optional(Schema.Boolean),
+  })
+);
+
+/** POST /sessions/merge: the session to fold into the Bearer one */
+export const MergeSessionsBody = Schema.Struct({
+  sourceSessionToken: Schema.NonEmptyString,
+});
+
+/** POST /pay/verify and /transfer/verify */
+export const VerifyBody = VerifyRequestSchema;
+
+/** POST /policy; omitted limits fall back to the defaults */
+export const SetPolicyBody = Schema.Struct({
+  policy: Schema.optional(Schema.partial(SpendPolicyJsonSchema)),
+});
+
+/** POST /policy/check */
+export const PolicyCheckBody = Schema.Struct({
+  amountCents: Schema.optional(Schema.NonNegativeInt),
+  path: Schema.optional(Schema.String),
+});
+
+/** POST /agent/create */
+export const CreateAgentBody = Schema.Struct({
+  name: Schema.optional(Schema.NonEmptyString),
+  policy: Schema.optional(Schema.partial(SpendPolicyJsonSchema)),
+});
+
+/** POST /transfer/create */
+export const CreateTransferBody = Schema.Struct({
+  recipientAddress: Schema.NonEmptyString,
+  amountCents: Schema.optional(Schema.Int.pipe(Schema.positive())),
+  note: Schema.optional(Schema.String),
+  senderAddress: Schema.optional(Schema.String),
+});
+
+/** PUT /admin/prices/:symbol; null releases the override */
+export const PriceOverrideBody = Schema.Struct({
+  centsPerUnit: Schema.NullOr(Schema.Number.pipe(Schema.positive())),
+});
+
+// ============================================
+// Responses
+// ============================================
+
+export const HealthResponse = Schema.Struct({
+  ok: Schema.Boolean,
+  timestamp: Schema.String,
+});
+
+/** 402 for a session that ran short: the shortfall plus a top-up challenge */
+export const InsufficientCreditsResponse = Schema.extend(
+  PaymentRequiredResponseSchema,
+  Schema.Struct({
+    required: Schema.Int,
+    available: Schema.Int,
+  })
+);
+
+export const ArticleListResponse = Schema.Struct({
+  articles: Schema.Array(ArticleResponseSchema),
+});
+
+export const BalanceResponse = Schema.Struct({
+  credits: Schema.Int,
+  expiresAt: Schema.String,
+});
+
+export const EntitlementsResponse = Schema.Struct({
+  entitlements: Schema.Array(EntitlementSchema),
+});
+
+/** 200 from /pay/verify and /transfer/verify */
+export const VerifiedResponse = Schema.Struct({
+  success: Schema.Literal(true),
+  receipt: ReceiptSchema,
+  sessionToken: SessionTokenSchema,
+  message: Schema.String,
+});
+
+/** 201 from /auth/register; the API key is only shown once */
+export const RegisteredResponse = Schema.Struct({
+  user: UserSchema,
+  apiKey: Schema.String,
+});
+
+export const ApiKeyResponse = Schema.Struct({
+  apiKey: Schema.String,
+});
+
+export const MeResponse = Schema.Struct({
+  user: UserSchema,
+});
+
+export const SiweNonceResponse = Schema.Struct({
+  nonce: Schema.String,
+  issuedAt: Schema.String,
+  expiresAt: Schema.String,
+});
+
+/** Receipts paid from the signed-in wallet */
+export const UserReceiptsResponse = Schema.Struct({
+  receipts: Schema.Array(ReceiptSchema),
+});
+
+export const RecoveredSessionsResponse = Schema.Struct({
+  payerAddress: Schema.String,
+  sessions: Schema.Array(SessionTokenSchema),
+});
+
+/** GET /sessions/current */
+export const SessionDetailsResponse = Schema.Struct({
+  session: SessionTokenSchema,
+  caveats: Schema.Array(SessionCaveatSchema),
+  entitlements: Schema.Array(EntitlementSchema),
+  receipts: Schema.Array(ReceiptSchema),
+});
+
+/** A session handed back under its (possibly new) token */
+export const SessionResponse = Schema.Struct({
+  sessionToken: SessionTokenSchema,
+});
+
+export const SessionRevokedResponse = Schema.Struct({
+  ok: Schema.Literal(true),
+  revoked: Schema.Literal(true),
+});
+
+export const PolicyResponse = Schema.Struct({
+  ok: Schema.optional(Schema.Literal(true)),
+  userId: Schema.String,
+  policy: SpendPolicySchema,
+});
+
+export const PolicyCheckResponse = Schema.Struct({
+  allowed: Schema.Boolean,
+  needsConfirm: Schema.optional(Schema.Boolean),
+  subjectType: Schema.optional(Schema.Literal("user", "agent")),
+  subjectId: Schema.optional(Schema.String),
+  error: Schema.optional(ApiErrorSchema),
+  policy: SpendPolicySchema,
+  currentDailySpend: UsdCentsSchema,
+});
+
+export const CreatedAgentResponse = Schema.Struct({
+  ok: Schema.Literal(true),
+  agentId: Schema.String,
+  agentToken: Schema.String,
+  name: Schema.String,
+  policy: SpendPolicySchema,
+  curl: Schema.String,
+});
+
+/** Agents as listed: the token is only shown as a preview */
+export const AgentListResponse = Schema.Struct({
+  userId: Schema.String,
+  agents: Schema.Array(
+    Schema.Struct({
+      ...AgentSchema.omit("agentToken", "userId").fields,
+      tokenPreview: Schema.String,
+    })
+  ),
+});
+
+export const TransferChallengeResponse = Schema.extend(
+  PaymentRequiredResponseSchema.omit("preview"),
+  Schema.Struct({
+    recipientAddress: Schema.String,
+    note: Schema.optional(Schema.String),
+  })
+);
+
+export const TransferHistoryResponse = Schema.Struct({
+  transfers: Schema.Array(ReceiptSchema),
+});
+
+export const PriceOverrideResponse = Schema.Struct({
+  ok: Schema.Literal(true),
+  assetSymbol: Schema.String,
+  centsPerUnit: Schema.NullOr(Schema.Number),
+});
@@ -4,29 +4,68 @@
  * Provides persistent storage for:
  * - Receipts
  * - Sessions (credits)
+ * - Entitlements (resources a session has unlocked)
  * - Policies
  * - Agents
+ * - Users and their API keys (hashed)
  * - Usage (daily spend tracking)
- * 
- * Challenges remain in-memory (short-lived).
+ * - Challenges (so a restart between 402 and verify doesn't strand a payment)
+ * - Used transactions (double-spend registry)
+ * - Verification jobs (async verify progress)
+ * - Deposit addresses (per-challenge derivation index → address)
+ * - Settlements (transfer authorizations the server submitted)
+ * - Block cursors (where chain scanners resume after a restart)
+ *
+ * LiveUnitOfWork wraps multi-store writes in a single SQLite transaction.
  */
 
 import Database from "better-sqlite3";
-import { Layer, Effect } from "effect";
+import { Layer, Effect, Exit, Cause, FiberId, Option, Runtime } from "effect";
 import {
   ReceiptsStore,
+  ChallengesStore,
   PolicyStore,
   AgentStore,
+  UserStore,
+  AuthNonceStore,
   UsageStore,
+  UsedTransactionsStore,
+  UnitOfWork,
+  VerificationJobsStore,
+  DepositAddressStore,
+  SettlementsStore,
+  BlockCursorStore,
+  amountOf,
+  hashApiKey,
+  API_KEY_PREFIX,
+  type DepositAddress,
+  type Settlement,
+  type ReceiptLink,
+  type StoredVerificationJob,
 } from "@decagon/core";
 import type {
+  PaymentChallenge,
   Receipt,
   SessionToken,
+  Entitlement,
+  VerificationStatus,
   SpendPolicy,
   Agent,
+  User,
   ApiError,
+  ChainPaymentTerms,
+  Money,
+  CreditBudget,
+} from "@decagon/x402";
+import {
+  DEFAULT_SPEND_POLICY,
+  usd,
+  toCents,
+  encodeMoney,
+  decodeMoney,
+  moneyReplacer,
+  moneyReviver,
 } from "@decagon/x402";
-import { DEFAULT_SPEND_POLICY } from "@decagon/x402";
 import path from "path";
 import fs from "fs";
 
@@ -67,6 +106,16 @@ export const closeDb = (): void => {
   }
 };
 
+/**
+ * Add a column to an existing table if it predates the column
+ */
+const ensureColumn = (db: Database.Database, table: string, column: string, type: string): void => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+};
+
 const initTables = (db: Database.Database): void => {
   console.log("[SQLite] Initializing tables...");
 
@@ -88,9 +137,24 @@ const initTables = (db: Database.Database): void => {
       block_number INTEGER,
       amount_native TEXT,
       payer_address TEXT,
-      payee_address TEXT
+      payee_address TEXT,
+      block_hash TEXT,
+      session_token_id TEXT,
+      chain_id INTEGER,
+      amount_asset_json TEXT,
+      signature TEXT,
+      user_id TEXT,
+      opens_session INTEGER NOT NULL DEFAULT 0
     )
   `);
+  // Columns added after the first release
+  ensureColumn(db, "receipts", "block_hash", "TEXT");
+  ensureColumn(db, "receipts", "session_token_id", "TEXT");
+  ensureColumn(db, "receipts", "chain_id", "INTEGER");
+  ensureColumn(db, "receipts", "amount_asset_json", "TEXT");
+  ensureColumn(db, "receipts", "signature", "TEXT");
+  ensureColumn(db, "receipts", "user_id", "TEXT");
+  ensureColumn(db, "receipts", "opens_session", "INTEGER NOT NULL DEFAULT 0");
 
   // Sessions table
   db.exec(`
@@ -104,6 +168,156 @@ const initTables = (db: Database.Database): void => {
     )
   `);
 
+  // Entitlements table (one row per session + resource)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS entitlements (
+      token_id TEXT NOT NULL,
+      resource_id TEXT NOT NULL,
+      credits_spent INTEGER NOT NULL,
+      granted_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      PRIMARY KEY (token_id, resource_id)
+    )
+  `);
+
+  // Ids of revoked sessions, which may never be saved again
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS revoked_sessions (
+      token_id TEXT PRIMARY KEY,
+      revoked_at TEXT NOT NULL
+    )
+  `);
+
+  // Sessions issued without handing anyone a token (credited by the indexer)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS unclaimed_sessions (
+      token_id TEXT PRIMARY KEY
+    )
+  `);
+
+  // Credits spent against each session token budget (a credits caveat)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS session_budgets (
+      budget_key TEXT PRIMARY KEY,
+      token_id TEXT NOT NULL,
+      spent INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+
+  // Challenges table (matches PaymentChallenge type from x402).
+  // Status may only move pending → paid or pending → expired; the trigger
+  // rejects any other transition even if a caller skips the WHERE guard.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS challenges (
+      challenge_id TEXT PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      amount_required INTEGER NOT NULL,
+      currency TEXT NOT NULL,
+      chain TEXT NOT NULL,
+      description TEXT NOT NULL,
+      pay_to TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      credits_offered INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'expired')),
+      chain_id INTEGER NOT NULL,
+      asset_type TEXT NOT NULL,
+      asset_symbol TEXT NOT NULL,
+      amount_wei TEXT NOT NULL,
+      payee_address TEXT NOT NULL,
+      explorer_tx_base TEXT NOT NULL,
+      payer_address TEXT,
+      payment_reference TEXT,
+      accepted_chains_json TEXT,
+      deposit_index INTEGER
+    )
+  `);
+  ensureColumn(db, "challenges", "payer_address", "TEXT");
+  ensureColumn(db, "challenges", "payment_reference", "TEXT");
+  ensureColumn(db, "challenges", "accepted_chains_json", "TEXT");
+  ensureColumn(db, "challenges", "deposit_index", "INTEGER");
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS trg_challenges_status_transition
+    BEFORE UPDATE OF status ON challenges
+    WHEN OLD.status <> 'pending' AND NEW.status <> OLD.status
+    BEGIN
+      SELECT RAISE(ABORT, 'invalid challenge status transition');
+    END
+  `);
+
+  // Used transactions (double-spend registry). The primary key is what
+  // makes claiming a transaction atomic across requests and instances.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS used_transactions (
+      transaction_ref TEXT PRIMARY KEY,
+      challenge_id TEXT NOT NULL,
+      used_at TEXT NOT NULL
+    )
+  `);
+
+  // Verification jobs (async verify). Receipt, session and error are
+  // stored as JSON snapshots of the terminal outcome.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS verification_jobs (
+      verification_id TEXT PRIMARY KEY,
+      challenge_id TEXT NOT NULL,
+      transaction_ref TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('queued', 'awaiting_confirmations', 'confirmed', 'failed')),
+      confirmations INTEGER,
+      required_confirmations INTEGER,
+      receipt_json TEXT,
+      session_json TEXT,
+      error_json TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+  // The verify request, to resume after a restart, and the job's access token hash
+  ensureColumn(db, "verification_jobs", "request_json", "TEXT");
+  ensureColumn(db, "verification_jobs", "access_token_hash", "TEXT");
+  // Jobs now keep session and agent ids only: drop bearer tokens older jobs kept
+  db.exec(`
+    UPDATE verification_jobs
+    SET request_json = json_remove(request_json, '$.existingSessionTokenId', '$.agentToken')
+    WHERE json_extract(request_json, '$.existingSessionTokenId') IS NOT NULL
+       OR json_extract(request_json, '$.agentToken') IS NOT NULL
+  `);
+  db.exec(`
+    UPDATE verification_jobs SET session_json = NULL
+    WHERE json_extract(session_json, '$.tokenId') LIKE 'dst1.%'
+  `);
+
+  // Deposit addresses: each derivation index and address belongs to one challenge
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS deposit_addresses (
+      challenge_id TEXT PRIMARY KEY,
+      address TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      derivation_index INTEGER NOT NULL UNIQUE,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  // Settlements: each transfer authorization is submitted once, for one challenge
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS settlements (
+      authorization_key TEXT PRIMARY KEY,
+      challenge_id TEXT NOT NULL,
+      chain_id INTEGER NOT NULL,
+      tx_hash TEXT NOT NULL,
+      settled_at TEXT NOT NULL
+    )
+  `);
+
+  // Block cursors: last block each chain scanner fully processed
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS block_cursors (
+      name TEXT PRIMARY KEY,
+      block_number INTEGER NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
   // Policies table
   db.exec(`
     CREATE TABLE IF NOT EXISTS policies (
@@ -135,6 +349,32 @@ const initTables = (db: Database.Database): void => {
     )
   `);
 
+  // Users and API keys (only key hashes are stored)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      user_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      wallet_address TEXT
+    )
+  `);
+  ensureColumn(db, "users", "wallet_address", "TEXT");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      key_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  // Single-use Sign-In with Ethereum nonces
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS auth_nonces (
+      nonce TEXT PRIMARY KEY,
+      expires_at TEXT NOT NULL
+    )
+  `);
+
   // Usage table (daily spend tracking)
   db.exec(`
     CREATE TABLE IF NOT EXISTS usage (
@@ -151,9 +391,15 @@ const initTables = (db: Database.Database): void => {
     CREATE INDEX IF NOT EXISTS idx_receipts_challenge ON receipts(challenge_id);
     CREATE UNIQUE INDEX IF NOT EXISTS idx_receipts_tx_hash ON receipts(tx_hash) WHERE tx_hash IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_receipts_tx_ref ON receipts(transaction_ref);
+    CREATE INDEX IF NOT EXISTS idx_challenges_resource ON challenges(resource_id);
+    CREATE INDEX IF NOT EXISTS idx_challenges_expires ON challenges(expires_at);
     CREATE INDEX IF NOT EXISTS idx_agents_user ON agents(user_id);
     CREATE INDEX IF NOT EXISTS idx_agents_token ON agents(agent_token);
     CREATE INDEX IF NOT EXISTS idx_usage_subject_day ON usage(subject_id, day_key);
+    CREATE INDEX IF NOT EXISTS idx_receipts_payer ON receipts(lower(payer_address));
+    CREATE INDEX IF NOT EXISTS idx_receipts_session ON receipts(session_token_id);
+    CREATE INDEX IF NOT EXISTS idx_receipts_user ON receipts(user_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wallet ON users(wallet_address) WHERE wallet_address IS NOT NULL;
   `);
 
   console.log("[SQLite] Tables initialized successfully");
@@ -177,6 +423,43 @@ const internalError = (message: string): ApiError => ({
   timestamp: new Date().toISOString(),
 });
 
+const budgetExhausted = (limit: number, spent: number, amount: number): ApiError => ({
+  _tag: "SessionCaveatError",
+  message: `Session token budget exhausted: ${spent} of ${limit} credits spent, need ${amount}`,
+  timestamp: new Date().toISOString(),
+  caveat: "credits",
+  reason: `Token may spend ${Math.max(0, limit - spent)} more credits`,
+});
+
+const getSessionRow = (db: Database.Database, tokenId: string): SessionToken => {
+  const row = db.prepare("SELECT * FROM sessions WHERE token_id = ?").get(tokenId) as DbRow | undefined;
+  if (!row) {
+    throw notFoundError("Session", tokenId);
+  }
+  return rowToSession(row);
+};
+
+/** Remove a session and its entitlements, and keep its id from being reused */
+const dropSession = (db: Database.Database, tokenId: string): void => {
+  db.prepare("DELETE FROM sessions WHERE token_id = ?").run(tokenId);
+  db.prepare("DELETE FROM entitlements WHERE token_id = ?").run(tokenId);
+  db.prepare("DELETE FROM unclaimed_sessions WHERE token_id = ?").run(tokenId);
+  db.prepare("INSERT OR REPLACE INTO revoked_sessions (token_id, revoked_at) VALUES (?, ?)")
+    .run(tokenId, new Date().toISOString());
+};
+
+/** Point the receipts that funded one session at another */
+const repointReceipts = (db: Database.Database, fromTokenId: string, toTokenId: string): void => {
+  db.prepare("UPDATE receipts SET session_token_id = ? WHERE session_token_id = ?").run(toTokenId, fromTokenId);
+};
+
+const budgetSpent = (db: Database.Database, budgetKey: string): number => {
+  const row = db.prepare("SELECT spent FROM session_budgets WHERE budget_key = ?").get(budgetKey) as
+    | { spent: number }
+    | undefined;
+  return row?.spent ?? 0;
+};
+
 // Type for DB rows
 interface DbRow {
   [key: string]: unknown;
@@ -189,14 +472,14 @@ interface DbRow {
 export const LiveReceiptsStore = Layer.succeed(
   ReceiptsStore,
   ReceiptsStore.of({
-    saveReceipt: (receipt: Receipt) =>
+    saveReceipt: (receipt: Receipt, link: ReceiptLink) =>
       Effect.try({
         try: () => {
           const db = getDb();
           const stmt = db.prepare(`
             INSERT OR REPLACE INTO receipts 
-            (receipt_id, challenge_id, resource_id, amount_paid, currency, transaction_ref, verified_at, expires_at, credits_purchased, status, tx_hash, explorer_url, block_number, amount_native, payer_address, payee_address)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            (receipt_id, challenge_id, resource_id, amount_paid, currency, transaction_ref, verified_at, expires_at, credits_purchased, status, tx_hash, explorer_url, block_number, amount_native, payer_address, payee_address, block_hash, session_token_id, chain_id, amount_asset_json, signature, user_id, opens_session)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `);
           stmt.run(
             receipt.receiptId,
@@ -214,7 +497,14 @@ export const LiveReceiptsStore = Layer.succeed(
             receipt.blockNumber ?? null,
             receipt.amountNative ?? null,
             receipt.payerAddress ?? null,
-            receipt.payeeAddress ?? null
+            receipt.payeeAddress ?? null,
+            receipt.blockHash ?? null,
+            link.sessionTokenId,
+            receipt.chainId ?? null,
+            receipt.amountAsset ? JSON.stringify(encodeMoney(receipt.amountAsset)) : null,
+            receipt.signature ?? null,
+            link.userId ?? null,
+            link.opensSession ? 1 : 0
           );
           return receipt;
         },
@@ -238,10 +528,24 @@ export const LiveReceiptsStore = Layer.succeed(
         },
       }),
 
+    getReceiptSession: (receiptId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT session_token_id FROM receipts WHERE receipt_id = ?");
+          const row = stmt.get(receiptId) as DbRow | undefined;
+          return (row?.["session_token_id"] as string | null | undefined) ?? null;
+        },
+        catch: (e) => internalError(`Failed to get receipt session: ${e}`),
+      }),
+
     saveSession: (session: SessionToken) =>
       Effect.try({
         try: () => {
           const db = getDb();
+          if (db.prepare("SELECT 1 FROM revoked_sessions WHERE token_id = ?").get(session.tokenId)) {
+            throw notFoundError("Session", session.tokenId);
+          }
           const stmt = db.prepare(`
             INSERT OR REPLACE INTO sessions 
             (token_id, credits, currency, created_at, expires_at, access_count)
@@ -257,7 +561,10 @@ export const LiveReceiptsStore = Layer.succeed(
           );
           return session;
         },
-        catch: (e) => internalError(`Failed to save session: ${e}`),
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to save session: ${e}`);
+        },
       }),
 
     getSession: (tokenId: string) =>
@@ -277,35 +584,52 @@ export const LiveReceiptsStore = Layer.succeed(
         },
       }),
 
-    consumeCredits: (tokenId: string, amount: number) =>
+    consumeCredits: (tokenId: string, amount: number, budgets: readonly CreditBudget[] = []) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const updateStmt = db.prepare(`
-            UPDATE sessions 
-            SET credits = credits - ?, access_count = access_count + 1 
-            WHERE token_id = ? AND credits >= ?
-          `);
-          const result = updateStmt.run(amount, tokenId, amount);
-          if (result.changes === 0) {
-            // Check if session exists
-            const checkStmt = db.prepare("SELECT credits FROM sessions WHERE token_id = ?");
-            const row = checkStmt.get(tokenId) as { credits: number } | undefined;
-            if (!row) {
-              throw notFoundError("Session", tokenId);
+          // Budgets and the session are charged together or not at all
+          return db.transaction(() => {
+            for (const budget of budgets) {
+              const spent = budgetSpent(db, budget.key);
+              if (spent + amount > budget.limit) {
+                throw budgetExhausted(budget.limit, spent, amount);
+              }
             }
-            throw {
-              _tag: "InsufficientCreditsError",
-              message: `Insufficient credits. Have: ${row.credits}, need: ${amount}`,
-              timestamp: new Date().toISOString(),
-              required: amount,
-              available: row.credits,
-            } as ApiError;
-          }
-          // Return updated session
-          const stmt = db.prepare("SELECT * FROM sessions WHERE token_id = ?");
-          const row = stmt.get(tokenId) as DbRow;
-          return rowToSession(row);
+            const updateStmt = db.prepare(`
+              UPDATE sessions 
+              SET credits = credits - ?, access_count = access_count + 1 
+              WHERE token_id = ? AND credits >= ?
+            `);
+            const result = updateStmt.run(amount, tokenId, amount);
+            if (result.changes === 0) {
+              // Check if session exists
+              const checkStmt = db.prepare("SELECT credits, currency FROM sessions WHERE token_id = ?");
+              const row = checkStmt.get(tokenId) as { credits: number; currency: string } | undefined;
+              if (!row) {
+                throw notFoundError("Session", tokenId);
+              }
+              throw {
+                _tag: "InsufficientCreditsError",
+                message: `Insufficient credits. Have: ${row.credits}, need: ${amount}`,
+                timestamp: new Date().toISOString(),
+                required: amount,
+                available: row.credits,
+                currency: row.currency,
+              } as ApiError;
+            }
+            const budgetStmt = db.prepare(`
+              INSERT INTO session_budgets (budget_key, token_id, spent) VALUES (?, ?, ?)
+              ON CONFLICT (budget_key) DO UPDATE SET spent = spent + excluded.spent
+            `);
+            for (const budget of budgets) {
+              budgetStmt.run(budget.key, tokenId, amount);
+            }
+            // Return updated session
+            const stmt = db.prepare("SELECT * FROM sessions WHERE token_id = ?");
+            const row = stmt.get(tokenId) as DbRow;
+            return rowToSession(row);
+          })();
         },
         catch: (e) => {
           if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
@@ -313,6 +637,12 @@ export const LiveReceiptsStore = Layer.succeed(
         },
       }),
 
+    getBudgetSpent: (budgetKey: string) =>
+      Effect.try({
+        try: () => budgetSpent(getDb(), budgetKey),
+        catch: (e) => internalError(`Failed to get budget: ${e}`),
+      }),
+
     addCredits: (tokenId: string, amount: number) =>
       Effect.try({
         try: () => {
@@ -368,185 +698,595 @@ export const LiveReceiptsStore = Layer.succeed(
         },
         catch: (e) => internalError(`Failed to look up receipt by txRef: ${e}`),
       }),
-  })
-);
 
-// ============================================
-// Live Policy Store
-// ============================================
-
-export const LivePolicyStore = Layer.succeed(
-  PolicyStore,
-  PolicyStore.of({
-    getUserPolicy: (userId: string) =>
+    grantEntitlement: (entitlement: Entitlement) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("SELECT * FROM policies WHERE user_id = ?");
-          const row = stmt.get(userId) as DbRow | undefined;
-          if (!row) {
-            return DEFAULT_SPEND_POLICY;
-          }
-          return rowToPolicy(row);
+          const stmt = db.prepare(`
+            INSERT OR REPLACE INTO entitlements
+            (token_id, resource_id, credits_spent, granted_at, expires_at)
+            VALUES (?, ?, ?, ?, ?)
+          `);
+          stmt.run(
+            entitlement.tokenId,
+            entitlement.resourceId,
+            entitlement.creditsSpent,
+            entitlement.grantedAt,
+            entitlement.expiresAt
+          );
+          return entitlement;
         },
-        catch: (e) => internalError(`Failed to get policy: ${e}`),
+        catch: (e) => internalError(`Failed to save entitlement: ${e}`),
       }),
 
-    setUserPolicy: (userId: string, policy: SpendPolicy) =>
+    getEntitlement: (tokenId: string, resourceId: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare(`
-            INSERT OR REPLACE INTO policies 
-            (user_id, max_per_action_cents, daily_cap_cents, auto_approve_under_cents, require_confirm_above_cents, allowed_origins, allowed_paths)
-            VALUES (?, ?, ?, ?, ?, ?, ?)
-          `);
-          stmt.run(
-            userId,
-            policy.maxPerActionCents,
-            policy.dailyCapCents,
-            policy.autoApproveUnderCents,
-            policy.requireConfirmAboveCents,
-            JSON.stringify(policy.allowedOrigins),
-            JSON.stringify(policy.allowedPaths)
-          );
-          return policy;
+          const stmt = db.prepare("SELECT * FROM entitlements WHERE token_id = ? AND resource_id = ?");
+          const row = stmt.get(tokenId, resourceId) as DbRow | undefined;
+          return row ? rowToEntitlement(row) : null;
         },
-        catch: (e) => internalError(`Failed to set policy: ${e}`),
+        catch: (e) => internalError(`Failed to get entitlement: ${e}`),
       }),
 
-    hasUserPolicy: (userId: string) =>
+    listEntitlements: (tokenId: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("SELECT 1 FROM policies WHERE user_id = ? LIMIT 1");
-          const row = stmt.get(userId);
-          return row !== undefined;
+          const stmt = db.prepare("SELECT * FROM entitlements WHERE token_id = ? ORDER BY granted_at DESC");
+          const rows = stmt.all(tokenId) as DbRow[];
+          return rows.map(rowToEntitlement);
         },
-        catch: (e) => internalError(`Failed to check policy: ${e}`),
+        catch: (e) => internalError(`Failed to list entitlements: ${e}`),
       }),
-  })
-);
-
-// ============================================
-// Live Agent Store
-// ============================================
 
-export const LiveAgentStore = Layer.succeed(
-  AgentStore,
-  AgentStore.of({
-    createAgent: (userId: string, name: string, policy: SpendPolicy) =>
+    listReceiptsByPayer: (payerAddress: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const agentId = `agent_${crypto.randomUUID()}`;
-          const agentToken = `agt_${crypto.randomUUID().replace(/-/g, "")}`;
-          const now = new Date().toISOString();
-
-          const stmt = db.prepare(`
-            INSERT INTO agents 
-            (agent_id, agent_token, user_id, name, created_at, max_per_action_cents, daily_cap_cents, auto_approve_under_cents, require_confirm_above_cents, allowed_origins, allowed_paths)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `);
-          stmt.run(
-            agentId,
-            agentToken,
-            userId,
-            name,
-            now,
-            policy.maxPerActionCents,
-            policy.dailyCapCents,
-            policy.autoApproveUnderCents,
-            policy.requireConfirmAboveCents,
-            JSON.stringify(policy.allowedOrigins),
-            JSON.stringify(policy.allowedPaths)
-          );
-
-          return {
-            agentId,
-            agentToken,
-            userId,
-            name,
-            policy,
-            createdAt: now,
-          } as Agent;
+          const rows = db.prepare(`
+            SELECT * FROM receipts WHERE lower(payer_address) = lower(?) ORDER BY verified_at DESC
+          `).all(payerAddress) as DbRow[];
+          return rows.map(rowToReceipt);
         },
-        catch: (e) => internalError(`Failed to create agent: ${e}`),
+        catch: (e) => internalError(`Failed to list receipts by payer: ${e}`),
       }),
 
-    getAgentByToken: (agentToken: string) =>
+    listSessionsOpenedBy: (payerAddress: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("SELECT * FROM agents WHERE agent_token = ?");
-          const row = stmt.get(agentToken) as DbRow | undefined;
-          if (!row) {
-            throw notFoundError("Agent", agentToken);
-          }
-          return rowToAgent(row);
-        },
-        catch: (e) => {
-          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
-          return internalError(`Failed to get agent: ${e}`);
+          const rows = db.prepare(`
+            SELECT DISTINCT session_token_id FROM receipts
+            WHERE lower(payer_address) = lower(?) AND opens_session = 1 AND session_token_id IS NOT NULL
+          `).all(payerAddress) as DbRow[];
+          return rows.map((row) => row["session_token_id"] as string);
         },
+        catch: (e) => internalError(`Failed to list sessions opened by payer: ${e}`),
       }),
 
-    getAgentById: (agentId: string) =>
+    listReceiptsByUser: (userId: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("SELECT * FROM agents WHERE agent_id = ?");
-          const row = stmt.get(agentId) as DbRow | undefined;
-          if (!row) {
-            throw notFoundError("Agent", agentId);
-          }
-          return rowToAgent(row);
+          const rows = db.prepare(`
+            SELECT * FROM receipts WHERE user_id = ? ORDER BY verified_at DESC
+          `).all(userId) as DbRow[];
+          return rows.map(rowToReceipt);
         },
-        catch: (e) => {
-          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
-          return internalError(`Failed to get agent: ${e}`);
+        catch: (e) => internalError(`Failed to list receipts by user: ${e}`),
+      }),
+
+    listReceiptsBySession: (tokenId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const rows = db.prepare(`
+            SELECT * FROM receipts WHERE session_token_id = ? ORDER BY verified_at DESC
+          `).all(tokenId) as DbRow[];
+          return rows.map(rowToReceipt);
         },
+        catch: (e) => internalError(`Failed to list receipts by session: ${e}`),
       }),
 
-    listAgentsByUser: (userId: string) =>
+    listReceiptsForRecheck: (since: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("SELECT * FROM agents WHERE user_id = ? ORDER BY created_at DESC");
-          const rows = stmt.all(userId) as DbRow[];
-          return rows.map(rowToAgent);
+          const stmt = db.prepare(`
+            SELECT * FROM receipts
+            WHERE status = 'confirmed' AND block_hash IS NOT NULL AND verified_at >= ?
+            ORDER BY verified_at ASC
+          `);
+          const rows = stmt.all(since) as DbRow[];
+          return rows.map(rowToReceipt);
         },
-        catch: (e) => internalError(`Failed to list agents: ${e}`),
+        catch: (e) => internalError(`Failed to list receipts for re-check: ${e}`),
       }),
 
-    updateLastUsed: (agentId: string) =>
+    updateReceiptBlock: (receipt: Receipt) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const now = new Date().toISOString();
-          const updateStmt = db.prepare("UPDATE agents SET last_used_at = ? WHERE agent_id = ?");
-          const result = updateStmt.run(now, agentId);
+          // Guarded like markReceiptReorged: a reorged receipt stays reorged
+          const result = db.prepare(`
+            UPDATE receipts SET block_number = ?, block_hash = ?, signature = ?
+            WHERE receipt_id = ? AND status = 'confirmed'
+          `).run(receipt.blockNumber ?? null, receipt.blockHash ?? null, receipt.signature ?? null, receipt.receiptId);
+          const row = db.prepare("SELECT * FROM receipts WHERE receipt_id = ?").get(receipt.receiptId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Receipt", receipt.receiptId);
+          }
           if (result.changes === 0) {
-            throw notFoundError("Agent", agentId);
+            throw {
+              _tag: "InvalidPaymentError",
+              message: `Invalid payment: Receipt already ${row["status"]}`,
+              timestamp: new Date().toISOString(),
+              reason: `Receipt already ${row["status"]}`,
+              challengeId: row["challenge_id"],
+            } as ApiError;
           }
-          const stmt = db.prepare("SELECT * FROM agents WHERE agent_id = ?");
-          const row = stmt.get(agentId) as DbRow;
-          return rowToAgent(row);
+          return rowToReceipt(row);
         },
         catch: (e) => {
           if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
-          return internalError(`Failed to update agent: ${e}`);
+          return internalError(`Failed to update receipt block: ${e}`);
         },
       }),
 
-    deleteAgent: (agentId: string) =>
+    markReceiptReorged: (receiptId: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
-          const stmt = db.prepare("DELETE FROM agents WHERE agent_id = ?");
-          const result = stmt.run(agentId);
+          // Guarded: only a confirmed receipt can become reorged
+          const updateStmt = db.prepare(`
+            UPDATE receipts SET status = 'reorged' WHERE receipt_id = ? AND status = 'confirmed'
+          `);
+          const result = updateStmt.run(receiptId);
+          const row = db.prepare("SELECT * FROM receipts WHERE receipt_id = ?").get(receiptId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Receipt", receiptId);
+          }
           if (result.changes === 0) {
-            throw notFoundError("Agent", agentId);
+            throw {
+              _tag: "InvalidPaymentError",
+              message: `Invalid payment: Receipt already ${row["status"]}`,
+              timestamp: new Date().toISOString(),
+              reason: `Receipt already ${row["status"]}`,
+              challengeId: row["challenge_id"],
+            } as ApiError;
+          }
+          return rowToReceipt(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to mark receipt reorged: ${e}`);
+        },
+      }),
+
+    revokeCredits: (tokenId: string, amount: number) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const updateStmt = db.prepare(`
+            UPDATE sessions SET credits = MAX(0, credits - ?) WHERE token_id = ?
+          `);
+          const result = updateStmt.run(amount, tokenId);
+          if (result.changes === 0) {
+            throw notFoundError("Session", tokenId);
+          }
+          const stmt = db.prepare("SELECT * FROM sessions WHERE token_id = ?");
+          const row = stmt.get(tokenId) as DbRow;
+          return rowToSession(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to revoke credits: ${e}`);
+        },
+      }),
+
+    revokeSession: (tokenId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          db.transaction(() => {
+            getSessionRow(db, tokenId);
+            dropSession(db, tokenId);
+          })();
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to revoke session: ${e}`);
+        },
+      }),
+
+    rotateSession: (tokenId: string, newTokenId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          return db.transaction(() => {
+            const rotated: SessionToken = { ...getSessionRow(db, tokenId), tokenId: newTokenId };
+            db.prepare(`
+              INSERT INTO sessions (token_id, credits, currency, created_at, expires_at, access_count)
+              VALUES (?, ?, ?, ?, ?, ?)
+            `).run(
+              rotated.tokenId,
+              rotated.credits,
+              rotated.currency,
+              rotated.createdAt,
+              rotated.expiresAt,
+              rotated.accessCount
+            );
+            db.prepare("UPDATE entitlements SET token_id = ? WHERE token_id = ?").run(newTokenId, tokenId);
+            repointReceipts(db, tokenId, newTokenId);
+            dropSession(db, tokenId);
+            return rotated;
+          })();
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to rotate session: ${e}`);
+        },
+      }),
+
+    mergeSessions: (targetTokenId: string, sourceTokenId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          return db.transaction(() => {
+            getSessionRow(db, targetTokenId);
+            const source = getSessionRow(db, sourceTokenId);
+            db.prepare(`
+              UPDATE sessions SET
+                credits = credits + ?,
+                access_count = access_count + ?,
+                created_at = MIN(created_at, ?),
+                expires_at = MAX(expires_at, ?)
+              WHERE token_id = ?
+            `).run(source.credits, source.accessCount, source.createdAt, source.expiresAt, targetTokenId);
+            db.prepare(`
+              INSERT INTO entitlements (token_id, resource_id, credits_spent, granted_at, expires_at)
+              SELECT ?, resource_id, credits_spent, granted_at, expires_at FROM entitlements WHERE token_id = ?
+              ON CONFLICT (token_id, resource_id) DO UPDATE SET
+                credits_spent = excluded.credits_spent,
+                granted_at = excluded.granted_at,
+                expires_at = excluded.expires_at
+              WHERE excluded.expires_at > entitlements.expires_at
+            `).run(targetTokenId, sourceTokenId);
+            repointReceipts(db, sourceTokenId, targetTokenId);
+            dropSession(db, sourceTokenId);
+            return getSessionRow(db, targetTokenId);
+          })();
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to merge sessions: ${e}`);
+        },
+      }),
+
+    markUnclaimed: (tokenId: string) =>
+      Effect.try({
+        try: () => {
+          getDb().prepare("INSERT OR IGNORE INTO unclaimed_sessions (token_id) VALUES (?)").run(tokenId);
+        },
+        catch: (e) => internalError(`Failed to mark session unclaimed: ${e}`),
+      }),
+
+    claimSession: (tokenId: string) =>
+      Effect.try({
+        try: () =>
+          getDb().prepare("DELETE FROM unclaimed_sessions WHERE token_id = ?").run(tokenId).changes === 1,
+        catch: (e) => internalError(`Failed to claim session: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Challenges Store
+// ============================================
+
+const invalidTransition = (challengeId: string, status: string): ApiError => ({
+  _tag: "InvalidPaymentError",
+  message: `Invalid payment: Challenge already ${status}`,
+  timestamp: new Date().toISOString(),
+  reason: `Challenge already ${status}`,
+  challengeId,
+});
+
+/**
+ * Move a pending challenge to a final status.
+ * The WHERE guard makes the transition atomic: only one caller can win.
+ */
+const transitionChallenge = (challengeId: string, to: "paid" | "expired"): PaymentChallenge => {
+  const db = getDb();
+  const result = db
+    .prepare("UPDATE challenges SET status = ? WHERE challenge_id = ? AND status = 'pending'")
+    .run(to, challengeId);
+  const row = db.prepare("SELECT * FROM challenges WHERE challenge_id = ?").get(challengeId) as DbRow | undefined;
+  if (!row) {
+    throw notFoundError("Challenge", challengeId);
+  }
+  if (result.changes === 0) {
+    throw invalidTransition(challengeId, row["status"] as string);
+  }
+  return rowToChallenge(row);
+};
+
+export const LiveChallengesStore = Layer.succeed(
+  ChallengesStore,
+  ChallengesStore.of({
+    save: (challenge: PaymentChallenge) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare(`
+            INSERT INTO challenges
+            (challenge_id, resource_id, amount_required, currency, chain, description, pay_to, expires_at, created_at, credits_offered, status, chain_id, asset_type, asset_symbol, amount_wei, payee_address, explorer_tx_base, payer_address, payment_reference, accepted_chains_json, deposit_index)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `);
+          stmt.run(
+            challenge.challengeId,
+            challenge.resourceId,
+            challenge.amountRequired,
+            challenge.currency,
+            challenge.chain,
+            challenge.description,
+            challenge.payTo,
+            challenge.expiresAt,
+            challenge.createdAt,
+            challenge.creditsOffered,
+            challenge.status,
+            challenge.chainId,
+            challenge.assetType,
+            challenge.assetSymbol,
+            challenge.amountWei,
+            challenge.payeeAddress,
+            challenge.explorerTxBase,
+            challenge.payerAddress ?? null,
+            challenge.paymentReference ?? null,
+            challenge.acceptedChains ? JSON.stringify(challenge.acceptedChains) : null,
+            challenge.depositIndex ?? null
+          );
+          return challenge;
+        },
+        catch: (e) => internalError(`Failed to save challenge: ${e}`),
+      }),
+
+    get: (challengeId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM challenges WHERE challenge_id = ?");
+          const row = stmt.get(challengeId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Challenge", challengeId);
+          }
+          return rowToChallenge(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to get challenge: ${e}`);
+        },
+      }),
+
+    markPaid: (challengeId: string) =>
+      Effect.try({
+        try: () => transitionChallenge(challengeId, "paid"),
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to mark challenge paid: ${e}`);
+        },
+      }),
+
+    markExpired: (challengeId: string) =>
+      Effect.try({
+        try: () => transitionChallenge(challengeId, "expired"),
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to mark challenge expired: ${e}`);
+        },
+      }),
+
+    exists: (challengeId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT 1 FROM challenges WHERE challenge_id = ? LIMIT 1");
+          return stmt.get(challengeId) !== undefined;
+        },
+        catch: (e) => internalError(`Failed to check challenge: ${e}`),
+      }),
+
+    listPending: (now: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM challenges WHERE status = 'pending' AND expires_at > ?");
+          return (stmt.all(now) as DbRow[]).map(rowToChallenge);
+        },
+        catch: (e) => internalError(`Failed to list pending challenges: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Policy Store
+// ============================================
+
+export const LivePolicyStore = Layer.succeed(
+  PolicyStore,
+  PolicyStore.of({
+    getUserPolicy: (userId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM policies WHERE user_id = ?");
+          const row = stmt.get(userId) as DbRow | undefined;
+          if (!row) {
+            return DEFAULT_SPEND_POLICY;
+          }
+          return rowToPolicy(row);
+        },
+        catch: (e) => internalError(`Failed to get policy: ${e}`),
+      }),
+
+    setUserPolicy: (userId: string, policy: SpendPolicy) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare(`
+            INSERT OR REPLACE INTO policies 
+            (user_id, max_per_action_cents, daily_cap_cents, auto_approve_under_cents, require_confirm_above_cents, allowed_origins, allowed_paths)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `);
+          stmt.run(
+            userId,
+            toCents(policy.maxPerAction),
+            toCents(policy.dailyCap),
+            toCents(policy.autoApproveUnder),
+            toCents(policy.requireConfirmAbove),
+            JSON.stringify(policy.allowedOrigins),
+            JSON.stringify(policy.allowedPaths)
+          );
+          return policy;
+        },
+        catch: (e) => internalError(`Failed to set policy: ${e}`),
+      }),
+
+    hasUserPolicy: (userId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT 1 FROM policies WHERE user_id = ? LIMIT 1");
+          const row = stmt.get(userId);
+          return row !== undefined;
+        },
+        catch: (e) => internalError(`Failed to check policy: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Agent Store
+// ============================================
+
+export const LiveAgentStore = Layer.succeed(
+  AgentStore,
+  AgentStore.of({
+    createAgent: (userId: string, name: string, policy: SpendPolicy) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const agentId = `agent_${crypto.randomUUID()}`;
+          const agentToken = `agt_${crypto.randomUUID().replace(/-/g, "")}`;
+          const now = new Date().toISOString();
+
+          const stmt = db.prepare(`
+            INSERT INTO agents 
+            (agent_id, agent_token, user_id, name, created_at, max_per_action_cents, daily_cap_cents, auto_approve_under_cents, require_confirm_above_cents, allowed_origins, allowed_paths)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `);
+          stmt.run(
+            agentId,
+            agentToken,
+            userId,
+            name,
+            now,
+            toCents(policy.maxPerAction),
+            toCents(policy.dailyCap),
+            toCents(policy.autoApproveUnder),
+            toCents(policy.requireConfirmAbove),
+            JSON.stringify(policy.allowedOrigins),
+            JSON.stringify(policy.allowedPaths)
+          );
+
+          return {
+            agentId,
+            agentToken,
+            userId,
+            name,
+            policy,
+            createdAt: now,
+          } as Agent;
+        },
+        catch: (e) => internalError(`Failed to create agent: ${e}`),
+      }),
+
+    getAgentByToken: (agentToken: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM agents WHERE agent_token = ?");
+          const row = stmt.get(agentToken) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Agent", agentToken);
+          }
+          return rowToAgent(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to get agent: ${e}`);
+        },
+      }),
+
+    getAgentById: (agentId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM agents WHERE agent_id = ?");
+          const row = stmt.get(agentId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Agent", agentId);
+          }
+          return rowToAgent(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to get agent: ${e}`);
+        },
+      }),
+
+    listAgentsByUser: (userId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM agents WHERE user_id = ? ORDER BY created_at DESC");
+          const rows = stmt.all(userId) as DbRow[];
+          return rows.map(rowToAgent);
+        },
+        catch: (e) => internalError(`Failed to list agents: ${e}`),
+      }),
+
+    updateLastUsed: (agentId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const now = new Date().toISOString();
+          const updateStmt = db.prepare("UPDATE agents SET last_used_at = ? WHERE agent_id = ?");
+          const result = updateStmt.run(now, agentId);
+          if (result.changes === 0) {
+            throw notFoundError("Agent", agentId);
+          }
+          const stmt = db.prepare("SELECT * FROM agents WHERE agent_id = ?");
+          const row = stmt.get(agentId) as DbRow;
+          return rowToAgent(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to update agent: ${e}`);
+        },
+      }),
+
+    deleteAgent: (agentId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("DELETE FROM agents WHERE agent_id = ?");
+          const result = stmt.run(agentId);
+          if (result.changes === 0) {
+            throw notFoundError("Agent", agentId);
           }
         },
         catch: (e) => {
@@ -557,6 +1297,134 @@ export const LiveAgentStore = Layer.succeed(
   })
 );
 
+// ============================================
+// Live User Store
+// ============================================
+
+/** Issue an API key for a user, storing only its hash */
+const insertApiKey = (db: Database.Database, userId: string): string => {
+  const apiKey = `${API_KEY_PREFIX}${crypto.randomUUID().replace(/-/g, "")}`;
+  db.prepare("INSERT INTO api_keys (key_hash, user_id, created_at) VALUES (?, ?, ?)")
+    .run(hashApiKey(apiKey), userId, new Date().toISOString());
+  return apiKey;
+};
+
+export const LiveUserStore = Layer.succeed(
+  UserStore,
+  UserStore.of({
+    createUser: (name: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const user: User = {
+            userId: `user_${crypto.randomUUID()}`,
+            name,
+            createdAt: new Date().toISOString(),
+          };
+          const apiKey = db.transaction(() => {
+            db.prepare("INSERT INTO users (user_id, name, created_at) VALUES (?, ?, ?)")
+              .run(user.userId, user.name, user.createdAt);
+            return insertApiKey(db, user.userId);
+          })();
+          return { user, apiKey };
+        },
+        catch: (e) => internalError(`Failed to create user: ${e}`),
+      }),
+
+    getUser: (userId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db.prepare("SELECT * FROM users WHERE user_id = ?").get(userId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("User", userId);
+          }
+          return rowToUser(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to get user: ${e}`);
+        },
+      }),
+
+    createApiKey: (userId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          if (!db.prepare("SELECT 1 FROM users WHERE user_id = ?").get(userId)) {
+            throw notFoundError("User", userId);
+          }
+          return insertApiKey(db, userId);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to create API key: ${e}`);
+        },
+      }),
+
+    getUserByApiKeyHash: (keyHash: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db.prepare(`
+            SELECT users.* FROM api_keys
+            JOIN users ON users.user_id = api_keys.user_id
+            WHERE api_keys.key_hash = ?
+          `).get(keyHash) as DbRow | undefined;
+          return row ? rowToUser(row) : null;
+        },
+        catch: (e) => internalError(`Failed to look up API key: ${e}`),
+      }),
+
+    getOrCreateWalletUser: (walletAddress: string, name: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const address = walletAddress.toLowerCase();
+          db.prepare(`
+            INSERT INTO users (user_id, name, created_at, wallet_address) VALUES (?, ?, ?, ?)
+            ON CONFLICT (wallet_address) WHERE wallet_address IS NOT NULL DO NOTHING
+          `).run(`user_${crypto.randomUUID()}`, name, new Date().toISOString(), address);
+          const row = db.prepare("SELECT * FROM users WHERE wallet_address = ?").get(address) as DbRow;
+          return rowToUser(row);
+        },
+        catch: (e) => internalError(`Failed to get wallet user: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Auth Nonce Store
+// ============================================
+
+export const LiveAuthNonceStore = Layer.succeed(
+  AuthNonceStore,
+  AuthNonceStore.of({
+    issueNonce: (expiresAt: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const nonce = crypto.randomUUID().replace(/-/g, "");
+          // Unused nonces are pruned as new ones are issued
+          db.prepare("DELETE FROM auth_nonces WHERE expires_at <= ?").run(new Date().toISOString());
+          db.prepare("INSERT INTO auth_nonces (nonce, expires_at) VALUES (?, ?)").run(nonce, expiresAt);
+          return nonce;
+        },
+        catch: (e) => internalError(`Failed to issue nonce: ${e}`),
+      }),
+
+    consumeNonce: (nonce: string, now: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const result = db.prepare("DELETE FROM auth_nonces WHERE nonce = ? AND expires_at > ?").run(nonce, now);
+          return result.changes === 1;
+        },
+        catch: (e) => internalError(`Failed to consume nonce: ${e}`),
+      }),
+  })
+);
+
 // ============================================
 // Live Usage Store
 // ============================================
@@ -564,21 +1432,22 @@ export const LiveAgentStore = Layer.succeed(
 export const LiveUsageStore = Layer.succeed(
   UsageStore,
   UsageStore.of({
-    getDailySpendCents: (subjectId: string, dayKey: string) =>
+    getDailySpend: (subjectId: string, dayKey: string) =>
       Effect.try({
         try: () => {
           const db = getDb();
           const stmt = db.prepare("SELECT spend_cents FROM usage WHERE subject_id = ? AND day_key = ?");
           const row = stmt.get(subjectId, dayKey) as { spend_cents: number } | undefined;
-          return row?.spend_cents ?? 0;
+          return usd(row?.spend_cents ?? 0);
         },
         catch: (e) => internalError(`Failed to get daily spend: ${e}`),
       }),
 
-    addSpendCents: (subjectId: string, dayKey: string, amountCents: number) =>
+    addSpend: (subjectId: string, dayKey: string, amount: Money) =>
       Effect.try({
         try: () => {
           const db = getDb();
+          const amountCents = toCents(amount);
           const stmt = db.prepare(`
             INSERT INTO usage (id, subject_id, day_key, spend_cents)
             VALUES (?, ?, ?, ?)
@@ -602,6 +1471,282 @@ export const LiveUsageStore = Layer.succeed(
   })
 );
 
+// ============================================
+// Live Used Transactions Store
+// ============================================
+
+export const LiveUsedTransactionsStore = Layer.succeed(
+  UsedTransactionsStore,
+  UsedTransactionsStore.of({
+    isUsed: (transactionRef: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT 1 FROM used_transactions WHERE transaction_ref = ? LIMIT 1");
+          return stmt.get(transactionRef) !== undefined;
+        },
+        catch: (e) => internalError(`Failed to check transaction: ${e}`),
+      }),
+
+    claim: (transactionRef: string, challengeId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          // INSERT OR IGNORE: zero changes means someone else already holds the claim
+          const stmt = db.prepare(`
+            INSERT OR IGNORE INTO used_transactions (transaction_ref, challenge_id, used_at)
+            VALUES (?, ?, ?)
+          `);
+          const result = stmt.run(transactionRef, challengeId, new Date().toISOString());
+          return result.changes === 1;
+        },
+        catch: (e) => internalError(`Failed to claim transaction: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Verification Jobs Store
+// ============================================
+
+export const LiveVerificationJobsStore = Layer.succeed(
+  VerificationJobsStore,
+  VerificationJobsStore.of({
+    save: (job: StoredVerificationJob) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare(`
+            INSERT OR REPLACE INTO verification_jobs
+            (verification_id, challenge_id, transaction_ref, status, confirmations, required_confirmations, receipt_json, session_json, error_json, created_at, updated_at, request_json, access_token_hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `);
+          stmt.run(
+            job.verificationId,
+            job.challengeId,
+            job.transactionRef,
+            job.status,
+            job.confirmations ?? null,
+            job.requiredConfirmations ?? null,
+            job.receipt ? JSON.stringify(job.receipt, moneyReplacer) : null,
+            job.sessionToken ? JSON.stringify(job.sessionToken, moneyReplacer) : null,
+            job.error ? JSON.stringify(job.error, moneyReplacer) : null,
+            job.createdAt,
+            job.updatedAt,
+            JSON.stringify(job.request),
+            job.accessTokenHash
+          );
+          return job;
+        },
+        catch: (e) => internalError(`Failed to save verification job: ${e}`),
+      }),
+
+    get: (verificationId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare("SELECT * FROM verification_jobs WHERE verification_id = ?");
+          const row = stmt.get(verificationId) as DbRow | undefined;
+          if (!row) {
+            throw notFoundError("Verification", verificationId);
+          }
+          return rowToVerificationJob(row);
+        },
+        catch: (e) => {
+          if (typeof e === "object" && e && "_tag" in e) return e as ApiError;
+          return internalError(`Failed to get verification job: ${e}`);
+        },
+      }),
+
+    listUnfinished: () =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const rows = db
+            .prepare(`
+              SELECT * FROM verification_jobs
+              WHERE status IN ('queued', 'awaiting_confirmations')
+              ORDER BY created_at
+            `)
+            .all() as DbRow[];
+          return rows.map(rowToVerificationJob);
+        },
+        catch: (e) => internalError(`Failed to list verification jobs: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Deposit Address Store
+// ============================================
+
+export const LiveDepositAddressStore = Layer.succeed(
+  DepositAddressStore,
+  DepositAddressStore.of({
+    nextIndex: () =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db
+            .prepare("SELECT COALESCE(MAX(derivation_index) + 1, 0) AS next_index FROM deposit_addresses")
+            .get() as DbRow;
+          return row["next_index"] as number;
+        },
+        catch: (e) => internalError(`Failed to get next deposit index: ${e}`),
+      }),
+
+    save: (deposit: DepositAddress) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const stmt = db.prepare(`
+            INSERT INTO deposit_addresses (challenge_id, address, derivation_index, created_at)
+            VALUES (?, ?, ?, ?)
+          `);
+          stmt.run(deposit.challengeId, deposit.address, deposit.derivationIndex, deposit.createdAt);
+          return deposit;
+        },
+        catch: (e) => internalError(`Failed to save deposit address: ${e}`),
+      }),
+
+    getByChallenge: (challengeId: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db
+            .prepare("SELECT * FROM deposit_addresses WHERE challenge_id = ?")
+            .get(challengeId) as DbRow | undefined;
+          return row ? rowToDepositAddress(row) : null;
+        },
+        catch: (e) => internalError(`Failed to get deposit address: ${e}`),
+      }),
+
+    getByAddress: (address: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db
+            .prepare("SELECT * FROM deposit_addresses WHERE address = ?")
+            .get(address) as DbRow | undefined;
+          return row ? rowToDepositAddress(row) : null;
+        },
+        catch: (e) => internalError(`Failed to get deposit address: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Settlements Store
+// ============================================
+
+export const LiveSettlementsStore = Layer.succeed(
+  SettlementsStore,
+  SettlementsStore.of({
+    get: (authorizationKey: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db
+            .prepare("SELECT * FROM settlements WHERE authorization_key = ?")
+            .get(authorizationKey) as DbRow | undefined;
+          return row ? rowToSettlement(row) : null;
+        },
+        catch: (e) => internalError(`Failed to get settlement: ${e}`),
+      }),
+
+    save: (settlement: Settlement) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          // INSERT OR IGNORE: zero changes means the authorization was already recorded
+          const stmt = db.prepare(`
+            INSERT OR IGNORE INTO settlements (authorization_key, challenge_id, chain_id, tx_hash, settled_at)
+            VALUES (?, ?, ?, ?, ?)
+          `);
+          const result = stmt.run(
+            settlement.authorizationKey,
+            settlement.challengeId,
+            settlement.chainId,
+            settlement.txHash,
+            settlement.settledAt
+          );
+          return result.changes === 1;
+        },
+        catch: (e) => internalError(`Failed to save settlement: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Block Cursor Store
+// ============================================
+
+export const LiveBlockCursorStore = Layer.succeed(
+  BlockCursorStore,
+  BlockCursorStore.of({
+    get: (name: string) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          const row = db
+            .prepare("SELECT block_number FROM block_cursors WHERE name = ?")
+            .get(name) as DbRow | undefined;
+          return row ? (row["block_number"] as number) : null;
+        },
+        catch: (e) => internalError(`Failed to get block cursor: ${e}`),
+      }),
+
+    set: (name: string, blockNumber: number) =>
+      Effect.try({
+        try: () => {
+          const db = getDb();
+          db.prepare(`
+            INSERT INTO block_cursors (name, block_number, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(name) DO UPDATE SET block_number = excluded.block_number, updated_at = excluded.updated_at
+          `).run(name, blockNumber, new Date().toISOString());
+        },
+        catch: (e) => internalError(`Failed to set block cursor: ${e}`),
+      }),
+  })
+);
+
+// ============================================
+// Live Unit Of Work
+// ============================================
+
+// Thrown inside db.transaction() to force a rollback when the effect fails
+const ROLLBACK = Symbol("rollback");
+
+export const LiveUnitOfWork = Layer.succeed(
+  UnitOfWork,
+  UnitOfWork.of({
+    // better-sqlite3 transactions are synchronous, so the wrapped effect is run
+    // to completion inside one. Nested calls become savepoints. An effect that
+    // suspends is rolled back and fails the unit of work.
+    transaction: <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      Effect.flatMap(Effect.context<R>(), (context): Effect.Effect<A, E | ApiError> => {
+        let exit: Exit.Exit<A, E> | undefined;
+        try {
+          getDb().transaction(() => {
+            exit = Effect.runSyncExit(Effect.provide(effect, context));
+            if (Exit.isFailure(exit)) throw ROLLBACK;
+          })();
+        } catch (e) {
+          if (e !== ROLLBACK) {
+            return Effect.fail(internalError(`Transaction failed: ${e}`));
+          }
+        }
+        const suspended = exit && Exit.isFailure(exit) ? Cause.dieOption(exit.cause) : Option.none();
+        if (Option.isSome(suspended) && Runtime.isAsyncFiberException(suspended.value)) {
+          // What is left of the effect would run outside the transaction
+          suspended.value.fiber.unsafeInterruptAsFork(FiberId.none);
+          return Effect.fail(internalError("Transaction failed: the unit of work must be synchronous, but it suspended"));
+        }
+        return exit as Exit.Exit<A, E>;
+      }),
+  })
+);
+
 // ============================================
 // Row Conversion Helpers
 // ============================================
@@ -610,21 +1755,71 @@ const rowToReceipt = (row: DbRow): Receipt => ({
   receiptId: row["receipt_id"] as string,
   challengeId: row["challenge_id"] as string,
   resourceId: row["resource_id"] as string,
+  price: usd(row["amount_paid"] as number),
   amountPaid: row["amount_paid"] as number,
   currency: row["currency"] as string,
   transactionRef: row["transaction_ref"] as string,
   verifiedAt: row["verified_at"] as string,
   expiresAt: row["expires_at"] as string,
   creditsPurchased: row["credits_purchased"] as number,
-  status: row["status"] as "confirmed" | "pending",
-  txHash: row["tx_hash"] as string | undefined,
-  explorerUrl: row["explorer_url"] as string | undefined,
-  blockNumber: row["block_number"] as number | undefined,
-  amountNative: row["amount_native"] as string | undefined,
-  payerAddress: row["payer_address"] as string | undefined,
-  payeeAddress: row["payee_address"] as string | undefined,
+  status: row["status"] as "confirmed" | "pending" | "reorged",
+  txHash: (row["tx_hash"] as string | null) ?? undefined,
+  explorerUrl: (row["explorer_url"] as string | null) ?? undefined,
+  blockNumber: (row["block_number"] as number | null) ?? undefined,
+  blockHash: (row["block_hash"] as string | null) ?? undefined,
+  amountAsset: row["amount_asset_json"]
+    ? decodeMoney(JSON.parse(row["amount_asset_json"] as string))
+    : undefined,
+  amountNative: (row["amount_native"] as string | null) ?? undefined,
+  payerAddress: (row["payer_address"] as string | null) ?? undefined,
+  payeeAddress: (row["payee_address"] as string | null) ?? undefined,
+  chainId: (row["chain_id"] as number | null) ?? undefined,
+  signature: (row["signature"] as string | null) ?? undefined,
 });
 
+const rowToChallenge = (row: DbRow): PaymentChallenge => {
+  const acceptedChains: ChainPaymentTerms[] | undefined = row["accepted_chains_json"]
+    ? JSON.parse(row["accepted_chains_json"] as string)
+    : undefined;
+  const defaultTerms: ChainPaymentTerms = {
+    chainId: row["chain_id"] as number,
+    chain: row["chain"] as string,
+    assetType: row["asset_type"] as "NATIVE" | "ERC20",
+    assetSymbol: row["asset_symbol"] as string,
+    amountWei: row["amount_wei"] as string,
+    payeeAddress: row["payee_address"] as string,
+    explorerTxBase: row["explorer_tx_base"] as string,
+  };
+  // The asset's decimals are only recorded in the accepted terms
+  const terms = acceptedChains?.find((t) => t.chainId === defaultTerms.chainId) ?? defaultTerms;
+
+  return {
+    challengeId: row["challenge_id"] as string,
+    resourceId: row["resource_id"] as string,
+    price: usd(row["amount_required"] as number),
+    amountRequired: row["amount_required"] as number,
+    currency: row["currency"] as string,
+    chain: defaultTerms.chain,
+    description: row["description"] as string,
+    payTo: row["pay_to"] as string,
+    expiresAt: row["expires_at"] as string,
+    createdAt: row["created_at"] as string,
+    creditsOffered: row["credits_offered"] as number,
+    status: row["status"] as "pending" | "paid" | "expired",
+    chainId: defaultTerms.chainId,
+    assetType: defaultTerms.assetType,
+    assetSymbol: defaultTerms.assetSymbol,
+    amount: amountOf(terms),
+    amountWei: defaultTerms.amountWei,
+    payeeAddress: defaultTerms.payeeAddress,
+    explorerTxBase: defaultTerms.explorerTxBase,
+    payerAddress: (row["payer_address"] as string | null) ?? undefined,
+    paymentReference: (row["payment_reference"] as string | null) ?? undefined,
+    depositIndex: (row["deposit_index"] as number | null) ?? undefined,
+    acceptedChains,
+  };
+};
+
 const rowToSession = (row: DbRow): SessionToken => ({
   tokenId: row["token_id"] as string,
   credits: row["credits"] as number,
@@ -634,28 +1829,70 @@ const rowToSession = (row: DbRow): SessionToken => ({
   accessCount: row["access_count"] as number,
 });
 
+const rowToEntitlement = (row: DbRow): Entitlement => ({
+  tokenId: row["token_id"] as string,
+  resourceId: row["resource_id"] as string,
+  creditsSpent: row["credits_spent"] as number,
+  grantedAt: row["granted_at"] as string,
+  expiresAt: row["expires_at"] as string,
+});
+
+const rowToVerificationJob = (row: DbRow): StoredVerificationJob => ({
+  verificationId: row["verification_id"] as string,
+  challengeId: row["challenge_id"] as string,
+  transactionRef: row["transaction_ref"] as string,
+  status: row["status"] as VerificationStatus,
+  confirmations: (row["confirmations"] as number | null) ?? undefined,
+  requiredConfirmations: (row["required_confirmations"] as number | null) ?? undefined,
+  receipt: row["receipt_json"] ? JSON.parse(row["receipt_json"] as string, moneyReviver) : undefined,
+  sessionToken: row["session_json"] ? JSON.parse(row["session_json"] as string, moneyReviver) : undefined,
+  error: row["error_json"] ? JSON.parse(row["error_json"] as string, moneyReviver) : undefined,
+  createdAt: row["created_at"] as string,
+  updatedAt: row["updated_at"] as string,
+  // Jobs saved before requests were kept resume from their proof alone
+  request: row["request_json"]
+    ? JSON.parse(row["request_json"] as string)
+    : { challengeId: row["challenge_id"] as string, transactionRef: row["transaction_ref"] as string },
+  accessTokenHash: (row["access_token_hash"] as string | null) ?? "",
+});
+
+const rowToDepositAddress = (row: DbRow): DepositAddress => ({
+  challengeId: row["challenge_id"] as string,
+  address: row["address"] as string,
+  derivationIndex: row["derivation_index"] as number,
+  createdAt: row["created_at"] as string,
+});
+
+const rowToSettlement = (row: DbRow): Settlement => ({
+  authorizationKey: row["authorization_key"] as string,
+  challengeId: row["challenge_id"] as string,
+  chainId: row["chain_id"] as number,
+  txHash: row["tx_hash"] as string,
+  settledAt: row["settled_at"] as string,
+});
+
 const rowToPolicy = (row: DbRow): SpendPolicy => ({
-  maxPerActionCents: row["max_per_action_cents"] as number,
-  dailyCapCents: row["daily_cap_cents"] as number,
-  autoApproveUnderCents: row["auto_approve_under_cents"] as number,
-  requireConfirmAboveCents: row["require_confirm_above_cents"] as number,
+  maxPerAction: usd(row["max_per_action_cents"] as number),
+  dailyCap: usd(row["daily_cap_cents"] as number),
+  autoApproveUnder: usd(row["auto_approve_under_cents"] as number),
+  requireConfirmAbove: usd(row["require_confirm_above_cents"] as number),
   allowedOrigins: JSON.parse(row["allowed_origins"] as string),
   allowedPaths: JSON.parse(row["allowed_paths"] as string),
 });
 
+const rowToUser = (row: DbRow): User => ({
+  userId: row["user_id"] as string,
+  name: row["name"] as string,
+  createdAt: row["created_at"] as string,
+  walletAddress: (row["wallet_address"] as string | null) ?? undefined,
+});
+
 const rowToAgent = (row: DbRow): Agent => ({
   agentId: row["agent_id"] as string,
   agentToken: row["agent_token"] as string,
   userId: row["user_id"] as string,
   name: row["name"] as string,
-  policy: {
-    maxPerActionCents: row["max_per_action_cents"] as number,
-    dailyCapCents: row["daily_cap_cents"] as number,
-    autoApproveUnderCents: row["auto_approve_under_cents"] as number,
-    requireConfirmAboveCents: row["require_confirm_above_cents"] as number,
-    allowedOrigins: JSON.parse(row["allowed_origins"] as string),
-    allowedPaths: JSON.parse(row["allowed_paths"] as string),
-  },
+  policy: rowToPolicy(row),
   createdAt: row["created_at"] as string,
-  lastUsedAt: row["last_used_at"] as string | undefined,
+  lastUsedAt: (row["last_used_at"] as string | null) ?? undefined,
 });
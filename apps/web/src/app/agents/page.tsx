@@ -24,6 +24,7 @@ import {
   Send as SendIcon,
 } from "lucide-react";
 import { API_BASE } from "@/lib/config";
+import { fetchWithApiKey } from "@/lib/api-auth";
 
 interface SpendPolicy {
   maxPerActionCents: number;
@@ -78,7 +79,7 @@ export default function AgentsPage() {
 
   const fetchAgents = async () => {
     try {
-      const res = await fetch(`${API_BASE}/agent/list`);
+      const res = await fetchWithApiKey(`${API_BASE}/agent/list`);
       if (res.ok) {
         const data = await res.json();
         setAgents(data.agents);
@@ -109,7 +110,7 @@ export default function AgentsPage() {
           .filter(Boolean),
       };
 
-      const res = await fetch(`${API_BASE}/agent/create`, {
+      const res = await fetchWithApiKey(`${API_BASE}/agent/create`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ name: agentName, policy }),
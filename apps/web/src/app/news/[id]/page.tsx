@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { PaymentSheet } from "@decagon/ui";
+import type { DecagonChainTerms } from "@decagon/ui";
 import type { DecagonReceipt } from "@decagon/ui";
 import {
   API_BASE,
@@ -76,6 +77,9 @@ interface PaymentChallenge {
   amountWei: string;
   payeeAddress: string;
   explorerTxBase: string;
+  payerAddress?: string;
+  paymentReference?: string;
+  acceptedChains?: DecagonChainTerms[];
 }
 
 interface PaymentRequiredResponse {
@@ -86,6 +90,7 @@ interface PaymentRequiredResponse {
     type: string;
     name: string;
     available: boolean;
+    terms?: DecagonChainTerms;
   }>;
 }
 
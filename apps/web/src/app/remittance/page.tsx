@@ -68,6 +68,7 @@ import {
   type DemoTransaction,
 } from "@/lib/demo-ledger";
 import { DEMO_CONTACTS, type DemoContact } from "@/lib/demo-contacts";
+import { fetchWithApiKey } from "@/lib/api-auth";
 
 /* ── On-chain types (preserved) ── */
 interface TransferRecord {
@@ -425,7 +426,7 @@ export default function RemittancePage() {
   const fetchOnchainHistory = useCallback(async () => {
     setOnchainHistoryLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/transfer/history`);
+      const res = await fetchWithApiKey(`${API_BASE}/transfer/history`);
       if (res.ok) {
         const data = await res.json();
         setOnchainHistory(data.transfers ?? []);
@@ -452,7 +453,7 @@ export default function RemittancePage() {
     setOnchainLoading(true);
     setOnchainMsg(null);
     try {
-      const res = await fetch(`${API_BASE}/transfer/create`, {
+      const res = await fetchWithApiKey(`${API_BASE}/transfer/create`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -101,13 +101,14 @@ const TRANSFER_SNIPPET = `"use client";
 import { PaymentSheet, useDecagonPayment } from "@decagon/ui";
 import { API_BASE, PLASMA_CHAIN_ID, PLASMA_EXPLORER_TX_BASE } from "@/lib/config";
 
-export function TransferButton({ recipientAddress }: { recipientAddress: string }) {
+export function TransferButton({ recipientAddress, apiKey }: { recipientAddress: string; apiKey: string }) {
   const payment = useDecagonPayment();
 
   const handleTransfer = async () => {
+    // Transfers are tied to a user: send the key from POST /auth/register
     const res = await fetch(\`\${API_BASE}/transfer/create\`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", "X-Api-Key": apiKey },
       body: JSON.stringify({ recipientAddress }),
     });
     const { challenge } = await res.json();
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { API_BASE } from "@/lib/config";
+import { fetchWithApiKey } from "@/lib/api-auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -50,7 +51,7 @@ export default function SettingsPage() {
 
   const fetchPolicy = async () => {
     try {
-      const res = await fetch(`${API_BASE}/policy`);
+      const res = await fetchWithApiKey(`${API_BASE}/policy`);
       if (res.ok) {
         const data = await res.json();
         setPolicy(data.policy);
@@ -97,7 +98,7 @@ export default function SettingsPage() {
           .filter(Boolean),
       };
 
-      const res = await fetch(`${API_BASE}/policy`, {
+      const res = await fetchWithApiKey(`${API_BASE}/policy`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ policy: newPolicy }),
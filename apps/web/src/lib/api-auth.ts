@@ -0,0 +1,61 @@
+/**
+ * API Key
+ *
+ * Policy, agent and transfer routes act on the caller's own data and
+ * require an X-Api-Key header. The first such request registers this
+ * browser as a user and keeps the key in localStorage.
+ *
+ * DEMO MODE: one user per browser, named after the demo session.
+ */
+
+import { API_BASE } from "./config";
+import { getDemoSession } from "./demo-session";
+
+const API_KEY_STORAGE_KEY = "decagon_api_key";
+
+let registering: Promise<string> | null = null;
+
+/* ---------- helpers ---------- */
+
+async function register(): Promise<string> {
+  const session = getDemoSession();
+  const res = await fetch(`${API_BASE}/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(session ? { name: session.displayName } : {}),
+  });
+  if (!res.ok) {
+    throw new Error(`Registration failed (${res.status})`);
+  }
+  const { apiKey } = (await res.json()) as { apiKey: string };
+  localStorage.setItem(API_KEY_STORAGE_KEY, apiKey);
+  return apiKey;
+}
+
+async function getApiKey(): Promise<string> {
+  const stored = localStorage.getItem(API_KEY_STORAGE_KEY);
+  if (stored) return stored;
+  registering ??= register().finally(() => {
+    registering = null;
+  });
+  return registering;
+}
+
+async function withApiKey(init: RequestInit): Promise<RequestInit> {
+  const headers = new Headers(init.headers);
+  headers.set("X-Api-Key", await getApiKey());
+  return { ...init, headers };
+}
+
+/* ---------- public API ---------- */
+
+/**
+ * fetch with this browser's API key. A key the API no longer knows
+ * (e.g. an in-memory API was restarted) is replaced once and retried.
+ */
+export async function fetchWithApiKey(url: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(url, await withApiKey(init));
+  if (res.status !== 401) return res;
+  localStorage.removeItem(API_KEY_STORAGE_KEY);
+  return fetch(url, await withApiKey(init));
+}
@@ -0,0 +1,167 @@
+#!/usr/bin/env npx tsx
+/**
+ * Async Verify Test Script
+ *
+ * Runs queued verification jobs against MockCapabilities (no API server
+ * needed), including a job resumed after its payment was credited but
+ * before the job itself was saved, as a restart would leave it.
+ *
+ * Tests:
+ *   1. A queued job keeps the session and agent by id, never their tokens
+ *   2. A top-up job confirms with the receipt, crediting the session
+ *   3. A job resumed after its payment was credited reads it back
+ *   4. A job for a payment verified elsewhere gets no session
+ *   5. Without the access token, a job shows only its progress
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:async-verify
+ */
+
+import { Effect, Either } from "effect";
+import { bytesToHex } from "@noble/hashes/utils.js";
+import { DEFAULT_SPEND_POLICY, type PaymentChallenge } from "@decagon/x402";
+import {
+  MockCapabilities,
+  SessionTokens,
+  VerificationJobsStore,
+  createAgent,
+  getArticle,
+  getBalance,
+  getVerification,
+  runVerification,
+  startVerification,
+  verifyPaymentAndIssueSession,
+} from "../src/index.js";
+import { verifyQueuedPayment } from "../src/workflows/verify-payment.js";
+
+const ARTICLE_ID = "article-1";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(Effect.provide(effect, MockCapabilities) as Effect.Effect<A, E, never>);
+
+/** A fresh 402 challenge for the article */
+async function challenge(): Promise<PaymentChallenge> {
+  const result = await run(Effect.either(getArticle({ articleId: ARTICLE_ID })));
+  if (Either.isRight(result) || result.left._tag !== "PaymentRequiredError") {
+    throw new Error("Expected a payment challenge");
+  }
+  return result.left.challenge;
+}
+
+const newTxRef = () => `0x${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}`;
+
+/** The job as stored, request included */
+const storedJob = (verificationId: string) =>
+  run(Effect.flatMap(VerificationJobsStore, (store) => store.get(verificationId)));
+
+/** Bare session id behind a bearer token */
+const sessionOf = (token: string) =>
+  run(Effect.flatMap(SessionTokens, (sessionTokens) => sessionTokens.open(token))).then((access) => access.tokenId);
+
+async function main() {
+  console.log(`\n🧪 Decagon Async Verify Test\n`);
+
+  // ── Step 1: Ids, not tokens ──────────────────────────────────
+  console.log("Step 1: A queued job keeps the session and agent by id");
+  const opened = await run(verifyPaymentAndIssueSession({ challengeId: (await challenge()).challengeId, transactionRef: newTxRef() }));
+  const sessionToken = opened.sessionToken.tokenId;
+  const sessionId = await sessionOf(sessionToken);
+  const agent = await run(createAgent({ userId: "user-1", name: "reader", policy: DEFAULT_SPEND_POLICY }));
+
+  const topUp = await run(
+    startVerification({
+      challengeId: (await challenge()).challengeId,
+      transactionRef: newTxRef(),
+      existingSessionTokenId: sessionToken,
+      agentToken: agent.agentToken,
+    })
+  );
+  const queued = await storedJob(topUp.job.verificationId);
+  const stored = JSON.stringify(queued);
+  assert(queued.request.sessionId === sessionId, "The request names the session by its bare id");
+  assert(queued.request.agentId === agent.agentId, "The request names the agent by id");
+  assert(!stored.includes(sessionToken), "The session token is not stored");
+  assert(!stored.includes(agent.agentToken), "The agent token is not stored");
+
+  // ── Step 2: Top-up ───────────────────────────────────────────
+  console.log("\nStep 2: A top-up job confirms with the receipt");
+  const before = await run(getBalance(sessionToken));
+  const toppedUp = await run(runVerification(topUp.job.verificationId));
+  const after = await run(getBalance(sessionToken));
+  assert(toppedUp.status === "confirmed", "The job is confirmed", toppedUp.status);
+  assert(toppedUp.receipt !== undefined, "The job shows the receipt");
+  assert(toppedUp.sessionToken === undefined, "The job hands out no token: the caller keeps its own");
+  assert(
+    after.credits === before.credits + (toppedUp.receipt?.creditsPurchased ?? 0),
+    "The credits went to the existing session",
+    `${before.credits} → ${after.credits}`
+  );
+
+  // ── Step 3: Resume after the payment was credited ────────────
+  console.log("\nStep 3: A job resumed after its payment was credited reads it back");
+  const resumed = await run(startVerification({ challengeId: (await challenge()).challengeId, transactionRef: newTxRef() }));
+  // The payment commits, then the process stops before the job is saved
+  const credited = await run(verifyQueuedPayment((await storedJob(resumed.job.verificationId)).request));
+  const resumedJob = await run(runVerification(resumed.job.verificationId));
+  assert(resumedJob.status === "confirmed", "The resumed job is confirmed", `${resumedJob.status} ${resumedJob.error?.message ?? ""}`);
+  assert(resumedJob.receipt?.receiptId === credited.receipt.receiptId, "It shows the receipt that was committed");
+  const resumedToken = resumedJob.sessionToken?.tokenId;
+  assert(
+    resumedToken !== undefined && (await sessionOf(resumedToken)) === credited.sessionToken.tokenId,
+    "Its token opens the session the payment funded"
+  );
+  assert(
+    resumedToken !== undefined && (await run(getBalance(resumedToken))).credits === credited.receipt.creditsPurchased,
+    "The session was credited once"
+  );
+  const savedSession = (await storedJob(resumed.job.verificationId)).sessionToken?.tokenId;
+  assert(savedSession === credited.sessionToken.tokenId, "The job stores the bare session id, not the token");
+
+  // ── Step 4: A payment verified elsewhere ─────────────────────
+  console.log("\nStep 4: A job for a payment verified elsewhere gets no session");
+  const { challengeId } = await challenge();
+  const txRef = newTxRef();
+  await run(verifyPaymentAndIssueSession({ challengeId, transactionRef: txRef }));
+  const copy = await run(startVerification({ challengeId, transactionRef: txRef }));
+  const copied = await run(runVerification(copy.job.verificationId));
+  assert(copied.status === "failed", "The job fails", copied.status);
+  assert(copied.sessionToken === undefined, "It shows no session");
+
+  // ── Step 5: Progress only without the access token ───────────
+  console.log("\nStep 5: Without the access token, a job shows only its progress");
+  const anonymous = await run(getVerification(resumed.job.verificationId));
+  const wrongToken = await run(getVerification(resumed.job.verificationId, topUp.accessToken));
+  const holder = await run(getVerification(resumed.job.verificationId, resumed.accessToken));
+  assert(anonymous.status === "confirmed" && anonymous.receipt === undefined, "No receipt without a token");
+  assert(wrongToken.sessionToken === undefined, "No session with another job's token");
+  assert(holder.sessionToken?.tokenId === resumedToken, "The holder of the access token sees the session token");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+#!/usr/bin/env npx tsx
+/**
+ * Payment Indexer Test Script
+ *
+ * Runs in-process against MockCapabilities and MockPlasmaRpc
+ * (no API server needed).
+ *
+ * Tests:
+ *   1. First indexer pass starts at the chain head without crediting anything
+ *   2. A payment carrying the challenge's reference is credited without a verify call
+ *   3. An unreferenced transfer to the shared payee is not attributed
+ *   4. The cursor advanced: the next pass does not rescan the block
+ *   5. A late /pay/verify with the same txHash returns the indexer's receipt
+ *      and session, creating no second session, and only once without a token
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:indexer
+ */
+
+import { Effect, Either } from "effect";
+import {
+  MockCapabilities,
+  addMockTransaction,
+  countMockSessions,
+  getArticle,
+  getBalance,
+  indexPayments,
+  verifyPaymentAndIssueSession,
+  numberToHex,
+} from "../src/index.js";
+
+const ARTICLE_ID = "article-1";
+const PAYER = "0x00000000000000000000000000000000000000aa";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(Effect.provide(effect, MockCapabilities) as Effect.Effect<A, E, never>);
+
+async function issueChallenge() {
+  const result = await run(Effect.either(getArticle({ articleId: ARTICLE_ID })));
+  if (Either.isRight(result) || result.left._tag !== "PaymentRequiredError") {
+    throw new Error("Expected a PaymentRequiredError");
+  }
+  return result.left.challenge;
+}
+
+function mineTransfer(hash: string, blockNumber: number, to: string, value: string, input: string) {
+  const block = numberToHex(blockNumber);
+  addMockTransaction(
+    {
+      hash,
+      from: PAYER,
+      to,
+      value: `0x${BigInt(value).toString(16)}`,
+      blockNumber: block,
+      blockHash: "0xmockblockhash",
+      gas: "0x5dc0",
+      gasPrice: "0x1",
+      input,
+      nonce: "0x0",
+      transactionIndex: "0x0",
+    },
+    {
+      transactionHash: hash,
+      blockNumber: block,
+      blockHash: "0xmockblockhash",
+      from: PAYER,
+      to,
+      status: "0x1",
+      gasUsed: "0x5dc0",
+      cumulativeGasUsed: "0x5dc0",
+      logs: [],
+      contractAddress: null,
+    }
+  );
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Payment Indexer Test\n`);
+
+  // ── Step 1: First pass ───────────────────────────────────────
+  console.log("Step 1: First pass starts at the chain head");
+  const first = await run(indexPayments());
+  const firstScan = first.chains[0]!;
+  assert(first.credited.length === 0, `Nothing credited (scanned ${firstScan.fromBlock}..${firstScan.toBlock})`);
+  const nextBlock = firstScan.toBlock + 1;
+
+  // ── Step 2: Referenced payment, never verified ───────────────
+  console.log("\nStep 2: A referenced payment is credited without a verify call");
+  const challenge = await issueChallenge();
+  const otherChallenge = await issueChallenge();
+  const txHash = `0xindexer${Date.now().toString(16)}`;
+  mineTransfer(txHash, nextBlock, challenge.payeeAddress, challenge.amountWei, challenge.paymentReference ?? "0x");
+  // ── Step 3: Unreferenced transfer in the same block ──────────
+  mineTransfer(`${txHash}ff`, nextBlock, challenge.payeeAddress, challenge.amountWei, "0x");
+
+  const second = await run(indexPayments());
+  assert(second.credited.length === 1, `One payment credited`, `got ${second.credited.length}`);
+  assert(
+    second.credited[0]?.challengeId === challenge.challengeId && second.credited[0]?.txHash === txHash,
+    `Credited ${second.credited[0]?.challengeId} with ${second.credited[0]?.txHash}`
+  );
+
+  console.log("\nStep 3: The unreferenced transfer is not attributed");
+  assert(
+    !second.credited.some((p) => p.challengeId === otherChallenge.challengeId),
+    `Challenge ${otherChallenge.challengeId} still unpaid`
+  );
+
+  // ── Step 4: Cursor ───────────────────────────────────────────
+  console.log("\nStep 4: The next pass resumes after the scanned block");
+  const third = await run(indexPayments());
+  const thirdScan = third.chains[0]!;
+  assert(thirdScan.fromBlock === nextBlock + 1, `Resumed at block ${thirdScan.fromBlock}`);
+  assert(third.credited.length === 0, "Nothing credited twice");
+
+  // ── Step 5: Late verify ──────────────────────────────────────
+  console.log("\nStep 5: A late verify returns the indexer's receipt and session");
+  const sessionsBefore = countMockSessions();
+  const lateVerify = verifyPaymentAndIssueSession({ challengeId: challenge.challengeId, txHash, payerAddress: PAYER });
+  const late = await run(lateVerify);
+  assert(
+    late.receipt.receiptId === second.credited[0]?.receiptId,
+    `Same receipt ${late.receipt.receiptId}`
+  );
+  assert(countMockSessions() === sessionsBefore, "No second session created", `${countMockSessions()} sessions`);
+  const balance = await run(getBalance(late.sessionToken.tokenId));
+  assert(
+    balance.credits === challenge.creditsOffered,
+    `Session holds the payment's ${challenge.creditsOffered} credits`,
+    `got ${balance.credits}`
+  );
+
+  const replay = await run(Effect.either(lateVerify));
+  assert(Either.isLeft(replay), "A second verify without the token gets no token");
+  const retry = await run(
+    verifyPaymentAndIssueSession({
+      challengeId: challenge.challengeId,
+      txHash,
+      payerAddress: PAYER,
+      existingSessionTokenId: late.sessionToken.tokenId,
+    })
+  );
+  assert(retry.sessionToken.tokenId === late.sessionToken.tokenId, "A retry with the token gets it back");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+#!/usr/bin/env npx tsx
+/**
+ * Receipt Signature Test Script
+ *
+ * Exercises the compact JWS receipts of `@decagon/x402` in-process
+ * (no API server needed).
+ *
+ * Tests:
+ *   1. A signed receipt verifies against the published key set
+ *   2. Tampered signatures, headers and signed fields are rejected
+ *   3. Unsigned receipts and unknown or retired keys are rejected
+ *   4. Rotation: a receipt signed with an older published key still verifies
+ *   5. The transaction read from the chain must match the receipt
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:receipts
+ */
+
+import { Encoding } from "effect";
+import {
+  signReceipt,
+  verifyReceipt,
+  publicJwkFor,
+  money,
+  usd,
+  type OnChainTransaction,
+  type Receipt,
+  type ReceiptJwks,
+  type ReceiptSigningKey,
+} from "@decagon/x402";
+
+const TX_HASH = `0x${"ab".repeat(32)}`;
+const PAYER = "0x00000000000000000000000000000000000000aa";
+const PAYEE = "0x00000000000000000000000000000000000000bb";
+
+const CURRENT_KEY: ReceiptSigningKey = { keyId: "r2", secretKey: new Uint8Array(32).fill(2) };
+const OLD_KEY: ReceiptSigningKey = { keyId: "r1", secretKey: new Uint8Array(32).fill(1) };
+const JWKS: ReceiptJwks = { keys: [publicJwkFor(CURRENT_KEY), publicJwkFor(OLD_KEY)] };
+
+const RECEIPT: Receipt = {
+  receiptId: "rcpt_test",
+  challengeId: "chal_test",
+  resourceId: "article-1",
+  price: usd(50),
+  amountPaid: 50,
+  currency: "USDT",
+  transactionRef: TX_HASH,
+  verifiedAt: "2026-01-01T00:00:00.000Z",
+  expiresAt: "2026-01-02T00:00:00.000Z",
+  creditsPurchased: 100,
+  status: "confirmed",
+  chainId: 9746,
+  txHash: TX_HASH,
+  explorerUrl: `https://testnet.plasmascan.to/tx/${TX_HASH}`,
+  blockNumber: 42,
+  blockHash: `0x${"cd".repeat(32)}`,
+  amountAsset: money(500000000000000n, "XPL", 18),
+  amountNative: "0.0005 XPL",
+  payerAddress: PAYER,
+  payeeAddress: PAYEE,
+};
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function reasonFor(receipt: Receipt, jwks: ReceiptJwks = JWKS, transaction?: OnChainTransaction) {
+  const result = verifyReceipt(receipt, jwks, transaction);
+  return result.valid ? "(valid)" : result.reason;
+}
+
+/** The receipt's signature with one segment replaced */
+function withSegment(receipt: Receipt, index: number, segment: string): Receipt {
+  const parts = receipt.signature!.split(".");
+  parts[index] = segment;
+  return { ...receipt, signature: parts.join(".") };
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Receipt Signature Test\n`);
+
+  // ── Step 1: Sign and verify ──────────────────────────────────
+  console.log("Step 1: A signed receipt verifies");
+  const signed: Receipt = { ...RECEIPT, signature: signReceipt(RECEIPT, CURRENT_KEY) };
+  const verified = verifyReceipt(signed, JWKS);
+  assert(signed.signature!.split(".").length === 3, "Signature is a compact JWS");
+  assert(verified.valid && verified.keyId === "r2", "Receipt verifies with the current key", reasonFor(signed));
+  assert(
+    verified.valid && verified.claims.amountAsset?.minor === 500000000000000n,
+    "Claims carry the Money amount as a bigint"
+  );
+  assert(reasonFor({ ...signed, status: "reorged" }) === "(valid)", "A reorged status keeps the receipt valid");
+
+  // ── Step 2: Tampering ────────────────────────────────────────
+  console.log("\nStep 2: Tampered receipts are rejected");
+  const signature = Encoding.decodeBase64Url(signed.signature!.split(".")[2]!);
+  if (signature._tag === "Left") throw new Error("Signature is not base64url");
+  const flipped = Uint8Array.from(signature.right);
+  flipped[10] = flipped[10]! ^ 0x01;
+  assert(
+    reasonFor(withSegment(signed, 2, Encoding.encodeBase64Url(flipped))) === "Signature does not match",
+    "A flipped signature bit is rejected"
+  );
+  assert(
+    reasonFor({ ...signed, amountPaid: 5000 }) === `"amountPaid" differs from the signed receipt`,
+    "A changed amount is rejected",
+    reasonFor({ ...signed, amountPaid: 5000 })
+  );
+  assert(
+    reasonFor({ ...signed, payerAddress: PAYEE }) === `"payerAddress" differs from the signed receipt`,
+    "A changed payer is rejected"
+  );
+  assert(reasonFor({ ...signed, creditsPurchased: 1000 }) !== "(valid)", "Extra credits are rejected");
+  const payload = Encoding.decodeBase64UrlString(signed.signature!.split(".")[1]!);
+  if (payload._tag === "Left") throw new Error("Payload is not base64url");
+  const forgedPayload = Encoding.encodeBase64Url(JSON.stringify({ ...JSON.parse(payload.right), amountPaid: 5000 }));
+  assert(
+    reasonFor({ ...withSegment(signed, 1, forgedPayload), amountPaid: 5000 }) === "Signature does not match",
+    "A payload rewritten to match the changed receipt is rejected"
+  );
+  const noneHeader = Encoding.encodeBase64Url(JSON.stringify({ alg: "none", kid: "r2" }));
+  assert(
+    reasonFor(withSegment(signed, 0, noneHeader)) === "Signature algorithm must be EdDSA",
+    "An alg=none header is rejected"
+  );
+  const swappedKid = Encoding.encodeBase64Url(JSON.stringify({ alg: "EdDSA", kid: "r1" }));
+  assert(
+    reasonFor(withSegment(signed, 0, swappedKid)) === "Signature does not match",
+    "Pointing the header at another published key is rejected"
+  );
+  assert(
+    reasonFor({ ...signed, signature: signed.signature!.split(".").slice(0, 2).join(".") }) === "Malformed signature",
+    "A JWS without its signature segment is malformed"
+  );
+  assert(
+    reasonFor({ ...signed, explorerUrl: "https://evil.example/tx/0x1" }) !== "(valid)",
+    "A changed explorer link is rejected"
+  );
+
+  // ── Step 3: Missing and unknown keys ─────────────────────────
+  console.log("\nStep 3: Unsigned receipts and unknown keys");
+  assert(reasonFor(RECEIPT) === "Receipt is not signed", "An unsigned receipt is rejected");
+  const stranger: ReceiptSigningKey = { keyId: "r9", secretKey: new Uint8Array(32).fill(9) };
+  assert(
+    reasonFor({ ...RECEIPT, signature: signReceipt(RECEIPT, stranger) }) === `Receipt was signed with an unknown key "r9"`,
+    "A key outside the published set is rejected"
+  );
+  const impostor: ReceiptSigningKey = { keyId: "r2", secretKey: new Uint8Array(32).fill(7) };
+  assert(
+    reasonFor({ ...RECEIPT, signature: signReceipt(RECEIPT, impostor) }) === "Signature does not match",
+    "A different key reusing a published key id is rejected"
+  );
+
+  // ── Step 4: Rotation ─────────────────────────────────────────
+  console.log("\nStep 4: Key rotation");
+  const older: Receipt = { ...RECEIPT, signature: signReceipt(RECEIPT, OLD_KEY) };
+  const olderResult = verifyReceipt(older, JWKS);
+  assert(olderResult.valid && olderResult.keyId === "r1", "A receipt signed with the previous key still verifies");
+  assert(
+    reasonFor(older, { keys: [publicJwkFor(CURRENT_KEY)] }) === `Receipt was signed with an unknown key "r1"`,
+    "Once the old key is unpublished its receipts no longer verify"
+  );
+
+  // ── Step 5: On-chain transaction ─────────────────────────────
+  console.log("\nStep 5: The referenced transaction must match");
+  const onChain = { hash: TX_HASH.toUpperCase().replace("0X", "0x"), chainId: 9746, from: PAYER, to: PAYEE, blockNumber: 42 };
+  assert(reasonFor(signed, JWKS, onChain) === "(valid)", "The matching transaction is accepted (hash in any case)");
+  assert(
+    reasonFor(signed, JWKS, { ...onChain, hash: `0x${"ef".repeat(32)}` }) === "Transaction is not the one the receipt references",
+    "Another transaction is rejected"
+  );
+  assert(
+    reasonFor(signed, JWKS, { ...onChain, chainId: 1 }) === "Transaction is on chain 1, receipt says 9746",
+    "A transaction on another chain is rejected"
+  );
+  assert(
+    reasonFor(signed, JWKS, { ...onChain, from: PAYEE }) === "Transaction sender is not the payer",
+    "A transaction from someone else is rejected"
+  );
+  assert(
+    reasonFor(signed, JWKS, { ...onChain, to: PAYER }) === "Transaction recipient is not the payee",
+    "A transaction to someone else is rejected"
+  );
+  assert(
+    reasonFor(signed, JWKS, { ...onChain, blockNumber: 43 }) === "Transaction is in block 43, receipt says 42",
+    "A transaction in another block is rejected"
+  );
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+#!/usr/bin/env npx tsx
+/**
+ * Reorg Check Test Script
+ *
+ * Runs `recheckRecentReceipts` in-process against MockCapabilities and
+ * MockPlasmaRpc (no API server needed). Payments are verified by a stand-in
+ * verifier that records the block each transaction was mined in, as the
+ * live verifier does.
+ *
+ * Tests:
+ *   1. Receipts whose transaction is still in its block are left alone
+ *   2. A transaction missing from the chain is reorged and its credits revoked
+ *   3. A transaction re-mined in another block waits for its confirmations
+ *   4. Once confirmed there, the receipt moves to the new block, signed again,
+ *      its credits kept and its payment still replayable
+ *   5. A transaction re-mined as a failure is reorged and its credits revoked
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:reorg
+ */
+
+import { Effect, Either, Layer } from "effect";
+import { verifyReceipt } from "@decagon/x402";
+import {
+  MockCapabilities,
+  MockChainConfig,
+  ChainConfigService,
+  PaymentVerifier,
+  ReceiptsStore,
+  ReceiptSigner,
+  addMockTransaction,
+  getArticle,
+  getBalance,
+  recheckRecentReceipts,
+  verifyPaymentAndIssueSession,
+  numberToHex,
+} from "../src/index.js";
+
+const ARTICLE_ID = "article-1";
+const PAYER = "0x00000000000000000000000000000000000000aa";
+const MIN_CONFIRMATIONS = 3;
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+/** Block each transaction was mined in when it was verified */
+const verifiedIn = new Map<string, { blockNumber: number; blockHash: string }>();
+
+const RecordingVerifier = Layer.succeed(
+  PaymentVerifier,
+  PaymentVerifier.of({
+    verify: (challenge, proof) =>
+      Effect.sync(() => ({
+        valid: true,
+        verifiedAmount: challenge.amountRequired,
+        verifiedAt: new Date().toISOString(),
+        txHash: proof.transactionRef,
+        ...verifiedIn.get(proof.transactionRef),
+      })),
+  })
+);
+
+/** The mock chains, each needing MIN_CONFIRMATIONS */
+const ConfirmingChainConfig = Layer.effect(
+  ChainConfigService,
+  Effect.map(ChainConfigService, (chains) =>
+    ChainConfigService.of({
+      ...chains,
+      getChain: (chainId: number) =>
+        Effect.map(chains.getChain(chainId), (chain) => chain && { ...chain, minConfirmations: MIN_CONFIRMATIONS }),
+    })
+  )
+).pipe(Layer.provide(MockChainConfig));
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(
+    Effect.provide(
+      Effect.provide(effect, Layer.merge(RecordingVerifier, ConfirmingChainConfig)),
+      MockCapabilities
+    ) as Effect.Effect<A, E, never>
+  );
+
+function mine(hash: string, blockNumber: number, blockHash: string, status: "0x1" | "0x0" = "0x1") {
+  const block = numberToHex(blockNumber);
+  addMockTransaction(
+    {
+      hash,
+      from: PAYER,
+      to: PAYER,
+      value: "0x0",
+      blockNumber: block,
+      blockHash,
+      gas: "0x5dc0",
+      gasPrice: "0x1",
+      input: "0x",
+      nonce: "0x0",
+      transactionIndex: "0x0",
+    },
+    {
+      transactionHash: hash,
+      blockNumber: block,
+      blockHash,
+      from: PAYER,
+      to: PAYER,
+      status,
+      gasUsed: "0x5dc0",
+      cumulativeGasUsed: "0x5dc0",
+      logs: [],
+      contractAddress: null,
+    }
+  );
+}
+
+/** Pay a fresh challenge with a transaction verified in `blockNumber`/`blockHash` */
+async function pay(txHash: string, blockNumber: number, blockHash: string) {
+  const result = await run(Effect.either(getArticle({ articleId: ARTICLE_ID })));
+  if (Either.isRight(result) || result.left._tag !== "PaymentRequiredError") {
+    throw new Error("Expected a PaymentRequiredError");
+  }
+  verifiedIn.set(txHash, { blockNumber, blockHash });
+  const paid = await run(
+    verifyPaymentAndIssueSession({ challengeId: result.left.challenge.challengeId, txHash, payerAddress: PAYER })
+  );
+  return { challengeId: result.left.challenge.challengeId, ...paid };
+}
+
+const storedReceipt = (receiptId: string) => run(Effect.flatMap(ReceiptsStore, (store) => store.getReceipt(receiptId)));
+const credits = (token: string) => run(getBalance(token)).then((balance) => balance.credits);
+
+async function main() {
+  console.log(`\n🧪 Decagon Reorg Check Test\n`);
+
+  const stamp = Date.now().toString(16);
+  const block = 0x1000;
+  const hash = (label: string) => `0x${`${label}${stamp}`.padEnd(64, "0")}`;
+
+  // ── Step 1: Unchanged ────────────────────────────────────────
+  console.log("Step 1: Receipts still in their block are left alone");
+  const remined = await pay(hash("aa"), block, hash("b1"));
+  const failing = await pay(hash("bb"), block, hash("b1"));
+  const missing = await pay(hash("cc"), block, hash("b1"));
+  mine(hash("aa"), block, hash("b1"));
+  mine(hash("bb"), block, hash("b1"));
+  const first = await run(recheckRecentReceipts());
+  assert(!first.reorged.includes(remined.receipt.receiptId), "A mined transaction is not reorged");
+  assert(first.remined.length === 0, "Nothing is re-mined", first.remined.join(", "));
+
+  // ── Step 2: Missing ──────────────────────────────────────────
+  console.log("\nStep 2: A missing transaction is reorged");
+  assert(first.reorged.includes(missing.receipt.receiptId), "The missing transaction's receipt is reorged");
+  assert((await storedReceipt(missing.receipt.receiptId)).status === "reorged", "The stored receipt says reorged");
+  assert((await credits(missing.sessionToken.tokenId)) === 0, "Its credits are revoked");
+
+  // ── Step 3: Re-mined, unconfirmed ────────────────────────────
+  console.log("\nStep 3: A re-mined transaction waits for its confirmations");
+  const creditsBefore = await credits(remined.sessionToken.tokenId);
+  mine(hash("aa"), block + 1, hash("b2"));
+  const settling = await run(recheckRecentReceipts());
+  assert(!settling.reorged.includes(remined.receipt.receiptId), "It is not reorged");
+  assert(!settling.remined.includes(remined.receipt.receiptId), "It is not moved yet (1 confirmation)");
+  assert((await storedReceipt(remined.receipt.receiptId)).blockHash === hash("b1"), "The receipt keeps its block");
+
+  // ── Step 4: Re-mined, confirmed ──────────────────────────────
+  console.log("\nStep 4: A confirmed re-mined transaction moves its receipt");
+  mine(hash("dd"), block + MIN_CONFIRMATIONS, hash("b4"));
+  const moved = await run(recheckRecentReceipts());
+  assert(moved.remined.includes(remined.receipt.receiptId), `It is re-mined (${MIN_CONFIRMATIONS} confirmations)`);
+  assert(!moved.reorged.includes(remined.receipt.receiptId), "It is not reorged");
+  const receipt = await storedReceipt(remined.receipt.receiptId);
+  assert(receipt.status === "confirmed", "The receipt stays confirmed");
+  assert(
+    receipt.blockHash === hash("b2") && receipt.blockNumber === block + 1,
+    "The receipt records the new block",
+    `${receipt.blockNumber} ${receipt.blockHash}`
+  );
+  const jwks = await run(Effect.flatMap(ReceiptSigner, (signer) => signer.publicKeys()));
+  const checked = verifyReceipt(receipt, jwks);
+  assert(checked.valid, "The receipt's new signature verifies", checked.valid ? undefined : checked.reason);
+  assert((await credits(remined.sessionToken.tokenId)) === creditsBefore, "Its credits are kept");
+  const replay = await run(
+    Effect.either(
+      verifyPaymentAndIssueSession({
+        challengeId: remined.challengeId,
+        txHash: hash("aa"),
+        payerAddress: PAYER,
+        existingSessionTokenId: remined.sessionToken.tokenId,
+      })
+    )
+  );
+  assert(
+    Either.isRight(replay) && replay.right.receipt.receiptId === remined.receipt.receiptId,
+    "Replaying the payment returns its receipt",
+    Either.isLeft(replay) ? replay.left.message : undefined
+  );
+  const again = await run(recheckRecentReceipts());
+  assert(!again.remined.includes(remined.receipt.receiptId), "The next pass finds it unchanged");
+
+  // ── Step 5: Re-mined as a failure ────────────────────────────
+  console.log("\nStep 5: A transaction re-mined as a failure is reorged");
+  mine(hash("bb"), block + 1, hash("b2"), "0x0");
+  const failedPass = await run(recheckRecentReceipts());
+  assert(failedPass.reorged.includes(failing.receipt.receiptId), "Its receipt is reorged");
+  assert((await credits(failing.sessionToken.tokenId)) === 0, "Its credits are revoked");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
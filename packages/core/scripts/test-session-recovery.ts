@@ -0,0 +1,178 @@
+#!/usr/bin/env npx tsx
+/**
+ * Session Recovery Test Script
+ *
+ * Replays the attenuated-token top-up against MockCapabilities (no API
+ * server needed): a token limited to one credit and one path must not let
+ * whoever pays through it recover the whole session with their wallet.
+ *
+ * Tests:
+ *   1. A payment opens a session the paying wallet can recover
+ *   2. A wallet tops that session up through an attenuated token
+ *   3. The topping-up wallet recovers nothing, with or without merge
+ *   4. The wallet that opened the session still recovers it
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:session-recovery
+ */
+
+import { Effect, Either } from "effect";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+import { attenuateSessionToken, type PaymentChallenge } from "@decagon/x402";
+import {
+  MockCapabilities,
+  SessionTokens,
+  formatSiweMessage,
+  issueSiweNonce,
+  getArticle,
+  getBalance,
+  verifyPaymentAndIssueSession,
+  recoverSessions,
+} from "../src/index.js";
+
+const DOMAIN = "decagon.example";
+const CHAIN_ID = 9746;
+const ARTICLE_ID = "article-1";
+
+interface Wallet {
+  readonly secretKey: Uint8Array;
+  readonly address: string;
+}
+
+function newWallet(): Wallet {
+  const secretKey = secp256k1.utils.randomSecretKey();
+  const address = `0x${bytesToHex(keccak_256(secp256k1.getPublicKey(secretKey, false).slice(1)).slice(-20))}`;
+  return { secretKey, address };
+}
+
+const OWNER = newWallet();
+const HOLDER = newWallet();
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(Effect.provide(effect, MockCapabilities) as Effect.Effect<A, E, never>);
+
+/** A wallet's `personal_sign`: 65-byte hex r, s, v with v as 27/28 */
+function personalSign(text: string, secretKey: Uint8Array): string {
+  const body = utf8ToBytes(text);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  const digest = keccak_256(new Uint8Array([...prefix, ...body]));
+  const signature = secp256k1.sign(digest, secretKey, { prehash: false, format: "recovered" });
+  return `0x${bytesToHex(signature.slice(1))}${(signature[0]! + 27).toString(16)}`;
+}
+
+/** A fresh 402 challenge for the article */
+async function challenge(): Promise<PaymentChallenge> {
+  const result = await run(Effect.either(getArticle({ articleId: ARTICLE_ID })));
+  if (Either.isRight(result) || result.left._tag !== "PaymentRequiredError") {
+    throw new Error("Expected a payment challenge");
+  }
+  return result.left.challenge;
+}
+
+/** Pay a fresh challenge from `wallet`, optionally into the session behind `sessionToken` */
+async function pay(wallet: Wallet, sessionToken?: string) {
+  const { challengeId } = await challenge();
+  return run(
+    verifyPaymentAndIssueSession({
+      challengeId,
+      transactionRef: `0x${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}`,
+      payerAddress: wallet.address,
+      existingSessionTokenId: sessionToken,
+    })
+  );
+}
+
+/** Sessions `wallet` gets back from a signed recovery request */
+async function recover(wallet: Wallet, merge = false) {
+  const { nonce } = await run(issueSiweNonce());
+  const message = formatSiweMessage({
+    domain: DOMAIN,
+    address: wallet.address,
+    uri: `https://${DOMAIN}`,
+    version: "1",
+    chainId: CHAIN_ID,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  return run(recoverSessions({ message, signature: personalSign(message, wallet.secretKey), domain: DOMAIN, merge }));
+}
+
+/** Bare session id behind a bearer token */
+const sessionOf = (token: string) =>
+  run(Effect.flatMap(SessionTokens, (sessionTokens) => sessionTokens.open(token))).then((access) => access.tokenId);
+
+async function main() {
+  console.log(`\n🧪 Decagon Session Recovery Test\n`);
+
+  // ── Step 1: Open ─────────────────────────────────────────────
+  console.log("Step 1: A payment opens a session its wallet can recover");
+  const opened = await pay(OWNER);
+  const ownerToken = opened.sessionToken.tokenId;
+  const sessionId = await sessionOf(ownerToken);
+  const ownerFirst = await recover(OWNER);
+  assert(ownerFirst.sessions.length === 1, "The opening wallet recovers one session", `${ownerFirst.sessions.length}`);
+
+  // ── Step 2: Top up through an attenuated token ───────────────
+  console.log("\nStep 2: Another wallet tops up through an attenuated token");
+  const limited = attenuateSessionToken(
+    attenuateSessionToken(ownerToken, { type: "credits", max: 1 })!,
+    { type: "path", prefix: `/article/${ARTICLE_ID}` }
+  )!;
+  const before = await run(getBalance(ownerToken));
+  const topUp = await pay(HOLDER, limited);
+  const after = await run(getBalance(ownerToken));
+  assert(topUp.sessionToken.tokenId === limited, "The top-up answers with the attenuated token it came through");
+  assert(
+    after.credits === before.credits + topUp.receipt.creditsPurchased,
+    "The credits went to the existing session",
+    `${before.credits} → ${after.credits}`
+  );
+  assert(topUp.receipt.payerAddress === HOLDER.address, "The receipt names the topping-up wallet as payer");
+
+  // ── Step 3: The topping-up wallet recovers nothing ───────────
+  console.log("\nStep 3: The topping-up wallet cannot recover the session");
+  const holderSessions = await recover(HOLDER);
+  const holderIds = await Promise.all(holderSessions.sessions.map((s) => sessionOf(s.tokenId)));
+  assert(holderSessions.sessions.length === 0, "Recovery returns no session", `${holderSessions.sessions.length}`);
+  assert(!holderIds.includes(sessionId), "No recovered token opens the topped-up session");
+  const holderMerged = await recover(HOLDER, true);
+  assert(holderMerged.sessions.length === 0, "Recovery with merge returns no session either");
+
+  // ── Step 4: The opening wallet still recovers it ─────────────
+  console.log("\nStep 4: The opening wallet still recovers the session");
+  const ownerAgain = await recover(OWNER);
+  const ownerIds = await Promise.all(ownerAgain.sessions.map((s) => sessionOf(s.tokenId)));
+  assert(ownerIds.length === 1 && ownerIds[0] === sessionId, "The opening wallet recovers the session");
+  assert(ownerAgain.sessions[0]?.credits === after.credits, "The recovered session holds the topped-up credits");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
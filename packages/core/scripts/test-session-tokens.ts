@@ -0,0 +1,202 @@
+#!/usr/bin/env npx tsx
+/**
+ * Session Token Test Script
+ *
+ * Exercises the HMAC caveat chain of `@decagon/x402` session tokens
+ * in-process (no API server needed).
+ *
+ * Tests:
+ *   1. A minted token opens to its session with no caveats
+ *   2. Tampered signatures, session ids and secrets are rejected
+ *   3. A caveat cannot be stripped, and an unknown caveat is rejected
+ *   4. Path caveats match whole segments (/article/1 does not cover /article/10)
+ *   5. Expiry and origin caveats
+ *   6. Credit budgets are shared by tokens attenuated further
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:session-tokens
+ */
+
+import { Encoding } from "effect";
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { utf8ToBytes } from "@noble/hashes/utils.js";
+import {
+  mintSessionToken,
+  attenuateSessionToken,
+  openSessionToken,
+  checkSessionCaveats,
+  type SessionCaveat,
+} from "@decagon/x402";
+
+const SECRET = utf8ToBytes("test-session-secret-0123456789abcdef");
+const SESSION_ID = "session-under-test";
+const NOW = "2026-01-01T00:00:00.000Z";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+function attenuate(token: string, ...caveats: SessionCaveat[]): string {
+  return caveats.reduce((current, caveat) => {
+    const next = attenuateSessionToken(current, caveat);
+    if (!next) throw new Error(`Could not attenuate ${current}`);
+    return next;
+  }, token);
+}
+
+function opened(token: string) {
+  const result = openSessionToken(token, SECRET);
+  return result.valid ? result : null;
+}
+
+function reasonFor(token: string): string {
+  const result = openSessionToken(token, SECRET);
+  return result.valid ? "(valid)" : result.reason;
+}
+
+/** Whether a token carrying only `path=<prefix>` may unlock `path` */
+function pathAllowed(prefix: string, path: string | undefined): boolean {
+  return checkSessionCaveats([{ type: "path", prefix }], { now: NOW, path }) === null;
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Session Token Test\n`);
+
+  // ── Step 1: Mint ─────────────────────────────────────────────
+  console.log("Step 1: A minted token opens to its session");
+  const token = mintSessionToken(SESSION_ID, SECRET);
+  const plain = opened(token);
+  assert(token.startsWith("dst1."), `Token has the dst1 prefix: ${token.slice(0, 12)}…`);
+  assert(plain?.tokenId === SESSION_ID, "Token addresses the session");
+  assert(plain?.caveats.length === 0, "Token carries no caveats");
+  assert(reasonFor(SESSION_ID) === "Malformed session token", "A bare session id is not a token");
+
+  // ── Step 2: Tampering ────────────────────────────────────────
+  console.log("\nStep 2: Tampered tokens are rejected");
+  const parts = token.split(".");
+  const signature = Encoding.decodeBase64Url(parts[2]!);
+  if (signature._tag === "Left") throw new Error("Signature is not base64url");
+  const flipped = Uint8Array.from(signature.right);
+  flipped[0] = flipped[0]! ^ 0x01;
+  const tamperedSignature = [parts[0], parts[1], Encoding.encodeBase64Url(flipped)].join(".");
+  assert(
+    reasonFor(tamperedSignature) === "Session token signature does not match",
+    "A flipped signature bit is rejected",
+    reasonFor(tamperedSignature)
+  );
+  const otherSession = [parts[0], Encoding.encodeBase64Url("someone-else"), parts[2]].join(".");
+  assert(
+    reasonFor(otherSession) === "Session token signature does not match",
+    "Another session id under the same signature is rejected"
+  );
+  const foreign = openSessionToken(mintSessionToken(SESSION_ID, utf8ToBytes("another-secret")), SECRET);
+  assert(!foreign.valid, "A token minted under another secret is rejected");
+  assert(reasonFor(`${parts[0]}.${parts[1]}`) === "Malformed session token", "A token without a signature is malformed");
+
+  // ── Step 3: Stripped and unknown caveats ─────────────────────
+  console.log("\nStep 3: Caveats cannot be stripped or invented");
+  const narrowed = attenuate(token, { type: "path", prefix: "/article/1" }, { type: "credits", max: 5 });
+  assert(opened(narrowed)?.caveats.length === 2, "An attenuated token carries both caveats");
+  const narrowedParts = narrowed.split(".");
+  const stripped = [...narrowedParts.slice(0, 2), narrowedParts[3], narrowedParts[4]].join(".");
+  assert(
+    reasonFor(stripped) === "Session token signature does not match",
+    "Dropping the path caveat breaks the signature",
+    reasonFor(stripped)
+  );
+  const reordered = [...narrowedParts.slice(0, 2), narrowedParts[3], narrowedParts[2], narrowedParts[4]].join(".");
+  assert(reasonFor(reordered) === "Session token signature does not match", "Reordering caveats breaks the signature");
+
+  // Anyone can extend the chain, so an unknown caveat carries a valid signature
+  const previous = Encoding.decodeBase64Url(parts[2]!);
+  if (previous._tag === "Left") throw new Error("Signature is not base64url");
+  const unknown = [
+    ...parts.slice(0, 2),
+    Encoding.encodeBase64Url("method=GET"),
+    Encoding.encodeBase64Url(hmac(sha256, previous.right, utf8ToBytes("method=GET"))),
+  ].join(".");
+  assert(reasonFor(unknown) === "Unknown session token caveat", "An unknown caveat is rejected", reasonFor(unknown));
+  const relative = attenuateSessionToken(token, { type: "path", prefix: "article" });
+  assert(
+    relative !== null && reasonFor(relative) === "Unknown session token caveat",
+    "A path caveat without a leading slash is rejected"
+  );
+
+  // ── Step 4: Path prefixes ────────────────────────────────────
+  console.log("\nStep 4: Path caveats match whole segments");
+  assert(pathAllowed("/article/1", "/article/1"), "/article/1 covers /article/1");
+  assert(pathAllowed("/article/1", "/article/1/comments"), "/article/1 covers /article/1/comments");
+  assert(!pathAllowed("/article/1", "/article/10"), "/article/1 does not cover /article/10");
+  assert(!pathAllowed("/article/1", "/article/1-draft"), "/article/1 does not cover /article/1-draft");
+  assert(!pathAllowed("/article/1", "/article"), "/article/1 does not cover its parent /article");
+  assert(pathAllowed("/article/", "/article/10"), "/article/ covers /article/10");
+  assert(!pathAllowed("/article/", "/article"), "/article/ does not cover /article");
+  assert(pathAllowed("/", "/transfer"), "/ covers every path");
+  assert(!pathAllowed("/article/1", undefined), "A path caveat is broken by a request without a path");
+  const nested = opened(attenuate(token, { type: "path", prefix: "/article/" }, { type: "path", prefix: "/article/1" }));
+  assert(
+    nested !== null && checkSessionCaveats(nested.caveats, { now: NOW, path: "/article/2" }) !== null,
+    "Stacked path caveats only allow what every one allows"
+  );
+
+  // ── Step 5: Expiry and origin ────────────────────────────────
+  console.log("\nStep 5: Expiry and origin caveats");
+  const expiring: SessionCaveat[] = [{ type: "expires", at: "2026-01-01T00:05:00.000Z" }];
+  assert(checkSessionCaveats(expiring, { now: NOW }) === null, "A token is usable before it expires");
+  assert(
+    checkSessionCaveats(expiring, { now: "2026-01-01T00:05:00.000Z" }) !== null,
+    "A token stops working at its expiry"
+  );
+  const pinned: SessionCaveat[] = [{ type: "origin", origin: "https://reader.example" }];
+  assert(
+    checkSessionCaveats(pinned, { now: NOW, origin: "HTTPS://Reader.Example" }) === null,
+    "Origins compare case-insensitively"
+  );
+  assert(
+    checkSessionCaveats(pinned, { now: NOW, origin: "https://reader.example.evil" }) !== null,
+    "Another origin is rejected"
+  );
+  assert(checkSessionCaveats(pinned, { now: NOW }) !== null, "A request without an origin is rejected");
+
+  // ── Step 6: Credit budgets ───────────────────────────────────
+  console.log("\nStep 6: Credit budgets are shared down the chain");
+  const capped = attenuate(token, { type: "credits", max: 10 });
+  const recapped = attenuate(capped, { type: "credits", max: 3 });
+  const cappedBudgets = opened(capped)?.budgets ?? [];
+  const recappedBudgets = opened(recapped)?.budgets ?? [];
+  assert(cappedBudgets.length === 1 && cappedBudgets[0]!.limit === 10, "One budget of 10 credits");
+  assert(recappedBudgets.length === 2, "A further cap adds a second budget");
+  assert(recappedBudgets[0]?.key === cappedBudgets[0]?.key, "The derived token draws on its parent's budget");
+  const sibling = opened(attenuate(token, { type: "credits", max: 10 }))?.budgets ?? [];
+  assert(sibling[0]?.key === cappedBudgets[0]?.key, "The same cap on the same token is the same budget");
+  assert(
+    opened(attenuate(token, { type: "credits", max: 11 }))?.budgets[0]?.key !== cappedBudgets[0]?.key,
+    "A different cap is a different budget"
+  );
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,252 @@
+#!/usr/bin/env npx tsx
+/**
+ * Sign-In with Ethereum Test Script
+ *
+ * Exercises the EIP-4361 parser, the message checks and signer recovery,
+ * then sign-in against MockCapabilities (no API server needed).
+ *
+ * Tests:
+ *   1. A formatted message parses back to the same fields
+ *   2. Malformed messages do not parse
+ *   3. Domain, URI, chain, version, nonce and validity window are checked
+ *   4. The signer is recovered; tampered messages and signatures are not theirs
+ *   5. Sign-in uses up its nonce: replayed, unknown and expired nonces fail
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:siwe
+ */
+
+import { Effect, Either, Layer } from "effect";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+import {
+  MockCapabilities,
+  Clock,
+  formatSiweMessage,
+  parseSiweMessage,
+  checkSiweMessage,
+  recoverMessageSigner,
+  issueSiweNonce,
+  signInWithEthereum,
+  SIWE_NONCE_TTL_MINUTES,
+  type SiweMessage,
+} from "../src/index.js";
+
+const DOMAIN = "decagon.example";
+const CHAIN_ID = 9746;
+const NOW = "2026-01-01T00:00:00.000Z";
+
+const SECRET_KEY = secp256k1.utils.randomSecretKey();
+const ADDRESS = `0x${bytesToHex(keccak_256(secp256k1.getPublicKey(SECRET_KEY, false).slice(1)).slice(-20))}`;
+
+const MESSAGE: SiweMessage = {
+  domain: DOMAIN,
+  address: ADDRESS,
+  statement: "Sign in to Decagon",
+  uri: `https://${DOMAIN}/login`,
+  version: "1",
+  chainId: CHAIN_ID,
+  nonce: "abcdef1234567890",
+  issuedAt: NOW,
+  expirationTime: "2026-01-01T00:10:00.000Z",
+  notBefore: "2025-12-31T23:59:00.000Z",
+  requestId: "req-1",
+  resources: ["https://decagon.example/article/1", "ipfs://bafy"],
+};
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+/** A wallet's `personal_sign`: 65-byte hex r, s, v with v as 27/28 */
+function personalSign(text: string, secretKey: Uint8Array = SECRET_KEY): string {
+  const body = utf8ToBytes(text);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  const digest = keccak_256(new Uint8Array([...prefix, ...body]));
+  // The recovered format puts the recovery bit first
+  const signature = secp256k1.sign(digest, secretKey, { prehash: false, format: "recovered" });
+  return `0x${bytesToHex(signature.slice(1))}${(signature[0]! + 27).toString(16)}`;
+}
+
+function problemWith(changes: Partial<SiweMessage>, now = NOW): string | null {
+  return checkSiweMessage({ ...MESSAGE, ...changes }, { domain: DOMAIN, chainIds: [CHAIN_ID], now });
+}
+
+/** Clock running `offsetMs` ahead of real time */
+const clockAhead = (offsetMs: number) => {
+  const at = (ms: number) => new Date(Date.now() + offsetMs + ms).toISOString();
+  return Layer.succeed(
+    Clock,
+    Clock.of({
+      now: () => Effect.sync(() => at(0)),
+      nowMs: () => Effect.sync(() => Date.now() + offsetMs),
+      futureSeconds: (seconds: number) => Effect.sync(() => at(seconds * 1000)),
+      futureMinutes: (minutes: number) => Effect.sync(() => at(minutes * 60_000)),
+      futureHours: (hours: number) => Effect.sync(() => at(hours * 3_600_000)),
+      isPast: (isoTimestamp: string) => Effect.sync(() => Date.parse(isoTimestamp) < Date.now() + offsetMs),
+    })
+  );
+};
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>, clock?: Layer.Layer<Clock>) =>
+  Effect.runPromise(
+    Effect.provide(clock ? Effect.provide(effect, clock) : effect, MockCapabilities) as Effect.Effect<A, E, never>
+  );
+
+/** A fresh message for a server-issued nonce, valid for the next five minutes */
+async function freshMessage(): Promise<string> {
+  const { nonce } = await run(issueSiweNonce());
+  return formatSiweMessage({
+    domain: DOMAIN,
+    address: ADDRESS,
+    uri: `https://${DOMAIN}`,
+    version: "1",
+    chainId: CHAIN_ID,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+}
+
+async function signIn(message: string, clock?: Layer.Layer<Clock>) {
+  return run(Effect.either(signInWithEthereum({ message, signature: personalSign(message), domain: DOMAIN })), clock);
+}
+
+/** Why sign-in was refused, or "(signed in)" */
+function refusal(result: Awaited<ReturnType<typeof signIn>>): string {
+  if (Either.isRight(result)) return "(signed in)";
+  return result.left._tag === "UnauthorizedError" ? result.left.reason : result.left.message;
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Sign-In with Ethereum Test`);
+  console.log(`   Wallet: ${ADDRESS}\n`);
+
+  // ── Step 1: Round trip ───────────────────────────────────────
+  console.log("Step 1: Format and parse");
+  const text = formatSiweMessage(MESSAGE);
+  const parsed = parseSiweMessage(text);
+  assert(text.startsWith(`${DOMAIN} wants you to sign in with your Ethereum account:\n${ADDRESS}\n`), "Message has the EIP-4361 preamble");
+  assert(JSON.stringify(parsed) === JSON.stringify(MESSAGE), "Every field parses back unchanged", JSON.stringify(parsed));
+  const bareText = formatSiweMessage({ ...MESSAGE, statement: undefined, resources: undefined });
+  const bare = parseSiweMessage(bareText);
+  assert(bare?.statement === undefined && bare?.uri === MESSAGE.uri, "A message without a statement parses");
+  const tight = parseSiweMessage(bareText.replace(`${ADDRESS}\n\n\nURI`, `${ADDRESS}\n\nURI`));
+  assert(tight?.nonce === MESSAGE.nonce, "A message without a statement or its second blank line parses");
+
+  // ── Step 2: Malformed messages ───────────────────────────────
+  console.log("\nStep 2: Malformed messages do not parse");
+  assert(parseSiweMessage(text.replace(" wants you to sign in", " asks you to sign in")) === null, "A wrong preamble");
+  assert(parseSiweMessage(text.replace(/\nNonce: .*/, "")) === null, "A missing nonce");
+  assert(parseSiweMessage(text.replace("Chain ID: 9746", "Chain ID: nine")) === null, "A non-numeric chain id");
+  assert(parseSiweMessage(text.replace("- ipfs://bafy", "ipfs://bafy")) === null, "A resource without its dash");
+  assert(parseSiweMessage(text.replace("URI: ", "URI ")) === null, "A field without its separator");
+  assert(parseSiweMessage("") === null, "An empty message");
+
+  // ── Step 3: Message checks ───────────────────────────────────
+  console.log("\nStep 3: Messages are checked against the server");
+  assert(problemWith({}) === null, "The expected message passes", problemWith({}) ?? "");
+  assert(problemWith({ domain: "evil.example" }) !== null, "Another domain is rejected");
+  assert(problemWith({ uri: "https://evil.example/login" }) !== null, "A URI on another host is rejected");
+  assert(
+    problemWith({ uri: `https://${DOMAIN}@evil.example/login` }) !== null,
+    "A URI hiding another host behind user info is rejected"
+  );
+  assert(problemWith({ uri: `https://${DOMAIN}.evil.example` }) !== null, "A URI on a lookalike subdomain is rejected");
+  assert(problemWith({ uri: `https://DECAGON.example/login` }) === null, "The URI host compares case-insensitively");
+  assert(problemWith({ chainId: 1 }) !== null, "A chain the API does not accept is rejected");
+  assert(problemWith({ version: "2" }) !== null, "Another SIWE version is rejected");
+  assert(problemWith({ address: "0x1234" }) !== null, "A malformed address is rejected");
+  assert(problemWith({ nonce: "short" }) === "Malformed nonce", "A nonce under 8 characters is rejected");
+  assert(problemWith({ nonce: "abcd-efgh-ijkl" }) === "Malformed nonce", "A non-alphanumeric nonce is rejected");
+  assert(problemWith({}, "2026-01-01T00:10:00.000Z") === "Message has expired", "A message is dead at its expiration time");
+  assert(problemWith({}, "2025-12-31T23:58:00.000Z") === "Message is not valid yet", "A message is not usable before Not Before");
+  assert(problemWith({ issuedAt: "yesterday" }) === "Malformed Issued At", "A malformed Issued At is rejected");
+
+  // ── Step 4: Signer recovery ──────────────────────────────────
+  console.log("\nStep 4: Signer recovery");
+  const signature = personalSign(text);
+  assert(recoverMessageSigner(text, signature) === ADDRESS, "The signer's address is recovered");
+  const v01 = `${signature.slice(0, -2)}0${Number.parseInt(signature.slice(-2), 16) - 27}`;
+  assert(recoverMessageSigner(text, v01) === ADDRESS, "A v of 0/1 is accepted as well as 27/28");
+  assert(
+    recoverMessageSigner(text.replace("Chain ID: 9746", "Chain ID: 9745"), signature) !== ADDRESS,
+    "A tampered message does not recover the signer"
+  );
+  const flipped = `${signature.slice(0, 10)}${signature[10] === "0" ? "1" : "0"}${signature.slice(11)}`;
+  assert(recoverMessageSigner(text, flipped) !== ADDRESS, "A tampered signature does not recover the signer");
+  assert(
+    recoverMessageSigner(text, personalSign(text, secp256k1.utils.randomSecretKey())) !== ADDRESS,
+    "Another wallet's signature does not recover the signer"
+  );
+  assert(recoverMessageSigner(text, signature.slice(0, -2)) === null, "A 64-byte signature is malformed");
+  assert(recoverMessageSigner(text, `${signature.slice(0, -2)}1d`) === null, "A v of 29 is malformed");
+  assert(recoverMessageSigner(text, `0x${"00".repeat(65)}`) === null, "A zero signature recovers no key");
+
+  // ── Step 5: Nonces ───────────────────────────────────────────
+  console.log("\nStep 5: Sign-in uses up its nonce");
+  const message = await freshMessage();
+  const first = await signIn(message);
+  assert(Either.isRight(first), "Sign-in with a fresh nonce succeeds");
+  assert(
+    Either.isRight(first) && first.right.user.walletAddress === ADDRESS,
+    "The user is keyed by the lowercase wallet address"
+  );
+  const replay = refusal(await signIn(message));
+  assert(replay === "Unknown, used or expired nonce", "Replaying the same signed message fails", replay);
+
+  const unknown = formatSiweMessage({ ...parseSiweMessage(message)!, nonce: "neverissued1234" });
+  const unknownResult = refusal(await signIn(unknown));
+  assert(unknownResult === "Unknown, used or expired nonce", "A nonce the server never issued fails", unknownResult);
+
+  const late = await freshMessage();
+  const lateResult = refusal(await signIn(late, clockAhead((SIWE_NONCE_TTL_MINUTES + 1) * 60_000)));
+  assert(
+    lateResult === "Unknown, used or expired nonce",
+    `A nonce used after ${SIWE_NONCE_TTL_MINUTES} minutes has expired`,
+    lateResult
+  );
+
+  const forged = await freshMessage();
+  const forgedResult = await run(
+    Effect.either(
+      signInWithEthereum({
+        message: forged,
+        signature: personalSign(forged, secp256k1.utils.randomSecretKey()),
+        domain: DOMAIN,
+      })
+    )
+  );
+  assert(
+    refusal(forgedResult) === "Signature does not match the message address",
+    "A message signed by another wallet fails",
+    refusal(forgedResult)
+  );
+  const retry = await signIn(forged);
+  assert(Either.isRight(retry), "A failed signature check does not use up the nonce");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+#!/usr/bin/env npx tsx
+/**
+ * Transfer Authorization Test Script
+ *
+ * Settles x402 "exact" payments (EIP-3009 transfer authorizations) against
+ * MockCapabilities, on a USDT chain whose token accepts authorizations
+ * (no API server needed).
+ *
+ * Tests:
+ *   1. Legacy transactions sign as in the EIP-155 example
+ *   2. An authorization recovers to the key that signed it
+ *   3. A valid authorization is settled once and credits a session
+ *   4. Authorizations that would not pay the challenge are never submitted
+ *   5. A settled authorization cannot pay another challenge
+ *
+ * Usage:
+ *   pnpm --filter @decagon/core test:transfer-authorization
+ */
+
+import { Effect, Either, Layer } from "effect";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+import {
+  recoverAuthorizationSigner,
+  signTransferAuthorization,
+  type PaymentChallenge,
+  type TransferAuthorization,
+  type TransferAuthorizationDomain,
+} from "@decagon/x402";
+import {
+  ChainConfigService,
+  MockCapabilities,
+  SettlementsStore,
+  addressOfKey,
+  authorizationKeyOf,
+  findAuthorizedChallenge,
+  getArticle,
+  legacySigningHash,
+  settleTransferAuthorization,
+  signLegacyTransaction,
+  type ChainConfig,
+} from "../src/index.js";
+
+const ARTICLE_ID = "article-1";
+const CHAIN_ID = 9746;
+const TOKEN = "0x00000000000000000000000000000000000000cc";
+const PAYEE = "0x00000000000000000000000000000000000000bb";
+
+const CHAIN: ChainConfig = {
+  chainId: CHAIN_ID,
+  chainName: "Plasma Testnet",
+  rpcUrl: "",
+  assetType: "ERC20",
+  tokenAddress: TOKEN,
+  transferAuthorization: { name: "USD Coin", version: "2" },
+  assetSymbol: "USDT",
+  assetDecimals: 6,
+  minConfirmations: 1,
+  payeeAddress: PAYEE,
+  explorerTxBase: "",
+};
+
+const DOMAIN: TransferAuthorizationDomain = { name: "USD Coin", version: "2", chainId: CHAIN_ID, verifyingContract: TOKEN };
+
+const PAYER_KEY = sha256(utf8ToBytes("decagon-test-payer"));
+const PAYER = addressOfKey(PAYER_KEY);
+const OTHER_KEY = sha256(utf8ToBytes("decagon-test-other"));
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+/** The one accepted chain: USDT, whose token accepts authorizations */
+const TestChainConfig = Layer.succeed(
+  ChainConfigService,
+  ChainConfigService.of({
+    getConfig: () => Effect.succeed(CHAIN),
+    listChains: () => Effect.succeed([CHAIN]),
+    getChain: (chainId) => Effect.succeed(chainId === CHAIN_ID ? CHAIN : null),
+  })
+);
+
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(
+    Effect.provide(Effect.provide(effect, TestChainConfig), MockCapabilities) as Effect.Effect<A, E, never>
+  );
+
+/** A fresh 402 challenge for the article, optionally bound to a payer */
+async function challenge(payerAddress?: string): Promise<PaymentChallenge> {
+  const result = await run(Effect.either(getArticle({ articleId: ARTICLE_ID, payerAddress })));
+  if (Either.isRight(result) || result.left._tag !== "PaymentRequiredError") {
+    throw new Error("Expected a payment challenge");
+  }
+  return result.left.challenge;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/** An authorization paying the challenge in full, valid for ten minutes */
+const authorizationFor = (c: PaymentChallenge, overrides: Partial<TransferAuthorization> = {}): TransferAuthorization => ({
+  from: PAYER,
+  to: c.payeeAddress,
+  value: c.amountWei,
+  validAfter: String(nowSeconds() - 60),
+  validBefore: String(nowSeconds() + 600),
+  nonce: `0x${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}`,
+  ...overrides,
+});
+
+/** Settle an authorization signed with `key` */
+async function settle(c: PaymentChallenge, authorization: TransferAuthorization, key = PAYER_KEY) {
+  return run(
+    Effect.either(
+      settleTransferAuthorization({
+        challengeId: c.challengeId,
+        chainId: CHAIN_ID,
+        authorization,
+        signature: signTransferAuthorization(DOMAIN, authorization, key),
+      })
+    )
+  );
+}
+
+const reasonOf = (result: Either.Either<unknown, { _tag: string; message: string }>) =>
+  Either.isLeft(result) ? result.left.message : "settled";
+
+const settlementOf = (authorization: TransferAuthorization) =>
+  run(Effect.flatMap(SettlementsStore, (store) => store.get(authorizationKeyOf(CHAIN_ID, TOKEN, authorization))));
+
+async function main() {
+  console.log(`\n🧪 Decagon Transfer Authorization Test\n`);
+
+  // ── Step 1: EIP-155 example ──────────────────────────────────
+  console.log("Step 1: Legacy transactions sign as in the EIP-155 example");
+  const exampleKey = hexToBytes("46".repeat(32));
+  const exampleTx = {
+    chainId: 1,
+    nonce: 9n,
+    gasPrice: 20_000_000_000n,
+    gasLimit: 21_000n,
+    to: `0x${"35".repeat(20)}`,
+    value: 1_000_000_000_000_000_000n,
+    data: "0x",
+  };
+  assert(
+    bytesToHex(legacySigningHash(exampleTx)) === "daf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53",
+    "The signing hash matches"
+  );
+  assert(
+    signLegacyTransaction(exampleTx, exampleKey) ===
+      "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83",
+    "The signed transaction matches"
+  );
+  assert(addressOfKey(exampleKey) === "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f", "The key's address matches");
+
+  // ── Step 2: Signatures ───────────────────────────────────────
+  console.log("\nStep 2: An authorization recovers to the key that signed it");
+  const first = await challenge();
+  const signed = authorizationFor(first);
+  const signature = signTransferAuthorization(DOMAIN, signed, PAYER_KEY);
+  assert(recoverAuthorizationSigner(DOMAIN, signed, signature) === PAYER, "The signer is recovered");
+  assert(
+    recoverAuthorizationSigner(DOMAIN, { ...signed, value: "1" }, signature) !== PAYER,
+    "A changed value no longer recovers to the signer"
+  );
+  assert(
+    recoverAuthorizationSigner({ ...DOMAIN, chainId: 1 }, signed, signature) !== PAYER,
+    "Another chain's domain no longer recovers to the signer"
+  );
+
+  // ── Step 3: Settlement ───────────────────────────────────────
+  console.log("\nStep 3: A valid authorization is settled once and credits a session");
+  const settled = await settle(first, signed);
+  assert(Either.isRight(settled), "The authorization is settled", reasonOf(settled));
+  const recorded = await settlementOf(signed);
+  const receipt = Either.isRight(settled) ? settled.right.receipt : undefined;
+  assert(recorded?.challengeId === first.challengeId, "The settlement is recorded for the challenge");
+  assert(receipt !== undefined && receipt.txHash === recorded?.txHash, "The receipt is for the submitted transaction");
+  assert(receipt?.payerAddress === PAYER, "The receipt names the authorizing wallet");
+  assert(
+    (await run(findAuthorizedChallenge(CHAIN_ID, signed))) === first.challengeId,
+    "The authorization leads back to its challenge"
+  );
+
+  const retried = await run(
+    Effect.either(
+      settleTransferAuthorization({
+        challengeId: first.challengeId,
+        chainId: CHAIN_ID,
+        authorization: signed,
+        signature,
+        existingSessionTokenId: Either.isRight(settled) ? settled.right.sessionToken.tokenId : undefined,
+      })
+    )
+  );
+  assert(
+    Either.isRight(retried) && retried.right.receipt.receiptId === receipt?.receiptId,
+    "A retry returns the same receipt",
+    reasonOf(retried)
+  );
+  assert((await settlementOf(signed))?.txHash === recorded?.txHash, "A retry submits nothing new");
+
+  // ── Step 4: Rejected before submission ───────────────────────
+  console.log("\nStep 4: Authorizations that would not pay the challenge are never submitted");
+  const cases: Array<[string, (c: PaymentChallenge) => TransferAuthorization, Uint8Array, string]> = [
+    ["Another recipient", (c) => authorizationFor(c, { to: `0x${"dd".repeat(20)}` }), PAYER_KEY, "Wrong recipient"],
+    ["Less than the amount", (c) => authorizationFor(c, { value: String(BigInt(c.amountWei) - 1n) }), PAYER_KEY, "Insufficient amount"],
+    ["Not valid yet", (c) => authorizationFor(c, { validAfter: String(nowSeconds() + 60) }), PAYER_KEY, "not valid yet"],
+    ["About to expire", (c) => authorizationFor(c, { validBefore: String(nowSeconds() + 10) }), PAYER_KEY, "expires too soon"],
+    ["Signed by someone else", (c) => authorizationFor(c), OTHER_KEY, "not signed by its sender"],
+  ];
+  for (const [label, build, key, reason] of cases) {
+    const c = await challenge();
+    const authorization = build(c);
+    const result = await settle(c, authorization, key);
+    assert(
+      reasonOf(result).includes(reason) && (await settlementOf(authorization)) === null,
+      `${label}: rejected and not submitted`,
+      reasonOf(result)
+    );
+  }
+  const bound = await challenge(addressOfKey(OTHER_KEY));
+  const unbound = authorizationFor(bound);
+  const wrongPayer = await settle(bound, unbound);
+  assert(
+    reasonOf(wrongPayer).includes("Wrong payer") && (await settlementOf(unbound)) === null,
+    "A challenge bound to another wallet: rejected and not submitted",
+    reasonOf(wrongPayer)
+  );
+
+  // ── Step 5: One challenge per authorization ──────────────────
+  console.log("\nStep 5: A settled authorization cannot pay another challenge");
+  const second = await challenge();
+  const reused = await settle(second, { ...signed, to: second.payeeAddress });
+  assert(reasonOf(reused).includes("Authorization already used"), "It is rejected", reasonOf(reused));
+  assert((await settlementOf(signed))?.challengeId === first.challengeId, "The settlement still names the first challenge");
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
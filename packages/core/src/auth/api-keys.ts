@@ -0,0 +1,28 @@
+/**
+ * API Keys - Pure Functions
+ *
+ * Users authenticate with bearer API keys ("dk_" + 32 hex chars). Only
+ * the SHA-256 of a key is stored; the key itself is shown once, when it
+ * is issued. Keys are random, so an unsalted fast hash is enough.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+
+/** Marks Decagon API keys */
+export const API_KEY_PREFIX = "dk_";
+
+/**
+ * Whether a string has the shape of an API key
+ */
+export function isApiKey(value: string): boolean {
+  return value.startsWith(API_KEY_PREFIX) && value.length > API_KEY_PREFIX.length;
+}
+
+/**
+ * Hash of an API key, as stored and looked up
+ */
+export function hashApiKey(apiKey: string): string {
+  return bytesToHex(sha256(utf8ToBytes(apiKey)));
+}
@@ -0,0 +1,15 @@
+/**
+ * Auth Module Index
+ *
+ * Re-exports pure API key and Sign-In with Ethereum functions.
+ */
+
+export { API_KEY_PREFIX, isApiKey, hashApiKey } from "./api-keys.js";
+export {
+  formatSiweMessage,
+  parseSiweMessage,
+  checkSiweMessage,
+  recoverMessageSigner,
+  type SiweMessage,
+  type SiweExpectations,
+} from "./siwe.js";
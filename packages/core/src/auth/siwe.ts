@@ -0,0 +1,211 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) - Pure Functions
+ *
+ * A wallet proves who it is by signing a plain-text message with
+ * `personal_sign` (EIP-191). The message format is fixed by EIP-4361;
+ * the signer is recovered in process with secp256k1, so no RPC node is
+ * involved. Nonces are issued and consumed by the caller.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+
+export interface SiweMessage {
+  readonly domain: string;
+  /** Signing address as written in the message */
+  readonly address: string;
+  readonly statement?: string;
+  readonly uri: string;
+  readonly version: string;
+  readonly chainId: number;
+  readonly nonce: string;
+  readonly issuedAt: string;
+  readonly expirationTime?: string;
+  readonly notBefore?: string;
+  readonly requestId?: string;
+  readonly resources?: readonly string[];
+}
+
+export interface SiweExpectations {
+  /** Domain the message must be addressed to (host[:port]); its URI must be on it too */
+  readonly domain: string;
+  /** Chain IDs the message may name */
+  readonly chainIds: readonly number[];
+  /** Current time, ISO 8601 */
+  readonly now: string;
+}
+
+const PREAMBLE_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/** EIP-4361 nonces: at least 8 alphanumeric characters */
+const NONCE_PATTERN = /^[A-Za-z0-9]{8,}$/;
+
+/** Scheme and authority of an RFC 3986 URI, without user info */
+const URI_AUTHORITY_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/?#]*)/;
+
+// ============================================
+// Message Format
+// ============================================
+
+/**
+ * Render a SIWE message in the EIP-4361 text format, as a wallet signs it
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${PREAMBLE_SUFFIX}`, message.address, ""];
+  if (message.statement !== undefined) {
+    lines.push(message.statement);
+  }
+  lines.push(
+    "",
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  if (message.expirationTime !== undefined) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore !== undefined) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources !== undefined) {
+    lines.push("Resources:", ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parse a message in the EIP-4361 text format. Returns null if it is not
+ * one; field values are not checked here (see checkSiweMessage).
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split("\n");
+  const header = lines[0] ?? "";
+  if (!header.endsWith(PREAMBLE_SUFFIX)) return null;
+  const domain = header.slice(0, -PREAMBLE_SUFFIX.length);
+  const address = lines[1] ?? "";
+  if (lines[2] !== "") return null;
+
+  // An optional statement line, then a blank line. Some wallets drop the
+  // blank line when there is no statement.
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] === "") {
+    index += 1;
+  } else if (lines[index] !== undefined && !lines[index]!.startsWith("URI: ")) {
+    statement = lines[index];
+    if (lines[index + 1] !== "") return null;
+    index += 2;
+  }
+
+  const fields = new Map<string, string>();
+  let resources: string[] | undefined;
+  for (; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (line === "Resources:") {
+      resources = lines.slice(index + 1).map((resource) => resource.replace(/^- /, ""));
+      if (lines.slice(index + 1).some((resource) => !resource.startsWith("- "))) return null;
+      break;
+    }
+    const separator = line.indexOf(": ");
+    if (separator < 0) return null;
+    fields.set(line.slice(0, separator), line.slice(separator + 2));
+  }
+
+  const uri = fields.get("URI");
+  const version = fields.get("Version");
+  const chainId = Number(fields.get("Chain ID"));
+  const nonce = fields.get("Nonce");
+  const issuedAt = fields.get("Issued At");
+  if (!uri || !version || !Number.isInteger(chainId) || !nonce || !issuedAt) return null;
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get("Expiration Time"),
+    notBefore: fields.get("Not Before"),
+    requestId: fields.get("Request ID"),
+    resources,
+  };
+}
+
+/**
+ * Check a parsed message against what this server expects. Returns the
+ * reason it is unacceptable, or null. The nonce is only checked for shape.
+ */
+export function checkSiweMessage(message: SiweMessage, expected: SiweExpectations): string | null {
+  if (message.domain !== expected.domain) {
+    return `Message is for ${message.domain}, not ${expected.domain}`;
+  }
+  const uriAuthority = URI_AUTHORITY_PATTERN.exec(message.uri)?.[1];
+  if (uriAuthority?.toLowerCase() !== expected.domain.toLowerCase()) {
+    return `Message URI ${message.uri} is not on ${expected.domain}`;
+  }
+  if (!expected.chainIds.includes(message.chainId)) {
+    return `Message is for chain ${message.chainId}, which is not accepted`;
+  }
+  if (!ADDRESS_PATTERN.test(message.address)) return "Message address is not an Ethereum address";
+  if (message.version !== "1") return `Unsupported SIWE version ${message.version}`;
+  if (!NONCE_PATTERN.test(message.nonce)) return "Malformed nonce";
+
+  const now = Date.parse(expected.now);
+  if (Number.isNaN(Date.parse(message.issuedAt))) return "Malformed Issued At";
+  if (message.expirationTime !== undefined) {
+    const expiresAt = Date.parse(message.expirationTime);
+    if (Number.isNaN(expiresAt)) return "Malformed Expiration Time";
+    if (expiresAt <= now) return "Message has expired";
+  }
+  if (message.notBefore !== undefined) {
+    const notBefore = Date.parse(message.notBefore);
+    if (Number.isNaN(notBefore)) return "Malformed Not Before";
+    if (notBefore > now) return "Message is not valid yet";
+  }
+  return null;
+}
+
+// ============================================
+// Signatures
+// ============================================
+
+/**
+ * EIP-191 hash of a message, as `personal_sign` signs it
+ */
+function personalMessageHash(message: string): Uint8Array {
+  const body = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  const bytes = new Uint8Array(prefix.length + body.length);
+  bytes.set(prefix);
+  bytes.set(body, prefix.length);
+  return keccak_256(bytes);
+}
+
+/**
+ * Recover the lowercase address that signed `message` with `personal_sign`.
+ * Takes a 65-byte hex signature (r, s, v with v as 0/1 or 27/28); returns
+ * null if it is malformed or recovers no key.
+ */
+export function recoverMessageSigner(message: string, signature: string): string | null {
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) return null;
+  const bytes = hexToBytes(signature.slice(2));
+  const v = bytes[64]!;
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) return null;
+
+  try {
+    const publicKey = secp256k1.Signature.fromBytes(bytes.slice(0, 64), "compact")
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(personalMessageHash(message))
+      .toBytes(false);
+    return `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+  } catch {
+    return null;
+  }
+}
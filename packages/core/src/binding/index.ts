@@ -0,0 +1,12 @@
+/**
+ * Binding Module Index
+ * 
+ * Re-exports pure payment binding functions.
+ */
+
+export {
+  paymentReferenceFor,
+  carriesReference,
+  payerMatches,
+  minedAfter,
+} from "./payment-binding.js";
@@ -0,0 +1,57 @@
+/**
+ * Payment Binding - Pure Functions
+ * 
+ * Ties an on-chain transaction to exactly one challenge: a per-challenge
+ * reference carried in calldata, an optional expected payer, and a
+ * transaction that was mined after the challenge was issued.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+/** Marks calldata memos written by Decagon clients */
+const REFERENCE_PREFIX = "dec0";
+
+/** Tolerated drift between block timestamps and the server clock */
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * FNV-1a 64-bit hash, hex encoded (16 chars)
+ */
+function fnv1a64(input: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= BigInt(input.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Unique reference for a challenge, sent as calldata with the payment
+ * (e.g. "0xdec0" + 16 hex chars).
+ */
+export function paymentReferenceFor(challengeId: string): string {
+  return `0x${REFERENCE_PREFIX}${fnv1a64(challengeId)}`;
+}
+
+/**
+ * Whether a transaction's calldata carries the reference. ERC20 transfers
+ * append it after the ABI-encoded arguments; native transfers send it alone.
+ */
+export function carriesReference(calldata: string, reference: string): boolean {
+  return calldata.toLowerCase().includes(reference.toLowerCase().replace(/^0x/, ""));
+}
+
+/**
+ * Whether the actual payer satisfies an (optional) expected payer
+ */
+export function payerMatches(expected: string | undefined, actual: string): boolean {
+  return !expected || expected.toLowerCase() === actual.toLowerCase();
+}
+
+/**
+ * Whether a block was produced after the challenge was issued,
+ * allowing for a little clock skew between the chain and the server.
+ */
+export function minedAfter(blockTimestampSeconds: number, createdAt: string): boolean {
+  return (blockTimestampSeconds + CLOCK_SKEW_SECONDS) * 1000 >= Date.parse(createdAt);
+}
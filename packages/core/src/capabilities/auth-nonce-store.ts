@@ -0,0 +1,21 @@
+/**
+ * AuthNonceStore Capability
+ *
+ * Single-use nonces for wallet sign-in messages. A nonce is issued with
+ * an expiry, and consuming it succeeds once, before it expires, so a
+ * signed message cannot be replayed.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface AuthNonceStore {
+  /** Issue a random alphanumeric nonce valid until `expiresAt` */
+  readonly issueNonce: (expiresAt: string) => Effect.Effect<string, ApiError>;
+
+  /** Use up a nonce; true if it was issued, unused and not expired at `now` */
+  readonly consumeNonce: (nonce: string, now: string) => Effect.Effect<boolean, ApiError>;
+}
+
+export const AuthNonceStore = Context.GenericTag<AuthNonceStore>("@decagon/core/AuthNonceStore");
+export type AuthNonceStoreService = Context.Tag.Service<typeof AuthNonceStore>;
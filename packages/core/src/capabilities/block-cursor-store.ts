@@ -0,0 +1,18 @@
+/**
+ * BlockCursorStore Capability
+ * 
+ * Durable progress markers for chain scanners: the last block a named
+ * scanner fully processed, so a restart resumes where it stopped.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface BlockCursorStore {
+  /** Last fully processed block, or null if the scanner has never run */
+  readonly get: (name: string) => Effect.Effect<number | null, ApiError>;
+  readonly set: (name: string, blockNumber: number) => Effect.Effect<void, ApiError>;
+}
+
+export const BlockCursorStore = Context.GenericTag<BlockCursorStore>("@decagon/core/BlockCursorStore");
+export type BlockCursorStoreService = Context.Tag.Service<typeof BlockCursorStore>;
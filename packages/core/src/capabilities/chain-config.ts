@@ -1,7 +1,9 @@
 /**
  * Chain Configuration Capability
  * 
- * Provides blockchain configuration for payment operations.
+ * Provides blockchain configuration for payment operations: a registry of
+ * accepted chains keyed by chainId, one of which is the default that
+ * challenges are denominated in.
  * Abstracted as an Effect capability for testability.
  */
 
@@ -17,27 +19,36 @@ export interface ChainConfig {
   readonly chainName: string;
   /** RPC URL for chain interactions */
   readonly rpcUrl: string;
-  /** Asset type: "NATIVE" for native token */
+  /** Asset type: "NATIVE" for native token, "ERC20" for tokens (e.g. USDT) */
   readonly assetType: "NATIVE" | "ERC20";
+  /** ERC20 token contract address (only set when assetType is "ERC20") */
+  readonly tokenAddress?: string;
+  /** The token's EIP-712 domain name and version, when it supports EIP-3009 transfer authorizations */
+  readonly transferAuthorization?: { readonly name: string; readonly version: string };
   /** Asset symbol (e.g., "XPL") */
   readonly assetSymbol: string;
   /** Number of decimals for the asset */
   readonly assetDecimals: number;
+  /** Confirmations (blocks including the tx's own) required before a payment is accepted */
+  readonly minConfirmations: number;
   /** Address to receive payments */
   readonly payeeAddress: string;
+  /** Account-level xpub; when set, each challenge gets its own derived deposit address */
+  readonly depositXpub?: string;
   /** Base URL for transaction explorer */
   readonly explorerTxBase: string;
-  /** Topup price in wei (as string to avoid precision issues) */
-  readonly topupPriceWei: string;
-  /** Topup price in display units (e.g., "0.0001") */
-  readonly topupPriceDisplay: string;
 }
 
 /**
  * ChainConfig capability interface
  */
 export interface ChainConfigService {
+  /** The default chain */
   readonly getConfig: () => Effect.Effect<ChainConfig, never>;
+  /** Every accepted chain, default first */
+  readonly listChains: () => Effect.Effect<readonly ChainConfig[], never>;
+  /** A chain by ID, or null if payments on it are not accepted */
+  readonly getChain: (chainId: number) => Effect.Effect<ChainConfig | null, never>;
 }
 
 /**
@@ -2,11 +2,14 @@ import { Context, Effect } from "effect";
 import type { PaymentChallenge, ApiError } from "@decagon/x402";
 
 export interface ChallengesStore {
+  /** Store a new challenge; callers must use the returned one, whose id may differ (signed challenges) */
   readonly save: (challenge: PaymentChallenge) => Effect.Effect<PaymentChallenge, ApiError>;
   readonly get: (challengeId: string) => Effect.Effect<PaymentChallenge, ApiError>;
   readonly markPaid: (challengeId: string) => Effect.Effect<PaymentChallenge, ApiError>;
   readonly markExpired: (challengeId: string) => Effect.Effect<PaymentChallenge, ApiError>;
   readonly exists: (challengeId: string) => Effect.Effect<boolean, ApiError>;
+  /** Pending challenges that have not expired as of `now` (ISO timestamp) */
+  readonly listPending: (now: string) => Effect.Effect<readonly PaymentChallenge[], ApiError>;
 }
 
 export const ChallengesStore = Context.GenericTag<ChallengesStore>("@decagon/core/ChallengesStore");
@@ -0,0 +1,32 @@
+/**
+ * DepositAddressStore Capability
+ * 
+ * Persists per-challenge deposit addresses derived from the payee xpub:
+ * which derivation index went to which challenge, recorded as the
+ * challenge is issued, so every address handed out can be found and swept.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface DepositAddress {
+  readonly challengeId: string;
+  /** Checksummed address derived at `derivationIndex` */
+  readonly address: string;
+  /** Child index under the xpub's external chain (…/0/index) */
+  readonly derivationIndex: number;
+  readonly createdAt: string;
+}
+
+export interface DepositAddressStore {
+  /** Next unused derivation index (0 for an empty store) */
+  readonly nextIndex: () => Effect.Effect<number, ApiError>;
+  /** Record an allocation. Fails if the index or address is already in use. */
+  readonly save: (deposit: DepositAddress) => Effect.Effect<DepositAddress, ApiError>;
+  readonly getByChallenge: (challengeId: string) => Effect.Effect<DepositAddress | null, ApiError>;
+  /** Case-insensitive lookup by address */
+  readonly getByAddress: (address: string) => Effect.Effect<DepositAddress | null, ApiError>;
+}
+
+export const DepositAddressStore = Context.GenericTag<DepositAddressStore>("@decagon/core/DepositAddressStore");
+export type DepositAddressStoreService = Context.Tag.Service<typeof DepositAddressStore>;
@@ -30,6 +30,11 @@ export interface IdGen {
    * Generate a generic unique ID with prefix
    */
   readonly generate: (prefix: string) => Effect.Effect<string, never>;
+
+  /**
+   * Generate an unguessable ID with prefix, for IDs that grant access
+   */
+  readonly secretId: (prefix: string) => Effect.Effect<string, never>;
 }
 
 /**
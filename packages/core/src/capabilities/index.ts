@@ -6,11 +6,24 @@
  */
 
 export { ArticlesStore, type ArticlesStoreService } from "./articles-store.js";
-export { ReceiptsStore, type ReceiptsStoreService } from "./receipts-store.js";
+export { ReceiptsStore, type ReceiptsStoreService, type ReceiptLink } from "./receipts-store.js";
 export { ChallengesStore, type ChallengesStoreService } from "./challenges-store.js";
 export { PolicyStore, type PolicyStoreService } from "./policy-store.js";
 export { AgentStore, type AgentStoreService } from "./agent-store.js";
+export { UserStore, type UserStoreService } from "./user-store.js";
+export { AuthNonceStore, type AuthNonceStoreService } from "./auth-nonce-store.js";
 export { UsageStore, type UsageStoreService } from "./usage-store.js";
+export { UsedTransactionsStore, type UsedTransactionsStoreService } from "./used-transactions-store.js";
+export { UnitOfWork, type UnitOfWorkService } from "./unit-of-work.js";
+export {
+  VerificationJobsStore,
+  type VerificationJobsStoreService,
+  type StoredVerificationJob,
+  type VerificationRequest,
+} from "./verification-jobs-store.js";
+export { BlockCursorStore, type BlockCursorStoreService } from "./block-cursor-store.js";
+export { DepositAddressStore, type DepositAddressStoreService, type DepositAddress } from "./deposit-address-store.js";
+export { SettlementsStore, type SettlementsStoreService, type Settlement } from "./settlements-store.js";
 export { Clock, type ClockService } from "./clock.js";
 export { IdGen, type IdGenService } from "./id-gen.js";
 export { Logger, type LoggerService, type LogLevel, type LogContext } from "./logger.js";
@@ -29,8 +42,15 @@ export {
   type RpcBlock, 
   type RpcLog,
   type RpcError,
+  type DecodedTransfer,
   rpcError,
   hexToNumber,
   hexToBigInt,
-  numberToHex
+  numberToHex,
+  decodeErc20Transfers
 } from "./plasma-rpc.js";
+export { PlasmaRpcRegistry, type PlasmaRpcRegistryService } from "./plasma-rpc-registry.js";
+export { PaymentSettler, type PaymentSettlerService, type SettlementRequest } from "./payment-settler.js";
+export { PriceOracle, type PriceOracleService, type PriceSource, quoteFromSources } from "./price-oracle.js";
+export { ReceiptSigner, type ReceiptSignerService } from "./receipt-signer.js";
+export { SessionTokens, type SessionTokensService, type SessionAccess } from "./session-tokens.js";
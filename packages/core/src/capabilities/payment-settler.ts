@@ -0,0 +1,32 @@
+/**
+ * PaymentSettler Capability
+ * 
+ * Submits signed EIP-3009 transfer authorizations (the x402 "exact"
+ * scheme) on chain: the server sends `transferWithAuthorization` to the
+ * token contract and pays the gas, and the token moves from payer to payee.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError, TransferAuthorization } from "@decagon/x402";
+
+/**
+ * An authorization to submit, and where
+ */
+export interface SettlementRequest {
+  readonly chainId: number;
+  /** The EIP-3009 token contract */
+  readonly tokenAddress: string;
+  readonly authorization: TransferAuthorization;
+  /** 65-byte hex signature over the authorization */
+  readonly signature: string;
+  /** Calldata reference to append, binding the transaction to its challenge */
+  readonly reference?: string;
+}
+
+export interface PaymentSettler {
+  /** Submit the authorization; succeeds with the transaction hash once it is broadcast */
+  readonly settle: (request: SettlementRequest) => Effect.Effect<string, ApiError>;
+}
+
+export const PaymentSettler = Context.GenericTag<PaymentSettler>("@decagon/core/PaymentSettler");
+export type PaymentSettlerService = Context.Tag.Service<typeof PaymentSettler>;
@@ -3,6 +3,7 @@
  * 
  * Interface for verifying payments.
  * Supports real on-chain verification via RPC.
+ * Double-spend tracking lives in UsedTransactionsStore.
  */
 
 import { Context, Effect } from "effect";
@@ -41,12 +42,24 @@ export interface VerificationResult {
   /** Error message if invalid */
   readonly errorMessage?: string;
 
+  /** True when the tx is valid so far but still short of the required confirmations */
+  readonly pending?: boolean;
+
+  /** Confirmations observed at verification time */
+  readonly confirmations?: number;
+
+  /** Confirmations required before the payment is accepted */
+  readonly requiredConfirmations?: number;
+
   /** Transaction hash */
   readonly txHash?: string;
 
   /** Block number where tx was confirmed */
   readonly blockNumber?: number;
 
+  /** Hash of the block where tx was confirmed */
+  readonly blockHash?: string;
+
   /** Amount in wei as string */
   readonly amountWei?: string;
 
@@ -74,20 +87,6 @@ export interface PaymentVerifier {
     challenge: PaymentChallenge,
     proof: PaymentProof
   ) => Effect.Effect<VerificationResult, ApiError>;
-
-  /**
-   * Check if a transaction reference has already been used
-   */
-  readonly isTransactionUsed: (
-    transactionRef: string
-  ) => Effect.Effect<boolean, ApiError>;
-
-  /**
-   * Mark a transaction as used (prevent double-spending)
-   */
-  readonly markTransactionUsed: (
-    transactionRef: string
-  ) => Effect.Effect<void, ApiError>;
 }
 
 /**
@@ -0,0 +1,19 @@
+/**
+ * PlasmaRpcRegistry Capability
+ * 
+ * One PlasmaRpc client per accepted chain, so work that concerns a
+ * specific payment (verification, reorg re-checks, indexing) talks to
+ * the chain that payment was actually made on.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+import type { PlasmaRpc } from "./plasma-rpc.js";
+
+export interface PlasmaRpcRegistry {
+  /** RPC client for a chain; fails with InternalError if none is configured */
+  readonly forChain: (chainId: number) => Effect.Effect<PlasmaRpc, ApiError>;
+}
+
+export const PlasmaRpcRegistry = Context.GenericTag<PlasmaRpcRegistry>("@decagon/core/PlasmaRpcRegistry");
+export type PlasmaRpcRegistryService = Context.Tag.Service<typeof PlasmaRpcRegistry>;
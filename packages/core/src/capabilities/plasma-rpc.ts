@@ -63,6 +63,8 @@ export interface RpcBlock {
   readonly miner: string;
   readonly gasUsed: string; // hex
   readonly gasLimit: string; // hex
+  /** Hashes of the block's transactions */
+  readonly transactions?: readonly string[];
 }
 
 /**
@@ -133,3 +135,35 @@ export const hexToBigInt = (hex: string): bigint => BigInt(hex);
  * Helper to convert number to hex
  */
 export const numberToHex = (num: number): string => `0x${num.toString(16)}`;
+
+/** keccak256("Transfer(address,address,uint256)") */
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+/**
+ * A value transfer extracted from a transaction, in the asset's smallest unit
+ */
+export interface DecodedTransfer {
+  readonly from: string;
+  readonly to: string;
+  readonly amount: bigint;
+}
+
+/** Indexed address topics are left-padded to 32 bytes */
+const topicToAddress = (topic: string): string => `0x${topic.slice(-40)}`.toLowerCase();
+
+/**
+ * Decode ERC20 Transfer(address,address,uint256) logs emitted by the token contract.
+ */
+export const decodeErc20Transfers = (logs: readonly RpcLog[], tokenAddress: string): DecodedTransfer[] =>
+  logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === tokenAddress.toLowerCase() &&
+        log.topics.length === 3 &&
+        log.topics[0]?.toLowerCase() === TRANSFER_TOPIC
+    )
+    .map((log) => ({
+      from: topicToAddress(log.topics[1]!),
+      to: topicToAddress(log.topics[2]!),
+      amount: hexToBigInt(log.data === "0x" ? "0x0" : log.data),
+    }));
@@ -0,0 +1,66 @@
+/**
+ * PriceOracle Capability
+ * 
+ * Turns cent prices into on-chain amounts for each chain's asset.
+ * Rates come from pluggable sources consulted in order: a manual admin
+ * override, then a price feed, then a static table.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError, PriceQuote, PriceSourceName } from "@decagon/x402";
+import type { ChainConfig } from "./chain-config.js";
+import { centsToBaseUnits } from "../pricing/index.js";
+
+/**
+ * One place rates can come from
+ */
+export interface PriceSource {
+  readonly name: PriceSourceName;
+  /** USD cents per whole unit of the asset, or null if this source has no rate for it */
+  readonly rateFor: (assetSymbol: string) => Effect.Effect<number | null, ApiError>;
+}
+
+export interface PriceOracle {
+  /** Quote `cents` in the chain's asset, locked until `lockedUntil` */
+  readonly quote: (
+    chain: ChainConfig,
+    cents: number,
+    lockedUntil: string
+  ) => Effect.Effect<PriceQuote, ApiError>;
+  /** Pin a rate for an asset (null clears the override) */
+  readonly setOverride: (assetSymbol: string, centsPerUnit: number | null) => Effect.Effect<void, ApiError>;
+}
+
+/**
+ * Quote from the first source that has a rate for the chain's asset
+ */
+export const quoteFromSources = (
+  sources: readonly PriceSource[],
+  chain: ChainConfig,
+  cents: number,
+  lockedUntil: string
+): Effect.Effect<PriceQuote, ApiError> =>
+  Effect.gen(function* () {
+    const symbol = chain.assetSymbol.toUpperCase();
+    for (const source of sources) {
+      const centsPerUnit = yield* source.rateFor(symbol);
+      if (centsPerUnit === null) continue;
+      return {
+        assetSymbol: chain.assetSymbol,
+        cents,
+        amountWei: centsToBaseUnits(cents, centsPerUnit, chain.assetDecimals),
+        centsPerUnit,
+        source: source.name,
+        quotedAt: new Date().toISOString(),
+        lockedUntil,
+      };
+    }
+    return yield* Effect.fail({
+      _tag: "InternalError" as const,
+      message: `No price available for ${chain.assetSymbol}`,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+export const PriceOracle = Context.GenericTag<PriceOracle>("@decagon/core/PriceOracle");
+export type PriceOracleService = Context.Tag.Service<typeof PriceOracle>;
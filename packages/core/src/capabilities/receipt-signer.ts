@@ -0,0 +1,19 @@
+/**
+ * ReceiptSigner Capability
+ *
+ * Signs receipts at issuance so third parties can check them offline
+ * with `verifyReceipt`, and publishes the public keys for doing so.
+ */
+
+import { Context, Effect } from "effect";
+import type { Receipt, ReceiptJwks } from "@decagon/x402";
+
+export interface ReceiptSigner {
+  /** Compact JWS for a receipt, signed with the current key */
+  readonly sign: (receipt: Receipt) => Effect.Effect<string, never>;
+  /** Every key a published receipt may be signed with, current first */
+  readonly publicKeys: () => Effect.Effect<ReceiptJwks, never>;
+}
+
+export const ReceiptSigner = Context.GenericTag<ReceiptSigner>("@decagon/core/ReceiptSigner");
+export type ReceiptSignerService = Context.Tag.Service<typeof ReceiptSigner>;
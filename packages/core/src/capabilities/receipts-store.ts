@@ -1,18 +1,101 @@
 import { Context, Effect } from "effect";
-import type { Receipt, SessionToken, ApiError } from "@decagon/x402";
+import type { Receipt, SessionToken, Entitlement, ApiError, CreditBudget } from "@decagon/x402";
+
+/** Where a receipt's credits went, kept beside the receipt rather than on it */
+export interface ReceiptLink {
+  readonly sessionTokenId: string;
+  /** The payment created the session, rather than topping up one that existed */
+  readonly opensSession: boolean;
+  /** Authenticated user who paid, when known */
+  readonly userId?: string;
+}
 
 export interface ReceiptsStore {
-  readonly saveReceipt: (receipt: Receipt) => Effect.Effect<Receipt, ApiError>;
+  /**
+   * Save a receipt with the session its credits went to and, when known, the
+   * authenticated user who paid. The links stay in the store: a receipt is
+   * handed around, a session id must not be.
+   */
+  readonly saveReceipt: (receipt: Receipt, link: ReceiptLink) => Effect.Effect<Receipt, ApiError>;
   readonly getReceipt: (receiptId: string) => Effect.Effect<Receipt, ApiError>;
+  /** Session a receipt's credits went to. Returns null if none is recorded. */
+  readonly getReceiptSession: (receiptId: string) => Effect.Effect<string | null, ApiError>;
+  /** Create or replace a session. Fails with NotFoundError for a revoked id. */
   readonly saveSession: (session: SessionToken) => Effect.Effect<SessionToken, ApiError>;
   readonly getSession: (tokenId: string) => Effect.Effect<SessionToken, ApiError>;
-  readonly consumeCredits: (tokenId: string, amount: number) => Effect.Effect<SessionToken, ApiError>;
+  /**
+   * Spend credits from a session, and from each budget of the token they are
+   * spent through. Fails with SessionCaveatError, spending nothing, if a
+   * budget would go over its limit.
+   */
+  readonly consumeCredits: (
+    tokenId: string,
+    amount: number,
+    budgets?: readonly CreditBudget[]
+  ) => Effect.Effect<SessionToken, ApiError>;
+  /** Credits spent so far against a session token budget (0 if none). */
+  readonly getBudgetSpent: (budgetKey: string) => Effect.Effect<number, ApiError>;
   readonly addCredits: (tokenId: string, amount: number) => Effect.Effect<SessionToken, ApiError>;
   readonly hasReceiptForChallenge: (challengeId: string) => Effect.Effect<boolean, ApiError>;
   /** Look up an existing receipt by challengeId. Returns null if none found. */
   readonly getReceiptByChallenge: (challengeId: string) => Effect.Effect<Receipt | null, ApiError>;
   /** Look up an existing receipt by txHash/transactionRef. Returns null if none found. */
   readonly getReceiptByTxRef: (txRef: string) => Effect.Effect<Receipt | null, ApiError>;
+  /** Record (or refresh) a session's access to a resource. */
+  readonly grantEntitlement: (entitlement: Entitlement) => Effect.Effect<Entitlement, ApiError>;
+  /** Look up a session's entitlement to a resource. Returns null if none found. */
+  readonly getEntitlement: (tokenId: string, resourceId: string) => Effect.Effect<Entitlement | null, ApiError>;
+  /** List every entitlement recorded for a session, newest first. */
+  readonly listEntitlements: (tokenId: string) => Effect.Effect<readonly Entitlement[], ApiError>;
+  /** Receipts paid from a wallet address (any case), newest first. */
+  readonly listReceiptsByPayer: (payerAddress: string) => Effect.Effect<readonly Receipt[], ApiError>;
+  /**
+   * Sessions created by a payment from a wallet address (any case), under
+   * the ids they have now. Top-ups do not count: paying into a session does
+   * not make it the payer's.
+   */
+  readonly listSessionsOpenedBy: (payerAddress: string) => Effect.Effect<readonly string[], ApiError>;
+  /** Receipts paid by an authenticated user, newest first. */
+  readonly listReceiptsByUser: (userId: string) => Effect.Effect<readonly Receipt[], ApiError>;
+  /** Receipts that funded a session, newest first. */
+  readonly listReceiptsBySession: (tokenId: string) => Effect.Effect<readonly Receipt[], ApiError>;
+  /** Confirmed receipts with a recorded block hash, verified at or after `since`. */
+  readonly listReceiptsForRecheck: (since: string) => Effect.Effect<readonly Receipt[], ApiError>;
+  /**
+   * Move a confirmed receipt to the block its transaction was re-mined in:
+   * its block number, block hash and signature are taken from `receipt`.
+   * Fails if it is not currently confirmed.
+   */
+  readonly updateReceiptBlock: (receipt: Receipt) => Effect.Effect<Receipt, ApiError>;
+  /** Flag a confirmed receipt as reorged. Fails if it is not currently confirmed. */
+  readonly markReceiptReorged: (receiptId: string) => Effect.Effect<Receipt, ApiError>;
+  /** Remove up to `amount` credits from a session, never going below zero. */
+  readonly revokeCredits: (tokenId: string, amount: number) => Effect.Effect<SessionToken, ApiError>;
+  /**
+   * Revoke a session: it and its entitlements are removed and its id can
+   * never be saved again. Fails with NotFoundError for unknown sessions.
+   */
+  readonly revokeSession: (tokenId: string) => Effect.Effect<void, ApiError>;
+  /**
+   * Move a session to a new id, so tokens for the old one stop working.
+   * Credits, expiry, access count and entitlements carry over, its receipts
+   * point at the new id, and the old id is revoked.
+   */
+  readonly rotateSession: (tokenId: string, newTokenId: string) => Effect.Effect<SessionToken, ApiError>;
+  /**
+   * Fold one session into another and revoke it. The target gets both
+   * sessions' credits and access counts, the earlier creation time and the
+   * later expiry. Entitlements to the same resource keep the later expiry.
+   * The source's receipts point at the target.
+   */
+  readonly mergeSessions: (targetTokenId: string, sourceTokenId: string) => Effect.Effect<SessionToken, ApiError>;
+  /** Record that a session was issued without handing anyone a token for it. */
+  readonly markUnclaimed: (tokenId: string) => Effect.Effect<void, ApiError>;
+  /**
+   * Take the one claim on a session marked unclaimed. True for the first
+   * caller only; false for any other session.
+   */
+  readonly claimSession: (tokenId: string) => Effect.Effect<boolean, ApiError>;
 }
 
 export const ReceiptsStore = Context.GenericTag<ReceiptsStore>("@decagon/core/ReceiptsStore");
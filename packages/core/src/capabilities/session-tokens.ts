@@ -0,0 +1,30 @@
+/**
+ * SessionTokens Capability
+ *
+ * Sessions are handed out as signed bearer tokens (see session-token in
+ * @decagon/x402) that holders may attenuate with caveats. Stores keep the
+ * bare session id; workflows open a token to get the id back, along with
+ * the caveats and credit budgets it carries.
+ */
+
+import { Context, Effect } from "effect";
+import type { CreditBudget, SessionCaveat, UnauthorizedError } from "@decagon/x402";
+
+/**
+ * What a token grants: a session, limited by its caveats
+ */
+export interface SessionAccess {
+  readonly tokenId: string;
+  readonly caveats: readonly SessionCaveat[];
+  readonly budgets: readonly CreditBudget[];
+}
+
+export interface SessionTokens {
+  /** Bearer token for a session, without caveats */
+  readonly mint: (tokenId: string) => Effect.Effect<string, never>;
+  /** Check a token's signature chain; fails if it is malformed or forged */
+  readonly open: (token: string) => Effect.Effect<SessionAccess, UnauthorizedError>;
+}
+
+export const SessionTokens = Context.GenericTag<SessionTokens>("@decagon/core/SessionTokens");
+export type SessionTokensService = Context.Tag.Service<typeof SessionTokens>;
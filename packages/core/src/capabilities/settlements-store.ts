@@ -0,0 +1,29 @@
+/**
+ * SettlementsStore Capability
+ * 
+ * Records each transfer authorization the server submitted: which
+ * challenge it paid and the transaction that carries it. A client retrying
+ * the same authorization gets that transaction back rather than a second
+ * submission, which the token contract would reject.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface Settlement {
+  /** Authorization key, see authorizationKeyOf */
+  readonly authorizationKey: string;
+  readonly challengeId: string;
+  readonly chainId: number;
+  readonly txHash: string;
+  readonly settledAt: string;
+}
+
+export interface SettlementsStore {
+  readonly get: (authorizationKey: string) => Effect.Effect<Settlement | null, ApiError>;
+  /** Record a settlement. Returns false if the authorization was already recorded. */
+  readonly save: (settlement: Settlement) => Effect.Effect<boolean, ApiError>;
+}
+
+export const SettlementsStore = Context.GenericTag<SettlementsStore>("@decagon/core/SettlementsStore");
+export type SettlementsStoreService = Context.Tag.Service<typeof SettlementsStore>;
@@ -0,0 +1,23 @@
+/**
+ * UnitOfWork Capability
+ * 
+ * Groups store operations so they commit together or not at all.
+ * Workflows wrap multi-step writes (mark paid, save receipt, issue session)
+ * in a transaction so a failure part-way leaves no partial state behind.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface UnitOfWork {
+  /**
+   * Run an effect atomically. If it fails, every store write it made is
+   * rolled back. Implementations may require the effect to be synchronous.
+   */
+  readonly transaction: <A, E, R>(
+    effect: Effect.Effect<A, E, R>
+  ) => Effect.Effect<A, E | ApiError, R>;
+}
+
+export const UnitOfWork = Context.GenericTag<UnitOfWork>("@decagon/core/UnitOfWork");
+export type UnitOfWorkService = Context.Tag.Service<typeof UnitOfWork>;
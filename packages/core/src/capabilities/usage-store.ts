@@ -6,29 +6,29 @@
  */
 
 import { Context, Effect } from "effect";
-import type { ApiError } from "@decagon/x402";
+import type { ApiError, Money } from "@decagon/x402";
 
 export interface UsageStore {
   /** 
-   * Get the daily spend in cents for a subject.
+   * Get the daily spend (USD) for a subject.
    * @param subjectId - Either "user:<userId>" or "agent:<agentId>"
    * @param dayKey - Date key in format "YYYY-MM-DD"
    */
-  readonly getDailySpendCents: (
+  readonly getDailySpend: (
     subjectId: string,
     dayKey: string
-  ) => Effect.Effect<number, ApiError>;
+  ) => Effect.Effect<Money, ApiError>;
 
   /**
    * Add spend amount to a subject's daily total.
    * @param subjectId - Either "user:<userId>" or "agent:<agentId>"
    * @param dayKey - Date key in format "YYYY-MM-DD"
-   * @param amountCents - Amount to add in cents
+   * @param amount - Amount to add (USD)
    */
-  readonly addSpendCents: (
+  readonly addSpend: (
     subjectId: string,
     dayKey: string,
-    amountCents: number
+    amount: Money
   ) => Effect.Effect<void, ApiError>;
 
   /**
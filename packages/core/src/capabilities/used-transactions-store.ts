@@ -0,0 +1,26 @@
+/**
+ * UsedTransactionsStore Capability
+ * 
+ * Durable double-spend registry for transaction references.
+ * A transaction can fund exactly one challenge, across restarts and instances.
+ */
+
+import { Context, Effect } from "effect";
+import type { ApiError } from "@decagon/x402";
+
+export interface UsedTransactionsStore {
+  /** Check whether a transaction reference has already been claimed */
+  readonly isUsed: (transactionRef: string) => Effect.Effect<boolean, ApiError>;
+
+  /**
+   * Atomically claim a transaction reference for a challenge.
+   * Returns true if this call claimed it, false if it was already claimed.
+   */
+  readonly claim: (
+    transactionRef: string,
+    challengeId: string
+  ) => Effect.Effect<boolean, ApiError>;
+}
+
+export const UsedTransactionsStore = Context.GenericTag<UsedTransactionsStore>("@decagon/core/UsedTransactionsStore");
+export type UsedTransactionsStoreService = Context.Tag.Service<typeof UsedTransactionsStore>;
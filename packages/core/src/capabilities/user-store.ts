@@ -0,0 +1,29 @@
+/**
+ * UserStore Capability
+ *
+ * Users and their API keys. Keys are stored as hashes (see auth/), so
+ * the plaintext key is only available from the call that issues it.
+ */
+
+import { Context, Effect } from "effect";
+import type { User, ApiError } from "@decagon/x402";
+
+export interface UserStore {
+  /** Create a user with its first API key */
+  readonly createUser: (name: string) => Effect.Effect<{ readonly user: User; readonly apiKey: string }, ApiError>;
+
+  /** Get a user by ID */
+  readonly getUser: (userId: string) => Effect.Effect<User, ApiError>;
+
+  /** Issue another API key for a user */
+  readonly createApiKey: (userId: string) => Effect.Effect<string, ApiError>;
+
+  /** The user an API key hash belongs to, or null if no key has it */
+  readonly getUserByApiKeyHash: (keyHash: string) => Effect.Effect<User | null, ApiError>;
+
+  /** The user keyed by a wallet address (any case), created with `name` on first sign-in */
+  readonly getOrCreateWalletUser: (walletAddress: string, name: string) => Effect.Effect<User, ApiError>;
+}
+
+export const UserStore = Context.GenericTag<UserStore>("@decagon/core/UserStore");
+export type UserStoreService = Context.Tag.Service<typeof UserStore>;
@@ -0,0 +1,48 @@
+/**
+ * VerificationJobsStore Capability
+ * 
+ * Tracks asynchronous payment verifications so clients can poll or
+ * stream their progress after POST /pay/verify returns 202.
+ */
+
+import { Context, Effect } from "effect";
+import type { VerificationJob, ApiError } from "@decagon/x402";
+
+/**
+ * The verify request a job runs, kept so it can resume after a restart.
+ * Bearer tokens are never kept: the session and agent are named by id.
+ */
+export interface VerificationRequest {
+  readonly challengeId: string;
+  readonly transactionRef?: string;
+  readonly txHash?: string;
+  readonly payerAddress?: string;
+  readonly chainId?: number;
+  /** Bare id of the session to add credits to */
+  readonly sessionId?: string;
+  readonly userId?: string;
+  readonly agentId?: string;
+  readonly origin?: string;
+}
+
+/**
+ * A job as stored, with what is never shown to clients. Its session is
+ * kept on the bare id; a token is minted for it when the job is shown.
+ */
+export interface StoredVerificationJob extends VerificationJob {
+  /** SHA-256 (hex) of the access token handed to the caller that started the job */
+  readonly accessTokenHash: string;
+  readonly request: VerificationRequest;
+}
+
+export interface VerificationJobsStore {
+  /** Insert or replace a job */
+  readonly save: (job: StoredVerificationJob) => Effect.Effect<StoredVerificationJob, ApiError>;
+  /** Fails with NotFoundError for unknown IDs */
+  readonly get: (verificationId: string) => Effect.Effect<StoredVerificationJob, ApiError>;
+  /** Jobs not yet confirmed or failed, oldest first */
+  readonly listUnfinished: () => Effect.Effect<readonly StoredVerificationJob[], ApiError>;
+}
+
+export const VerificationJobsStore = Context.GenericTag<VerificationJobsStore>("@decagon/core/VerificationJobsStore");
+export type VerificationJobsStoreService = Context.Tag.Service<typeof VerificationJobsStore>;
@@ -0,0 +1,14 @@
+/**
+ * Chains Module Index
+ * 
+ * Re-exports pure multi-chain payment terms functions.
+ */
+
+export {
+  paymentTermsFor,
+  type QuotedChain,
+  acceptedTermsOf,
+  amountOf,
+  challengeForChain,
+  paymentMethodsFor,
+} from "./payment-terms.js";
@@ -0,0 +1,105 @@
+/**
+ * Multi-Chain Payment Terms - Pure Functions
+ * 
+ * A challenge is priced once in cents and advertised on every accepted
+ * chain, each with its own asset, quoted amount in base units and payee.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import type { PaymentChallenge, ChainPaymentTerms, PaymentMethod, PriceQuote, Money } from "@decagon/x402";
+import { money } from "@decagon/x402";
+import type { ChainConfig } from "../capabilities/index.js";
+
+/**
+ * A chain together with the price quoted in its asset
+ */
+export interface QuotedChain {
+  readonly chain: ChainConfig;
+  readonly quote: PriceQuote;
+}
+
+/**
+ * Terms for paying on each quoted chain, in registry order (default first).
+ */
+export function paymentTermsFor(quoted: readonly QuotedChain[]): ChainPaymentTerms[] {
+  return quoted.map(({ chain, quote }) => ({
+    chainId: chain.chainId,
+    chain: chain.chainName,
+    assetType: chain.assetType,
+    assetSymbol: chain.assetSymbol,
+    tokenAddress: chain.assetType === "ERC20" ? chain.tokenAddress : undefined,
+    transferAuthorization: chain.assetType === "ERC20" ? chain.transferAuthorization : undefined,
+    assetDecimals: chain.assetDecimals,
+    amountWei: quote.amountWei,
+    payeeAddress: chain.payeeAddress,
+    explorerTxBase: chain.explorerTxBase,
+    quote,
+  }));
+}
+
+/**
+ * The amount owed under these terms. Terms stored before decimals were
+ * recorded fall back to the asset type's usual decimals.
+ */
+export function amountOf(terms: ChainPaymentTerms): Money {
+  const decimals = terms.assetDecimals ?? (terms.assetType === "ERC20" ? 6 : 18);
+  return money(terms.amountWei, terms.assetSymbol, decimals);
+}
+
+/**
+ * The terms a challenge accepts. Challenges issued before multi-chain
+ * support only carry their top-level (single chain) fields.
+ */
+export function acceptedTermsOf(challenge: PaymentChallenge): readonly ChainPaymentTerms[] {
+  return (
+    challenge.acceptedChains ?? [
+      {
+        chainId: challenge.chainId,
+        chain: challenge.chain,
+        assetType: challenge.assetType,
+        assetSymbol: challenge.assetSymbol,
+        assetDecimals: challenge.amount.decimals,
+        amountWei: challenge.amountWei,
+        payeeAddress: challenge.payeeAddress,
+        explorerTxBase: challenge.explorerTxBase,
+      },
+    ]
+  );
+}
+
+/**
+ * The challenge as it must be paid on `chainId`, or null if that chain
+ * is not accepted. Verifiers check the chain fields of the result.
+ */
+export function challengeForChain(
+  challenge: PaymentChallenge,
+  chainId: number
+): PaymentChallenge | null {
+  const terms = acceptedTermsOf(challenge).find((t) => t.chainId === chainId);
+  if (!terms) return null;
+
+  return {
+    ...challenge,
+    chainId: terms.chainId,
+    chain: terms.chain,
+    assetType: terms.assetType,
+    assetSymbol: terms.assetSymbol,
+    amount: amountOf(terms),
+    amountWei: terms.amountWei,
+    payTo: terms.payeeAddress,
+    payeeAddress: terms.payeeAddress,
+    explorerTxBase: terms.explorerTxBase,
+  };
+}
+
+/**
+ * The `acceptedPaymentMethods` advertised with a 402 for this challenge
+ */
+export function paymentMethodsFor(challenge: PaymentChallenge): PaymentMethod[] {
+  return acceptedTermsOf(challenge).map((terms) => ({
+    type: "plasma",
+    name: `${terms.assetSymbol} on ${terms.chain}`,
+    available: true,
+    terms,
+  }));
+}
@@ -0,0 +1,15 @@
+/**
+ * Challenges Module Index
+ *
+ * Re-exports pure signed challenge functions.
+ */
+
+export {
+  parseChallengeKeyring,
+  isSignedChallengeId,
+  signChallenge,
+  openSignedChallenge,
+  type ChallengeSigningKey,
+  type ChallengeKeyring,
+  type OpenedChallenge,
+} from "./signed-challenge.js";
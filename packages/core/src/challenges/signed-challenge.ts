@@ -0,0 +1,111 @@
+/**
+ * Signed Challenges - Pure Functions
+ *
+ * A stateless challenge carries its own terms: the challenge id handed to
+ * the client is a token holding the whole challenge, HMAC-SHA256 signed
+ * by the server, so nothing needs to be stored until it is paid.
+ *
+ * Token: "sc1.<keyId>.<base64url challenge JSON>.<hex HMAC>"
+ *
+ * Keys rotate through a keyring: the first key signs new challenges and
+ * every key in the ring verifies, so a retired key stays in the ring until
+ * the challenges it signed have expired.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import { Either, Encoding } from "effect";
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+import { moneyReplacer, moneyReviver, type PaymentChallenge } from "@decagon/x402";
+
+const TOKEN_VERSION = "sc1";
+
+export interface ChallengeSigningKey {
+  readonly keyId: string;
+  readonly secret: string;
+}
+
+/** Signing keys, newest first; the first one signs */
+export type ChallengeKeyring = readonly ChallengeSigningKey[];
+
+export type OpenedChallenge =
+  | { readonly ok: true; readonly challenge: PaymentChallenge }
+  | { readonly ok: false; readonly reason: string };
+
+const signatureOf = (key: ChallengeSigningKey, signed: string): string =>
+  bytesToHex(hmac(sha256, utf8ToBytes(key.secret), utf8ToBytes(signed)));
+
+/**
+ * Compare two hex strings in time independent of where they differ
+ */
+function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Parse a keyring from "keyId:secret,keyId:secret" (newest first)
+ */
+export function parseChallengeKeyring(spec: string): ChallengeKeyring {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const keyId = entry.slice(0, separator);
+      const secret = entry.slice(separator + 1);
+      if (separator <= 0 || !secret || keyId.includes(".")) {
+        throw new Error(`Invalid challenge signing key "${keyId || entry}": expected keyId:secret`);
+      }
+      return { keyId, secret };
+    });
+}
+
+/**
+ * Whether a challenge id is a signed challenge token
+ */
+export function isSignedChallengeId(challengeId: string): boolean {
+  return challengeId.startsWith(`${TOKEN_VERSION}.`);
+}
+
+/**
+ * Sign a challenge; the token becomes its challenge id
+ */
+export function signChallenge(challenge: PaymentChallenge, key: ChallengeSigningKey): string {
+  const payload = Encoding.encodeBase64Url(JSON.stringify(challenge, moneyReplacer));
+  const signed = `${TOKEN_VERSION}.${key.keyId}.${payload}`;
+  return `${signed}.${signatureOf(key, signed)}`;
+}
+
+/**
+ * Check a token's signature against the keyring and recover the pending
+ * challenge it carries, with the token as its challenge id
+ */
+export function openSignedChallenge(token: string, keyring: ChallengeKeyring): OpenedChallenge {
+  const parts = token.split(".");
+  if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) {
+    return { ok: false, reason: "Malformed challenge token" };
+  }
+  const [version, keyId, payload, signature] = parts as [string, string, string, string];
+
+  const key = keyring.find((k) => k.keyId === keyId);
+  if (!key) {
+    return { ok: false, reason: `Challenge was signed with an unknown key "${keyId}"` };
+  }
+  if (!constantTimeEquals(signatureOf(key, `${version}.${keyId}.${payload}`), signature)) {
+    return { ok: false, reason: "Challenge signature is invalid" };
+  }
+
+  const json = Encoding.decodeBase64UrlString(payload);
+  if (Either.isLeft(json)) {
+    return { ok: false, reason: "Malformed challenge token" };
+  }
+  const challenge = JSON.parse(json.right, moneyReviver) as PaymentChallenge;
+  return { ok: true, challenge: { ...challenge, challengeId: token, status: "pending" } };
+}
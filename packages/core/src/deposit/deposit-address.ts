@@ -0,0 +1,41 @@
+/**
+ * Deposit Address Derivation - Pure Functions
+ * 
+ * Derives per-challenge EVM deposit addresses from an account-level
+ * extended public key (e.g. m/44'/60'/0'). Only public derivation is
+ * used, so the server never holds a key that can move funds.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import { HDKey } from "@scure/bip32";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+
+/** BIP44 external (receiving) chain */
+const EXTERNAL_CHAIN = 0;
+
+/**
+ * EIP-55 mixed-case checksum encoding of a 20-byte hex address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, "");
+  const hash = bytesToHex(keccak_256(new TextEncoder().encode(lower)));
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i] ?? "0", 16) >= 8 ? lower[i]!.toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Address at xpub/0/index: keccak256 of the uncompressed public key, last 20 bytes
+ */
+export function deriveDepositAddress(xpub: string, index: number): string {
+  const child = HDKey.fromExtendedKey(xpub).deriveChild(EXTERNAL_CHAIN).deriveChild(index);
+  if (!child.publicKey) {
+    throw new Error(`No public key at index ${index}`);
+  }
+  const uncompressed = secp256k1.Point.fromBytes(child.publicKey).toBytes(false);
+  return toChecksumAddress(bytesToHex(keccak_256(uncompressed.slice(1)).slice(-20)));
+}
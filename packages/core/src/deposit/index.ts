@@ -0,0 +1,7 @@
+/**
+ * Deposit Module Index
+ * 
+ * Re-exports pure deposit address derivation functions.
+ */
+
+export { deriveDepositAddress, toChecksumAddress } from "./deposit-address.js";
@@ -20,3 +20,24 @@ export * from "./live/index.js";
 
 // Re-export policy functions
 export * from "./policy/index.js";
+
+// Re-export pricing functions
+export * from "./pricing/index.js";
+
+// Re-export payment binding functions
+export * from "./binding/index.js";
+
+// Re-export deposit address functions
+export * from "./deposit/index.js";
+
+// Re-export transfer authorization settlement functions
+export * from "./settlement/index.js";
+
+// Re-export multi-chain payment terms functions
+export * from "./chains/index.js";
+
+// Re-export signed challenge functions
+export * from "./challenges/index.js";
+
+// Re-export API key functions
+export * from "./auth/index.js";
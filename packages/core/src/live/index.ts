@@ -6,6 +6,24 @@
 
 export { 
   createLivePlasmaRpc, 
+  createLivePlasmaRpcRegistry,
   createLivePaymentVerifier,
-  createRetryingPaymentVerifier 
+  createMultiChainPaymentVerifier,
+  createRetryingPaymentVerifier,
+  type LivePaymentVerifierConfig,
+  type RetryingPaymentVerifierOptions
 } from "./plasma-rpc.js";
+
+export {
+  createPriceOracle,
+  staticPriceSource,
+  jsonFeedPriceSource,
+} from "./price-oracle.js";
+
+export { createSignedChallengesStore } from "./signed-challenges-store.js";
+
+export { createReceiptSigner, parseReceiptSigningKeys } from "./receipt-signer.js";
+
+export { createSessionTokens } from "./session-tokens.js";
+
+export { createLivePaymentSettler } from "./payment-settler.js";
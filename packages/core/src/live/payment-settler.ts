@@ -0,0 +1,83 @@
+/**
+ * Live PaymentSettler Implementation
+ *
+ * Submits transfer authorizations from a relayer account whose key comes
+ * from configuration; that account pays the gas, in the chain's native
+ * asset. Submissions are serialized so each takes the next account nonce.
+ */
+
+import { Effect, Layer } from "effect";
+import { hexToBytes } from "@noble/hashes/utils.js";
+import { transferWithAuthorizationCalldata, type InternalError } from "@decagon/x402";
+import { PaymentSettler, hexToBigInt, type SettlementRequest } from "../capabilities/index.js";
+import { addressOfKey, signLegacyTransaction, transactionHashOf } from "../settlement/index.js";
+import { rpcCall } from "./plasma-rpc.js";
+
+/** Headroom over the node's gas estimate */
+const GAS_LIMIT_PERCENT = 120n;
+
+const settlementFailed = (request: SettlementRequest, error: unknown): InternalError => ({
+  _tag: "InternalError",
+  message: `Failed to settle authorization from ${request.authorization.from} on chain ${request.chainId}: ${error}`,
+  timestamp: new Date().toISOString(),
+});
+
+/**
+ * Create a PaymentSettler sending from the account of `privateKey`
+ * (0x-prefixed 32-byte hex) on each of `chains`
+ */
+export const createLivePaymentSettler = (
+  chains: readonly { chainId: number; rpcUrl: string }[],
+  privateKey: string
+) => {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new Error("Settlement private key must be 0x-prefixed 32-byte hex");
+  }
+  const secretKey = hexToBytes(privateKey.slice(2));
+  const relayer = addressOfKey(secretKey);
+  const rpcUrls = new Map(chains.map((chain) => [chain.chainId, chain.rpcUrl]));
+
+  return Layer.effect(
+    PaymentSettler,
+    Effect.map(Effect.makeSemaphore(1), (submitting) =>
+      PaymentSettler.of({
+        settle: (request) => {
+          const rpcUrl = rpcUrls.get(request.chainId);
+          if (!rpcUrl) {
+            return Effect.fail(settlementFailed(request, "no RPC configured"));
+          }
+
+          const data = transferWithAuthorizationCalldata(request.authorization, request.signature, request.reference);
+          const call = { from: relayer, to: request.tokenAddress, data };
+
+          return submitting.withPermits(1)(
+            Effect.tryPromise({
+              try: async () => {
+                // Estimating first surfaces a revert (bad signature, used nonce) before gas is spent
+                const gas = hexToBigInt(await rpcCall<string>(rpcUrl, "eth_estimateGas", [call]));
+                const nonce = hexToBigInt(await rpcCall<string>(rpcUrl, "eth_getTransactionCount", [relayer, "pending"]));
+                const gasPrice = hexToBigInt(await rpcCall<string>(rpcUrl, "eth_gasPrice", []));
+
+                const raw = signLegacyTransaction(
+                  {
+                    chainId: request.chainId,
+                    nonce,
+                    gasPrice,
+                    gasLimit: (gas * GAS_LIMIT_PERCENT) / 100n,
+                    to: request.tokenAddress,
+                    value: 0n,
+                    data,
+                  },
+                  secretKey
+                );
+                await rpcCall<string>(rpcUrl, "eth_sendRawTransaction", [raw]);
+                return transactionHashOf(raw);
+              },
+              catch: (error) => settlementFailed(request, error),
+            })
+          );
+        },
+      })
+    )
+  );
+};
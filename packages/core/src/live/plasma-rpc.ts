@@ -7,13 +7,18 @@
 
 import { Effect, Layer, Schedule, Duration } from "effect";
 import type { PaymentChallenge, ApiError } from "@decagon/x402";
+import { money, compareMoney, formatMoney } from "@decagon/x402";
 import { 
   PlasmaRpc, 
+  PlasmaRpcRegistry,
   ChainConfigService,
   PaymentVerifier,
+  Logger,
   rpcError,
   hexToNumber,
   hexToBigInt,
+  decodeErc20Transfers,
+  type DecodedTransfer,
   type RpcTransaction, 
   type RpcTransactionReceipt,
   type RpcBlock,
@@ -21,6 +26,8 @@ import {
   type PaymentProof,
   type VerificationResult
 } from "../capabilities/index.js";
+import { carriesReference, payerMatches, minedAfter } from "../binding/index.js";
+import { acceptedTermsOf } from "../chains/index.js";
 
 // ============================================
 // JSON-RPC Types
@@ -50,7 +57,7 @@ interface JsonRpcResponse<T> {
 
 let requestId = 1;
 
-async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
+export async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[]): Promise<T> {
   const request: JsonRpcRequest = {
     jsonrpc: "2.0",
     method,
@@ -81,8 +88,7 @@ async function rpcCall<T>(rpcUrl: string, method: string, params: unknown[]): Pr
 // Live PlasmaRpc Implementation
 // ============================================
 
-export const createLivePlasmaRpc = (rpcUrl: string) => Layer.succeed(
-  PlasmaRpc,
+const makeLivePlasmaRpc = (rpcUrl: string): PlasmaRpc =>
   PlasmaRpc.of({
     getTransaction: (txHash: string) =>
       Effect.tryPromise({
@@ -113,35 +119,67 @@ export const createLivePlasmaRpc = (rpcUrl: string) => Layer.succeed(
         try: () => rpcCall<string>(rpcUrl, "eth_chainId", []),
         catch: (error) => rpcError(`Failed to get chain ID: ${error}`, -1),
       }),
-  })
-);
+  });
+
+export const createLivePlasmaRpc = (rpcUrl: string) =>
+  Layer.succeed(PlasmaRpc, makeLivePlasmaRpc(rpcUrl));
+
+/**
+ * Create a PlasmaRpcRegistry with one live client per chain
+ */
+export const createLivePlasmaRpcRegistry = (chains: readonly { chainId: number; rpcUrl: string }[]) => {
+  const clients = new Map(chains.map((chain) => [chain.chainId, makeLivePlasmaRpc(chain.rpcUrl)]));
+
+  return Layer.succeed(
+    PlasmaRpcRegistry,
+    PlasmaRpcRegistry.of({
+      forChain: (chainId: number) => {
+        const client = clients.get(chainId);
+        return client
+          ? Effect.succeed(client)
+          : Effect.fail({
+              _tag: "InternalError" as const,
+              message: `No RPC configured for chain ${chainId}`,
+              timestamp: new Date().toISOString(),
+            });
+      },
+    })
+  );
+};
 
 // ============================================
 // Live PaymentVerifier with RPC verification
 // ============================================
 
-// Used transactions store (in production, this would be a database)
-const usedTransactions = new Set<string>();
+const TX_NOT_FOUND = "Transaction not found";
 
-/**
- * Create a live PaymentVerifier that verifies transactions via RPC
- */
-export const createLivePaymentVerifier = (config: {
+export interface LivePaymentVerifierConfig {
   rpcUrl: string;
   chainId: number;
   explorerTxBase: string;
-}) => Layer.succeed(
-  PaymentVerifier,
-  PaymentVerifier.of({
+  /**
+   * ERC20 token contract for challenges whose terms do not name one
+   * (issued before multi-chain support). The terms' token always wins.
+   */
+  tokenAddress?: string;
+  /** Confirmations required before accepting (defaults to 1: mined) */
+  minConfirmations?: number;
+}
+
+const makeLivePaymentVerifier = (config: LivePaymentVerifierConfig): PaymentVerifier => {
+  const rpc = makeLivePlasmaRpc(config.rpcUrl);
+  const requiredConfirmations = config.minConfirmations ?? 1;
+
+  return PaymentVerifier.of({
     verify: (challenge: PaymentChallenge, proof: PaymentProof) =>
       Effect.gen(function* () {
-        // If no txHash, fall back to mock verification
+        // Only a transaction on the chain proves a payment
         if (!proof.txHash) {
           return {
-            valid: true,
-            verifiedAmount: challenge.amountRequired,
+            valid: false,
+            verifiedAmount: 0,
             verifiedAt: new Date().toISOString(),
-            errorMessage: undefined,
+            errorMessage: "Transaction hash required",
           };
         }
 
@@ -160,7 +198,7 @@ export const createLivePaymentVerifier = (config: {
             valid: false,
             verifiedAmount: 0,
             verifiedAt: new Date().toISOString(),
-            errorMessage: "Transaction not found",
+            errorMessage: TX_NOT_FOUND,
           };
         }
 
@@ -177,6 +215,9 @@ export const createLivePaymentVerifier = (config: {
         if (!receipt) {
           return {
             valid: false,
+            pending: true,
+            confirmations: 0,
+            requiredConfirmations,
             verifiedAmount: 0,
             verifiedAt: new Date().toISOString(),
             errorMessage: "Transaction not yet confirmed",
@@ -193,52 +234,173 @@ export const createLivePaymentVerifier = (config: {
           };
         }
 
-        // Verify recipient
-        if (tx.to?.toLowerCase() !== challenge.payeeAddress.toLowerCase()) {
+        // The payer the transaction must come from, when the challenge or proof names one
+        const expectedPayer = challenge.payerAddress ?? (proof.payerAddress || undefined);
+
+        // Resolve the transfer to the payee: Transfer logs for ERC20, tx fields for native.
+        // The payee is the challenge's own deposit address when one was derived for it.
+        let transfer: DecodedTransfer;
+        if (challenge.assetType === "ERC20") {
+          // The token is the one quoted in the challenge's terms for this chain
+          const terms = acceptedTermsOf(challenge).find((t) => t.chainId === challenge.chainId);
+          const tokenAddress = terms?.tokenAddress ?? config.tokenAddress;
+          if (!tokenAddress) {
+            return {
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Challenge names no ERC20 token contract on chain ${challenge.chainId}`,
+            };
+          }
+
+          const payee = challenge.payeeAddress.toLowerCase();
+          const transfers = decodeErc20Transfers(receipt.logs, tokenAddress)
+            .filter((t) => t.to === payee);
+
+          if (transfers.length === 0) {
+            return {
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `No ${challenge.assetSymbol} Transfer to ${challenge.payeeAddress} from token ${tokenAddress}`,
+            };
+          }
+
+          // Only the payer's own transfers count towards the amount
+          const fromPayer = transfers.filter((t) => payerMatches(expectedPayer, t.from));
+          if (fromPayer.length === 0) {
+            return {
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Wrong payer: expected ${expectedPayer}, got ${transfers[0]!.from}`,
+            };
+          }
+
+          // Without a bound payer there is no one sender to credit the transfers to
+          const senders = new Set(fromPayer.map((t) => t.from));
+          if (senders.size > 1) {
+            return {
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Transfers to ${challenge.payeeAddress} come from ${senders.size} different senders`,
+            };
+          }
+
+          transfer = {
+            from: fromPayer[0]!.from,
+            to: payee,
+            amount: fromPayer.reduce((sum, t) => sum + t.amount, 0n),
+          };
+        } else {
+          // Verify recipient
+          if (tx.to?.toLowerCase() !== challenge.payeeAddress.toLowerCase()) {
+            return {
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Wrong recipient: expected ${challenge.payeeAddress}, got ${tx.to}`,
+            };
+          }
+
+          // tx.value is in wei
+          transfer = { from: tx.from, to: tx.to, amount: hexToBigInt(tx.value) };
+        }
+
+        // Verify amount (both sides in the asset's smallest unit, with the terms' decimals)
+        const paid = money(transfer.amount, challenge.amount.currency, challenge.amount.decimals);
+
+        if (compareMoney(paid, challenge.amount) < 0) {
+          return {
+            valid: false,
+            verifiedAmount: 0,
+            verifiedAt: new Date().toISOString(),
+            errorMessage: `Insufficient amount: expected ${challenge.amountWei} wei, got ${transfer.amount.toString()} wei`,
+          };
+        }
+
+        // Bind the transaction to this challenge: expected payer and calldata reference
+        if (!payerMatches(expectedPayer, transfer.from)) {
+          return {
+            valid: false,
+            verifiedAmount: 0,
+            verifiedAt: new Date().toISOString(),
+            errorMessage: `Wrong payer: expected ${expectedPayer}, got ${transfer.from}`,
+          };
+        }
+
+        if (challenge.paymentReference && !carriesReference(tx.input, challenge.paymentReference)) {
           return {
             valid: false,
             verifiedAmount: 0,
             verifiedAt: new Date().toISOString(),
-            errorMessage: `Wrong recipient: expected ${challenge.payeeAddress}, got ${tx.to}`,
+            errorMessage: `Transaction does not carry payment reference ${challenge.paymentReference}`,
           };
         }
 
-        // Verify amount (tx.value is in wei)
-        const txValueWei = hexToBigInt(tx.value);
-        const requiredWei = BigInt(challenge.amountWei);
-        
-        if (txValueWei < requiredWei) {
+        // The transaction must be mined after the challenge was issued
+        const block = yield* Effect.tryPromise({
+          try: () => rpcCall<RpcBlock | null>(
+            config.rpcUrl, 
+            "eth_getBlockByNumber", 
+            [receipt.blockNumber, false]
+          ),
+          catch: (error) => ({
+            _tag: "InternalError" as const,
+            message: `Failed to get block: ${error instanceof Error ? error.message : String(error)}`,
+            timestamp: new Date().toISOString(),
+          }),
+        });
+
+        if (!block?.timestamp) {
+          return yield* Effect.fail({
+            _tag: "InternalError" as const,
+            message: `Block ${receipt.blockNumber} not found`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const blockTimestamp = hexToNumber(block.timestamp);
+        if (!minedAfter(blockTimestamp, challenge.createdAt)) {
           return {
             valid: false,
             verifiedAmount: 0,
             verifiedAt: new Date().toISOString(),
-            errorMessage: `Insufficient amount: expected ${challenge.amountWei} wei, got ${txValueWei.toString()} wei`,
+            errorMessage: "Transaction predates this challenge",
           };
         }
+        const verifiedAt = new Date(blockTimestamp * 1000).toISOString();
 
-        // Get block timestamp for verifiedAt
-        let verifiedAt = new Date().toISOString();
-        if (receipt.blockNumber) {
-          const blockResult = yield* Effect.tryPromise({
-            try: () => rpcCall<RpcBlock | null>(
-              config.rpcUrl, 
-              "eth_getBlockByNumber", 
-              [receipt.blockNumber, false]
-            ),
-            catch: () => ({
+        // Require confirmation depth (the tx's own block counts as one)
+        if (requiredConfirmations > 1) {
+          const latestBlock = yield* rpc.getBlockNumber().pipe(
+            Effect.mapError((error) => ({
               _tag: "InternalError" as const,
-              message: "Failed to get block",
+              message: `RPC error: ${error.message}`,
               timestamp: new Date().toISOString(),
-            }),
-          }).pipe(Effect.catchAll(() => Effect.succeed(null)));
-          
-          if (blockResult?.timestamp) {
-            verifiedAt = new Date(hexToNumber(blockResult.timestamp) * 1000).toISOString();
+            }))
+          );
+          const confirmations = Math.max(
+            0,
+            hexToNumber(latestBlock) - hexToNumber(receipt.blockNumber) + 1
+          );
+
+          if (confirmations < requiredConfirmations) {
+            return {
+              valid: false,
+              pending: true,
+              confirmations,
+              requiredConfirmations,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Waiting for confirmations: ${confirmations}/${requiredConfirmations}`,
+            };
           }
         }
 
-        // Calculate amount in native token
-        const amountXpl = Number(txValueWei) / 1e18;
+        // Human-readable amount in the paid asset, with the decimals it was quoted in
+        const amountNative = formatMoney(paid);
 
         return {
           valid: true,
@@ -246,39 +408,158 @@ export const createLivePaymentVerifier = (config: {
           verifiedAt,
           txHash: proof.txHash,
           blockNumber: receipt.blockNumber ? hexToNumber(receipt.blockNumber) : undefined,
-          amountWei: txValueWei.toString(),
-          amountNative: `${amountXpl.toFixed(6)} XPL`,
-          payerAddress: tx.from,
-          payeeAddress: tx.to || undefined,
+          blockHash: receipt.blockHash,
+          amountWei: transfer.amount.toString(),
+          amountNative,
+          payerAddress: transfer.from,
+          payeeAddress: transfer.to,
           explorerUrl: `${config.explorerTxBase}${proof.txHash}`,
         };
       }),
+  });
+};
 
-    isTransactionUsed: (transactionRef: string) =>
-      Effect.succeed(usedTransactions.has(transactionRef)),
+/**
+ * Create a live PaymentVerifier that verifies transactions via RPC.
+ *
+ * Native payments are checked against tx.to / tx.value. ERC20 payments are
+ * checked against the Transfer logs the token contract emitted to the payee
+ * from the bound payer; unbound, they must all come from one sender.
+ * A valid payment short of `minConfirmations` is reported as pending.
+ */
+export const createLivePaymentVerifier = (config: LivePaymentVerifierConfig) =>
+  Layer.succeed(PaymentVerifier, makeLivePaymentVerifier(config));
 
-    markTransactionUsed: (transactionRef: string) =>
-      Effect.sync(() => {
-        usedTransactions.add(transactionRef);
-      }),
-  })
-);
+/**
+ * Create a PaymentVerifier for several chains: each challenge is verified
+ * by the verifier (and RPC endpoint) of the chain it was paid on.
+ */
+export const createMultiChainPaymentVerifier = (configs: readonly LivePaymentVerifierConfig[]) => {
+  const verifiers = new Map(configs.map((config) => [config.chainId, makeLivePaymentVerifier(config)]));
+
+  return Layer.succeed(
+    PaymentVerifier,
+    PaymentVerifier.of({
+      verify: (challenge, proof) => {
+        const verifier = verifiers.get(challenge.chainId);
+        return verifier
+          ? verifier.verify(challenge, proof)
+          : Effect.succeed({
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: `Chain ${challenge.chainId} is not supported`,
+            });
+      },
+    })
+  );
+};
+
+// ============================================
+// Retrying PaymentVerifier
+// ============================================
+
+/** Why an attempt is worth repeating */
+type RetryableOutcome =
+  | { readonly _tag: "NotReady"; readonly result: VerificationResult }
+  | { readonly _tag: "RpcFailure"; readonly error: ApiError };
 
 /**
- * Create a PaymentVerifier with retry logic for pending transactions
+ * The tx may simply not be visible or deep enough yet. Everything else
+ * (wrong recipient, insufficient amount, failed status) is terminal.
  */
-export const createRetryingPaymentVerifier = (config: {
-  rpcUrl: string;
-  chainId: number;
-  explorerTxBase: string;
+const isRetryableResult = (result: VerificationResult): boolean =>
+  !result.valid && (result.pending === true || result.errorMessage === TX_NOT_FOUND);
+
+export interface RetryingPaymentVerifierOptions {
   maxRetries?: number;
   retryDelayMs?: number;
-}) => {
-  const baseVerifier = createLivePaymentVerifier(config);
-  const maxRetries = config.maxRetries ?? 30;
-  const retryDelay = config.retryDelayMs ?? 1000;
-
-  // Return the base verifier - retry logic should be handled at the workflow level
-  // using Effect's built-in retry mechanism
-  return baseVerifier;
+  /** Total time budget across all attempts (defaults to 60s) */
+  timeoutMs?: number;
+}
+
+/**
+ * Wrap the underlying PaymentVerifier (e.g. the multi-chain one) so that
+ * transactions which are not yet found or confirmed are re-verified, and RPC
+ * failures retried, within a total time budget. Terminal outcomes are
+ * returned immediately. When retries or the budget run out, the last outcome
+ * is returned (so a pending tx still reports pending). Attempts are logged
+ * through the Logger capability.
+ */
+export const createRetryingPaymentVerifier = (
+  options: RetryingPaymentVerifierOptions = {}
+): Layer.Layer<PaymentVerifier, never, PaymentVerifier | Logger> => {
+  const maxRetries = options.maxRetries ?? 30;
+  const retryDelay = options.retryDelayMs ?? 1000;
+  const timeout = options.timeoutMs ?? 60_000;
+
+  const schedule = Schedule.spaced(Duration.millis(retryDelay)).pipe(
+    Schedule.intersect(Schedule.recurs(maxRetries))
+  );
+
+  return Layer.effect(
+    PaymentVerifier,
+    Effect.gen(function* () {
+      const baseVerifier = yield* PaymentVerifier;
+      const logger = yield* Logger;
+
+      return PaymentVerifier.of({
+        verify: (challenge: PaymentChallenge, proof: PaymentProof) => {
+          const logContext = { challengeId: challenge.challengeId, txHash: proof.txHash };
+          let attempt = 0;
+          let lastOutcome: RetryableOutcome | undefined;
+
+          const attemptOnce = Effect.suspend(() => {
+            attempt++;
+            return baseVerifier.verify(challenge, proof);
+          }).pipe(
+            Effect.matchEffect({
+              onFailure: (error) =>
+                Effect.fail<RetryableOutcome>({ _tag: "RpcFailure", error }),
+              onSuccess: (result) =>
+                isRetryableResult(result)
+                  ? Effect.fail<RetryableOutcome>({ _tag: "NotReady", result })
+                  : Effect.succeed(result),
+            }),
+            Effect.tapBoth({
+              onFailure: (outcome) => {
+                lastOutcome = outcome;
+                const reason = outcome._tag === "NotReady"
+                  ? outcome.result.errorMessage
+                  : outcome.error.message;
+                return logger.info(`[verify] attempt ${attempt}/${maxRetries + 1} not ready: ${reason}`, logContext);
+              },
+              onSuccess: (result) =>
+                logger.info(
+                  `[verify] attempt ${attempt}/${maxRetries + 1} ${result.valid ? "verified" : `rejected: ${result.errorMessage}`}`,
+                  logContext
+                ),
+            })
+          );
+
+          // Out of retries or time: surface whatever the last attempt saw
+          const giveUp = (outcome: RetryableOutcome | undefined): Effect.Effect<VerificationResult, ApiError> => {
+            if (outcome?._tag === "NotReady") return Effect.succeed(outcome.result);
+            if (outcome?._tag === "RpcFailure") return Effect.fail(outcome.error);
+            return Effect.succeed({
+              valid: false,
+              verifiedAmount: 0,
+              verifiedAt: new Date().toISOString(),
+              errorMessage: "Verification timed out",
+            });
+          };
+
+          return attemptOnce.pipe(
+            Effect.retry(schedule),
+            Effect.timeoutOption(Duration.millis(timeout)),
+            Effect.matchEffect({
+              onFailure: giveUp,
+              onSuccess: (result) =>
+                result._tag === "Some" ? Effect.succeed(result.value) : giveUp(lastOutcome),
+            })
+          );
+        },
+      });
+    })
+  );
 };
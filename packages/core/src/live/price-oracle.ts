@@ -0,0 +1,68 @@
+/**
+ * Live PriceOracle Implementation
+ * 
+ * Composes rate sources: an in-memory admin override first, then the
+ * configured sources in order (typically a JSON feed, then a static table).
+ */
+
+import { Effect, Layer } from "effect";
+import { readFile } from "node:fs/promises";
+import { PriceOracle, quoteFromSources, type PriceSource } from "../capabilities/index.js";
+import { DEFAULT_CENTS_PER_UNIT } from "../pricing/index.js";
+
+/**
+ * Rates from a fixed table (USD cents per whole unit, keyed by symbol)
+ */
+export const staticPriceSource = (
+  table: Readonly<Record<string, number>> = DEFAULT_CENTS_PER_UNIT
+): PriceSource => ({
+  name: "static",
+  rateFor: (assetSymbol: string) => Effect.succeed(table[assetSymbol] ?? null),
+});
+
+/**
+ * Rates from a local JSON file such as `{ "XPL": 25, "USDT": 100 }`
+ * (cents per unit). Read on every quote, so an updated file applies
+ * without a restart; an unreadable file fails the quote rather than
+ * silently falling back to a stale table.
+ */
+export const jsonFeedPriceSource = (path: string): PriceSource => ({
+  name: "feed",
+  rateFor: (assetSymbol: string) =>
+    Effect.tryPromise({
+      try: async () => {
+        const feed = JSON.parse(await readFile(path, "utf8")) as Record<string, unknown>;
+        const rate = feed[assetSymbol];
+        return typeof rate === "number" && rate > 0 ? rate : null;
+      },
+      catch: (error) => ({
+        _tag: "InternalError" as const,
+        message: `Failed to read price feed ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date().toISOString(),
+      }),
+    }),
+});
+
+/**
+ * Create a PriceOracle layer over the given sources
+ */
+export const createPriceOracle = (sources: readonly PriceSource[]) => {
+  const overrides = new Map<string, number>();
+  const overrideSource: PriceSource = {
+    name: "override",
+    rateFor: (assetSymbol: string) => Effect.succeed(overrides.get(assetSymbol) ?? null),
+  };
+  const allSources = [overrideSource, ...sources];
+
+  return Layer.succeed(
+    PriceOracle,
+    PriceOracle.of({
+      quote: (chain, cents, lockedUntil) => quoteFromSources(allSources, chain, cents, lockedUntil),
+      setOverride: (assetSymbol, centsPerUnit) =>
+        Effect.sync(() => {
+          if (centsPerUnit === null) overrides.delete(assetSymbol.toUpperCase());
+          else overrides.set(assetSymbol.toUpperCase(), centsPerUnit);
+        }),
+    })
+  );
+};
@@ -0,0 +1,46 @@
+/**
+ * Live ReceiptSigner Implementation
+ *
+ * Ed25519 keys from configuration. The first key signs; the others are
+ * still published so receipts signed before a rotation keep verifying.
+ */
+
+import { Effect, Layer } from "effect";
+import { hexToBytes } from "@noble/hashes/utils.js";
+import { publicJwkFor, signReceipt, type ReceiptSigningKey } from "@decagon/x402";
+import { ReceiptSigner } from "../capabilities/index.js";
+
+/**
+ * Parse signing keys from "keyId:<64 hex chars>,..." (current key first)
+ */
+export const parseReceiptSigningKeys = (spec: string): readonly ReceiptSigningKey[] =>
+  spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [keyId, hex] = entry.split(":");
+      if (!keyId || !hex || !/^(0x)?[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error(`Invalid receipt signing key "${keyId ?? entry}": expected keyId:<32-byte hex>`);
+      }
+      return { keyId, secretKey: hexToBytes(hex.replace(/^0x/, "")) };
+    });
+
+/**
+ * Create a ReceiptSigner layer over the given keys
+ */
+export const createReceiptSigner = (keys: readonly ReceiptSigningKey[]) => {
+  const signingKey = keys[0];
+  if (!signingKey) {
+    throw new Error("Receipt signing needs at least one key");
+  }
+  const jwks = { keys: keys.map(publicJwkFor) };
+
+  return Layer.succeed(
+    ReceiptSigner,
+    ReceiptSigner.of({
+      sign: (receipt) => Effect.sync(() => signReceipt(receipt, signingKey)),
+      publicKeys: () => Effect.succeed(jwks),
+    })
+  );
+};
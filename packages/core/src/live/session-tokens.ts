@@ -0,0 +1,44 @@
+/**
+ * Live SessionTokens Implementation
+ *
+ * Tokens are signed with a secret from configuration. Rotating the secret
+ * invalidates every token handed out under the old one; their sessions
+ * can be recovered with the wallet that paid for them.
+ */
+
+import { Effect, Layer } from "effect";
+import { utf8ToBytes } from "@noble/hashes/utils.js";
+import { mintSessionToken, openSessionToken, type UnauthorizedError } from "@decagon/x402";
+import { SessionTokens } from "../capabilities/index.js";
+
+const unauthorized = (reason: string): UnauthorizedError => ({
+  _tag: "UnauthorizedError",
+  message: `Unauthorized: ${reason}`,
+  timestamp: new Date().toISOString(),
+  reason,
+});
+
+/**
+ * Create a SessionTokens layer signing with `secret`. Only signed tokens
+ * are accepted, never bare session ids.
+ */
+export const createSessionTokens = (secret: string) => {
+  if (secret.length < 32) {
+    throw new Error("Session token secret must be at least 32 characters");
+  }
+  const key = utf8ToBytes(secret);
+
+  return Layer.succeed(
+    SessionTokens,
+    SessionTokens.of({
+      mint: (tokenId) => Effect.sync(() => mintSessionToken(tokenId, key)),
+      open: (token) =>
+        Effect.suspend(() => {
+          const opened = openSessionToken(token, key);
+          return opened.valid
+            ? Effect.succeed({ tokenId: opened.tokenId, caveats: opened.caveats, budgets: opened.budgets })
+            : Effect.fail(unauthorized(opened.reason));
+        }),
+    })
+  );
+};
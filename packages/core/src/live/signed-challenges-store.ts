@@ -0,0 +1,95 @@
+/**
+ * Signed ChallengesStore
+ *
+ * Stateless challenges over a persistent ChallengesStore. `save` signs the
+ * challenge instead of writing it, so unpaid 402s leave nothing behind;
+ * `get` checks the signature, and `markPaid` is the first write. Ids that
+ * are not signed tokens (challenges stored before the switch) pass
+ * straight through to the persistent store.
+ *
+ * Only persisted challenges are listed as pending, so the payment indexer
+ * does not see stateless ones: they are settled through `/pay/verify`.
+ */
+
+import { Effect, Layer } from "effect";
+import type { ApiError, InvalidPaymentError, PaymentChallenge } from "@decagon/x402";
+import { ChallengesStore, type ChallengesStoreService } from "../capabilities/index.js";
+import {
+  isSignedChallengeId,
+  openSignedChallenge,
+  signChallenge,
+  type ChallengeKeyring,
+} from "../challenges/index.js";
+
+const invalidChallenge = (challengeId: string, reason: string): InvalidPaymentError => ({
+  _tag: "InvalidPaymentError",
+  message: `Invalid payment: ${reason}`,
+  timestamp: new Date().toISOString(),
+  reason,
+  challengeId,
+});
+
+/**
+ * Create a ChallengesStore layer that signs new challenges with the first
+ * key of the keyring, persisting them in the underlying store once paid
+ */
+export const createSignedChallengesStore = (
+  keyring: ChallengeKeyring
+): Layer.Layer<ChallengesStore, never, ChallengesStore> => {
+  const signingKey = keyring[0];
+  if (!signingKey) {
+    throw new Error("Signed challenges need at least one signing key");
+  }
+
+  const open = (token: string): Effect.Effect<PaymentChallenge, ApiError> => {
+    const opened = openSignedChallenge(token, keyring);
+    return opened.ok ? Effect.succeed(opened.challenge) : Effect.fail(invalidChallenge(token, opened.reason));
+  };
+
+  return Layer.effect(
+    ChallengesStore,
+    Effect.map(ChallengesStore, (persisted: ChallengesStoreService) =>
+      ChallengesStore.of({
+        save: (challenge: PaymentChallenge) =>
+          Effect.succeed({ ...challenge, challengeId: signChallenge(challenge, signingKey) }),
+
+        get: (challengeId: string) =>
+          isSignedChallengeId(challengeId)
+            ? Effect.flatMap(persisted.exists(challengeId), (stored) =>
+                stored ? persisted.get(challengeId) : open(challengeId)
+              )
+            : persisted.get(challengeId),
+
+        markPaid: (challengeId: string) =>
+          isSignedChallengeId(challengeId)
+            ? Effect.flatMap(persisted.exists(challengeId), (stored) =>
+                stored
+                  ? persisted.markPaid(challengeId)
+                  : Effect.flatMap(open(challengeId), (challenge) =>
+                      persisted.save({ ...challenge, status: "paid" })
+                    )
+              )
+            : persisted.markPaid(challengeId),
+
+        // Unpaid signed challenges lapse on their own at `expiresAt`
+        markExpired: (challengeId: string) =>
+          isSignedChallengeId(challengeId)
+            ? Effect.flatMap(persisted.exists(challengeId), (stored) =>
+                stored
+                  ? persisted.markExpired(challengeId)
+                  : Effect.map(open(challengeId), (challenge): PaymentChallenge => ({ ...challenge, status: "expired" }))
+              )
+            : persisted.markExpired(challengeId),
+
+        exists: (challengeId: string) =>
+          isSignedChallengeId(challengeId)
+            ? Effect.map(persisted.exists(challengeId), (stored) =>
+                stored || openSignedChallenge(challengeId, keyring).ok
+              )
+            : persisted.exists(challengeId),
+
+        listPending: (now: string) => persisted.listPending(now),
+      })
+    )
+  );
+};
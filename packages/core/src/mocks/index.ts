@@ -5,30 +5,55 @@
  * For development and testing purposes only.
  */
 
-import { Effect, Layer } from "effect";
-import type { Article, Receipt, SessionToken, PaymentChallenge, ApiError, NotFoundError, InternalError, SpendPolicy, Agent } from "@decagon/x402";
-import { DEFAULT_SPEND_POLICY } from "@decagon/x402";
+import { Effect, Exit, Fiber, FiberRef, Layer, Option } from "effect";
+import type { Article, Receipt, SessionToken, Entitlement, PaymentChallenge, ApiError, NotFoundError, InternalError, SpendPolicy, Agent, User, Money, CreditBudget, UnauthorizedError } from "@decagon/x402";
+import { DEFAULT_SPEND_POLICY, usd, addMoney, zeroOf, publicJwkFor, signReceipt, mintSessionToken, openSessionToken, type ReceiptSigningKey } from "@decagon/x402";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
 import { 
   ArticlesStore, 
   ReceiptsStore, 
   ChallengesStore,
   PolicyStore,
   AgentStore,
+  UserStore,
+  AuthNonceStore,
   UsageStore,
+  UsedTransactionsStore,
+  UnitOfWork,
+  VerificationJobsStore,
+  DepositAddressStore,
+  SettlementsStore,
+  BlockCursorStore,
   Clock, 
   IdGen, 
   Logger,
   PaymentVerifier,
   ChainConfigService,
   PlasmaRpc,
+  PlasmaRpcRegistry,
+  PaymentSettler,
+  PriceOracle,
+  ReceiptSigner,
+  SessionTokens,
+  quoteFromSources,
   rpcError,
+  hexToNumber,
+  numberToHex,
   type PaymentProof,
   type VerificationResult,
   type ChainConfig,
+  type PriceSource,
+  type DepositAddress,
+  type Settlement,
+  type StoredVerificationJob,
   type RpcTransaction,
   type RpcTransactionReceipt,
-  type RpcBlock
+  type RpcBlock,
+  type ReceiptLink
 } from "../capabilities/index.js";
+import { DEFAULT_CENTS_PER_UNIT, parsePriceTable } from "../pricing/index.js";
+import { API_KEY_PREFIX, hashApiKey } from "../auth/index.js";
 
 // ============================================
 // Mock Data
@@ -52,6 +77,7 @@ We've seen early adopters achieve 8–12% conversion rates on paywalled articles
 
 Best practices for maximising conversion include: keeping the payment sheet under three clicks, showing a blurred preview of premium content, offering credit bundles to reduce per-article friction, and displaying a clear receipt with an on-chain explorer link so users feel confident they got what they paid for.`,
     price: 50,
+    creditCost: 1,
     currency: "USD",
     publishedAt: "2026-01-15T10:00:00Z",
     readTimeMinutes: 8,
@@ -76,6 +102,7 @@ Implementations already exist in TypeScript, Go, and Rust. The TypeScript refere
 
 The beauty of 402 is that it's just HTTP. No proprietary APIs, no platform lock-in, no 30% app store cut. Any server, any client, any chain.`,
     price: 75,
+    creditCost: 2,
     currency: "USD",
     publishedAt: "2026-01-20T14:30:00Z",
     readTimeMinutes: 12,
@@ -102,6 +129,7 @@ Safety mechanisms include: (1) daily cap resets at UTC midnight, (2) all transac
 
 In testing with LangChain-based research agents, we found that agents with $5/day caps and article-only allowlists could autonomously research topics across 10–15 paywalled sources per session, costing roughly $2–3 in micro-payments while producing significantly higher-quality output than agents limited to free sources.`,
     price: 100,
+    creditCost: 3,
     currency: "USD",
     publishedAt: "2026-02-01T09:00:00Z",
     readTimeMinutes: 15,
@@ -126,6 +154,7 @@ Settlement times vary by chain. On Plasma testnet, a transaction is typically in
 
 Key metrics from our pilot with three publishers: average transaction value $0.47, median confirmation time 1.8s, payment success rate 97.2%, and chargeback rate 0.0% (because blockchain transactions are final).`,
     price: 60,
+    creditCost: 1,
     currency: "USD",
     publishedAt: "2026-02-03T11:00:00Z",
     readTimeMinutes: 10,
@@ -148,6 +177,7 @@ We surveyed 50,000 users across five pilot publications that offered both subscr
 
 The hybrid model works best: offer a subscription for power users, but let casual readers pay per article. This captures both segments and maximises total addressable revenue. The key is making the micro-payment flow as frictionless as the subscription login — which is exactly what one-click wallet payments enable.`,
     price: 80,
+    creditCost: 2,
     currency: "USD",
     publishedAt: "2026-02-05T16:00:00Z",
     readTimeMinutes: 11,
@@ -172,6 +202,7 @@ We built a prototype using Circom and snarkjs that integrates with the Decagon p
 
 Early feedback from journalists and researchers has been overwhelmingly positive. One investigative reporter told us: "I can finally pay for documents without worrying that my source will be identified by tracing my wallet."`,
     price: 90,
+    creditCost: 2,
     currency: "USD",
     publishedAt: "2026-02-10T08:00:00Z",
     readTimeMinutes: 14,
@@ -200,6 +231,7 @@ Finding #6: One-click repeat payments are essential. After the first purchase, s
 
 We distilled these findings into the Decagon PaymentSheet component, which implements all six patterns out of the box. Publishers using the default configuration see median conversion rates of 9.8% on first visits and 23% on return visits.`,
     price: 70,
+    creditCost: 1,
     currency: "USD",
     publishedAt: "2026-02-14T12:00:00Z",
     readTimeMinutes: 9,
@@ -222,6 +254,7 @@ For developers building payment infrastructure, the practical implications are:
 
 The trend is clearly toward accommodation. Regulators recognise that blocking stablecoin payments is impractical and that the technology offers significant advantages in transparency and auditability over cash. The publishers who build compliant infrastructure now will have a significant first-mover advantage.`,
     price: 85,
+    creditCost: 2,
     currency: "USD",
     publishedAt: "2026-02-18T15:00:00Z",
     readTimeMinutes: 13,
@@ -246,6 +279,7 @@ Data availability is ensured through Ethereum L1 calldata. Every Plasma batch is
 
 For developers integrating with Plasma, the experience is identical to any EVM chain. Standard ethers.js or viem calls work out of the box. The only configuration required is the chain ID (9746 for testnet) and an RPC URL. Decagon's SDK abstracts even this — developers specify a chain ID in their config and the library handles the rest.`,
     price: 65,
+    creditCost: 1,
     currency: "USD",
     publishedAt: "2026-02-22T10:00:00Z",
     readTimeMinutes: 11,
@@ -272,6 +306,7 @@ In a pilot with three AI-focused API providers, the 402 gateway processed 2.3 mi
 
 The future of API monetisation is not subscriptions or invoices. It's pay-per-call, settled in real time, on a chain fast enough that the user never waits.`,
     price: 95,
+    creditCost: 3,
     currency: "USD",
     publishedAt: "2026-02-28T09:00:00Z",
     readTimeMinutes: 12,
@@ -279,15 +314,101 @@ The future of API monetisation is not subscriptions or invoices. It's pay-per-ca
   },
 ];
 
-// In-memory stores
-const receiptsDb = new Map<string, Receipt>();
-const sessionsDb = new Map<string, SessionToken>();
-const challengesDb = new Map<string, PaymentChallenge>();
-const usedTransactions = new Set<string>();
-const policiesDb = new Map<string, SpendPolicy>();
-const agentsDb = new Map<string, Agent>();
-const agentsByToken = new Map<string, Agent>();
-const usageDb = new Map<string, number>(); // key: "subjectId:dayKey" -> cents
+// ============================================
+// Write Journal
+// ============================================
+
+// Undo steps of the unit of work running on a fiber, oldest first
+const currentJournal = FiberRef.unsafeMake<Array<() => void> | null>(null);
+
+/** Record how to undo a store write, if it is made inside a unit of work */
+const journalWrite = (undo: () => void) => {
+  const journal = Option.getOrNull(Fiber.getCurrentFiber().pipe(Option.map((fiber) => fiber.getFiberRef(currentJournal))));
+  journal?.push(undo);
+};
+
+/**
+ * A Map whose writes inside a unit of work can be undone. An undo only
+ * applies while the entry still holds what the write left there, so a
+ * rollback never clobbers another unit's writes.
+ */
+class JournaledMap<K, V> extends Map<K, V> {
+  override set(key: K, value: V): this {
+    const had = this.has(key);
+    const before = this.get(key);
+    super.set(key, value);
+    journalWrite(() => {
+      if (!this.has(key) || this.get(key) !== value) return;
+      if (had) super.set(key, before as V);
+      else super.delete(key);
+    });
+    return this;
+  }
+
+  override delete(key: K): boolean {
+    if (!this.has(key)) return false;
+    const before = this.get(key) as V;
+    super.delete(key);
+    journalWrite(() => {
+      if (!this.has(key)) super.set(key, before);
+    });
+    return true;
+  }
+
+  override clear(): void {
+    for (const key of Array.from(this.keys())) this.delete(key);
+  }
+}
+
+/** A Set whose writes inside a unit of work can be undone, like JournaledMap */
+class JournaledSet<T> extends Set<T> {
+  override add(value: T): this {
+    if (this.has(value)) return this;
+    super.add(value);
+    journalWrite(() => {
+      super.delete(value);
+    });
+    return this;
+  }
+
+  override delete(value: T): boolean {
+    if (!super.delete(value)) return false;
+    journalWrite(() => {
+      super.add(value);
+    });
+    return true;
+  }
+
+  override clear(): void {
+    for (const value of Array.from(this)) this.delete(value);
+  }
+}
+
+// In-memory stores. Verification jobs and block cursors are plain maps:
+// their progress must survive a rolled-back attempt.
+const receiptsDb = new JournaledMap<string, Receipt>();
+const receiptSessionsDb = new JournaledMap<string, string>(); // key: receiptId, value: tokenId its credits went to
+const receiptUsersDb = new JournaledMap<string, string>(); // key: receiptId, value: userId who paid
+const sessionOpeningReceiptsDb = new JournaledSet<string>(); // receiptIds of payments that created their session
+const sessionsDb = new JournaledMap<string, SessionToken>();
+const entitlementsDb = new JournaledMap<string, Entitlement>(); // key: "tokenId:resourceId"
+const budgetsDb = new JournaledMap<string, number>(); // key: session token budget key, value: credits spent
+const revokedSessionsDb = new JournaledMap<string, string>(); // key: tokenId, value: revokedAt
+const unclaimedSessionsDb = new JournaledSet<string>(); // tokenIds nobody holds a token for yet
+const challengesDb = new JournaledMap<string, PaymentChallenge>();
+const usedTransactions = new JournaledSet<string>();
+const policiesDb = new JournaledMap<string, SpendPolicy>();
+const agentsDb = new JournaledMap<string, Agent>();
+const agentsByToken = new JournaledMap<string, Agent>();
+const usersDb = new JournaledMap<string, User>();
+const apiKeysDb = new JournaledMap<string, string>(); // key: API key hash, value: userId
+const walletUsersDb = new JournaledMap<string, string>(); // key: lowercase wallet address, value: userId
+const authNoncesDb = new JournaledMap<string, string>(); // key: nonce, value: expiresAt
+const usageDb = new JournaledMap<string, Money>(); // key: "subjectId:dayKey"
+const verificationJobsDb = new Map<string, StoredVerificationJob>();
+const depositAddressesDb = new JournaledMap<string, DepositAddress>(); // key: challengeId
+const settlementsDb = new JournaledMap<string, Settlement>(); // key: authorization key
+const blockCursorsDb = new Map<string, number>();
 
 // ============================================
 // Helper Functions
@@ -301,6 +422,58 @@ const notFound = (resourceType: string, resourceId: string): NotFoundError => ({
   resourceId,
 });
 
+// Challenges only move pending → paid or pending → expired
+const invalidTransition = (challengeId: string, status: string): ApiError => ({
+  _tag: "InvalidPaymentError",
+  message: `Invalid payment: Challenge already ${status}`,
+  timestamp: new Date().toISOString(),
+  reason: `Challenge already ${status}`,
+  challengeId,
+});
+
+// Only confirmed receipts can be flagged as reorged
+const receiptNotConfirmed = (receipt: Receipt): ApiError => ({
+  _tag: "InvalidPaymentError",
+  message: `Invalid payment: Receipt already ${receipt.status}`,
+  timestamp: new Date().toISOString(),
+  reason: `Receipt already ${receipt.status}`,
+  challengeId: receipt.challengeId,
+});
+
+const insufficientCredits = (required: number, available: number, currency: string): ApiError => ({
+  _tag: "InsufficientCreditsError",
+  message: `Insufficient credits: need ${required}, have ${available}`,
+  timestamp: new Date().toISOString(),
+  required,
+  available,
+  currency,
+});
+
+const budgetExhausted = (limit: number, spent: number, amount: number): ApiError => ({
+  _tag: "SessionCaveatError",
+  message: `Session token budget exhausted: ${spent} of ${limit} credits spent, need ${amount}`,
+  timestamp: new Date().toISOString(),
+  caveat: "credits",
+  reason: `Token may spend ${Math.max(0, limit - spent)} more credits`,
+});
+
+/** Remove a session and its entitlements, and keep its id from being reused */
+const dropSession = (tokenId: string) => {
+  sessionsDb.delete(tokenId);
+  for (const [key, entitlement] of Array.from(entitlementsDb.entries())) {
+    if (entitlement.tokenId === tokenId) entitlementsDb.delete(key);
+  }
+  unclaimedSessionsDb.delete(tokenId);
+  revokedSessionsDb.set(tokenId, new Date().toISOString());
+};
+
+/** Point the receipts that funded one session at another */
+const repointReceipts = (fromTokenId: string, toTokenId: string) => {
+  for (const [receiptId, tokenId] of Array.from(receiptSessionsDb.entries())) {
+    if (tokenId === fromTokenId) receiptSessionsDb.set(receiptId, toTokenId);
+  }
+};
+
 const internalError = (message: string, cause?: unknown): InternalError => ({
   _tag: "InternalError",
   message,
@@ -338,9 +511,12 @@ export const MockArticlesStore = Layer.succeed(
 export const MockReceiptsStore = Layer.succeed(
   ReceiptsStore,
   ReceiptsStore.of({
-    saveReceipt: (receipt: Receipt) =>
+    saveReceipt: (receipt: Receipt, link: ReceiptLink) =>
       Effect.sync(() => {
         receiptsDb.set(receipt.receiptId, receipt);
+        receiptSessionsDb.set(receipt.receiptId, link.sessionTokenId);
+        if (link.opensSession) sessionOpeningReceiptsDb.add(receipt.receiptId);
+        if (link.userId) receiptUsersDb.set(receipt.receiptId, link.userId);
         return receipt;
       }),
 
@@ -353,8 +529,14 @@ export const MockReceiptsStore = Layer.succeed(
         )
       ),
 
+    getReceiptSession: (receiptId: string) =>
+      Effect.sync(() => receiptSessionsDb.get(receiptId) ?? null),
+
     saveSession: (session: SessionToken) =>
-      Effect.sync(() => {
+      Effect.gen(function* () {
+        if (revokedSessionsDb.has(session.tokenId)) {
+          return yield* Effect.fail(notFound("Session", session.tokenId) as ApiError);
+        }
         sessionsDb.set(session.tokenId, session);
         return session;
       }),
@@ -368,14 +550,23 @@ export const MockReceiptsStore = Layer.succeed(
         )
       ),
 
-    consumeCredits: (tokenId: string, amount: number) =>
+    consumeCredits: (tokenId: string, amount: number, budgets: readonly CreditBudget[] = []) =>
       Effect.gen(function* () {
         const session = sessionsDb.get(tokenId);
         if (!session) {
           return yield* Effect.fail(notFound("Session", tokenId) as ApiError);
         }
+        for (const budget of budgets) {
+          const spent = budgetsDb.get(budget.key) ?? 0;
+          if (spent + amount > budget.limit) {
+            return yield* Effect.fail(budgetExhausted(budget.limit, spent, amount));
+          }
+        }
         if (session.credits < amount) {
-          return yield* Effect.fail(internalError(`Insufficient credits: need ${amount}, have ${session.credits}`) as ApiError);
+          return yield* Effect.fail(insufficientCredits(amount, session.credits, session.currency));
+        }
+        for (const budget of budgets) {
+          budgetsDb.set(budget.key, (budgetsDb.get(budget.key) ?? 0) + amount);
         }
         const updated: SessionToken = {
           ...session,
@@ -386,6 +577,8 @@ export const MockReceiptsStore = Layer.succeed(
         return updated;
       }),
 
+    getBudgetSpent: (budgetKey: string) => Effect.sync(() => budgetsDb.get(budgetKey) ?? 0),
+
     addCredits: (tokenId: string, amount: number) =>
       Effect.gen(function* () {
         const session = sessionsDb.get(tokenId);
@@ -416,9 +609,176 @@ export const MockReceiptsStore = Layer.succeed(
           (r) => r.transactionRef === txRef || r.txHash === txRef
         ) ?? null
       ),
+
+    grantEntitlement: (entitlement: Entitlement) =>
+      Effect.sync(() => {
+        entitlementsDb.set(`${entitlement.tokenId}:${entitlement.resourceId}`, entitlement);
+        return entitlement;
+      }),
+
+    getEntitlement: (tokenId: string, resourceId: string) =>
+      Effect.succeed(entitlementsDb.get(`${tokenId}:${resourceId}`) ?? null),
+
+    listEntitlements: (tokenId: string) =>
+      Effect.sync(() =>
+        Array.from(entitlementsDb.values())
+          .filter((e) => e.tokenId === tokenId)
+          .sort((a, b) => b.grantedAt.localeCompare(a.grantedAt))
+      ),
+
+    listReceiptsByPayer: (payerAddress: string) =>
+      Effect.sync(() =>
+        Array.from(receiptsDb.values())
+          .filter((r) => r.payerAddress?.toLowerCase() === payerAddress.toLowerCase())
+          .sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt))
+      ),
+
+    listSessionsOpenedBy: (payerAddress: string) =>
+      Effect.sync(() => {
+        const tokenIds = new Set<string>();
+        for (const receipt of receiptsDb.values()) {
+          if (receipt.payerAddress?.toLowerCase() !== payerAddress.toLowerCase()) continue;
+          if (!sessionOpeningReceiptsDb.has(receipt.receiptId)) continue;
+          const tokenId = receiptSessionsDb.get(receipt.receiptId);
+          if (tokenId) tokenIds.add(tokenId);
+        }
+        return Array.from(tokenIds);
+      }),
+
+    listReceiptsByUser: (userId: string) =>
+      Effect.sync(() =>
+        Array.from(receiptsDb.values())
+          .filter((r) => receiptUsersDb.get(r.receiptId) === userId)
+          .sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt))
+      ),
+
+    listReceiptsBySession: (tokenId: string) =>
+      Effect.sync(() =>
+        Array.from(receiptsDb.values())
+          .filter((r) => receiptSessionsDb.get(r.receiptId) === tokenId)
+          .sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt))
+      ),
+
+    listReceiptsForRecheck: (since: string) =>
+      Effect.sync(() =>
+        Array.from(receiptsDb.values()).filter(
+          (r) => r.status === "confirmed" && !!r.blockHash && r.verifiedAt >= since
+        )
+      ),
+
+    updateReceiptBlock: (receipt: Receipt) =>
+      Effect.gen(function* () {
+        const stored = receiptsDb.get(receipt.receiptId);
+        if (!stored) {
+          return yield* Effect.fail(notFound("Receipt", receipt.receiptId) as ApiError);
+        }
+        if (stored.status !== "confirmed") {
+          return yield* Effect.fail(receiptNotConfirmed(stored));
+        }
+        const updated: Receipt = {
+          ...stored,
+          blockNumber: receipt.blockNumber,
+          blockHash: receipt.blockHash,
+          signature: receipt.signature,
+        };
+        receiptsDb.set(receipt.receiptId, updated);
+        return updated;
+      }),
+
+    markReceiptReorged: (receiptId: string) =>
+      Effect.gen(function* () {
+        const receipt = receiptsDb.get(receiptId);
+        if (!receipt) {
+          return yield* Effect.fail(notFound("Receipt", receiptId) as ApiError);
+        }
+        if (receipt.status !== "confirmed") {
+          return yield* Effect.fail(receiptNotConfirmed(receipt));
+        }
+        const updated: Receipt = { ...receipt, status: "reorged" };
+        receiptsDb.set(receiptId, updated);
+        return updated;
+      }),
+
+    revokeCredits: (tokenId: string, amount: number) =>
+      Effect.gen(function* () {
+        const session = sessionsDb.get(tokenId);
+        if (!session) {
+          return yield* Effect.fail(notFound("Session", tokenId) as ApiError);
+        }
+        const updated: SessionToken = {
+          ...session,
+          credits: Math.max(0, session.credits - amount),
+        };
+        sessionsDb.set(tokenId, updated);
+        return updated;
+      }),
+
+    revokeSession: (tokenId: string) =>
+      Effect.gen(function* () {
+        if (!sessionsDb.has(tokenId)) {
+          return yield* Effect.fail(notFound("Session", tokenId) as ApiError);
+        }
+        dropSession(tokenId);
+      }),
+
+    rotateSession: (tokenId: string, newTokenId: string) =>
+      Effect.gen(function* () {
+        const session = sessionsDb.get(tokenId);
+        if (!session) {
+          return yield* Effect.fail(notFound("Session", tokenId) as ApiError);
+        }
+        const rotated: SessionToken = { ...session, tokenId: newTokenId };
+        sessionsDb.set(newTokenId, rotated);
+        for (const entitlement of Array.from(entitlementsDb.values())) {
+          if (entitlement.tokenId === tokenId) {
+            entitlementsDb.set(`${newTokenId}:${entitlement.resourceId}`, { ...entitlement, tokenId: newTokenId });
+          }
+        }
+        repointReceipts(tokenId, newTokenId);
+        dropSession(tokenId);
+        return rotated;
+      }),
+
+    mergeSessions: (targetTokenId: string, sourceTokenId: string) =>
+      Effect.gen(function* () {
+        const target = sessionsDb.get(targetTokenId);
+        const source = sessionsDb.get(sourceTokenId);
+        if (!target || !source) {
+          return yield* Effect.fail(notFound("Session", target ? sourceTokenId : targetTokenId) as ApiError);
+        }
+        const merged: SessionToken = {
+          ...target,
+          credits: target.credits + source.credits,
+          accessCount: target.accessCount + source.accessCount,
+          createdAt: source.createdAt < target.createdAt ? source.createdAt : target.createdAt,
+          expiresAt: source.expiresAt > target.expiresAt ? source.expiresAt : target.expiresAt,
+        };
+        sessionsDb.set(targetTokenId, merged);
+        for (const entitlement of Array.from(entitlementsDb.values())) {
+          if (entitlement.tokenId !== sourceTokenId) continue;
+          const key = `${targetTokenId}:${entitlement.resourceId}`;
+          const existing = entitlementsDb.get(key);
+          if (!existing || existing.expiresAt < entitlement.expiresAt) {
+            entitlementsDb.set(key, { ...entitlement, tokenId: targetTokenId });
+          }
+        }
+        repointReceipts(sourceTokenId, targetTokenId);
+        dropSession(sourceTokenId);
+        return merged;
+      }),
+
+    markUnclaimed: (tokenId: string) =>
+      Effect.sync(() => {
+        unclaimedSessionsDb.add(tokenId);
+      }),
+
+    claimSession: (tokenId: string) => Effect.sync(() => unclaimedSessionsDb.delete(tokenId)),
   })
 );
 
+// Helper to count stored sessions for testing
+export const countMockSessions = (): number => sessionsDb.size;
+
 // ============================================
 // Mock ChallengesStore
 // ============================================
@@ -447,6 +807,9 @@ export const MockChallengesStore = Layer.succeed(
         if (!challenge) {
           return yield* Effect.fail(notFound("Challenge", challengeId) as ApiError);
         }
+        if (challenge.status !== "pending") {
+          return yield* Effect.fail(invalidTransition(challengeId, challenge.status));
+        }
         const updated: PaymentChallenge = { ...challenge, status: "paid" };
         challengesDb.set(challengeId, updated);
         return updated;
@@ -458,6 +821,9 @@ export const MockChallengesStore = Layer.succeed(
         if (!challenge) {
           return yield* Effect.fail(notFound("Challenge", challengeId) as ApiError);
         }
+        if (challenge.status !== "pending") {
+          return yield* Effect.fail(invalidTransition(challengeId, challenge.status));
+        }
         const updated: PaymentChallenge = { ...challenge, status: "expired" };
         challengesDb.set(challengeId, updated);
         return updated;
@@ -465,6 +831,13 @@ export const MockChallengesStore = Layer.succeed(
 
     exists: (challengeId: string) =>
       Effect.succeed(challengesDb.has(challengeId)),
+
+    listPending: (now: string) =>
+      Effect.sync(() =>
+        Array.from(challengesDb.values()).filter(
+          (challenge) => challenge.status === "pending" && challenge.expiresAt > now
+        )
+      ),
   })
 );
 
@@ -513,6 +886,9 @@ export const MockIdGen = Layer.succeed(
 
     generate: (prefix: string) =>
       Effect.sync(() => `${prefix}_${++idCounter}_${Date.now().toString(36)}`),
+
+    secretId: (prefix: string) =>
+      Effect.sync(() => `${prefix}_${crypto.randomUUID().replace(/-/g, "")}`),
   })
 );
 
@@ -567,14 +943,18 @@ export const MockPaymentVerifier = Layer.succeed(
           verifiedAt: new Date().toISOString(),
         };
       }),
+  })
+);
 
-    isTransactionUsed: (transactionRef: string) =>
-      Effect.succeed(usedTransactions.has(transactionRef)),
+// ============================================
+// Mock PaymentSettler
+// ============================================
 
-    markTransactionUsed: (transactionRef: string) =>
-      Effect.sync(() => {
-        usedTransactions.add(transactionRef);
-      }),
+export const MockPaymentSettler = Layer.succeed(
+  PaymentSettler,
+  PaymentSettler.of({
+    // Mock: nothing is sent; the hash stands in for the submitted transaction
+    settle: () => Effect.sync(() => `0x${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}`),
   })
 );
 
@@ -680,6 +1060,93 @@ export const MockAgentStore = Layer.succeed(
   })
 );
 
+// ============================================
+// Mock UserStore
+// ============================================
+
+let userIdCounter = 0;
+
+const issueMockApiKey = (userId: string): string => {
+  const apiKey = `${API_KEY_PREFIX}${crypto.randomUUID().replace(/-/g, "")}`;
+  apiKeysDb.set(hashApiKey(apiKey), userId);
+  return apiKey;
+};
+
+export const MockUserStore = Layer.succeed(
+  UserStore,
+  UserStore.of({
+    createUser: (name: string) =>
+      Effect.sync(() => {
+        const user: User = {
+          userId: `user_${++userIdCounter}_${Date.now().toString(36)}`,
+          name,
+          createdAt: new Date().toISOString(),
+        };
+        usersDb.set(user.userId, user);
+        return { user, apiKey: issueMockApiKey(user.userId) };
+      }),
+
+    getUser: (userId: string) =>
+      Effect.sync(() => usersDb.get(userId)).pipe(
+        Effect.flatMap((user) =>
+          user
+            ? Effect.succeed(user)
+            : Effect.fail(notFound("User", userId) as ApiError)
+        )
+      ),
+
+    createApiKey: (userId: string) =>
+      usersDb.has(userId)
+        ? Effect.sync(() => issueMockApiKey(userId))
+        : Effect.fail(notFound("User", userId) as ApiError),
+
+    getUserByApiKeyHash: (keyHash: string) =>
+      Effect.sync(() => {
+        const userId = apiKeysDb.get(keyHash);
+        return (userId && usersDb.get(userId)) || null;
+      }),
+
+    getOrCreateWalletUser: (walletAddress: string, name: string) =>
+      Effect.sync(() => {
+        const address = walletAddress.toLowerCase();
+        const existing = usersDb.get(walletUsersDb.get(address) ?? "");
+        if (existing) return existing;
+        const user: User = {
+          userId: `user_${++userIdCounter}_${Date.now().toString(36)}`,
+          name,
+          createdAt: new Date().toISOString(),
+          walletAddress: address,
+        };
+        usersDb.set(user.userId, user);
+        walletUsersDb.set(address, user.userId);
+        return user;
+      }),
+  })
+);
+
+// ============================================
+// Mock AuthNonceStore
+// ============================================
+
+export const MockAuthNonceStore = Layer.succeed(
+  AuthNonceStore,
+  AuthNonceStore.of({
+    issueNonce: (expiresAt: string) =>
+      Effect.sync(() => {
+        const nonce = crypto.randomUUID().replace(/-/g, "");
+        authNoncesDb.set(nonce, expiresAt);
+        return nonce;
+      }),
+
+    consumeNonce: (nonce: string, now: string) =>
+      Effect.sync(() => {
+        const expiresAt = authNoncesDb.get(nonce);
+        authNoncesDb.delete(nonce);
+        return expiresAt !== undefined && expiresAt > now;
+      }),
+  })
+);
+
 // ============================================
 // Mock UsageStore
 // ============================================
@@ -687,14 +1154,14 @@ export const MockAgentStore = Layer.succeed(
 export const MockUsageStore = Layer.succeed(
   UsageStore,
   UsageStore.of({
-    getDailySpendCents: (subjectId: string, dayKey: string) =>
-      Effect.succeed(usageDb.get(`${subjectId}:${dayKey}`) ?? 0),
+    getDailySpend: (subjectId: string, dayKey: string) =>
+      Effect.succeed(usageDb.get(`${subjectId}:${dayKey}`) ?? usd(0)),
 
-    addSpendCents: (subjectId: string, dayKey: string, amountCents: number) =>
+    addSpend: (subjectId: string, dayKey: string, amount: Money) =>
       Effect.sync(() => {
         const key = `${subjectId}:${dayKey}`;
-        const current = usageDb.get(key) ?? 0;
-        usageDb.set(key, current + amountCents);
+        const current = usageDb.get(key) ?? zeroOf(amount);
+        usageDb.set(key, addMoney(current, amount));
       }),
 
     resetDailySpend: (subjectId: string, dayKey: string) =>
@@ -704,27 +1171,258 @@ export const MockUsageStore = Layer.succeed(
   })
 );
 
+// ============================================
+// Mock UsedTransactionsStore
+// ============================================
+
+export const MockUsedTransactionsStore = Layer.succeed(
+  UsedTransactionsStore,
+  UsedTransactionsStore.of({
+    isUsed: (transactionRef: string) =>
+      Effect.succeed(usedTransactions.has(transactionRef)),
+
+    claim: (transactionRef: string, _challengeId: string) =>
+      Effect.sync(() => {
+        if (usedTransactions.has(transactionRef)) return false;
+        usedTransactions.add(transactionRef);
+        return true;
+      }),
+  })
+);
+
+// ============================================
+// Mock VerificationJobsStore
+// ============================================
+
+export const MockVerificationJobsStore = Layer.succeed(
+  VerificationJobsStore,
+  VerificationJobsStore.of({
+    save: (job: StoredVerificationJob) =>
+      Effect.sync(() => {
+        verificationJobsDb.set(job.verificationId, job);
+        return job;
+      }),
+
+    get: (verificationId: string) =>
+      Effect.sync(() => verificationJobsDb.get(verificationId)).pipe(
+        Effect.flatMap((job) =>
+          job
+            ? Effect.succeed(job)
+            : Effect.fail(notFound("Verification", verificationId) as ApiError)
+        )
+      ),
+
+    listUnfinished: () =>
+      Effect.sync(() =>
+        Array.from(verificationJobsDb.values())
+          .filter((job) => job.status === "queued" || job.status === "awaiting_confirmations")
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      ),
+  })
+);
+
+// ============================================
+// Mock DepositAddressStore
+// ============================================
+
+export const MockDepositAddressStore = Layer.succeed(
+  DepositAddressStore,
+  DepositAddressStore.of({
+    // Indices are allocated densely from 0, so the count is the next one
+    nextIndex: () => Effect.sync(() => depositAddressesDb.size),
+
+    save: (deposit: DepositAddress) =>
+      Effect.gen(function* () {
+        for (const recorded of depositAddressesDb.values()) {
+          if (
+            recorded.derivationIndex === deposit.derivationIndex ||
+            recorded.address.toLowerCase() === deposit.address.toLowerCase()
+          ) {
+            return yield* Effect.fail(
+              internalError(`Deposit index ${deposit.derivationIndex} is already recorded for ${recorded.challengeId}`)
+            );
+          }
+        }
+        depositAddressesDb.set(deposit.challengeId, deposit);
+        return deposit;
+      }),
+
+    getByChallenge: (challengeId: string) =>
+      Effect.sync(() => depositAddressesDb.get(challengeId) ?? null),
+
+    getByAddress: (address: string) =>
+      Effect.sync(() => {
+        const wanted = address.toLowerCase();
+        for (const deposit of depositAddressesDb.values()) {
+          if (deposit.address.toLowerCase() === wanted) return deposit;
+        }
+        return null;
+      }),
+  })
+);
+
+// ============================================
+// Mock SettlementsStore
+// ============================================
+
+export const MockSettlementsStore = Layer.succeed(
+  SettlementsStore,
+  SettlementsStore.of({
+    get: (authorizationKey: string) =>
+      Effect.sync(() => settlementsDb.get(authorizationKey) ?? null),
+
+    save: (settlement: Settlement) =>
+      Effect.sync(() => {
+        if (settlementsDb.has(settlement.authorizationKey)) return false;
+        settlementsDb.set(settlement.authorizationKey, settlement);
+        return true;
+      }),
+  })
+);
+
+// ============================================
+// Mock BlockCursorStore
+// ============================================
+
+export const MockBlockCursorStore = Layer.succeed(
+  BlockCursorStore,
+  BlockCursorStore.of({
+    get: (name: string) =>
+      Effect.sync(() => blockCursorsDb.get(name) ?? null),
+
+    set: (name: string, blockNumber: number) =>
+      Effect.sync(() => {
+        blockCursorsDb.set(name, blockNumber);
+      }),
+  })
+);
+
+// ============================================
+// Mock UnitOfWork
+// ============================================
+
+/**
+ * Journaled transactions: the journaled stores record how to undo each
+ * write the wrapped effect makes, and if it fails or is interrupted its
+ * writes are undone, newest first. Writes other fibers made meanwhile are
+ * left alone. A nested unit that succeeds hands its journal to the outer one.
+ */
+export const MockUnitOfWork = Layer.succeed(
+  UnitOfWork,
+  UnitOfWork.of({
+    transaction: (effect) =>
+      Effect.flatMap(FiberRef.get(currentJournal), (outer) => {
+        const journal: Array<() => void> = [];
+        return Effect.locally(effect, currentJournal, journal).pipe(
+          Effect.onExit((exit) =>
+            Effect.sync(() => {
+              if (Exit.isFailure(exit)) journal.reverse().forEach((undo) => undo());
+              else outer?.push(...journal);
+            })
+          )
+        );
+      }),
+  })
+);
+
 // ============================================
 // Mock ChainConfig
 // ============================================
 
-const DEFAULT_CHAIN_CONFIG: ChainConfig = {
-  chainId: 9746,
-  chainName: "Plasma Testnet",
-  rpcUrl: process.env["PLASMA_RPC_URL"] ?? "https://testnet-rpc.plasma.to",
-  assetType: "NATIVE",
-  assetSymbol: "XPL",
-  assetDecimals: 18,
-  payeeAddress: process.env["PAYEE_ADDRESS"] ?? "0x85F491cB77b4e83b49dE62D3fd03e6b2622CbE3d",
-  explorerTxBase: process.env["PLASMA_EXPLORER_TX_BASE"] ?? "https://testnet.plasmascan.to/tx/",
-  topupPriceWei: process.env["TOPUP_PRICE_WEI"] ?? "100000000000000", // 0.0001 XPL
-  topupPriceDisplay: process.env["TOPUP_PRICE_XPL"] ?? "0.0001",
+// Known Plasma networks; each can still be overridden per chain from env
+const PLASMA_NETWORKS: Record<number, Pick<ChainConfig, "chainName" | "rpcUrl" | "explorerTxBase">> = {
+  9745: {
+    chainName: "Plasma Mainnet",
+    rpcUrl: "https://rpc.plasma.to",
+    explorerTxBase: "https://plasmascan.to/tx/",
+  },
+  9746: {
+    chainName: "Plasma Testnet",
+    rpcUrl: process.env["PLASMA_RPC_URL"] ?? "https://testnet-rpc.plasma.to",
+    explorerTxBase: process.env["PLASMA_EXPLORER_TX_BASE"] ?? "https://testnet.plasmascan.to/tx/",
+  },
+  31337: {
+    chainName: "Plasma Devnet",
+    rpcUrl: "http://127.0.0.1:8545",
+    explorerTxBase: "",
+  },
+};
+
+/** CHAIN_<id>_<KEY> for one chain, falling back to KEY for all chains */
+const chainEnv = (chainId: number, key: string): string | undefined =>
+  process.env[`CHAIN_${chainId}_${key}`] ?? process.env[key];
+
+/** The token's EIP-712 domain, when both its name and version are configured */
+const transferAuthorizationFromEnv = (chainId: number): ChainConfig["transferAuthorization"] => {
+  const name = chainEnv(chainId, "TOKEN_EIP712_NAME");
+  const version = chainEnv(chainId, "TOKEN_EIP712_VERSION");
+  return name && version ? { name, version } : undefined;
 };
 
+const chainConfigFromEnv = (chainId: number): ChainConfig => {
+  const network = PLASMA_NETWORKS[chainId];
+  return {
+    chainId,
+    chainName: process.env[`CHAIN_${chainId}_NAME`] ?? network?.chainName ?? `Chain ${chainId}`,
+    rpcUrl: process.env[`CHAIN_${chainId}_RPC_URL`] ?? network?.rpcUrl ?? "",
+    assetType: chainEnv(chainId, "ASSET_TYPE") === "ERC20" ? "ERC20" : "NATIVE",
+    assetSymbol: chainEnv(chainId, "ASSET_SYMBOL") ?? "XPL",
+    assetDecimals: Number(chainEnv(chainId, "ASSET_DECIMALS") ?? 18),
+    tokenAddress: chainEnv(chainId, "TOKEN_ADDRESS"),
+    transferAuthorization: transferAuthorizationFromEnv(chainId),
+    minConfirmations: Number(chainEnv(chainId, "MIN_CONFIRMATIONS") ?? 1),
+    payeeAddress: chainEnv(chainId, "PAYEE_ADDRESS") ?? "0x85F491cB77b4e83b49dE62D3fd03e6b2622CbE3d",
+    depositXpub: process.env["DEPOSIT_XPUB"] || undefined,
+    explorerTxBase: process.env[`CHAIN_${chainId}_EXPLORER_TX_BASE`] ?? network?.explorerTxBase ?? "",
+  };
+};
+
+// Every chain payments are accepted on, default (challenge denomination) first
+const CHAIN_REGISTRY: readonly ChainConfig[] = (
+  process.env["ACCEPTED_CHAIN_IDS"] ?? process.env["PLASMA_CHAIN_ID"] ?? "9746"
+)
+  .split(",")
+  .map((id) => chainConfigFromEnv(Number(id.trim())));
+
 export const MockChainConfig = Layer.succeed(
   ChainConfigService,
   ChainConfigService.of({
-    getConfig: () => Effect.succeed(DEFAULT_CHAIN_CONFIG),
+    getConfig: () => Effect.succeed(CHAIN_REGISTRY[0]!),
+
+    listChains: () => Effect.succeed(CHAIN_REGISTRY),
+
+    getChain: (chainId: number) =>
+      Effect.succeed(CHAIN_REGISTRY.find((chain) => chain.chainId === chainId) ?? null),
+  })
+);
+
+// ============================================
+// Mock PriceOracle
+// ============================================
+
+// Built-in rates, adjusted from env (e.g. ASSET_PRICES_CENTS="XPL=25")
+const STATIC_PRICES: Readonly<Record<string, number>> = {
+  ...DEFAULT_CENTS_PER_UNIT,
+  ...parsePriceTable(process.env["ASSET_PRICES_CENTS"] ?? ""),
+};
+
+const priceOverridesDb = new Map<string, number>();
+
+const MOCK_PRICE_SOURCES: readonly PriceSource[] = [
+  { name: "override", rateFor: (symbol) => Effect.succeed(priceOverridesDb.get(symbol) ?? null) },
+  { name: "static", rateFor: (symbol) => Effect.succeed(STATIC_PRICES[symbol] ?? null) },
+];
+
+export const MockPriceOracle = Layer.succeed(
+  PriceOracle,
+  PriceOracle.of({
+    quote: (chain, cents, lockedUntil) => quoteFromSources(MOCK_PRICE_SOURCES, chain, cents, lockedUntil),
+
+    setOverride: (assetSymbol: string, centsPerUnit: number | null) =>
+      Effect.sync(() => {
+        if (centsPerUnit === null) priceOverridesDb.delete(assetSymbol.toUpperCase());
+        else priceOverridesDb.set(assetSymbol.toUpperCase(), centsPerUnit);
+      }),
   })
 );
 
@@ -736,31 +1434,54 @@ export const MockChainConfig = Layer.succeed(
 const mockTransactions = new Map<string, RpcTransaction>();
 const mockReceipts = new Map<string, RpcTransactionReceipt>();
 
-export const MockPlasmaRpc = Layer.succeed(
-  PlasmaRpc,
-  PlasmaRpc.of({
-    getTransaction: (txHash: string) =>
-      Effect.succeed(mockTransactions.get(txHash) ?? null),
-
-    getTransactionReceipt: (txHash: string) =>
-      Effect.succeed(mockReceipts.get(txHash) ?? null),
-
-    getBlock: (_blockNumber: string | "latest") =>
-      Effect.succeed({
-        number: "0x100",
+// The chain head is block 0x100, or the highest block a mock transaction was mined in
+const mockHeadBlock = (): number =>
+  Array.from(mockTransactions.values()).reduce(
+    (head, tx) => (tx.blockNumber === null ? head : Math.max(head, hexToNumber(tx.blockNumber))),
+    0x100
+  );
+
+const mockPlasmaRpc = PlasmaRpc.of({
+  getTransaction: (txHash: string) =>
+    Effect.succeed(mockTransactions.get(txHash) ?? null),
+
+  getTransactionReceipt: (txHash: string) =>
+    Effect.succeed(mockReceipts.get(txHash) ?? null),
+
+  getBlock: (blockNumber: string | "latest") =>
+    Effect.sync(() => {
+      const number = blockNumber === "latest" ? mockHeadBlock() : hexToNumber(blockNumber);
+      return {
+        number: numberToHex(number),
         hash: "0xmockblockhash",
         timestamp: `0x${Math.floor(Date.now() / 1000).toString(16)}`,
         parentHash: "0x0",
         miner: "0x0",
         gasUsed: "0x0",
         gasLimit: "0x1000000",
-      } as RpcBlock),
+        transactions: Array.from(mockTransactions.values())
+          .filter((tx) => tx.blockNumber !== null && hexToNumber(tx.blockNumber) === number)
+          .map((tx) => tx.hash),
+      } as RpcBlock;
+    }),
+
+  getBlockNumber: () =>
+    Effect.sync(() => numberToHex(mockHeadBlock())),
+
+  getChainId: () =>
+    Effect.succeed("0x2612"), // 9746 in hex
+});
 
-    getBlockNumber: () =>
-      Effect.succeed("0x100"),
+export const MockPlasmaRpc = Layer.succeed(PlasmaRpc, mockPlasmaRpc);
 
-    getChainId: () =>
-      Effect.succeed("0x2612"), // 9746 in hex
+/** Every accepted chain shares the one in-memory mock chain */
+export const MockPlasmaRpcRegistry = Layer.succeed(
+  PlasmaRpcRegistry,
+  PlasmaRpcRegistry.of({
+    forChain: (chainId: number) =>
+      CHAIN_REGISTRY.some((chain) => chain.chainId === chainId)
+        ? Effect.succeed(mockPlasmaRpc)
+        : Effect.fail(internalError(`No RPC configured for chain ${chainId}`)),
   })
 );
 
@@ -770,6 +1491,55 @@ export const addMockTransaction = (tx: RpcTransaction, receipt: RpcTransactionRe
   mockReceipts.set(receipt.transactionHash, receipt);
 };
 
+// ============================================
+// Mock ReceiptSigner
+// ============================================
+
+/** Fixed development key: receipts signed with it prove nothing */
+const MOCK_RECEIPT_KEY: ReceiptSigningKey = {
+  keyId: "dev",
+  secretKey: sha256(utf8ToBytes("decagon-dev-receipt-key")),
+};
+
+export const MockReceiptSigner = Layer.succeed(
+  ReceiptSigner,
+  ReceiptSigner.of({
+    sign: (receipt: Receipt) => Effect.sync(() => signReceipt(receipt, MOCK_RECEIPT_KEY)),
+    publicKeys: () => Effect.succeed({ keys: [publicJwkFor(MOCK_RECEIPT_KEY)] }),
+  })
+);
+
+// ============================================
+// Mock SessionTokens
+// ============================================
+
+/** Fixed development secret: tokens signed with it can be forged by anyone */
+const MOCK_SESSION_TOKEN_SECRET = sha256(utf8ToBytes("decagon-dev-session-token-key"));
+
+const invalidSessionToken = (reason: string): UnauthorizedError => ({
+  _tag: "UnauthorizedError",
+  message: `Unauthorized: ${reason}`,
+  timestamp: new Date().toISOString(),
+  reason,
+});
+
+/**
+ * Signs with the development secret
+ */
+export const MockSessionTokens = Layer.succeed(
+  SessionTokens,
+  SessionTokens.of({
+    mint: (tokenId: string) => Effect.sync(() => mintSessionToken(tokenId, MOCK_SESSION_TOKEN_SECRET)),
+    open: (token: string) =>
+      Effect.suspend(() => {
+        const opened = openSessionToken(token, MOCK_SESSION_TOKEN_SECRET);
+        return opened.valid
+          ? Effect.succeed({ tokenId: opened.tokenId, caveats: opened.caveats, budgets: opened.budgets })
+          : Effect.fail(invalidSessionToken(opened.reason));
+      }),
+  })
+);
+
 // ============================================
 // Combined Mock Layer
 // ============================================
@@ -784,11 +1554,24 @@ export const MockCapabilities = Layer.mergeAll(
   MockChallengesStore,
   MockPolicyStore,
   MockAgentStore,
+  MockUserStore,
+  MockAuthNonceStore,
   MockUsageStore,
+  MockUsedTransactionsStore,
+  MockUnitOfWork,
+  MockVerificationJobsStore,
+  MockDepositAddressStore,
+  MockSettlementsStore,
+  MockBlockCursorStore,
   MockClock,
   MockIdGen,
   MockLogger,
   MockPaymentVerifier,
+  MockPaymentSettler,
   MockChainConfig,
-  MockPlasmaRpc
+  MockPlasmaRpc,
+  MockPlasmaRpcRegistry,
+  MockPriceOracle,
+  MockReceiptSigner,
+  MockSessionTokens
 );
@@ -5,11 +5,12 @@
  * No I/O, no effects - just deterministic logic.
  */
 
-import type { SpendPolicy, PolicyViolationError, PolicyCheckResult } from "@decagon/x402";
+import type { SpendPolicy, PolicyViolationError, PolicyCheckResult, Money } from "@decagon/x402";
+import { addMoney, compareMoney, formatMoney, toCents } from "@decagon/x402";
 
 export interface PolicyCheckInput {
-  /** Amount being spent in cents */
-  readonly amountCents: number;
+  /** Amount being spent (USD) */
+  readonly amount: Money;
   
   /** Origin of the request (e.g., "http://localhost:3000") */
   readonly origin?: string;
@@ -17,8 +18,8 @@ export interface PolicyCheckInput {
   /** Path being accessed (e.g., "/article/article-1") */
   readonly path?: string;
   
-  /** Current daily spend in cents (must be looked up before calling) */
-  readonly currentDailySpendCents: number;
+  /** Current daily spend (must be looked up before calling) */
+  readonly currentDailySpend: Money;
   
   /** Subject type ("user" or "agent") */
   readonly subjectType: "user" | "agent";
@@ -70,20 +71,20 @@ export function checkPolicy(
   policy: SpendPolicy,
   input: PolicyCheckInput
 ): PolicyCheckResult {
-  const { amountCents, origin, path, currentDailySpendCents, subjectType, subjectId } = input;
+  const { amount, origin, path, currentDailySpend, subjectType, subjectId } = input;
   const timestamp = new Date().toISOString();
   
   // Check max per action
-  if (amountCents > policy.maxPerActionCents) {
+  if (compareMoney(amount, policy.maxPerAction) > 0) {
     return {
       allowed: false,
       error: {
         _tag: "PolicyViolationError",
-        message: `Amount ${amountCents} cents exceeds max per action limit of ${policy.maxPerActionCents} cents`,
+        message: `Amount ${formatMoney(amount)} exceeds max per action limit of ${formatMoney(policy.maxPerAction)}`,
         timestamp,
         reason: "max_per_action",
-        limit: policy.maxPerActionCents,
-        attempted: amountCents,
+        limit: toCents(policy.maxPerAction),
+        attempted: toCents(amount),
         subjectType,
         subjectId,
       },
@@ -91,17 +92,17 @@ export function checkPolicy(
   }
   
   // Check daily cap
-  const projectedDailySpend = currentDailySpendCents + amountCents;
-  if (projectedDailySpend > policy.dailyCapCents) {
+  const projectedDailySpend = addMoney(currentDailySpend, amount);
+  if (compareMoney(projectedDailySpend, policy.dailyCap) > 0) {
     return {
       allowed: false,
       error: {
         _tag: "PolicyViolationError",
-        message: `Projected daily spend ${projectedDailySpend} cents exceeds daily cap of ${policy.dailyCapCents} cents`,
+        message: `Projected daily spend ${formatMoney(projectedDailySpend)} exceeds daily cap of ${formatMoney(policy.dailyCap)}`,
         timestamp,
         reason: "daily_cap",
-        limit: policy.dailyCapCents,
-        attempted: projectedDailySpend,
+        limit: toCents(policy.dailyCap),
+        attempted: toCents(projectedDailySpend),
         subjectType,
         subjectId,
       },
@@ -149,7 +150,7 @@ export function checkPolicy(
   }
   
   // All checks passed - determine if confirmation is needed
-  const needsConfirm = amountCents > policy.requireConfirmAboveCents;
+  const needsConfirm = compareMoney(amount, policy.requireConfirmAbove) > 0;
   
   return {
     allowed: true,
@@ -160,8 +161,8 @@ export function checkPolicy(
 /**
  * Check if amount qualifies for auto-approval.
  */
-export function canAutoApprove(policy: SpendPolicy, amountCents: number): boolean {
-  return amountCents <= policy.autoApproveUnderCents;
+export function canAutoApprove(policy: SpendPolicy, amount: Money): boolean {
+  return compareMoney(amount, policy.autoApproveUnder) <= 0;
 }
 
 /**
@@ -171,6 +172,15 @@ export function getTodayKey(): string {
   return new Date().toISOString().slice(0, 10); // "YYYY-MM-DD"
 }
 
+/**
+ * Map a challenge resourceId to the request path that policies match against.
+ * Transfers use a "transfer:<recipient>" resourceId; everything else is an article.
+ */
+export function pathForResource(resourceId: string): string {
+  if (resourceId.startsWith("transfer:")) return "/transfer";
+  return `/article/${resourceId}`;
+}
+
 /**
  * Create a subject ID string for usage tracking.
  */
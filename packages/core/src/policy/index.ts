@@ -11,5 +11,6 @@ export {
   canAutoApprove,
   getTodayKey,
   makeSubjectId,
+  pathForResource,
   type PolicyCheckInput,
 } from "./check-policy.js";
@@ -0,0 +1,48 @@
+/**
+ * Asset Prices - Pure Functions
+ * 
+ * Converts cent prices into an asset's smallest unit at a given rate.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+/**
+ * Built-in rates (USD cents per whole unit), the last resort after any
+ * override or feed. The XPL demo rate makes a 50¢ top-up cost 0.0001 XPL.
+ */
+export const DEFAULT_CENTS_PER_UNIT: Readonly<Record<string, number>> = {
+  XPL: 500_000,
+  USDT: 100,
+  USDT0: 100,
+  USDC: 100,
+};
+
+/** Rates are applied with this many decimal places */
+const RATE_PRECISION = 1_000_000n;
+
+/**
+ * Convert cents into the asset's smallest unit at `centsPerUnit`
+ * (e.g. 50¢ at 100¢/unit with 6 decimals → "500000"). Rounds down.
+ */
+export function centsToBaseUnits(cents: number, centsPerUnit: number, decimals: number): string {
+  const rate = BigInt(Math.round(centsPerUnit * Number(RATE_PRECISION)));
+  if (rate <= 0n) {
+    throw new RangeError(`Invalid rate: ${centsPerUnit} cents per unit`);
+  }
+  return ((BigInt(cents) * 10n ** BigInt(decimals) * RATE_PRECISION) / rate).toString();
+}
+
+/**
+ * Parse a rate table such as "XPL=0.25,USDT=100" (cents per unit).
+ * Malformed entries are skipped.
+ */
+export function parsePriceTable(spec: string): Record<string, number> {
+  const table: Record<string, number> = {};
+  for (const entry of spec.split(",")) {
+    const [symbol, rate] = entry.split("=").map((part) => part.trim());
+    const centsPerUnit = Number(rate);
+    if (symbol && Number.isFinite(centsPerUnit) && centsPerUnit > 0) {
+      table[symbol.toUpperCase()] = centsPerUnit;
+    }
+  }
+  return table;
+}
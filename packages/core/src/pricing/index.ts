@@ -0,0 +1,16 @@
+/**
+ * Pricing Module Index
+ * 
+ * Re-exports pure resource and asset pricing functions.
+ */
+
+export {
+  getArticlePricing,
+  creditsOfferedFor,
+} from "./resource-pricing.js";
+
+export {
+  DEFAULT_CENTS_PER_UNIT,
+  centsToBaseUnits,
+  parsePriceTable,
+} from "./asset-prices.js";
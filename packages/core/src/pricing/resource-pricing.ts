@@ -0,0 +1,30 @@
+/**
+ * Resource Pricing - Pure Functions
+ * 
+ * Resolves what a resource costs in credits and in cents.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import type { Article, ResourcePricing } from "@decagon/x402";
+import { CREDITS_PER_UNLOCK, TOPUP_CREDITS, TOPUP_PRICE_CENTS } from "@decagon/x402";
+
+/**
+ * Resolve the pricing an article declares, falling back to the
+ * flat defaults for articles that don't set a credit cost.
+ */
+export function getArticlePricing(article: Article): ResourcePricing {
+  return {
+    creditCost: article.creditCost ?? CREDITS_PER_UNLOCK,
+    priceCents: article.price > 0 ? article.price : TOPUP_PRICE_CENTS,
+  };
+}
+
+/**
+ * Credits a challenge for this resource should grant: the price bought at
+ * the top-up rate (TOPUP_CREDITS per TOPUP_PRICE_CENTS), so paying more
+ * buys more. Always enough to cover at least one unlock.
+ */
+export function creditsOfferedFor(pricing: ResourcePricing): number {
+  const credits = Math.floor((pricing.priceCents * TOPUP_CREDITS) / TOPUP_PRICE_CENTS);
+  return Math.max(credits, pricing.creditCost);
+}
@@ -0,0 +1,20 @@
+/**
+ * Authorization Keys - Pure Functions
+ *
+ * An EIP-3009 authorization can be used once: the token contract records
+ * its (authorizer, nonce) pair. The key names that pair on one token.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import type { TransferAuthorization } from "@decagon/x402";
+
+/**
+ * "chainId:token:from:nonce", lowercase
+ */
+export function authorizationKeyOf(
+  chainId: number,
+  tokenAddress: string,
+  authorization: TransferAuthorization
+): string {
+  return [chainId, tokenAddress, authorization.from, authorization.nonce].join(":").toLowerCase();
+}
@@ -0,0 +1,15 @@
+/**
+ * Settlement Module Index
+ * 
+ * Re-exports pure functions for settling transfer authorizations.
+ */
+
+export {
+  rlpEncode,
+  legacySigningHash,
+  signLegacyTransaction,
+  transactionHashOf,
+  addressOfKey,
+  type LegacyTransaction,
+} from "./raw-transaction.js";
+export { authorizationKeyOf } from "./authorization-key.js";
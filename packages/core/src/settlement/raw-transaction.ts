@@ -0,0 +1,115 @@
+/**
+ * Raw Transactions - Pure Functions
+ *
+ * Builds and signs the legacy (EIP-155) transactions the server sends to
+ * settle transfer authorizations: RLP-encoded, replay-protected by chain id.
+ * No I/O, no effects - just deterministic logic.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils.js";
+
+/**
+ * A legacy transaction; amounts in wei
+ */
+export interface LegacyTransaction {
+  readonly chainId: number;
+  readonly nonce: bigint;
+  readonly gasPrice: bigint;
+  readonly gasLimit: bigint;
+  readonly to: string;
+  readonly value: bigint;
+  /** Hex calldata */
+  readonly data: string;
+}
+
+// ============================================
+// RLP
+// ============================================
+
+type RlpItem = Uint8Array | readonly RlpItem[];
+
+/** An integer as RLP wants it: big-endian, no leading zeros, empty for 0 */
+const integerBytes = (value: bigint | number): Uint8Array => {
+  if (BigInt(value) === 0n) return new Uint8Array();
+  const hex = BigInt(value).toString(16);
+  return hexToBytes(hex.length % 2 === 0 ? hex : `0${hex}`);
+};
+
+const rlpLength = (length: number, offset: number): Uint8Array => {
+  if (length < 56) return new Uint8Array([offset + length]);
+  const bytes = integerBytes(length);
+  return concatBytes(new Uint8Array([offset + 55 + bytes.length]), bytes);
+};
+
+/**
+ * Recursive length prefix encoding of byte strings and lists
+ */
+export function rlpEncode(item: RlpItem): Uint8Array {
+  if (item instanceof Uint8Array) {
+    if (item.length === 1 && item[0]! < 0x80) return item;
+    return concatBytes(rlpLength(item.length, 0x80), item);
+  }
+  const body = concatBytes(...item.map(rlpEncode));
+  return concatBytes(rlpLength(body.length, 0xc0), body);
+}
+
+const hexBytes = (hex: string): Uint8Array => hexToBytes(hex.replace(/^0x/, ""));
+
+/** A 32-byte signature scalar as an RLP integer */
+const scalarBytes = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (start < bytes.length && bytes[start] === 0) start++;
+  return bytes.slice(start);
+};
+
+// ============================================
+// Signing
+// ============================================
+
+const unsignedFields = (tx: LegacyTransaction): Uint8Array[] => [
+  integerBytes(tx.nonce),
+  integerBytes(tx.gasPrice),
+  integerBytes(tx.gasLimit),
+  hexBytes(tx.to),
+  integerBytes(tx.value),
+  hexBytes(tx.data),
+];
+
+/**
+ * The hash an EIP-155 signature covers: the fields plus chainId, 0, 0
+ */
+export function legacySigningHash(tx: LegacyTransaction): Uint8Array {
+  return keccak_256(rlpEncode([...unsignedFields(tx), integerBytes(tx.chainId), new Uint8Array(), new Uint8Array()]));
+}
+
+/**
+ * Sign a transaction; returns the raw hex for `eth_sendRawTransaction`
+ */
+export function signLegacyTransaction(tx: LegacyTransaction, secretKey: Uint8Array): string {
+  const signature = secp256k1.sign(legacySigningHash(tx), secretKey, { prehash: false, format: "recovered" });
+  const v = BigInt(signature[0]!) + BigInt(tx.chainId) * 2n + 35n;
+  return `0x${bytesToHex(
+    rlpEncode([
+      ...unsignedFields(tx),
+      integerBytes(v),
+      scalarBytes(signature.slice(1, 33)),
+      scalarBytes(signature.slice(33, 65)),
+    ])
+  )}`;
+}
+
+/**
+ * Hash of a signed raw transaction, as the chain will name it
+ */
+export function transactionHashOf(rawTransaction: string): string {
+  return `0x${bytesToHex(keccak_256(hexBytes(rawTransaction)))}`;
+}
+
+/**
+ * Lowercase address of a secret key
+ */
+export function addressOfKey(secretKey: Uint8Array): string {
+  return `0x${bytesToHex(keccak_256(secp256k1.getPublicKey(secretKey, false).slice(1)).slice(-20))}`;
+}
@@ -0,0 +1,236 @@
+/**
+ * Asynchronous Verify Workflows
+ *
+ * Flow:
+ * 1. startVerification records a `queued` job, with the verify request and
+ *    the hash of a fresh access token, and returns it immediately. The
+ *    request names the session and agent by id: no bearer token is stored.
+ * 2. runVerification (in the background) runs the regular verify pipeline:
+ *    - PaymentPendingError → `awaiting_confirmations`, wait, try again
+ *    - success → `confirmed` with receipt + session; a session the payment
+ *      opened is claimed by the job in the same unit of work that saves it
+ *    - any other error → `failed` with the error
+ * 3. getVerification reads the job for polling / streaming
+ * 4. After a restart, listUnfinishedVerifications names the jobs to run again.
+ *    A job whose payment was credited before it was saved reads back the
+ *    receipt and session, and takes the claim it had not yet taken.
+ *
+ * The challenge expiry bounds the wait: once it passes, the verify
+ * pipeline fails and the job is marked failed.
+ *
+ * Job ids and access tokens are unguessable. Only the access token, handed
+ * to the caller that started the job, shows the receipt and session token;
+ * anyone else with the id sees its progress. A top-up leaves the caller
+ * with the token it paid with, so its job shows the receipt alone.
+ */
+
+import { Effect, Option } from "effect";
+import type { ApiError, InvalidPaymentError, VerificationJob } from "@decagon/x402";
+import { VERIFICATION_POLL_SECONDS } from "@decagon/x402";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+import {
+  VerificationJobsStore,
+  ReceiptsStore,
+  SessionTokens,
+  AgentStore,
+  UnitOfWork,
+  Clock,
+  IdGen,
+  Logger,
+  type StoredVerificationJob,
+} from "../capabilities/index.js";
+import {
+  verifyQueuedPayment,
+  type VerifyPaymentInput,
+  type VerifyPaymentCapabilities,
+} from "./verify-payment.js";
+
+type AsyncVerifyCapabilities = VerifyPaymentCapabilities | VerificationJobsStore;
+
+export interface StartedVerification {
+  readonly job: VerificationJob;
+  /** Shows the job's receipt and session; returned only here */
+  readonly accessToken: string;
+}
+
+const isTerminal = (job: VerificationJob): boolean =>
+  job.status === "confirmed" || job.status === "failed";
+
+const hashAccessToken = (accessToken: string): string => bytesToHex(sha256(utf8ToBytes(accessToken)));
+
+const sessionAlreadyClaimed = (challengeId: string): InvalidPaymentError => ({
+  _tag: "InvalidPaymentError",
+  message: "Invalid payment: Transaction already used",
+  timestamp: new Date().toISOString(),
+  reason: "Transaction already used",
+  challengeId,
+});
+
+/**
+ * A job as shown to a client: never the stored request or token hash, and
+ * the receipt and a token for the session only to the holder of the
+ * access token
+ */
+const jobView = (
+  job: StoredVerificationJob,
+  authorized: boolean
+): Effect.Effect<VerificationJob, never, SessionTokens> =>
+  Effect.gen(function* () {
+    const { accessTokenHash: _accessTokenHash, request: _request, ...view } = job;
+    if (!authorized) {
+      const { receipt: _receipt, sessionToken: _sessionToken, ...progress } = view;
+      return progress;
+    }
+    const { sessionToken } = view;
+    if (!sessionToken) return view;
+    const tokenId = yield* Effect.flatMap(SessionTokens, (tokens) => tokens.mint(sessionToken.tokenId));
+    return { ...view, sessionToken: { ...sessionToken, tokenId } };
+  });
+
+/**
+ * Record a queued verification job for this payment proof
+ */
+export const startVerification = (
+  input: VerifyPaymentInput
+): Effect.Effect<
+  StartedVerification,
+  ApiError,
+  VerificationJobsStore | SessionTokens | AgentStore | Clock | IdGen
+> =>
+  Effect.gen(function* () {
+    const jobsStore = yield* VerificationJobsStore;
+    const sessionTokens = yield* SessionTokens;
+    const agentStore = yield* AgentStore;
+    const idGen = yield* IdGen;
+    const clock = yield* Clock;
+
+    // Keep ids, not bearer tokens. A token that does not open is treated
+    // like a lost session: the payment opens a new one
+    const session = input.existingSessionTokenId
+      ? yield* Effect.option(sessionTokens.open(input.existingSessionTokenId))
+      : Option.none();
+    const agent = input.agentToken ? yield* agentStore.getAgentByToken(input.agentToken) : undefined;
+
+    const verificationId = yield* idGen.secretId("vrf");
+    const accessToken = yield* idGen.secretId("vat");
+    const now = yield* clock.now();
+
+    const job = yield* jobsStore.save({
+      verificationId,
+      challengeId: input.challengeId,
+      transactionRef: input.txHash || input.transactionRef || "",
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      request: {
+        challengeId: input.challengeId,
+        transactionRef: input.transactionRef,
+        txHash: input.txHash,
+        payerAddress: input.payerAddress,
+        chainId: input.chainId,
+        sessionId: Option.isSome(session) ? session.value.tokenId : undefined,
+        userId: input.userId,
+        agentId: agent?.agentId,
+        origin: input.origin,
+      },
+      accessTokenHash: hashAccessToken(accessToken),
+    });
+    return { job: yield* jobView(job, true), accessToken };
+  });
+
+/**
+ * Drive a queued job to `confirmed` or `failed`, recording each transition
+ */
+export const runVerification = (
+  verificationId: string
+): Effect.Effect<VerificationJob, ApiError, AsyncVerifyCapabilities> =>
+  Effect.gen(function* () {
+    const jobsStore = yield* VerificationJobsStore;
+    const receiptsStore = yield* ReceiptsStore;
+    const unitOfWork = yield* UnitOfWork;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+
+    let job = yield* jobsStore.get(verificationId);
+
+    while (!isTerminal(job)) {
+      const result = yield* Effect.either(verifyQueuedPayment(job.request));
+      const updatedAt = yield* clock.now();
+
+      if (result._tag === "Right") {
+        const { receipt, sessionToken, opensSession } = result.right;
+        const confirmed: StoredVerificationJob = {
+          ...job,
+          status: "confirmed",
+          confirmations: job.requiredConfirmations,
+          receipt,
+          // A top-up's caller already holds a token for the session
+          sessionToken: opensSession ? sessionToken : undefined,
+          updatedAt,
+        };
+        const failed: StoredVerificationJob = {
+          ...job,
+          status: "failed",
+          error: sessionAlreadyClaimed(job.challengeId),
+          updatedAt,
+        };
+        // Taking the claim and saving the job as one unit of work lets a
+        // resumed job tell its own session from one handed out already
+        job = opensSession
+          ? yield* unitOfWork.transaction(
+              Effect.flatMap(receiptsStore.claimSession(sessionToken.tokenId), (claimed) =>
+                jobsStore.save(claimed ? confirmed : failed)
+              )
+            )
+          : yield* jobsStore.save(confirmed);
+      } else if (result.left._tag === "PaymentPendingError") {
+        job = yield* jobsStore.save({
+          ...job,
+          status: "awaiting_confirmations",
+          confirmations: result.left.confirmations,
+          requiredConfirmations: result.left.requiredConfirmations,
+          updatedAt,
+        });
+      } else {
+        job = yield* jobsStore.save({ ...job, status: "failed", error: result.left, updatedAt });
+      }
+
+      yield* logger.info("[verify-async] status", {
+        verificationId,
+        status: job.status,
+        confirmations: job.confirmations,
+      });
+
+      if (!isTerminal(job)) {
+        yield* Effect.sleep(`${VERIFICATION_POLL_SECONDS} seconds`);
+      }
+    }
+
+    return yield* jobView(job, true);
+  });
+
+/**
+ * Get the current state of a verification job, with its receipt and
+ * session if `accessToken` is the job's
+ */
+export const getVerification = (
+  verificationId: string,
+  accessToken?: string
+): Effect.Effect<VerificationJob, ApiError, VerificationJobsStore | SessionTokens> =>
+  Effect.gen(function* () {
+    const job = yield* Effect.flatMap(VerificationJobsStore, (store) => store.get(verificationId));
+    const authorized =
+      accessToken !== undefined && job.accessTokenHash !== "" && hashAccessToken(accessToken) === job.accessTokenHash;
+    return yield* jobView(job, authorized);
+  });
+
+/**
+ * Ids of jobs left queued or awaiting confirmations, e.g. by a restart,
+ * for runVerification to pick up again
+ */
+export const listUnfinishedVerifications = (): Effect.Effect<readonly string[], ApiError, VerificationJobsStore> =>
+  Effect.map(
+    Effect.flatMap(VerificationJobsStore, (store) => store.listUnfinished()),
+    (jobs) => jobs.map((job) => job.verificationId)
+  );
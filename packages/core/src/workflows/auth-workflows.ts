@@ -0,0 +1,171 @@
+/**
+ * Auth Workflows
+ *
+ * Registers users and resolves the user behind an API key. Routes that
+ * act on a user's own data (policy, agents, transfers) require a valid
+ * key; paid routes accept anonymous payers, so a key there is optional,
+ * but one that is sent must be valid.
+ *
+ * Wallet holders can sign in with Ethereum (EIP-4361) instead of
+ * registering: the wallet signs a message carrying a single-use nonce,
+ * and its user, keyed by address, gets a new API key.
+ */
+
+import { Effect } from "effect";
+import type { ApiError, Receipt, UnauthorizedError, User } from "@decagon/x402";
+import { AuthNonceStore, ChainConfigService, Clock, ReceiptsStore, UserStore } from "../capabilities/index.js";
+import {
+  checkSiweMessage,
+  hashApiKey,
+  isApiKey,
+  parseSiweMessage,
+  recoverMessageSigner,
+} from "../auth/index.js";
+
+/** How long a sign-in nonce can be used */
+export const SIWE_NONCE_TTL_MINUTES = 10;
+
+export interface RegisteredUser {
+  readonly user: User;
+  /** Plaintext API key; only ever returned here */
+  readonly apiKey: string;
+}
+
+export interface SiweNonce {
+  readonly nonce: string;
+  readonly issuedAt: string;
+  readonly expiresAt: string;
+}
+
+export interface SiweSignInInput {
+  /** The EIP-4361 message exactly as the wallet signed it */
+  readonly message: string;
+  /** 65-byte hex `personal_sign` signature */
+  readonly signature: string;
+  /** Domain the message must name, e.g. the API's host */
+  readonly domain: string;
+}
+
+const unauthorized = (reason: string): UnauthorizedError => ({
+  _tag: "UnauthorizedError",
+  message: `Unauthorized: ${reason}`,
+  timestamp: new Date().toISOString(),
+  reason,
+});
+
+/**
+ * Create a user and its first API key
+ */
+export const registerUser = (name: string): Effect.Effect<RegisteredUser, ApiError, UserStore> =>
+  Effect.flatMap(UserStore, (store) => store.createUser(name));
+
+/**
+ * Issue another API key for a user
+ */
+export const createUserApiKey = (userId: string): Effect.Effect<string, ApiError, UserStore> =>
+  Effect.flatMap(UserStore, (store) => store.createApiKey(userId));
+
+/**
+ * The user an API key belongs to; fails with UnauthorizedError if the key
+ * is missing or unknown
+ */
+export const authenticateUser = (apiKey: string | undefined): Effect.Effect<User, ApiError, UserStore> =>
+  Effect.gen(function* () {
+    if (!apiKey) {
+      return yield* Effect.fail(unauthorized("API key required"));
+    }
+    if (!isApiKey(apiKey)) {
+      return yield* Effect.fail(unauthorized("Malformed API key"));
+    }
+    const store = yield* UserStore;
+    const user = yield* store.getUserByApiKeyHash(hashApiKey(apiKey));
+    if (!user) {
+      return yield* Effect.fail(unauthorized("Unknown API key"));
+    }
+    return user;
+  });
+
+/**
+ * Like authenticateUser, but no key means an anonymous caller (undefined)
+ */
+export const authenticateOptionalUser = (
+  apiKey: string | undefined
+): Effect.Effect<User | undefined, ApiError, UserStore> =>
+  apiKey ? authenticateUser(apiKey) : Effect.succeed(undefined);
+
+/**
+ * Issue a nonce for a Sign-In with Ethereum message
+ */
+export const issueSiweNonce = (): Effect.Effect<SiweNonce, ApiError, AuthNonceStore | Clock> =>
+  Effect.gen(function* () {
+    const clock = yield* Clock;
+    const nonces = yield* AuthNonceStore;
+    const issuedAt = yield* clock.now();
+    const expiresAt = yield* clock.futureMinutes(SIWE_NONCE_TTL_MINUTES);
+    const nonce = yield* nonces.issueNonce(expiresAt);
+    return { nonce, issuedAt, expiresAt };
+  });
+
+/**
+ * Check a signed SIWE message and use up its nonce, so the same message
+ * is only ever accepted once. The message must name an accepted chain.
+ * The signer is recovered locally; succeeds with its lowercase address.
+ */
+export const verifyWalletSignature = (
+  input: SiweSignInInput
+): Effect.Effect<string, ApiError, AuthNonceStore | Clock | ChainConfigService> =>
+  Effect.gen(function* () {
+    const message = parseSiweMessage(input.message);
+    if (!message) {
+      return yield* Effect.fail(unauthorized("Malformed SIWE message"));
+    }
+
+    const clock = yield* Clock;
+    const now = yield* clock.now();
+    const chains = yield* Effect.flatMap(ChainConfigService, (config) => config.listChains());
+    const problem = checkSiweMessage(message, {
+      domain: input.domain,
+      chainIds: chains.map((chain) => chain.chainId),
+      now,
+    });
+    if (problem) {
+      return yield* Effect.fail(unauthorized(problem));
+    }
+
+    const signer = recoverMessageSigner(input.message, input.signature);
+    if (!signer || signer !== message.address.toLowerCase()) {
+      return yield* Effect.fail(unauthorized("Signature does not match the message address"));
+    }
+
+    const nonces = yield* AuthNonceStore;
+    const fresh = yield* nonces.consumeNonce(message.nonce, now);
+    if (!fresh) {
+      return yield* Effect.fail(unauthorized("Unknown, used or expired nonce"));
+    }
+    return signer;
+  });
+
+/**
+ * Verify a signed SIWE message and sign its wallet's user in, creating the
+ * user on first sign-in
+ */
+export const signInWithEthereum = (
+  input: SiweSignInInput
+): Effect.Effect<RegisteredUser, ApiError, UserStore | AuthNonceStore | Clock | ChainConfigService> =>
+  Effect.gen(function* () {
+    const signer = yield* verifyWalletSignature(input);
+    const users = yield* UserStore;
+    const user = yield* users.getOrCreateWalletUser(signer, `Wallet ${signer.slice(0, 6)}…${signer.slice(-4)}`);
+    const apiKey = yield* users.createApiKey(user.userId);
+    return { user, apiKey };
+  });
+
+/**
+ * Receipts paid from the user's wallet; none for users without one
+ */
+export const listUserReceipts = (user: User): Effect.Effect<readonly Receipt[], ApiError, ReceiptsStore> => {
+  const walletAddress = user.walletAddress;
+  return walletAddress
+    ? Effect.flatMap(ReceiptsStore, (store) => store.listReceiptsByPayer(walletAddress))
+    : Effect.succeed([]);
+};
@@ -0,0 +1,118 @@
+/**
+ * Deposit Address Workflows
+ * 
+ * With a deposit xpub configured, every challenge is paid to its own
+ * address, derived at the next unused index, so a payment is attributed
+ * to its challenge by recipient as well as by its calldata reference.
+ * The index is recorded as the challenge is issued: funds sent to an
+ * address are traceable whether or not its challenge was settled, and the
+ * indexes stay contiguous for wallets that scan the xpub up to a gap limit.
+ * Without an xpub, all challenges share the configured payee address.
+ */
+
+import { Effect } from "effect";
+import type { ApiError, InvalidPaymentError, PaymentChallenge } from "@decagon/x402";
+import {
+  ChallengesStore,
+  DepositAddressStore,
+  ChainConfigService,
+  Clock,
+  Logger,
+  UnitOfWork,
+} from "../capabilities/index.js";
+import { deriveDepositAddress } from "../deposit/index.js";
+
+export type DepositAddressCapabilities =
+  | ChallengesStore
+  | DepositAddressStore
+  | ChainConfigService
+  | Clock
+  | Logger
+  | UnitOfWork;
+
+/**
+ * The challenge paid to `address`. A derived deposit address is an EVM
+ * address, so it is the payee on every accepted chain.
+ */
+const sentTo = (challenge: PaymentChallenge, address: string, derivationIndex: number): PaymentChallenge => ({
+  ...challenge,
+  payTo: address,
+  payeeAddress: address,
+  acceptedChains: challenge.acceptedChains?.map((terms) => ({ ...terms, payeeAddress: address })),
+  depositIndex: derivationIndex,
+});
+
+/**
+ * Save a newly issued challenge. With deposit addresses configured, it is
+ * first sent to the address at the next unused index, and that address is
+ * recorded with the challenge in one unit of work, so no index is handed
+ * out twice.
+ */
+export const saveChallengeWithDepositAddress = (
+  challenge: PaymentChallenge
+): Effect.Effect<PaymentChallenge, ApiError, DepositAddressCapabilities> =>
+  Effect.gen(function* () {
+    const chainConfig = yield* ChainConfigService;
+    const challengesStore = yield* ChallengesStore;
+    const config = yield* chainConfig.getConfig();
+    const xpub = config.depositXpub;
+    if (!xpub) return yield* challengesStore.save(challenge);
+
+    const depositStore = yield* DepositAddressStore;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+    const unitOfWork = yield* UnitOfWork;
+
+    const createdAt = yield* clock.now();
+    const deposit = yield* unitOfWork.transaction(
+      Effect.gen(function* () {
+        const derivationIndex = yield* depositStore.nextIndex();
+        const address = yield* Effect.try({
+          try: () => deriveDepositAddress(xpub, derivationIndex),
+          catch: (error) => ({
+            _tag: "InternalError" as const,
+            message: `Failed to derive deposit address: ${error instanceof Error ? error.message : String(error)}`,
+            timestamp: new Date().toISOString(),
+          }),
+        });
+        // The store may hand back a different id (a signed, stateless challenge)
+        const saved = yield* challengesStore.save(sentTo(challenge, address, derivationIndex));
+        yield* depositStore.save({ challengeId: saved.challengeId, address, derivationIndex, createdAt });
+        return { saved, address, derivationIndex };
+      })
+    );
+
+    yield* logger.info("Deposit address allocated", {
+      challengeId: deposit.saved.challengeId,
+      address: deposit.address,
+      derivationIndex: deposit.derivationIndex,
+    });
+    return deposit.saved;
+  });
+
+/**
+ * Check that a challenge sent to a deposit address is the one recorded at
+ * that address. Does nothing for challenges paid to the shared payee address.
+ */
+export const checkDepositAddress = (
+  challenge: PaymentChallenge
+): Effect.Effect<void, ApiError, DepositAddressStore> =>
+  Effect.gen(function* () {
+    if (challenge.depositIndex === undefined) return;
+
+    const depositStore = yield* DepositAddressStore;
+    const recorded = yield* depositStore.getByAddress(challenge.payTo);
+    if (
+      !recorded ||
+      recorded.challengeId !== challenge.challengeId ||
+      recorded.derivationIndex !== challenge.depositIndex
+    ) {
+      return yield* Effect.fail<InvalidPaymentError>({
+        _tag: "InvalidPaymentError",
+        message: "Invalid payment: Deposit address is not recorded for this challenge",
+        timestamp: new Date().toISOString(),
+        reason: "Deposit address is not recorded for this challenge",
+        challengeId: challenge.challengeId,
+      });
+    }
+  });
@@ -2,23 +2,59 @@
  * Get Article Workflow
  * 
  * HTTP 402 payment flow:
- * - No session token → 402 with PaymentChallenge
+ * - No session token, or one that does not open → 402 with PaymentChallenge
  * - Expired session → 402 with PaymentChallenge
- * - Insufficient credits → 402 with PaymentChallenge  
- * - Valid session with credits → Consume 1 credit, return full content
+ * - Token caveats not met (path, origin, expiry, credit budget) → SessionCaveatError
+ *   or SessionExpiredError, see session-access
+ * - Insufficient credits → 402 InsufficientCreditsError carrying a top-up challenge
+ * - Session already entitled to the article → Return full content, no credits consumed
+ * - Valid session with credits → Consume the article's credit cost, return full content
+ *
+ * Each article declares its own pricing (credit cost + direct-purchase price),
+ * which sets the challenge amount and the credits consumed per unlock.
+ *
+ * Before any challenge is issued the payer's spend policy is enforced;
+ * a violation fails with PolicyViolationError instead of a 402.
  */
 
 import { Effect, pipe } from "effect";
-import type { Article, ArticleResponse, ApiError, PaymentChallenge, PaymentRequiredError, SessionExpiredError } from "@decagon/x402";
-import { CREDITS_PER_UNLOCK, TOPUP_CREDITS, TOPUP_PRICE_CENTS, CHALLENGE_EXPIRY_MINUTES } from "@decagon/x402";
-import { ArticlesStore, ReceiptsStore, ChallengesStore, Clock, IdGen, Logger, ChainConfigService } from "../capabilities/index.js";
+import type { Article, ArticleResponse, ApiError, PaymentChallenge, PaymentRequiredError, SessionExpiredError, InsufficientCreditsError } from "@decagon/x402";
+import { CHALLENGE_EXPIRY_MINUTES, ENTITLEMENT_EXPIRY_HOURS, usd } from "@decagon/x402";
+import { ArticlesStore, ReceiptsStore, ChallengesStore, Clock, IdGen, Logger, PolicyStore, AgentStore, UsageStore, SessionTokens, type SessionAccess } from "../capabilities/index.js";
+import { enforcePaymentPolicy, type PaymentSubject } from "./policy-workflows.js";
+import { pathForResource } from "../policy/index.js";
+import { getArticlePricing, creditsOfferedFor } from "../pricing/index.js";
+import { paymentReferenceFor } from "../binding/index.js";
+import { amountOf } from "../chains/index.js";
+import { saveChallengeWithDepositAddress, type DepositAddressCapabilities } from "./deposit-addresses.js";
+import { quoteAcceptedChains, type PriceQuoteCapabilities } from "./price-quotes.js";
+import { checkSessionAccess, ensureBudget } from "./session-access.js";
 
-export interface GetArticleInput {
+/** Who a challenge is issued to: the policy subject plus an optional wallet binding */
+interface ChallengeSubject extends PaymentSubject {
+  /** Wallet expected to pay; the challenge only accepts transactions from it */
+  readonly payerAddress?: string;
+}
+
+export interface GetArticleInput extends ChallengeSubject {
   readonly articleId: string;
+  /** Bearer token of the session to unlock with */
   readonly sessionTokenId?: string;
 }
 
-type AllCapabilities = ArticlesStore | ReceiptsStore | ChallengesStore | Clock | IdGen | Logger | ChainConfigService;
+type AllCapabilities =
+  | ArticlesStore
+  | ReceiptsStore
+  | ChallengesStore
+  | Clock
+  | IdGen
+  | Logger
+  | PolicyStore
+  | AgentStore
+  | UsageStore
+  | SessionTokens
+  | DepositAddressCapabilities
+  | PriceQuoteCapabilities;
 
 const paymentRequired = (challenge: PaymentChallenge): PaymentRequiredError => ({
   _tag: "PaymentRequiredError",
@@ -27,6 +63,21 @@ const paymentRequired = (challenge: PaymentChallenge): PaymentRequiredError => (
   challenge,
 });
 
+const insufficientCredits = (
+  required: number,
+  available: number,
+  currency: string,
+  challenge: PaymentChallenge
+): InsufficientCreditsError => ({
+  _tag: "InsufficientCreditsError",
+  message: `Insufficient credits: need ${required}, have ${available}`,
+  timestamp: new Date().toISOString(),
+  required,
+  available,
+  currency,
+  challenge,
+});
+
 const sessionExpired = (tokenId: string, expiredAt: string): SessionExpiredError => ({
   _tag: "SessionExpiredError",
   message: "Session has expired",
@@ -47,59 +98,99 @@ export const getArticle = (
 
     // No session token = return 402
     if (!input.sessionTokenId) {
-      return yield* createChallengeAndFail(article);
+      return yield* createChallengeAndFail(article, input);
     }
 
-    return yield* checkSessionAndUnlock(article, input.sessionTokenId);
+    const sessionTokens = yield* SessionTokens;
+    const access = yield* Effect.either(sessionTokens.open(input.sessionTokenId));
+    if (access._tag === "Left") {
+      return yield* createChallengeAndFail(article, input);
+    }
+
+    return yield* checkSessionAndUnlock(article, access.right, input);
   });
 
 /**
- * Create a payment challenge and fail with 402
+ * Issue and persist a payment challenge priced for this article, bound to
+ * a unique calldata reference (and the payer's wallet when known).
+ * Fails with PolicyViolationError instead if the subject may not pay.
  */
-const createChallengeAndFail = (article: Article): Effect.Effect<never, ApiError, AllCapabilities> =>
+const issueChallenge = (
+  article: Article,
+  subject: ChallengeSubject
+): Effect.Effect<PaymentChallenge, ApiError, AllCapabilities> =>
   Effect.gen(function* () {
+    const pricing = getArticlePricing(article);
+
+    yield* enforcePaymentPolicy({
+      amount: usd(pricing.priceCents),
+      origin: subject.origin,
+      path: pathForResource(article.id),
+      userId: subject.agentToken || subject.agentId ? undefined : subject.userId,
+      agentToken: subject.agentToken,
+      agentId: subject.agentId,
+    });
+
     const idGen = yield* IdGen;
     const clock = yield* Clock;
-    const challengesStore = yield* ChallengesStore;
-    const chainConfig = yield* ChainConfigService;
 
     const challengeId = yield* idGen.challengeId();
     const now = yield* clock.now();
     const expiresAt = yield* clock.futureMinutes(CHALLENGE_EXPIRY_MINUTES);
-    const config = yield* chainConfig.getConfig();
+    // Every accepted chain is quoted, locked until the challenge expires;
+    // the default chain fills the top-level fields
+    const acceptedChains = yield* quoteAcceptedChains(pricing.priceCents, expiresAt);
+    const terms = acceptedChains[0]!;
 
     const challenge: PaymentChallenge = {
       challengeId,
       resourceId: article.id,
-      amountRequired: TOPUP_PRICE_CENTS,
+      price: usd(pricing.priceCents),
+      amountRequired: pricing.priceCents,
       currency: "USDT",
-      chain: config.chainName,
+      chain: terms.chain,
       description: `Unlock: ${article.title}`,
-      payTo: config.payeeAddress,
+      payTo: terms.payeeAddress,
       expiresAt,
       createdAt: now,
-      creditsOffered: TOPUP_CREDITS,
+      creditsOffered: creditsOfferedFor(pricing),
       status: "pending",
-      chainId: config.chainId,
-      assetType: config.assetType,
-      assetSymbol: config.assetSymbol,
-      amountWei: config.topupPriceWei,
-      payeeAddress: config.payeeAddress,
-      explorerTxBase: config.explorerTxBase,
+      chainId: terms.chainId,
+      assetType: terms.assetType,
+      assetSymbol: terms.assetSymbol,
+      amount: amountOf(terms),
+      amountWei: terms.amountWei,
+      payeeAddress: terms.payeeAddress,
+      explorerTxBase: terms.explorerTxBase,
+      acceptedChains,
+      payerAddress: subject.payerAddress,
+      paymentReference: paymentReferenceFor(challengeId),
     };
 
-    yield* challengesStore.save(challenge);
-    return yield* Effect.fail(paymentRequired(challenge));
+    return yield* saveChallengeWithDepositAddress(challenge);
   });
 
+/**
+ * Create a payment challenge and fail with 402
+ */
+const createChallengeAndFail = (
+  article: Article,
+  subject: ChallengeSubject
+): Effect.Effect<never, ApiError, AllCapabilities> =>
+  Effect.flatMap(issueChallenge(article, subject), (challenge) =>
+    Effect.fail(paymentRequired(challenge))
+  );
+
 /**
  * Check session validity and unlock content if authorized
  */
 const checkSessionAndUnlock = (
   article: Article, 
-  tokenId: string
+  access: SessionAccess,
+  subject: ChallengeSubject
 ): Effect.Effect<ArticleResponse, ApiError, AllCapabilities> =>
   Effect.gen(function* () {
+    const { tokenId } = access;
     const receiptsStore = yield* ReceiptsStore;
     const clock = yield* Clock;
     const logger = yield* Logger;
@@ -109,7 +200,7 @@ const checkSessionAndUnlock = (
     
     if (sessionResult._tag === "Left") {
       // Session not found, create challenge
-      return yield* createChallengeAndFail(article);
+      return yield* createChallengeAndFail(article, subject);
     }
     
     const session = sessionResult.right;
@@ -119,19 +210,55 @@ const checkSessionAndUnlock = (
       return yield* Effect.fail(sessionExpired(tokenId, session.expiresAt));
     }
 
-    if (session.credits < CREDITS_PER_UNLOCK) {
-      // Not enough credits - create new challenge
-      return yield* createChallengeAndFail(article);
+    yield* checkSessionAccess(access, { path: pathForResource(article.id), origin: subject.origin });
+
+    // Already unlocked by this session → serve without charging again
+    const entitlement = yield* receiptsStore.getEntitlement(tokenId, article.id);
+    if (entitlement) {
+      const entitlementExpired = yield* clock.isPast(entitlement.expiresAt);
+      if (!entitlementExpired) {
+        yield* logger.info("Entitled re-read, no credits consumed", { tokenId, articleId: article.id });
+        return {
+          article,
+          hasFullAccess: true,
+          content: `${article.preview}\n\n---\n\n${article.premiumContent}`,
+          entitledUntil: entitlement.expiresAt,
+        };
+      }
+    }
+
+    const { creditCost } = getArticlePricing(article);
+
+    // Paying cannot raise a token's budget, so this is not a 402
+    yield* ensureBudget(access, creditCost);
+
+    if (session.credits < creditCost) {
+      // Not enough credits - report the shortfall with a top-up challenge
+      const challenge = yield* issueChallenge(article, subject);
+      return yield* Effect.fail(
+        insufficientCredits(creditCost, session.credits, session.currency, challenge)
+      );
     }
 
     // Consume credits and return full content
-    yield* receiptsStore.consumeCredits(tokenId, CREDITS_PER_UNLOCK);
-    yield* logger.info("Credits consumed", { tokenId, credits: CREDITS_PER_UNLOCK });
+    yield* receiptsStore.consumeCredits(tokenId, creditCost, access.budgets);
+    yield* logger.info("Credits consumed", { tokenId, credits: creditCost });
+
+    const grantedAt = yield* clock.now();
+    const entitledUntil = yield* clock.futureHours(ENTITLEMENT_EXPIRY_HOURS);
+    yield* receiptsStore.grantEntitlement({
+      tokenId,
+      resourceId: article.id,
+      creditsSpent: creditCost,
+      grantedAt,
+      expiresAt: entitledUntil,
+    });
 
     return {
       article,
       hasFullAccess: true,
       content: `${article.preview}\n\n---\n\n${article.premiumContent}`,
+      entitledUntil,
     };
   });
 
@@ -13,8 +13,11 @@ export {
 export { 
   verifyPaymentAndIssueSession,
   getBalance,
+  getEntitlements,
+  getReceiptSigningKeys,
   type VerifyPaymentInput,
-  type VerifyPaymentOutput 
+  type VerifyPaymentOutput,
+  type VerifyPaymentCapabilities
 } from "./verify-payment.js";
 
 export {
@@ -25,15 +28,95 @@ export {
   listAgents,
   deleteAgent,
   checkPaymentPolicy,
+  enforcePaymentPolicy,
   recordSpend,
   getDailySpend,
   type PolicyCheckRequest,
   type PolicyCheckResponse,
+  type PaymentSubject,
 } from "./policy-workflows.js";
 
+export {
+  registerUser,
+  createUserApiKey,
+  authenticateUser,
+  authenticateOptionalUser,
+  issueSiweNonce,
+  signInWithEthereum,
+  listUserReceipts,
+  SIWE_NONCE_TTL_MINUTES,
+  type RegisteredUser,
+  type SiweNonce,
+  type SiweSignInInput,
+} from "./auth-workflows.js";
+
+export {
+  recoverSessions,
+  type RecoverSessionsInput,
+  type RecoveredSessions,
+} from "./session-recovery.js";
+
+export {
+  inspectSession,
+  revokeSession,
+  rotateSession,
+  mergeSessions,
+  type SessionDetails,
+  type MergeSessionsInput,
+} from "./session-lifecycle.js";
+
+export {
+  authorizeSession,
+  checkSessionAccess,
+  type SessionRequest,
+} from "./session-access.js";
+
 export {
   createTransfer,
   verifyTransfer,
+  listTransfers,
   type CreateTransferInput,
   type TransferChallenge,
 } from "./remittance.js";
+
+export {
+  recheckRecentReceipts,
+  type RecheckReceiptsOutput,
+} from "./reorg-check.js";
+
+export {
+  startVerification,
+  runVerification,
+  getVerification,
+  listUnfinishedVerifications,
+  type StartedVerification,
+} from "./async-verify.js";
+
+export {
+  saveChallengeWithDepositAddress,
+  checkDepositAddress,
+  type DepositAddressCapabilities,
+} from "./deposit-addresses.js";
+
+export {
+  findAuthorizedChallenge,
+  settleTransferAuthorization,
+  SETTLEMENT_MARGIN_SECONDS,
+  type SettleAuthorizationInput,
+  type SettleAuthorizationCapabilities,
+} from "./settle-authorization.js";
+
+export {
+  quoteAcceptedChains,
+  setPriceOverride,
+  type PriceQuoteCapabilities,
+} from "./price-quotes.js";
+
+export {
+  indexPayments,
+  PAYMENT_INDEXER_CURSOR,
+  type IndexedPayment,
+  type IndexPaymentsOutput,
+  type IndexedChain,
+  type PaymentIndexerCapabilities,
+} from "./payment-indexer.js";
@@ -0,0 +1,240 @@
+/**
+ * Payment Indexer Workflow
+ *
+ * Credits payments that never reach POST /pay/verify (e.g. the tab was
+ * closed right after the wallet sent the transaction):
+ * 1. On each accepted chain, scan blocks after that chain's cursor, up to
+ *    the deepest block that already has the required confirmations
+ * 2. Resolve each transaction's transfers (tx value for native, Transfer
+ *    logs for ERC20)
+ * 3. Match a transfer to a pending challenge by its payee: a dedicated
+ *    deposit address, or the shared payee plus the calldata reference
+ * 4. Credit the match with creditPayment, the verify call's own pipeline
+ *    (idempotent, so a late verify call gets the same receipt, and takes
+ *    the one token for the session)
+ * 5. Advance the chain's cursor after each block so a restart resumes where
+ *    it stopped
+ */
+
+import { Effect } from "effect";
+import type { ApiError, InternalError, PaymentChallenge } from "@decagon/x402";
+import {
+  BlockCursorStore,
+  ChallengesStore,
+  ChainConfigService,
+  Clock,
+  Logger,
+  PlasmaRpc,
+  PlasmaRpcRegistry,
+  hexToBigInt,
+  hexToNumber,
+  numberToHex,
+  decodeErc20Transfers,
+  type ChainConfig,
+  type RpcError,
+  type RpcTransaction,
+} from "../capabilities/index.js";
+import { carriesReference } from "../binding/index.js";
+import { challengeForChain } from "../chains/index.js";
+import { creditPayment, type VerifyPaymentCapabilities } from "./verify-payment.js";
+
+/** Cursor name prefix for the payment indexer in BlockCursorStore (one cursor per chain) */
+export const PAYMENT_INDEXER_CURSOR = "payment-indexer";
+
+const cursorName = (chainId: number): string => `${PAYMENT_INDEXER_CURSOR}:${chainId}`;
+
+/** Upper bound on blocks scanned in one pass, so a long outage catches up gradually */
+const MAX_BLOCKS_PER_PASS = 50;
+
+export interface IndexedPayment {
+  readonly challengeId: string;
+  readonly txHash: string;
+  readonly receiptId: string;
+}
+
+export interface IndexedChain {
+  readonly chainId: number;
+  /** Blocks scanned on this pass (inclusive); empty when there was nothing new */
+  readonly fromBlock: number;
+  readonly toBlock: number;
+}
+
+export interface IndexPaymentsOutput {
+  readonly chains: readonly IndexedChain[];
+  readonly credited: readonly IndexedPayment[];
+}
+
+export type PaymentIndexerCapabilities =
+  | VerifyPaymentCapabilities
+  | BlockCursorStore
+  | ChainConfigService
+  | PlasmaRpcRegistry;
+
+const rpcFailure = (error: RpcError): InternalError => ({
+  _tag: "InternalError",
+  message: `RPC error: ${error.message}`,
+  timestamp: new Date().toISOString(),
+});
+
+/**
+ * Addresses (lowercase) this transaction moved the configured asset to
+ */
+const transferRecipients = (
+  rpc: PlasmaRpc,
+  tx: RpcTransaction,
+  config: ChainConfig
+): Effect.Effect<string[], ApiError> =>
+  Effect.gen(function* () {
+    if (config.assetType === "NATIVE") {
+      return tx.to && hexToBigInt(tx.value) > 0n ? [tx.to.toLowerCase()] : [];
+    }
+
+    const token = config.tokenAddress;
+    if (!token || tx.to?.toLowerCase() !== token.toLowerCase()) return [];
+
+    const receipt = yield* rpc.getTransactionReceipt(tx.hash).pipe(Effect.mapError(rpcFailure));
+    if (!receipt || receipt.status !== "0x1") return [];
+    return decodeErc20Transfers(receipt.logs, token).map((t) => t.to);
+  });
+
+/**
+ * A challenge paid to the shared payee is only identified by its calldata
+ * reference; one with its own deposit address is identified by the address.
+ */
+const paysChallenge = (
+  challenge: PaymentChallenge,
+  tx: RpcTransaction,
+  recipients: readonly string[],
+  sharedPayee: string
+): boolean => {
+  const payee = challenge.payeeAddress.toLowerCase();
+  if (!recipients.includes(payee)) return false;
+  if (challenge.paymentReference) return carriesReference(tx.input, challenge.paymentReference);
+  return payee !== sharedPayee.toLowerCase();
+};
+
+/**
+ * Scan new blocks on every accepted chain for payments to pending challenges
+ * and credit them
+ */
+export const indexPayments = (
+  maxBlocks: number = MAX_BLOCKS_PER_PASS
+): Effect.Effect<IndexPaymentsOutput, ApiError, PaymentIndexerCapabilities> =>
+  Effect.gen(function* () {
+    const chainConfig = yield* ChainConfigService;
+    const rpcRegistry = yield* PlasmaRpcRegistry;
+
+    const chains: IndexedChain[] = [];
+    const credited: IndexedPayment[] = [];
+    for (const config of yield* chainConfig.listChains()) {
+      const rpc = yield* rpcRegistry.forChain(config.chainId);
+      const result = yield* indexChain(rpc, config, maxBlocks);
+      chains.push(result.chain);
+      credited.push(...result.credited);
+    }
+
+    return { chains, credited };
+  });
+
+/**
+ * Scan one chain from its cursor, crediting payments made on that chain
+ */
+const indexChain = (
+  rpc: PlasmaRpc,
+  config: ChainConfig,
+  maxBlocks: number
+): Effect.Effect<
+  { chain: IndexedChain; credited: IndexedPayment[] },
+  ApiError,
+  VerifyPaymentCapabilities | BlockCursorStore
+> =>
+  Effect.gen(function* () {
+    const cursorStore = yield* BlockCursorStore;
+    const challengesStore = yield* ChallengesStore;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+
+    const chainId = config.chainId;
+    const head = hexToNumber(yield* rpc.getBlockNumber().pipe(Effect.mapError(rpcFailure)));
+    // The head block counts as one confirmation
+    const confirmedHead = head - Math.max(0, config.minConfirmations - 1);
+
+    // First run starts at the tip rather than replaying the chain's history
+    const cursor = yield* cursorStore.get(cursorName(chainId));
+    const fromBlock = cursor === null ? confirmedHead : cursor + 1;
+    const toBlock = Math.min(confirmedHead, fromBlock + maxBlocks - 1);
+
+    const credited: IndexedPayment[] = [];
+    if (fromBlock > toBlock) {
+      return { chain: { chainId, fromBlock, toBlock: fromBlock - 1 }, credited };
+    }
+
+    // Pending challenges as they must be paid on this chain
+    const now = yield* clock.now();
+    let pending = (yield* challengesStore.listPending(now))
+      .map((c) => challengeForChain(c, chainId))
+      .filter((c): c is PaymentChallenge => c !== null);
+
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const block = yield* rpc.getBlock(numberToHex(blockNumber)).pipe(Effect.mapError(rpcFailure));
+      if (!block) {
+        return yield* Effect.fail({
+          _tag: "InternalError" as const,
+          message: `Block ${blockNumber} not found on chain ${chainId}`,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      for (const txHash of block.transactions ?? []) {
+        if (pending.length === 0) break;
+
+        const tx = yield* rpc.getTransaction(txHash).pipe(Effect.mapError(rpcFailure));
+        if (!tx) continue;
+
+        const recipients = yield* transferRecipients(rpc, tx, config);
+        const challenge = pending.find((c) => paysChallenge(c, tx, recipients, config.payeeAddress));
+        if (!challenge) continue;
+
+        const result = yield* Effect.either(
+          creditPayment({
+            challengeId: challenge.challengeId,
+            txHash: tx.hash,
+            payerAddress: tx.from,
+            chainId,
+          })
+        );
+
+        if (result._tag === "Left") {
+          // Not deep enough for the verifier yet: rescan this block next pass
+          if (result.left._tag === "PaymentPendingError") {
+            return { chain: { chainId, fromBlock, toBlock: blockNumber - 1 }, credited };
+          }
+          yield* logger.warn("[indexer] matched payment not credited", {
+            chainId,
+            challengeId: challenge.challengeId,
+            txHash: tx.hash,
+            error: result.left.message,
+          });
+          continue;
+        }
+
+        pending = pending.filter((c) => c.challengeId !== challenge.challengeId);
+        credited.push({
+          challengeId: challenge.challengeId,
+          txHash: tx.hash,
+          receiptId: result.right.receipt.receiptId,
+        });
+        yield* logger.info("[indexer] payment credited", {
+          chainId,
+          challengeId: challenge.challengeId,
+          txHash: tx.hash,
+          blockNumber,
+          sessionTokenId: result.right.sessionToken.tokenId,
+        });
+      }
+
+      yield* cursorStore.set(cursorName(chainId), blockNumber);
+    }
+
+    return { chain: { chainId, fromBlock, toBlock }, credited };
+  });
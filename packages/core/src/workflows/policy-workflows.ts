@@ -5,8 +5,8 @@
  */
 
 import { Effect } from "effect";
-import type { SpendPolicy, Agent, ApiError } from "@decagon/x402";
-import { DEFAULT_SPEND_POLICY } from "@decagon/x402";
+import type { SpendPolicy, Agent, ApiError, Money } from "@decagon/x402";
+import { DEFAULT_SPEND_POLICY, zeroOf } from "@decagon/x402";
 import { PolicyStore, AgentStore, UsageStore } from "../capabilities/index.js";
 import { checkPolicy, getTodayKey, makeSubjectId, type PolicyCheckInput } from "../policy/index.js";
 
@@ -91,9 +91,19 @@ export const deleteAgent = (
 // Policy Enforcement Workflows
 // ============================================
 
+/**
+ * Subject of payers with neither a user nor an agent. They share no spend
+ * history: one daily bucket for all of them would let a few readers lock
+ * out everyone, so only the default policy's per-payment rules apply.
+ */
+const ANONYMOUS_SUBJECT_ID = "anonymous";
+
+const isAnonymous = (subject: { subjectType: "user" | "agent"; subjectId: string }): boolean =>
+  subject.subjectType === "user" && subject.subjectId === ANONYMOUS_SUBJECT_ID;
+
 export interface PolicyCheckRequest {
-  /** Amount being spent in cents */
-  amountCents: number;
+  /** Amount being spent (USD) */
+  amount: Money;
   /** Origin of the request */
   origin?: string;
   /** Path being accessed */
@@ -102,6 +112,8 @@ export interface PolicyCheckRequest {
   userId?: string;
   /** Agent token (if agent request) */
   agentToken?: string;
+  /** Agent already identified by its token (e.g. for a queued verification) */
+  agentId?: string;
 }
 
 export interface PolicyCheckResponse {
@@ -110,7 +122,7 @@ export interface PolicyCheckResponse {
   subjectType: "user" | "agent";
   subjectId: string;
   policy: SpendPolicy;
-  currentDailySpend: number;
+  currentDailySpend: Money;
   error?: ApiError;
 }
 
@@ -131,8 +143,12 @@ export const checkPaymentPolicy = (
     let subjectId: string;
     
     // Determine subject and load policy
-    if (request.agentToken) {
-      const agent = yield* agentStore.getAgentByToken(request.agentToken);
+    const agent = request.agentToken
+      ? yield* agentStore.getAgentByToken(request.agentToken)
+      : request.agentId
+        ? yield* agentStore.getAgentById(request.agentId)
+        : undefined;
+    if (agent) {
       policy = agent.policy;
       subjectType = "agent";
       subjectId = agent.agentId;
@@ -146,20 +162,22 @@ export const checkPaymentPolicy = (
       // No subject - use default policy
       policy = DEFAULT_SPEND_POLICY;
       subjectType = "user";
-      subjectId = "anonymous";
+      subjectId = ANONYMOUS_SUBJECT_ID;
     }
     
     // Get current daily spend
     const dayKey = getTodayKey();
     const subjectKey = makeSubjectId(subjectType, subjectId);
-    const currentDailySpend = yield* usageStore.getDailySpendCents(subjectKey, dayKey);
+    const currentDailySpend = isAnonymous({ subjectType, subjectId })
+      ? zeroOf(request.amount)
+      : yield* usageStore.getDailySpend(subjectKey, dayKey);
     
     // Check policy
     const input: PolicyCheckInput = {
-      amountCents: request.amountCents,
+      amount: request.amount,
       origin: request.origin,
       path: request.path,
-      currentDailySpendCents: currentDailySpend,
+      currentDailySpend,
       subjectType,
       subjectId,
     };
@@ -189,18 +207,48 @@ export const checkPaymentPolicy = (
   });
 
 /**
- * Record spend after a successful payment.
+ * Identifies who is paying on a paid route (article unlock, verify, transfer).
+ * An agent token (or id) takes precedence over a user ID.
+ */
+export interface PaymentSubject {
+  readonly userId?: string;
+  readonly agentToken?: string;
+  /** Agent already identified by its token (e.g. for a queued verification) */
+  readonly agentId?: string;
+  readonly origin?: string;
+}
+
+/**
+ * Run the policy check and fail with the PolicyViolationError if the
+ * payment is not allowed. Used by paid workflows before issuing a
+ * challenge or minting credits.
+ */
+export const enforcePaymentPolicy = (
+  request: PolicyCheckRequest
+): Effect.Effect<PolicyCheckResponse, ApiError, PolicyStore | AgentStore | UsageStore> =>
+  Effect.gen(function* () {
+    const result = yield* checkPaymentPolicy(request);
+    if (!result.allowed && result.error) {
+      return yield* Effect.fail(result.error);
+    }
+    return result;
+  });
+
+/**
+ * Record spend after a successful payment. Anonymous payers have no
+ * spend history, so nothing is recorded for them.
  */
 export const recordSpend = (input: {
   subjectType: "user" | "agent";
   subjectId: string;
-  amountCents: number;
+  amount: Money;
 }): Effect.Effect<void, ApiError, UsageStore> =>
   Effect.gen(function* () {
+    if (isAnonymous(input)) return;
     const usageStore = yield* UsageStore;
     const dayKey = getTodayKey();
     const subjectKey = makeSubjectId(input.subjectType, input.subjectId);
-    yield* usageStore.addSpendCents(subjectKey, dayKey, input.amountCents);
+    yield* usageStore.addSpend(subjectKey, dayKey, input.amount);
   });
 
 /**
@@ -209,10 +257,10 @@ export const recordSpend = (input: {
 export const getDailySpend = (input: {
   subjectType: "user" | "agent";
   subjectId: string;
-}): Effect.Effect<number, ApiError, UsageStore> =>
+}): Effect.Effect<Money, ApiError, UsageStore> =>
   Effect.gen(function* () {
     const usageStore = yield* UsageStore;
     const dayKey = getTodayKey();
     const subjectKey = makeSubjectId(input.subjectType, input.subjectId);
-    return yield* usageStore.getDailySpendCents(subjectKey, dayKey);
+    return yield* usageStore.getDailySpend(subjectKey, dayKey);
   });
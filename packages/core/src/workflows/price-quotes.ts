@@ -0,0 +1,59 @@
+/**
+ * Price Quote Workflows
+ * 
+ * Prices are set in cents; each accepted chain is quoted in its own asset
+ * through the PriceOracle. The quote is locked until the challenge
+ * expires, so the amount a payer was shown is the amount verified even
+ * if the rate moves before they pay.
+ */
+
+import { Effect } from "effect";
+import type { ApiError, ChainPaymentTerms } from "@decagon/x402";
+import { ChainConfigService, Logger, PriceOracle } from "../capabilities/index.js";
+import { paymentTermsFor } from "../chains/index.js";
+
+export type PriceQuoteCapabilities = ChainConfigService | PriceOracle;
+
+/**
+ * Quote `cents` on every accepted chain (default first), locked until `lockedUntil`
+ */
+export const quoteAcceptedChains = (
+  cents: number,
+  lockedUntil: string
+): Effect.Effect<ChainPaymentTerms[], ApiError, PriceQuoteCapabilities> =>
+  Effect.gen(function* () {
+    const chainConfig = yield* ChainConfigService;
+    const oracle = yield* PriceOracle;
+
+    const chains = yield* chainConfig.listChains();
+    const quoted = yield* Effect.forEach(chains, (chain) =>
+      Effect.map(oracle.quote(chain, cents, lockedUntil), (quote) => ({ chain, quote }))
+    );
+    return paymentTermsFor(quoted);
+  });
+
+/**
+ * Pin (or, with null, release) the rate used for an asset's future quotes.
+ * Challenges already issued keep their locked amounts.
+ */
+export const setPriceOverride = (
+  assetSymbol: string,
+  centsPerUnit: number | null
+): Effect.Effect<void, ApiError, PriceOracle | Logger> =>
+  Effect.gen(function* () {
+    if (centsPerUnit !== null && !(Number.isFinite(centsPerUnit) && centsPerUnit > 0)) {
+      return yield* Effect.fail({
+        _tag: "ValidationError" as const,
+        message: "centsPerUnit must be a positive number or null",
+        timestamp: new Date().toISOString(),
+        field: "centsPerUnit",
+        reason: `Invalid rate: ${centsPerUnit}`,
+      });
+    }
+
+    const oracle = yield* PriceOracle;
+    const logger = yield* Logger;
+
+    yield* oracle.setOverride(assetSymbol, centsPerUnit);
+    yield* logger.info("Price override set", { assetSymbol, centsPerUnit });
+  });
@@ -1,19 +1,25 @@
 import { Effect } from "effect";
-import type { ApiError, PaymentChallenge, PaymentRequiredError } from "@decagon/x402";
-import { TOPUP_CREDITS, TOPUP_PRICE_CENTS, CHALLENGE_EXPIRY_MINUTES } from "@decagon/x402";
-import { ChallengesStore, Clock, IdGen, Logger, ChainConfigService } from "../capabilities/index.js";
+import type { ApiError, PaymentChallenge, PaymentRequiredError, Receipt } from "@decagon/x402";
+import { TOPUP_CREDITS, TOPUP_PRICE_CENTS, CHALLENGE_EXPIRY_MINUTES, usd } from "@decagon/x402";
+import { ChallengesStore, ReceiptsStore, Clock, IdGen, Logger } from "../capabilities/index.js";
+import { paymentReferenceFor } from "../binding/index.js";
+import { amountOf } from "../chains/index.js";
+import { saveChallengeWithDepositAddress, type DepositAddressCapabilities } from "./deposit-addresses.js";
+import { quoteAcceptedChains, type PriceQuoteCapabilities } from "./price-quotes.js";
 import {
   verifyPaymentAndIssueSession,
   type VerifyPaymentInput,
   type VerifyPaymentOutput,
+  type VerifyPaymentCapabilities,
 } from "./verify-payment.js";
-import { ReceiptsStore, PaymentVerifier } from "../capabilities/index.js";
 
 export interface CreateTransferInput {
   readonly senderUserId: string;
   readonly recipientAddress: string;
   readonly amountCents: number;
   readonly note?: string;
+  /** Wallet the sender will pay from; binds the challenge to it when set */
+  readonly senderAddress?: string;
 }
 
 export interface TransferChallenge {
@@ -22,7 +28,16 @@ export interface TransferChallenge {
   readonly note?: string;
 }
 
-type TransferCapabilities = ChallengesStore | Clock | IdGen | Logger | ChainConfigService;
+type TransferCapabilities =
+  | ChallengesStore
+  | Clock
+  | IdGen
+  | Logger
+  | DepositAddressCapabilities
+  | PriceQuoteCapabilities;
+
+/** Resource id prefix of transfer challenges, followed by the recipient */
+const TRANSFER_RESOURCE_PREFIX = "transfer:";
 
 const paymentRequired = (challenge: PaymentChallenge): PaymentRequiredError => ({
   _tag: "PaymentRequiredError",
@@ -37,44 +52,50 @@ export const createTransfer = (
   Effect.gen(function* () {
     const idGen = yield* IdGen;
     const clock = yield* Clock;
-    const challengesStore = yield* ChallengesStore;
-    const chainConfig = yield* ChainConfigService;
     const logger = yield* Logger;
 
     const challengeId = yield* idGen.challengeId();
     const now = yield* clock.now();
     const expiresAt = yield* clock.futureMinutes(CHALLENGE_EXPIRY_MINUTES);
-    const config = yield* chainConfig.getConfig();
+    const amountCents = input.amountCents || TOPUP_PRICE_CENTS;
+    // Every accepted chain is quoted, locked until the challenge expires
+    const acceptedChains = yield* quoteAcceptedChains(amountCents, expiresAt);
+    const terms = acceptedChains[0]!;
 
     const challenge: PaymentChallenge = {
       challengeId,
-      resourceId: `transfer:${input.recipientAddress}`,
-      amountRequired: input.amountCents || TOPUP_PRICE_CENTS,
+      resourceId: `${TRANSFER_RESOURCE_PREFIX}${input.recipientAddress}`,
+      price: usd(amountCents),
+      amountRequired: amountCents,
       currency: "USDT",
-      chain: config.chainName,
+      chain: terms.chain,
       description: input.note ?? "Remittance transfer",
-      payTo: config.payeeAddress,
+      payTo: terms.payeeAddress,
       expiresAt,
       createdAt: now,
       creditsOffered: TOPUP_CREDITS,
       status: "pending",
-      chainId: config.chainId,
-      assetType: config.assetType,
-      assetSymbol: config.assetSymbol,
-      amountWei: config.topupPriceWei,
-      payeeAddress: config.payeeAddress,
-      explorerTxBase: config.explorerTxBase,
+      chainId: terms.chainId,
+      assetType: terms.assetType,
+      assetSymbol: terms.assetSymbol,
+      amount: amountOf(terms),
+      amountWei: terms.amountWei,
+      payeeAddress: terms.payeeAddress,
+      explorerTxBase: terms.explorerTxBase,
+      acceptedChains,
+      payerAddress: input.senderAddress,
+      paymentReference: paymentReferenceFor(challengeId),
     };
 
-    yield* challengesStore.save(challenge);
+    const saved = yield* saveChallengeWithDepositAddress(challenge);
     yield* logger.info("Transfer challenge created", {
-      challengeId,
+      challengeId: saved.challengeId,
       recipient: input.recipientAddress,
       amountCents: input.amountCents,
     });
 
     return {
-      challenge,
+      challenge: saved,
       recipientAddress: input.recipientAddress,
       note: input.note,
     };
@@ -82,8 +103,16 @@ export const createTransfer = (
 
 export const verifyTransfer = (
   input: VerifyPaymentInput
-): Effect.Effect<
-  VerifyPaymentOutput,
-  ApiError,
-  ReceiptsStore | ChallengesStore | Clock | IdGen | Logger | PaymentVerifier
-> => verifyPaymentAndIssueSession(input);
+): Effect.Effect<VerifyPaymentOutput, ApiError, VerifyPaymentCapabilities> =>
+  verifyPaymentAndIssueSession(input);
+
+/**
+ * Transfers the user has paid for, newest first
+ */
+export const listTransfers = (
+  userId: string
+): Effect.Effect<readonly Receipt[], ApiError, ReceiptsStore> =>
+  Effect.map(
+    Effect.flatMap(ReceiptsStore, (store) => store.listReceiptsByUser(userId)),
+    (receipts) => receipts.filter((r) => r.resourceId.startsWith(TRANSFER_RESOURCE_PREFIX))
+  );
@@ -0,0 +1,198 @@
+/**
+ * Reorg Check Workflow
+ *
+ * Background re-check of recently confirmed receipts:
+ * 1. List confirmed receipts with a recorded block hash inside the window
+ * 2. Re-fetch each transaction receipt from the chain it was paid on
+ * 3. Re-mined successfully in another block with enough confirmations →
+ *    record the new block on the receipt and sign it again
+ * 4. Missing or failed → the payment was reorged out: flag the receipt
+ *    `reorged` and revoke the credits it granted, atomically
+ */
+
+import { Effect } from "effect";
+import type { Receipt, ApiError } from "@decagon/x402";
+import { REORG_RECHECK_WINDOW_MINUTES } from "@decagon/x402";
+import {
+  ReceiptsStore,
+  ChainConfigService,
+  Clock,
+  Logger,
+  PlasmaRpcRegistry,
+  ReceiptSigner,
+  UnitOfWork,
+  hexToNumber,
+  type PlasmaRpc,
+  type RpcError,
+} from "../capabilities/index.js";
+
+export interface RecheckReceiptsOutput {
+  readonly checked: number;
+  /** Receipt IDs flagged as reorged on this pass */
+  readonly reorged: readonly string[];
+  /** Receipt IDs moved to the block their transaction was re-mined in */
+  readonly remined: readonly string[];
+}
+
+type RecheckCapabilities =
+  | ReceiptsStore
+  | ChainConfigService
+  | Clock
+  | Logger
+  | PlasmaRpcRegistry
+  | ReceiptSigner
+  | UnitOfWork;
+
+/** Where a receipt's transaction stands on the chain now */
+type Inclusion =
+  | { readonly _tag: "Unchanged" }
+  | { readonly _tag: "Remined"; readonly blockNumber: number; readonly blockHash: string }
+  /** Re-mined, but short of the chain's confirmations; looked at again next pass */
+  | { readonly _tag: "Settling" }
+  | { readonly _tag: "Gone"; readonly blockHash: string | null };
+
+const inclusionOf = (
+  rpc: PlasmaRpc,
+  receipt: Receipt,
+  minConfirmations: number
+): Effect.Effect<Inclusion, RpcError> =>
+  Effect.gen(function* () {
+    const onChain = yield* rpc.getTransactionReceipt(receipt.txHash ?? receipt.transactionRef);
+    if (onChain === null) {
+      return { _tag: "Gone", blockHash: null };
+    }
+    if (onChain.blockHash.toLowerCase() === receipt.blockHash?.toLowerCase()) {
+      return { _tag: "Unchanged" };
+    }
+    if (onChain.status !== "0x1") {
+      return { _tag: "Gone", blockHash: onChain.blockHash };
+    }
+    const head = yield* rpc.getBlockNumber();
+    const confirmations = hexToNumber(head) - hexToNumber(onChain.blockNumber) + 1;
+    if (confirmations < minConfirmations) {
+      return { _tag: "Settling" };
+    }
+    return { _tag: "Remined", blockNumber: hexToNumber(onChain.blockNumber), blockHash: onChain.blockHash };
+  });
+
+/**
+ * Re-check receipts verified in the last `windowMinutes` against the chain
+ */
+export const recheckRecentReceipts = (
+  windowMinutes: number = REORG_RECHECK_WINDOW_MINUTES
+): Effect.Effect<RecheckReceiptsOutput, ApiError, RecheckCapabilities> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+    const rpcRegistry = yield* PlasmaRpcRegistry;
+    const chainConfig = yield* ChainConfigService;
+    // Receipts issued before multi-chain support were paid on the default chain
+    const defaultChain = yield* chainConfig.getConfig();
+
+    const nowMs = yield* clock.nowMs();
+    const since = new Date(nowMs - windowMinutes * 60 * 1000).toISOString();
+    const receipts = yield* receiptsStore.listReceiptsForRecheck(since);
+
+    const reorged: string[] = [];
+    const remined: string[] = [];
+    for (const receipt of receipts) {
+      const chainId = receipt.chainId ?? defaultChain.chainId;
+      const chain = (yield* chainConfig.getChain(chainId)) ?? defaultChain;
+      const inclusion = yield* Effect.either(
+        rpcRegistry
+          .forChain(chainId)
+          .pipe(Effect.flatMap((rpc) => inclusionOf(rpc, receipt, chain.minConfirmations)))
+      );
+
+      // An RPC failure is not evidence of a reorg; try again next pass
+      if (inclusion._tag === "Left") {
+        yield* logger.warn("[reorg] re-check failed", {
+          receiptId: receipt.receiptId,
+          txHash: receipt.txHash ?? receipt.transactionRef,
+          error: inclusion.left.message,
+        });
+        continue;
+      }
+
+      switch (inclusion.right._tag) {
+        case "Remined":
+          yield* moveReceiptToBlock(receipt, inclusion.right.blockNumber, inclusion.right.blockHash);
+          remined.push(receipt.receiptId);
+          break;
+        case "Gone":
+          yield* revokeReorgedReceipt(receipt, inclusion.right.blockHash);
+          reorged.push(receipt.receiptId);
+          break;
+      }
+    }
+
+    return { checked: receipts.length, reorged, remined };
+  });
+
+/**
+ * Record the block a receipt's transaction was re-mined in. The payment
+ * still stands, so its credits stay where they are.
+ */
+const moveReceiptToBlock = (
+  receipt: Receipt,
+  blockNumber: number,
+  blockHash: string
+): Effect.Effect<void, ApiError, ReceiptsStore | ReceiptSigner | Logger> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    const receiptSigner = yield* ReceiptSigner;
+    const logger = yield* Logger;
+
+    // The block is a signed claim, so the receipt is signed again
+    const moved: Receipt = { ...receipt, blockNumber, blockHash };
+    yield* receiptsStore.updateReceiptBlock({ ...moved, signature: yield* receiptSigner.sign(moved) });
+
+    yield* logger.info("[reorg] receipt re-mined", {
+      receiptId: receipt.receiptId,
+      txHash: receipt.txHash,
+      recordedBlockHash: receipt.blockHash,
+      currentBlockHash: blockHash,
+    });
+  });
+
+/**
+ * Flag a receipt as reorged and claw back the credits it granted
+ */
+const revokeReorgedReceipt = (
+  receipt: Receipt,
+  currentBlockHash: string | null
+): Effect.Effect<void, ApiError, ReceiptsStore | Logger | UnitOfWork> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    const logger = yield* Logger;
+    const unitOfWork = yield* UnitOfWork;
+
+    yield* unitOfWork.transaction(
+      Effect.gen(function* () {
+        yield* receiptsStore.markReceiptReorged(receipt.receiptId);
+
+        const sessionTokenId = yield* receiptsStore.getReceiptSession(receipt.receiptId);
+        if (sessionTokenId) {
+          // A session that no longer exists has nothing left to revoke
+          const revoked = yield* Effect.either(
+            receiptsStore.revokeCredits(sessionTokenId, receipt.creditsPurchased)
+          );
+          if (revoked._tag === "Right") {
+            yield* logger.info("[reorg] credits revoked", {
+              sessionTokenId,
+              creditsRevoked: receipt.creditsPurchased,
+              creditsAfter: revoked.right.credits,
+            });
+          }
+        }
+      })
+    );
+
+    yield* logger.warn("[reorg] receipt reorged", {
+      receiptId: receipt.receiptId,
+      txHash: receipt.txHash,
+      recordedBlockHash: receipt.blockHash,
+      currentBlockHash,
+    });
+  });
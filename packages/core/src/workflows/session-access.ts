@@ -0,0 +1,109 @@
+/**
+ * Session Access
+ *
+ * Sessions are addressed by bearer tokens that holders may narrow with
+ * caveats (see session-token in @decagon/x402). These helpers open a token
+ * into the session it names and hold a request to the token's caveats.
+ *
+ * Unlocking a resource is bound by every caveat. Reading a session's own
+ * state (balance, entitlements) is bound only by the token's expiry.
+ */
+
+import { Effect } from "effect";
+import type { ApiError, SessionCaveat, SessionCaveatError, SessionExpiredError } from "@decagon/x402";
+import { checkSessionCaveats } from "@decagon/x402";
+import { Clock, ReceiptsStore, SessionTokens, type SessionAccess } from "../capabilities/index.js";
+
+/** The resource a token is used to unlock */
+export interface SessionRequest {
+  readonly path: string;
+  readonly origin?: string;
+}
+
+const sessionCaveat = (caveat: SessionCaveatError["caveat"], reason: string): SessionCaveatError => ({
+  _tag: "SessionCaveatError",
+  message: `Session token does not allow this: ${reason}`,
+  timestamp: new Date().toISOString(),
+  caveat,
+  reason,
+});
+
+const tokenExpired = (tokenId: string, expiredAt: string): SessionExpiredError => ({
+  _tag: "SessionExpiredError",
+  message: "Session token has expired",
+  timestamp: new Date().toISOString(),
+  tokenId,
+  expiredAt,
+});
+
+const caveatBroken = (tokenId: string, caveat: SessionCaveat): ApiError => {
+  switch (caveat.type) {
+    case "expires":
+      return tokenExpired(tokenId, caveat.at);
+    case "path":
+      return sessionCaveat("path", `limited to paths under ${caveat.prefix}`);
+    case "origin":
+      return sessionCaveat("origin", `limited to requests from ${caveat.origin}`);
+    case "credits":
+      return sessionCaveat("credits", `limited to ${caveat.max} credits`);
+  }
+};
+
+/**
+ * Hold a request to a token's caveats; without a request, to its expiry only
+ */
+export const checkSessionAccess = (
+  access: SessionAccess,
+  request?: SessionRequest
+): Effect.Effect<void, ApiError, Clock> =>
+  Effect.gen(function* () {
+    const clock = yield* Clock;
+    const now = yield* clock.now();
+    const caveats = request ? access.caveats : access.caveats.filter((caveat) => caveat.type === "expires");
+    const broken = checkSessionCaveats(caveats, { now, ...request });
+    if (broken) {
+      return yield* Effect.fail(caveatBroken(access.tokenId, broken));
+    }
+  });
+
+/**
+ * Open a bearer token and hold the request to its caveats
+ */
+export const authorizeSession = (
+  token: string,
+  request?: SessionRequest
+): Effect.Effect<SessionAccess, ApiError, SessionTokens | Clock> =>
+  Effect.gen(function* () {
+    const sessionTokens = yield* SessionTokens;
+    const access = yield* sessionTokens.open(token);
+    yield* checkSessionAccess(access, request);
+    return access;
+  });
+
+/**
+ * Credits a token may still spend under its budgets, or null if it has none
+ */
+export const budgetLeft = (access: SessionAccess): Effect.Effect<number | null, ApiError, ReceiptsStore> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    let left: number | null = null;
+    for (const budget of access.budgets) {
+      const spent = yield* receiptsStore.getBudgetSpent(budget.key);
+      left = Math.min(left ?? Infinity, Math.max(0, budget.limit - spent));
+    }
+    return left;
+  });
+
+/**
+ * Fail with SessionCaveatError if a token's budgets cannot cover `amount`
+ */
+export const ensureBudget = (
+  access: SessionAccess,
+  amount: number
+): Effect.Effect<void, ApiError, ReceiptsStore> =>
+  Effect.gen(function* () {
+    const left = yield* budgetLeft(access);
+    if (left !== null && left < amount) {
+      return yield* Effect.fail(sessionCaveat("credits", `${left} credits left in its budget, need ${amount}`));
+    }
+  });
@@ -0,0 +1,186 @@
+/**
+ * Session Lifecycle Workflows
+ *
+ * What the holder of a session's token can do with the session itself:
+ * - inspect it: credits, access count, expiry, entitlements and the
+ *   receipts that funded it;
+ * - revoke it, e.g. after its token leaked: every token for it stops
+ *   working, and paying with one starts a new session;
+ * - rotate it: the session moves to a new id under a new token, keeping
+ *   its credits, entitlements and receipts; tokens for the old id stop
+ *   working;
+ * - merge another session into it, see below.
+ *
+ * Merge rules: both sessions must be unexpired. The kept session gets both
+ * credit balances and access counts, the earlier creation time and the
+ * later expiry, so no credit expires sooner than it would have (the other
+ * session's credits may live longer). Entitlements to the same resource
+ * keep the later expiry. The other session's receipts point at the kept
+ * one, and the other session is revoked.
+ *
+ * Inspecting works with any token for the session, until the token
+ * expires. Revoking, rotating and merging act on the whole session, so
+ * they need tokens without caveats.
+ */
+
+import { Effect } from "effect";
+import type {
+  ApiError,
+  Entitlement,
+  Receipt,
+  SessionCaveat,
+  SessionExpiredError,
+  SessionToken,
+  UnauthorizedError,
+  ValidationError,
+} from "@decagon/x402";
+import {
+  Clock,
+  IdGen,
+  Logger,
+  ReceiptsStore,
+  SessionTokens,
+  type SessionAccess,
+} from "../capabilities/index.js";
+import { authorizeSession, budgetLeft } from "./session-access.js";
+
+export interface SessionDetails {
+  /** The session, addressed by the token it was inspected with */
+  readonly session: SessionToken;
+  /** Caveats of that token, in the order they were added */
+  readonly caveats: readonly SessionCaveat[];
+  /** Resources the session has unlocked, newest first */
+  readonly entitlements: readonly Entitlement[];
+  /** Receipts that funded the session, newest first */
+  readonly receipts: readonly Receipt[];
+}
+
+export interface MergeSessionsInput {
+  /** Token of the session to keep */
+  readonly sessionToken: string;
+  /** Token of the session to fold into it and revoke */
+  readonly sourceSessionToken: string;
+}
+
+const fullTokenRequired = (action: string): UnauthorizedError => ({
+  _tag: "UnauthorizedError",
+  message: `Unauthorized: ${action} needs a session token without caveats`,
+  timestamp: new Date().toISOString(),
+  reason: `${action} needs a session token without caveats`,
+});
+
+const sessionExpired = (tokenId: string, expiredAt: string): SessionExpiredError => ({
+  _tag: "SessionExpiredError",
+  message: "Session has expired",
+  timestamp: new Date().toISOString(),
+  tokenId,
+  expiredAt,
+});
+
+/**
+ * Open a token that must grant the whole session
+ */
+const authorizeWholeSession = (
+  token: string,
+  action: string
+): Effect.Effect<SessionAccess, ApiError, SessionTokens | Clock> =>
+  Effect.flatMap(authorizeSession(token), (access) =>
+    access.caveats.length > 0 ? Effect.fail(fullTokenRequired(action)) : Effect.succeed(access)
+  );
+
+/**
+ * A session's full state. The credits shown are what the token may still
+ * spend, as for the balance.
+ */
+export const inspectSession = (
+  token: string
+): Effect.Effect<SessionDetails, ApiError, ReceiptsStore | Clock | SessionTokens> =>
+  Effect.gen(function* () {
+    const access = yield* authorizeSession(token);
+    const receiptsStore = yield* ReceiptsStore;
+    const session = yield* receiptsStore.getSession(access.tokenId);
+    const left = yield* budgetLeft(access);
+    return {
+      session: {
+        ...session,
+        tokenId: token,
+        credits: left === null ? session.credits : Math.min(session.credits, left),
+      },
+      caveats: access.caveats,
+      entitlements: yield* receiptsStore.listEntitlements(access.tokenId),
+      receipts: yield* receiptsStore.listReceiptsBySession(access.tokenId),
+    };
+  });
+
+/**
+ * Revoke a session, so no token for it works any more
+ */
+export const revokeSession = (
+  token: string
+): Effect.Effect<void, ApiError, ReceiptsStore | Clock | SessionTokens | Logger> =>
+  Effect.gen(function* () {
+    const { tokenId } = yield* authorizeWholeSession(token, "Revoking a session");
+    const receiptsStore = yield* ReceiptsStore;
+    const logger = yield* Logger;
+    yield* receiptsStore.revokeSession(tokenId);
+    yield* logger.info("[session] revoked", { tokenId });
+  });
+
+/**
+ * Move a session to a new token; the old one stops working
+ */
+export const rotateSession = (
+  token: string
+): Effect.Effect<SessionToken, ApiError, ReceiptsStore | Clock | SessionTokens | IdGen | Logger> =>
+  Effect.gen(function* () {
+    const { tokenId } = yield* authorizeWholeSession(token, "Rotating a session");
+    const receiptsStore = yield* ReceiptsStore;
+    const sessionTokens = yield* SessionTokens;
+    const idGen = yield* IdGen;
+    const logger = yield* Logger;
+
+    const newTokenId = yield* idGen.sessionTokenId();
+    const rotated = yield* receiptsStore.rotateSession(tokenId, newTokenId);
+    yield* logger.info("[session] rotated", { tokenId, newTokenId });
+    return { ...rotated, tokenId: yield* sessionTokens.mint(newTokenId) };
+  });
+
+/**
+ * Fold one session into another, following the merge rules above
+ */
+export const mergeSessions = (
+  input: MergeSessionsInput
+): Effect.Effect<SessionToken, ApiError, ReceiptsStore | Clock | SessionTokens | Logger> =>
+  Effect.gen(function* () {
+    const target = yield* authorizeWholeSession(input.sessionToken, "Merging sessions");
+    const source = yield* authorizeWholeSession(input.sourceSessionToken, "Merging sessions");
+    if (target.tokenId === source.tokenId) {
+      const invalid: ValidationError = {
+        _tag: "ValidationError",
+        message: "Cannot merge a session into itself",
+        timestamp: new Date().toISOString(),
+        field: "sourceSessionToken",
+        reason: "Both tokens are for the same session",
+      };
+      return yield* Effect.fail(invalid);
+    }
+
+    const receiptsStore = yield* ReceiptsStore;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+    for (const { tokenId } of [target, source]) {
+      const session = yield* receiptsStore.getSession(tokenId);
+      if (yield* clock.isPast(session.expiresAt)) {
+        return yield* Effect.fail(sessionExpired(tokenId, session.expiresAt));
+      }
+    }
+
+    const merged = yield* receiptsStore.mergeSessions(target.tokenId, source.tokenId);
+    yield* logger.info("[session] merged", {
+      tokenId: target.tokenId,
+      mergedTokenId: source.tokenId,
+      credits: merged.credits,
+      expiresAt: merged.expiresAt,
+    });
+    return { ...merged, tokenId: input.sessionToken };
+  });
@@ -0,0 +1,121 @@
+/**
+ * Session Recovery Workflow
+ *
+ * Session tokens are bearer strings kept by the client; losing them
+ * strands the credits they hold. Every receipt records the payer's address
+ * and the session it funded, so a wallet that proves who it is (a signed
+ * SIWE message, see auth-workflows) can get its sessions back. Only the
+ * sessions its payments opened come back: topping up a session, perhaps
+ * through a token attenuated to a few credits, does not make it the payer's.
+ *
+ * A session is recovered while it is unexpired and still holds credits or
+ * an unexpired entitlement. With `merge`, the recovered sessions and the
+ * caller's current one are folded, in one unit of work, into the wallet's
+ * session that expires last, so the merged session can itself be recovered
+ * later. Each is merged by the rules of session-lifecycle: credits add up,
+ * the later expiry wins, and the merged-in sessions are revoked.
+ *
+ * Sessions come back with fresh bearer tokens, without caveats.
+ */
+
+import { Effect, Option } from "effect";
+import type { ApiError, SessionToken } from "@decagon/x402";
+import { AuthNonceStore, ChainConfigService, Clock, ReceiptsStore, SessionTokens, UnitOfWork } from "../capabilities/index.js";
+import { verifyWalletSignature, type SiweSignInInput } from "./auth-workflows.js";
+
+export interface RecoverSessionsInput extends SiweSignInInput {
+  /** Fold every recovered session into one */
+  readonly merge?: boolean;
+  /** Bearer token of the session the caller holds now; with `merge`, it is merged into the wallet's */
+  readonly currentSessionTokenId?: string;
+}
+
+export interface RecoveredSessions {
+  /** Lowercase address that signed the request */
+  readonly payerAddress: string;
+  /** Sessions that expire last come first; a single session after a merge */
+  readonly sessions: readonly SessionToken[];
+}
+
+/**
+ * A session worth returning, or null if it is gone, expired or used up
+ */
+const liveSession = (
+  tokenId: string
+): Effect.Effect<SessionToken | null, ApiError, ReceiptsStore | Clock> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    const clock = yield* Clock;
+    const found = yield* Effect.either(receiptsStore.getSession(tokenId));
+    if (found._tag === "Left" || (yield* clock.isPast(found.right.expiresAt))) {
+      return null;
+    }
+    if (found.right.credits > 0) {
+      return found.right;
+    }
+    const now = yield* clock.now();
+    const entitlements = yield* receiptsStore.listEntitlements(tokenId);
+    return entitlements.some((e) => e.expiresAt > now) ? found.right : null;
+  });
+
+/**
+ * Sessions with their bare ids swapped for bearer tokens
+ */
+const withBearerTokens = (
+  sessions: readonly SessionToken[]
+): Effect.Effect<readonly SessionToken[], never, SessionTokens> =>
+  Effect.flatMap(SessionTokens, (sessionTokens) =>
+    Effect.forEach(sessions, (session) =>
+      Effect.map(sessionTokens.mint(session.tokenId), (tokenId) => ({ ...session, tokenId }))
+    )
+  );
+
+/**
+ * Recover the unexpired sessions opened by payments from the wallet that
+ * signed the request, optionally merged into one
+ */
+export const recoverSessions = (
+  input: RecoverSessionsInput
+): Effect.Effect<
+  RecoveredSessions,
+  ApiError,
+  ReceiptsStore | AuthNonceStore | Clock | UnitOfWork | SessionTokens | ChainConfigService
+> =>
+  Effect.gen(function* () {
+    const payerAddress = yield* verifyWalletSignature(input);
+    const receiptsStore = yield* ReceiptsStore;
+    const sessionTokens = yield* SessionTokens;
+
+    // Receipts issued before sessions were recorded on them cannot be traced
+    const tokenIds = yield* receiptsStore.listSessionsOpenedBy(payerAddress);
+
+    const sessions: SessionToken[] = [];
+    for (const tokenId of tokenIds) {
+      const session = yield* liveSession(tokenId);
+      if (session) sessions.push(session);
+    }
+    sessions.sort((a, b) => b.expiresAt.localeCompare(a.expiresAt));
+
+    const [target, ...sources] = sessions;
+    if (!input.merge || !target) {
+      return { payerAddress, sessions: yield* withBearerTokens(sessions) };
+    }
+    // Moving every credit out is more than an attenuated token grants, so
+    // only a token without caveats brings its session along
+    const current = input.currentSessionTokenId
+      ? yield* Effect.option(sessionTokens.open(input.currentSessionTokenId))
+      : Option.none();
+    if (Option.isSome(current) && current.value.caveats.length === 0 && !tokenIds.includes(current.value.tokenId)) {
+      const session = yield* liveSession(current.value.tokenId);
+      if (session) sources.push(session);
+    }
+    if (sources.length === 0) {
+      return { payerAddress, sessions: yield* withBearerTokens(sessions) };
+    }
+
+    const unitOfWork = yield* UnitOfWork;
+    const merged = yield* unitOfWork.transaction(
+      Effect.reduce(sources, target, (_, source) => receiptsStore.mergeSessions(target.tokenId, source.tokenId))
+    );
+    return { payerAddress, sessions: yield* withBearerTokens([merged]) };
+  });
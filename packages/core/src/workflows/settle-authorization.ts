@@ -0,0 +1,221 @@
+/**
+ * Settle Transfer Authorization Workflow
+ *
+ * The x402 "exact" scheme: instead of a transaction hash, the payer sends
+ * an EIP-3009 authorization, which the server submits on chain itself.
+ *
+ * Flow:
+ * 1. Find the challenge: the one an earlier submission of this
+ *    authorization paid, else the one its deposit address was derived for,
+ *    else the one the caller issued for it
+ * 2. A retry reuses the recorded settlement, so nothing is submitted twice
+ * 3. Otherwise, before anything is spent: the challenge is payable, the
+ *    spend policy allows it, and the authorization pays the challenge's
+ *    payee at least the amount owed, is valid now and is signed by its
+ *    `from` (the challenge's bound payer, if any)
+ * 4. Submit it (see PaymentSettler) and record the settlement
+ * 5. Verify the resulting transaction like any other payment, crediting a
+ *    session (see verifyPaymentAndIssueSession)
+ */
+
+import { Effect } from "effect";
+import type { ApiError, InvalidPaymentError, TransferAuthorization } from "@decagon/x402";
+import { recoverAuthorizationSigner } from "@decagon/x402";
+import {
+  ChainConfigService,
+  ChallengesStore,
+  Clock,
+  DepositAddressStore,
+  Logger,
+  PaymentSettler,
+  SettlementsStore,
+} from "../capabilities/index.js";
+import { payerMatches } from "../binding/index.js";
+import { acceptedTermsOf, challengeForChain } from "../chains/index.js";
+import { pathForResource } from "../policy/index.js";
+import { authorizationKeyOf } from "../settlement/index.js";
+import { checkDepositAddress } from "./deposit-addresses.js";
+import { enforcePaymentPolicy, type PaymentSubject } from "./policy-workflows.js";
+import {
+  verifyPaymentAndIssueSession,
+  type VerifyPaymentOutput,
+  type VerifyPaymentCapabilities,
+} from "./verify-payment.js";
+
+/**
+ * Seconds an authorization must stay valid for after it is submitted,
+ * so it is not mined after its `validBefore`
+ */
+export const SETTLEMENT_MARGIN_SECONDS = 60;
+
+export interface SettleAuthorizationInput extends PaymentSubject {
+  /** Challenge the authorization pays (see findAuthorizedChallenge) */
+  readonly challengeId: string;
+  /** Chain of the token the authorization is for */
+  readonly chainId: number;
+  readonly authorization: TransferAuthorization;
+  /** 65-byte hex EIP-712 signature over the authorization */
+  readonly signature: string;
+  /** Bearer token of an existing session to add credits to (optional) */
+  readonly existingSessionTokenId?: string;
+}
+
+export type SettleAuthorizationCapabilities =
+  | VerifyPaymentCapabilities
+  | ChainConfigService
+  | PaymentSettler
+  | SettlementsStore;
+
+const invalidAuthorization = (challengeId: string, reason: string): InvalidPaymentError => ({
+  _tag: "InvalidPaymentError",
+  message: `Invalid payment: ${reason}`,
+  timestamp: new Date().toISOString(),
+  reason,
+  challengeId,
+});
+
+/**
+ * The challenge an authorization already belongs to: the one it settled,
+ * or the one whose deposit address it pays. Null if it names none, and the
+ * caller must issue one.
+ */
+export const findAuthorizedChallenge = (
+  chainId: number,
+  authorization: TransferAuthorization
+): Effect.Effect<string | null, ApiError, ChainConfigService | SettlementsStore | DepositAddressStore> =>
+  Effect.gen(function* () {
+    const chainConfig = yield* ChainConfigService;
+    const settlementsStore = yield* SettlementsStore;
+    const depositStore = yield* DepositAddressStore;
+
+    const chain = yield* chainConfig.getChain(chainId);
+    if (chain?.tokenAddress) {
+      const settled = yield* settlementsStore.get(authorizationKeyOf(chainId, chain.tokenAddress, authorization));
+      if (settled) return settled.challengeId;
+    }
+    const deposit = yield* depositStore.getByAddress(authorization.to);
+    return deposit?.challengeId ?? null;
+  });
+
+/**
+ * Settle an authorization for a challenge and issue or top up a session
+ * with the payment.
+ *
+ * IDEMPOTENT: retrying the same authorization for the same challenge
+ * verifies the transaction recorded the first time; an authorization
+ * settled for one challenge is never accepted for another.
+ */
+export const settleTransferAuthorization = (
+  input: SettleAuthorizationInput
+): Effect.Effect<VerifyPaymentOutput, ApiError, SettleAuthorizationCapabilities> =>
+  Effect.gen(function* () {
+    const challengesStore = yield* ChallengesStore;
+    const settlementsStore = yield* SettlementsStore;
+    const clock = yield* Clock;
+    const logger = yield* Logger;
+    const { challengeId, chainId, authorization } = input;
+
+    const challenge = yield* challengesStore.get(challengeId);
+    const terms = acceptedTermsOf(challenge).find((t) => t.chainId === chainId);
+    if (!terms?.transferAuthorization || !terms.tokenAddress) {
+      return yield* Effect.fail(
+        invalidAuthorization(challengeId, `Chain ${chainId} does not accept transfer authorizations for this challenge`)
+      );
+    }
+    const tokenAddress = terms.tokenAddress;
+    const domain = { ...terms.transferAuthorization, chainId, verifyingContract: tokenAddress };
+    const authorizationKey = authorizationKeyOf(chainId, tokenAddress, authorization);
+
+    // ── Step 2: A retry verifies what was settled ──────────────────
+    const settled = yield* settlementsStore.get(authorizationKey);
+    let txHash = settled?.txHash;
+    if (settled && settled.challengeId !== challengeId) {
+      return yield* Effect.fail(invalidAuthorization(challengeId, "Authorization already used"));
+    }
+
+    if (!txHash) {
+      // ── Step 3: Check everything before gas and funds are spent ────
+      const paidChallenge = challengeForChain(challenge, chainId);
+      if (!paidChallenge) {
+        return yield* Effect.fail(
+          invalidAuthorization(challengeId, `Chain ${chainId} is not accepted for this challenge`)
+        );
+      }
+      if (challenge.status !== "pending") {
+        return yield* Effect.fail(invalidAuthorization(challengeId, `Challenge already ${challenge.status}`));
+      }
+      if (yield* clock.isPast(challenge.expiresAt)) {
+        return yield* Effect.fail(invalidAuthorization(challengeId, "Challenge has expired"));
+      }
+      yield* checkDepositAddress(challenge);
+      yield* enforcePaymentPolicy({
+        amount: challenge.price,
+        origin: input.origin,
+        path: pathForResource(challenge.resourceId),
+        userId: input.agentToken || input.agentId ? undefined : input.userId,
+        agentToken: input.agentToken,
+        agentId: input.agentId,
+      });
+
+      const reason = yield* Effect.map(clock.nowMs(), (nowMs) => {
+        const now = BigInt(Math.floor(nowMs / 1000));
+        const signer = recoverAuthorizationSigner(domain, authorization, input.signature);
+        if (signer === null || signer !== authorization.from.toLowerCase()) {
+          return "Authorization is not signed by its sender";
+        }
+        if (authorization.to.toLowerCase() !== paidChallenge.payeeAddress.toLowerCase()) {
+          return `Wrong recipient: expected ${paidChallenge.payeeAddress}, got ${authorization.to}`;
+        }
+        if (BigInt(authorization.value) < BigInt(paidChallenge.amountWei)) {
+          return `Insufficient amount: expected ${paidChallenge.amountWei}, got ${authorization.value}`;
+        }
+        if (BigInt(authorization.validAfter) >= now) {
+          return "Authorization is not valid yet";
+        }
+        if (BigInt(authorization.validBefore) <= now + BigInt(SETTLEMENT_MARGIN_SECONDS)) {
+          return "Authorization expires too soon to be settled";
+        }
+        if (!payerMatches(challenge.payerAddress, authorization.from)) {
+          return `Wrong payer: expected ${challenge.payerAddress}, got ${authorization.from}`;
+        }
+        return null;
+      });
+      if (reason) {
+        return yield* Effect.fail(invalidAuthorization(challengeId, reason));
+      }
+
+      // ── Step 4: Submit and record ──────────────────────────────────
+      const settler = yield* PaymentSettler;
+      const submitted = yield* settler.settle({
+        chainId,
+        tokenAddress,
+        authorization,
+        signature: input.signature,
+        reference: challenge.paymentReference,
+      });
+      const recorded = yield* settlementsStore.save({
+        authorizationKey,
+        challengeId,
+        chainId,
+        txHash: submitted,
+        settledAt: yield* clock.now(),
+      });
+      // A concurrent submission of the same authorization was recorded first;
+      // the contract rejects whichever of the two is mined second
+      txHash = recorded ? submitted : (yield* settlementsStore.get(authorizationKey))?.txHash ?? submitted;
+      yield* logger.info("[settle] authorization submitted", { challengeId, chainId, txHash });
+    }
+
+    // ── Step 5: Verify like any pushed payment ─────────────────────
+    return yield* verifyPaymentAndIssueSession({
+      challengeId,
+      txHash,
+      payerAddress: authorization.from,
+      chainId,
+      userId: input.userId,
+      agentToken: input.agentToken,
+      agentId: input.agentId,
+      origin: input.origin,
+      existingSessionTokenId: input.existingSessionTokenId,
+    });
+  });
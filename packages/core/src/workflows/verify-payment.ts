@@ -3,17 +3,25 @@
  * 
  * Flow:
  * 1. Idempotency check: if receipt already exists for this txHash, return it
- * 2. Validate challenge exists and is not expired
- * 3. Verify payment proof (via RPC for on-chain, mock fallback)
- * 4. Mark challenge as paid
- * 5. Create receipt with credits purchased (including on-chain fields)
- * 6. Create or update session with credits
- * 7. Return session token
+ *    and its session as they are now, writing nothing
+ * 2. Validate challenge exists and is not expired, and resolve its terms
+ *    on the chain the payer used
+ * 3. Enforce the payer's spend policy (user or agent)
+ * 4. Verify payment proof (via RPC for on-chain, mock fallback); a payment
+ *    still short of the required confirmations fails with PaymentPendingError
+ * 5. Build receipt with credits purchased (including on-chain fields) and
+ *    sign it, so it can be checked offline with `verifyReceipt`
+ * 6. In one unit of work: claim the txRef, mark the challenge paid, save the
+ *    receipt, create or update the session, record spend against the policy
+ * 7. Return a bearer token for the session (see SessionTokens); a caller
+ *    topping up through a token gets that same token back. A replayed
+ *    payment only returns the token its caller presented, or the one token
+ *    for a session the payment indexer credited (see creditPayment).
  */
 
-import { Effect, pipe } from "effect";
-import type { Receipt, SessionToken, ApiError, InvalidPaymentError, VerifyRequest, VerifyResponse } from "@decagon/x402";
-import { TOPUP_CREDITS, SESSION_EXPIRY_HOURS } from "@decagon/x402";
+import { Effect, Option } from "effect";
+import type { Receipt, ReceiptJwks, SessionToken, Entitlement, ApiError, InvalidPaymentError, PaymentPendingError, VerifyRequest, VerifyResponse } from "@decagon/x402";
+import { SESSION_EXPIRY_HOURS, money } from "@decagon/x402";
 import { 
   ReceiptsStore, 
   ChallengesStore,
@@ -21,17 +29,33 @@ import {
   IdGen, 
   Logger, 
   PaymentVerifier,
-  type PaymentProof 
+  ReceiptSigner,
+  PolicyStore,
+  AgentStore,
+  UsageStore,
+  UsedTransactionsStore,
+  UnitOfWork,
+  SessionTokens,
+  DepositAddressStore,
+  type PaymentProof,
+  type VerificationRequest
 } from "../capabilities/index.js";
+import { enforcePaymentPolicy, recordSpend, type PaymentSubject } from "./policy-workflows.js";
+import { pathForResource } from "../policy/index.js";
+import { challengeForChain } from "../chains/index.js";
+import { authorizeSession, budgetLeft } from "./session-access.js";
+import { checkDepositAddress } from "./deposit-addresses.js";
 
-export interface VerifyPaymentInput {
+export interface VerifyPaymentInput extends PaymentSubject {
   readonly challengeId: string;
   /** Legacy transaction reference (for mock payments) */
   readonly transactionRef?: string;
   /** Blockchain transaction hash for on-chain verification */
   readonly txHash?: string;
   readonly payerAddress?: string;
-  /** Existing session token to add credits to (optional) */
+  /** Chain the payment was sent on (defaults to the challenge's default chain) */
+  readonly chainId?: number;
+  /** Bearer token of an existing session to add credits to (optional) */
   readonly existingSessionTokenId?: string;
 }
 
@@ -40,6 +64,28 @@ export interface VerifyPaymentOutput {
   readonly sessionToken: SessionToken;
 }
 
+/** Verification's result on the bare session id */
+interface IssuedSession extends VerifyPaymentOutput {
+  /** The payment had already been credited; nothing was written */
+  readonly replayed: boolean;
+}
+
+export type VerifyPaymentCapabilities =
+  | ReceiptsStore
+  | ChallengesStore
+  | Clock
+  | IdGen
+  | Logger
+  | PaymentVerifier
+  | ReceiptSigner
+  | UsedTransactionsStore
+  | UnitOfWork
+  | PolicyStore
+  | AgentStore
+  | UsageStore
+  | DepositAddressStore
+  | SessionTokens;
+
 const invalidPayment = (challengeId: string, reason: string): InvalidPaymentError => ({
   _tag: "InvalidPaymentError",
   message: `Invalid payment: ${reason}`,
@@ -48,19 +94,139 @@ const invalidPayment = (challengeId: string, reason: string): InvalidPaymentErro
   challengeId,
 });
 
+const paymentPending = (
+  challengeId: string,
+  confirmations: number,
+  requiredConfirmations: number
+): PaymentPendingError => ({
+  _tag: "PaymentPendingError",
+  message: `Payment pending: ${confirmations}/${requiredConfirmations} confirmations`,
+  timestamp: new Date().toISOString(),
+  challengeId,
+  confirmations,
+  requiredConfirmations,
+});
+
+const alreadyUsed = (challengeId: string): InvalidPaymentError =>
+  invalidPayment(challengeId, "Transaction already used");
+
 /**
  * Verify payment and issue/update session with credits.
  * 
  * IDEMPOTENT: calling twice with the same txHash returns the same receipt
- * without minting additional credits.
+ * without minting additional credits. The retry must present the token it
+ * was issued: a replay never hands out a new one, except for the single
+ * claim on a session the payment indexer credited.
  */
 export const verifyPaymentAndIssueSession = (
   input: VerifyPaymentInput
+): Effect.Effect<VerifyPaymentOutput, ApiError, VerifyPaymentCapabilities> =>
+  Effect.gen(function* () {
+    const sessionTokens = yield* SessionTokens;
+    const receiptsStore = yield* ReceiptsStore;
+
+    // A token that does not open, or whose session was revoked, rotated or
+    // merged away, is treated like a session that was lost: the payment
+    // starts a new session rather than reviving the old one
+    const existing = input.existingSessionTokenId
+      ? yield* Effect.option(
+          Effect.flatMap(sessionTokens.open(input.existingSessionTokenId), (access) =>
+            receiptsStore.getSession(access.tokenId)
+          )
+        )
+      : Option.none();
+    const existingSessionTokenId = Option.isSome(existing) ? existing.value.tokenId : undefined;
+
+    const { receipt, sessionToken, replayed } = yield* verifyAndIssue({ ...input, existingSessionTokenId });
+
+    // Topping up through an attenuated token must not widen it, so the
+    // caller keeps the token it paid with
+    if (input.existingSessionTokenId && sessionToken.tokenId === existingSessionTokenId) {
+      return { receipt, sessionToken: { ...sessionToken, tokenId: input.existingSessionTokenId } };
+    }
+    // Anyone can replay a public txHash, so a replay gets no token of its own
+    if (replayed && !(yield* receiptsStore.claimSession(sessionToken.tokenId))) {
+      return yield* Effect.fail(alreadyUsed(input.challengeId));
+    }
+    return { receipt, sessionToken: { ...sessionToken, tokenId: yield* sessionTokens.mint(sessionToken.tokenId) } };
+  });
+
+/**
+ * Credit a payment nobody presented, as the payment indexer does. The
+ * session is issued on its bare id and marked unclaimed: no token exists
+ * for it until the first late verify call for the payment claims one.
+ */
+export const creditPayment = (
+  input: VerifyPaymentInput
+): Effect.Effect<VerifyPaymentOutput, ApiError, Exclude<VerifyPaymentCapabilities, SessionTokens>> =>
+  Effect.map(verifyAndIssue(input, true), ({ receipt, sessionToken }) => ({ receipt, sessionToken }));
+
+/**
+ * Verify a payment for a queued verification job, whose request names the
+ * session and agent by bare id. Like creditPayment, a new session is issued
+ * unclaimed, for the job to take the one claim as it records the outcome.
+ * Run again after the payment was credited (a restart before the job was
+ * saved), it reads back the receipt and the session the payment funded.
+ */
+export const verifyQueuedPayment = (
+  request: VerificationRequest
 ): Effect.Effect<
-  VerifyPaymentOutput,
+  VerifyPaymentOutput & { readonly opensSession: boolean },
   ApiError,
-  ReceiptsStore | ChallengesStore | Clock | IdGen | Logger | PaymentVerifier
+  Exclude<VerifyPaymentCapabilities, SessionTokens>
 > =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+
+    // As with a token, a session that is gone means the payment opens a new one
+    const existing = request.sessionId
+      ? yield* Effect.option(receiptsStore.getSession(request.sessionId))
+      : Option.none();
+    const existingSessionTokenId = Option.isSome(existing) ? existing.value.tokenId : undefined;
+
+    const { receipt, sessionToken } = yield* verifyAndIssue({ ...request, existingSessionTokenId }, true);
+    if (existingSessionTokenId && sessionToken.tokenId !== existingSessionTokenId) {
+      // A replay of a payment that went to another session
+      return yield* Effect.fail(alreadyUsed(request.challengeId));
+    }
+    return { receipt, sessionToken, opensSession: !existingSessionTokenId };
+  });
+
+/**
+ * An already-credited payment, with the session it funded as it is now.
+ * Nothing is written, so a replay can never add or restore credits.
+ */
+const replayPayment = (
+  receipt: Receipt,
+  challengeId: string
+): Effect.Effect<IssuedSession, ApiError, ReceiptsStore | Logger> =>
+  Effect.gen(function* () {
+    const receiptsStore = yield* ReceiptsStore;
+    const logger = yield* Logger;
+    if (receipt.status === "reorged") {
+      return yield* Effect.fail(invalidPayment(challengeId, "Transaction was reorged out of the chain"));
+    }
+    const sessionTokenId = yield* receiptsStore.getReceiptSession(receipt.receiptId);
+    const session = sessionTokenId
+      ? yield* Effect.option(receiptsStore.getSession(sessionTokenId))
+      : Option.none();
+    if (Option.isNone(session)) {
+      return yield* Effect.fail(invalidPayment(challengeId, "Payment was credited to a session that no longer exists"));
+    }
+    yield* logger.info("[verify] idempotency hit, returning existing receipt", {
+      receiptId: receipt.receiptId,
+      challengeId: receipt.challengeId,
+    });
+    return { receipt, sessionToken: session.value, replayed: true };
+  });
+
+/**
+ * Verification itself, on bare session ids
+ */
+const verifyAndIssue = (
+  input: VerifyPaymentInput,
+  unclaimed = false
+): Effect.Effect<IssuedSession, ApiError, Exclude<VerifyPaymentCapabilities, SessionTokens>> =>
   Effect.gen(function* () {
     const receiptsStore = yield* ReceiptsStore;
     const challengesStore = yield* ChallengesStore;
@@ -68,6 +234,9 @@ export const verifyPaymentAndIssueSession = (
     const idGen = yield* IdGen;
     const logger = yield* Logger;
     const paymentVerifier = yield* PaymentVerifier;
+    const receiptSigner = yield* ReceiptSigner;
+    const usedTransactions = yield* UsedTransactionsStore;
+    const unitOfWork = yield* UnitOfWork;
 
     const txRef = input.txHash || input.transactionRef;
     if (!txRef) {
@@ -79,38 +248,11 @@ export const verifyPaymentAndIssueSession = (
     // minting any additional credits.
     const existingReceipt = yield* receiptsStore.getReceiptByTxRef(txRef);
     if (existingReceipt) {
-      yield* logger.info("[verify] idempotency hit, returning existing receipt", {
-        txRef,
-        receiptId: existingReceipt.receiptId,
-        challengeId: existingReceipt.challengeId,
-      });
-      // Try to resolve the caller's session on the server.
-      const sessionTokenId = input.existingSessionTokenId || existingReceipt.receiptId;
-      const sessionResult = yield* Effect.either(
-        receiptsStore.getSession(input.existingSessionTokenId ?? "")
-      );
-
-      let session: SessionToken;
-      if (sessionResult._tag === "Right") {
-        session = sessionResult.right;
-      } else {
-        // Session was lost (server restart, mock mode, etc.).
-        // Re-create it so the caller can actually use the token.
-        session = {
-          tokenId: sessionTokenId,
-          credits: existingReceipt.creditsPurchased,
-          currency: existingReceipt.currency,
-          createdAt: existingReceipt.verifiedAt,
-          expiresAt: existingReceipt.expiresAt,
-          accessCount: 0,
-        };
-        yield* receiptsStore.saveSession(session);
-        yield* logger.info("[verify] idempotency: re-created missing session", {
-          sessionTokenId,
-          credits: session.credits,
-        });
+      // The txRef alone is public, so it must come with the challenge it paid
+      if (existingReceipt.challengeId !== input.challengeId) {
+        return yield* Effect.fail(alreadyUsed(input.challengeId));
       }
-      return { receipt: existingReceipt, sessionToken: session };
+      return yield* replayPayment(existingReceipt, input.challengeId);
     }
 
     // ── Step 2: Validate challenge ─────────────────────────────────
@@ -124,32 +266,16 @@ export const verifyPaymentAndIssueSession = (
         yield* logger.info("[verify] challenge already paid, looking up existing receipt", {
           challengeId: challenge.challengeId, txRef,
         });
-        // The challenge was already fulfilled. Try to find the existing receipt
-        // and return it so the client gets a usable session instead of a dead-end.
+        // The challenge was already fulfilled. If it was by this same txRef
+        // (a concurrent request beat us), this is a replay of that payment.
         const existingByChallenge = yield* Effect.either(
           receiptsStore.getReceiptByChallenge(challenge.challengeId)
         );
         if (existingByChallenge._tag === "Right" && existingByChallenge.right) {
           const rec = existingByChallenge.right;
-          const sessionTokenId = input.existingSessionTokenId || rec.receiptId;
-          const sessionResult = yield* Effect.either(
-            receiptsStore.getSession(sessionTokenId)
-          );
-          let session: SessionToken;
-          if (sessionResult._tag === "Right") {
-            session = sessionResult.right;
-          } else {
-            session = {
-              tokenId: sessionTokenId,
-              credits: rec.creditsPurchased,
-              currency: rec.currency,
-              createdAt: rec.verifiedAt,
-              expiresAt: rec.expiresAt,
-              accessCount: 0,
-            };
-            yield* receiptsStore.saveSession(session);
+          if (rec.transactionRef === txRef || rec.txHash === txRef) {
+            return yield* replayPayment(rec, input.challengeId);
           }
-          return { receipt: rec, sessionToken: session };
         }
         return yield* Effect.fail(invalidPayment(input.challengeId, "Challenge already paid"));
       }
@@ -163,8 +289,30 @@ export const verifyPaymentAndIssueSession = (
       return yield* Effect.fail(invalidPayment(input.challengeId, `Challenge already ${challenge.status}`));
     }
 
+    // The challenge as priced on the chain the payer used
+    const paidChallenge =
+      input.chainId === undefined ? challenge : challengeForChain(challenge, input.chainId);
+    if (!paidChallenge) {
+      return yield* Effect.fail(
+        invalidPayment(input.challengeId, `Chain ${input.chainId} is not accepted for this challenge`)
+      );
+    }
+    yield* checkDepositAddress(challenge);
+
+    // ── Step 2b: Spend policy ──────────────────────────────────────
+    // Reject before anything is minted if the payer is over their limits.
+    const policyCheck = yield* enforcePaymentPolicy({
+      amount: challenge.price,
+      origin: input.origin,
+      path: pathForResource(challenge.resourceId),
+      userId: input.agentToken || input.agentId ? undefined : input.userId,
+      agentToken: input.agentToken,
+      agentId: input.agentId,
+    });
+
     // ── Step 3: Double-spend guard on txRef ────────────────────────
-    const isUsed = yield* paymentVerifier.isTransactionUsed(txRef);
+    // Cheap pre-check to skip the RPC round-trip; the claim below is authoritative.
+    const isUsed = yield* usedTransactions.isUsed(txRef);
     if (isUsed) {
       return yield* Effect.fail(invalidPayment(input.challengeId, "Transaction already used"));
     }
@@ -172,102 +320,154 @@ export const verifyPaymentAndIssueSession = (
     // ── Step 4: Verify on-chain / mock ─────────────────────────────
     yield* logger.info("[verify] start", { challengeId: input.challengeId, txRef });
 
-    const verificationResult = yield* paymentVerifier.verify(challenge, {
+    const verificationResult = yield* paymentVerifier.verify(paidChallenge, {
       transactionRef: txRef,
       txHash: input.txHash,
       payerAddress: input.payerAddress || "",
-      chain: challenge.chain,
+      chain: paidChallenge.chain,
     });
 
+    if (!verificationResult.valid && verificationResult.pending) {
+      yield* logger.info("[verify] pending confirmations", {
+        challengeId: input.challengeId,
+        txRef,
+        confirmations: verificationResult.confirmations,
+        requiredConfirmations: verificationResult.requiredConfirmations,
+      });
+      return yield* Effect.fail(
+        paymentPending(
+          input.challengeId,
+          verificationResult.confirmations ?? 0,
+          verificationResult.requiredConfirmations ?? 1
+        )
+      );
+    }
+
     if (!verificationResult.valid) {
       return yield* Effect.fail(
         invalidPayment(input.challengeId, verificationResult.errorMessage ?? "Verification failed")
       );
     }
 
-    // ── Step 5: Mark paid + used (atomically) ──────────────────────
-    yield* challengesStore.markPaid(challenge.challengeId);
-    yield* paymentVerifier.markTransactionUsed(txRef);
-
-    // ── Step 6: Build receipt + session ─────────────────────────────
+    // ── Step 5: Build receipt + session ─────────────────────────────
     const receiptId = yield* idGen.receiptId();
     const sessionTokenId = input.existingSessionTokenId
       ? input.existingSessionTokenId
       : yield* idGen.sessionTokenId();
     const now = yield* clock.now();
     const sessionExpiry = yield* clock.futureHours(SESSION_EXPIRY_HOURS);
+    const creditsPurchased = challenge.creditsOffered;
 
-    const receipt: Receipt = {
+    const unsignedReceipt: Receipt = {
       receiptId,
       challengeId: challenge.challengeId,
       resourceId: challenge.resourceId,
+      price: challenge.price,
       amountPaid: verificationResult.verifiedAmount,
       currency: challenge.currency,
       transactionRef: txRef,
       verifiedAt: now,
       expiresAt: sessionExpiry,
-      creditsPurchased: TOPUP_CREDITS,
+      creditsPurchased,
       status: "confirmed",
       txHash: verificationResult.txHash || input.txHash,
       explorerUrl: verificationResult.explorerUrl ||
-        (input.txHash ? `${challenge.explorerTxBase}${input.txHash}` : undefined),
+        (input.txHash ? `${paidChallenge.explorerTxBase}${input.txHash}` : undefined),
       blockNumber: verificationResult.blockNumber,
+      blockHash: verificationResult.blockHash,
+      amountAsset: verificationResult.amountWei
+        ? money(verificationResult.amountWei, paidChallenge.amount.currency, paidChallenge.amount.decimals)
+        : undefined,
       amountNative: verificationResult.amountNative,
       payerAddress: verificationResult.payerAddress || input.payerAddress,
-      payeeAddress: verificationResult.payeeAddress || challenge.payeeAddress,
+      payeeAddress: verificationResult.payeeAddress || paidChallenge.payeeAddress,
+      chainId: paidChallenge.chainId,
+    };
+    const receipt: Receipt = {
+      ...unsignedReceipt,
+      signature: yield* receiptSigner.sign(unsignedReceipt),
     };
 
     const sessionToken: SessionToken = {
       tokenId: sessionTokenId,
-      credits: TOPUP_CREDITS,
+      credits: creditsPurchased,
       currency: challenge.currency,
       createdAt: now,
       expiresAt: sessionExpiry,
       accessCount: 0,
     };
 
-    // ── Step 7: Persist receipt + session (exactly-once) ───────────
-    yield* receiptsStore.saveReceipt(receipt);
+    // ── Step 6: Commit atomically ──────────────────────────────────
+    // Claim txRef, mark paid, persist receipt + session and record spend
+    // as one unit of work: a crash or failure part-way leaves nothing behind.
+    // The claim is atomic in the store, so of two concurrent verifies of
+    // the same txRef exactly one commits.
+    const finalSessionToken = yield* unitOfWork.transaction(
+      Effect.gen(function* () {
+        const claimed = yield* usedTransactions.claim(txRef, challenge.challengeId);
+        if (!claimed) {
+          return yield* Effect.fail(invalidPayment(input.challengeId, "Transaction already used"));
+        }
+        yield* challengesStore.markPaid(challenge.challengeId);
 
-    let finalSessionToken = sessionToken;
+        let issuedSession = sessionToken;
+        // A top-up leaves the session with whoever opened it: the payer of
+        // one may hold no more than an attenuated token for it
+        let opensSession = true;
 
-    if (input.existingSessionTokenId) {
-      // Check whether the existing session is still valid on the server.
-      // It may have been lost (server restart in mock mode, DB reset, etc.).
-      const existing = yield* Effect.either(
-        receiptsStore.getSession(input.existingSessionTokenId)
-      );
+        if (input.existingSessionTokenId) {
+          // Check whether the existing session is still valid on the server.
+          // It may have been lost (server restart in mock mode, DB reset, etc.).
+          const existing = yield* Effect.either(
+            receiptsStore.getSession(input.existingSessionTokenId)
+          );
 
-      if (existing._tag === "Right") {
-        // Session exists → add credits and return actual total
-        const updated = yield* receiptsStore.addCredits(input.existingSessionTokenId, TOPUP_CREDITS);
-        finalSessionToken = {
-          ...sessionToken,
-          credits: updated.credits,
-        };
-        yield* logger.info("[verify] credits added to existing session", {
-          sessionTokenId: input.existingSessionTokenId,
-          creditsBefore: existing.right.credits,
-          creditsAdded: TOPUP_CREDITS,
-          creditsAfter: updated.credits,
-        });
-      } else {
-        // Session not found on server → fall back to creating a new session
-        // instead of crashing on addCredits (which would leave the system in
-        // an inconsistent state: challenge paid + receipt saved but no session).
-        yield* receiptsStore.saveSession(sessionToken);
-        yield* logger.info("[verify] existing session not found, created new session", {
-          sessionTokenId: sessionToken.tokenId,
-          credits: TOPUP_CREDITS,
+          if (existing._tag === "Right") {
+            // Session exists → add credits and return actual total
+            const updated = yield* receiptsStore.addCredits(input.existingSessionTokenId, creditsPurchased);
+            opensSession = false;
+            issuedSession = {
+              ...sessionToken,
+              credits: updated.credits,
+            };
+            yield* logger.info("[verify] credits added to existing session", {
+              sessionTokenId: input.existingSessionTokenId,
+              creditsBefore: existing.right.credits,
+              creditsAdded: creditsPurchased,
+              creditsAfter: updated.credits,
+            });
+          } else {
+            // Session not found on server → fall back to creating a new session
+            // instead of crashing on addCredits (which would leave the system in
+            // an inconsistent state: challenge paid + receipt saved but no session).
+            yield* receiptsStore.saveSession(sessionToken);
+            yield* logger.info("[verify] existing session not found, created new session", {
+              sessionTokenId: sessionToken.tokenId,
+              credits: creditsPurchased,
+            });
+          }
+        } else {
+          yield* receiptsStore.saveSession(sessionToken);
+          if (unclaimed) {
+            yield* receiptsStore.markUnclaimed(sessionToken.tokenId);
+          }
+          yield* logger.info("[verify] new session created", {
+            sessionTokenId: sessionToken.tokenId,
+            credits: creditsPurchased,
+          });
+        }
+
+        yield* receiptsStore.saveReceipt(receipt, { sessionTokenId, opensSession, userId: input.userId });
+
+        yield* recordSpend({
+          subjectType: policyCheck.subjectType,
+          subjectId: policyCheck.subjectId,
+          amount: receipt.price,
         });
-      }
-    } else {
-      yield* receiptsStore.saveSession(sessionToken);
-      yield* logger.info("[verify] new session created", {
-        sessionTokenId: sessionToken.tokenId,
-        credits: TOPUP_CREDITS,
-      });
-    }
+
+        return issuedSession;
+      })
+    );
 
     yield* logger.info("[verify] complete", {
       receiptId: receipt.receiptId,
@@ -275,23 +475,46 @@ export const verifyPaymentAndIssueSession = (
       sessionTokenId,
     });
 
-    return { receipt, sessionToken: finalSessionToken };
+    return { receipt, sessionToken: finalSessionToken, replayed: false };
   });
 
 /**
- * Get current balance for a session
+ * Get current balance for a session: the credits its token may still
+ * spend, so never more than the token's budget
  */
 export const getBalance = (
   sessionTokenId: string
 ): Effect.Effect<
   { credits: number; expiresAt: string },
   ApiError,
-  ReceiptsStore | Clock
+  ReceiptsStore | Clock | SessionTokens
 > =>
-  pipe(
-    Effect.flatMap(ReceiptsStore, (store) => store.getSession(sessionTokenId)),
-    Effect.map((session) => ({
-      credits: session.credits,
+  Effect.gen(function* () {
+    const access = yield* authorizeSession(sessionTokenId);
+    const session = yield* Effect.flatMap(ReceiptsStore, (store) => store.getSession(access.tokenId));
+    const left = yield* budgetLeft(access);
+    return {
+      credits: left === null ? session.credits : Math.min(session.credits, left),
       expiresAt: session.expiresAt,
-    }))
-  );
+    };
+  });
+
+/**
+ * List the resources a session has unlocked
+ */
+export const getEntitlements = (
+  sessionTokenId: string
+): Effect.Effect<readonly Entitlement[], ApiError, ReceiptsStore | Clock | SessionTokens> =>
+  Effect.gen(function* () {
+    const { tokenId } = yield* authorizeSession(sessionTokenId);
+    const receiptsStore = yield* ReceiptsStore;
+    // Fails with NotFoundError for unknown sessions
+    yield* receiptsStore.getSession(tokenId);
+    return yield* receiptsStore.listEntitlements(tokenId);
+  });
+
+/**
+ * Public keys receipts are signed with, for offline verification
+ */
+export const getReceiptSigningKeys = (): Effect.Effect<ReceiptJwks, never, ReceiptSigner> =>
+  Effect.flatMap(ReceiptSigner, (signer) => signer.publicKeys());
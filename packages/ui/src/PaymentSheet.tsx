@@ -20,6 +20,10 @@ declare global {
   }
 }
 
+/** Poll interval and attempt cap while a payment waits for confirmations */
+const PENDING_POLL_MS = 3000;
+const PENDING_MAX_POLLS = 40;
+
 export interface PaymentSheetProps {
   challenge: DecagonChallenge;
   config: DecagonPaymentConfig;
@@ -49,8 +53,13 @@ export function PaymentSheet({
   const [receipt, setReceipt] = useState<DecagonReceipt | null>(null);
   const [hasMetaMask, setHasMetaMask] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmations, setConfirmations] = useState<{ current: number; required: number } | null>(null);
 
   const chainIdHex = `0x${config.plasmaChainId.toString(16)}`;
+  // Pay on the wallet's configured chain when the challenge accepts it
+  const chainTerms = challenge.acceptedChains?.find((t) => t.chainId === config.plasmaChainId);
+  const terms = chainTerms ?? challenge;
+  const assetDecimals = chainTerms?.assetDecimals ?? challenge.amount?.decimals ?? 18;
 
   useEffect(() => {
     setHasMetaMask(typeof window !== "undefined" && !!window.ethereum?.isMetaMask);
@@ -165,9 +174,11 @@ export function PaymentSheet({
         method: "eth_sendTransaction",
         params: [{
           from: fromAddress,
-          to: challenge.payeeAddress,
-          value: `0x${BigInt(challenge.amountWei).toString(16)}`,
-          gas: "0x5208",
+          to: terms.payeeAddress,
+          value: `0x${BigInt(terms.amountWei).toString(16)}`,
+          // Calldata memo binding the payment to this challenge
+          data: challenge.paymentReference,
+          gas: challenge.paymentReference ? "0x5dc0" : "0x5208",
         }],
       })) as string;
       return hash;
@@ -175,31 +186,79 @@ export function PaymentSheet({
       setError(`Transaction failed: ${(err as Error).message}`);
       return null;
     }
-  }, [challenge.payeeAddress, challenge.amountWei]);
+  }, [terms.payeeAddress, terms.amountWei, challenge.paymentReference]);
+
+  // Follow an async verification's SSE stream until it confirms or fails
+  const followVerification = useCallback((eventsUrl: string): Promise<boolean> =>
+    new Promise((resolve) => {
+      const source = new EventSource(`${config.apiBase}${eventsUrl}`);
+      const finish = (ok: boolean) => {
+        source.close();
+        setConfirmations(null);
+        resolve(ok);
+      };
+      source.addEventListener("status", (event) => {
+        const job = JSON.parse((event as MessageEvent).data);
+        if (job.status === "awaiting_confirmations") {
+          setConfirmations({ current: job.confirmations ?? 0, required: job.requiredConfirmations ?? 1 });
+        } else if (job.status === "confirmed") {
+          setReceipt(job.receipt);
+          onSuccess(job.receipt, job.sessionToken);
+          finish(true);
+        } else if (job.status === "failed") {
+          setError(job.error?.message ?? "Verification failed");
+          finish(false);
+        }
+      });
+      source.onerror = () => {
+        setError("Lost connection while confirming. Please try again.");
+        finish(false);
+      };
+    }), [config.apiBase, onSuccess]);
 
   const verifyTransaction = useCallback(async (hash: string): Promise<boolean> => {
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (existingSessionTokenId) headers["Authorization"] = `Bearer ${existingSessionTokenId}`;
+    // Stream progress when the browser can; otherwise poll the blocking verify
+    const canStream = typeof EventSource !== "undefined";
+    if (canStream) headers["Prefer"] = "respond-async";
     try {
-      const res = await fetch(`${config.apiBase}/pay/verify`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ challengeId: challenge.challengeId, txHash: hash }),
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setReceipt(data.receipt);
-        onSuccess(data.receipt, data.sessionToken);
-        return true;
+      for (let attempt = 0; attempt < PENDING_MAX_POLLS; attempt++) {
+        const res = await fetch(`${config.apiBase}/pay/verify`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ challengeId: challenge.challengeId, txHash: hash, chainId: terms.chainId }),
+        });
+        if (res.status === 202) {
+          const accepted = await res.json();
+          return await followVerification(accepted.eventsUrl);
+        }
+        if (res.ok) {
+          const data = await res.json();
+          setConfirmations(null);
+          setReceipt(data.receipt);
+          onSuccess(data.receipt, data.sessionToken);
+          return true;
+        }
+        const errData = await res.json();
+        // Seen on chain but not deep enough yet: wait and ask again
+        if (errData._tag === "PaymentPendingError") {
+          setConfirmations({ current: errData.confirmations, required: errData.requiredConfirmations });
+          await new Promise((resolve) => setTimeout(resolve, PENDING_POLL_MS));
+          continue;
+        }
+        setConfirmations(null);
+        setError(errData.message ?? "Verification failed");
+        return false;
       }
-      const errData = await res.json();
-      setError(errData.message ?? "Verification failed");
+      setConfirmations(null);
+      setError("Still waiting for confirmations. Please try again shortly.");
       return false;
     } catch {
       setError("Verification failed. Please try again.");
       return false;
     }
-  }, [challenge.challengeId, config.apiBase, existingSessionTokenId, onSuccess]);
+  }, [challenge.challengeId, terms.chainId, config.apiBase, existingSessionTokenId, onSuccess, followVerification]);
 
   const handlePayment = async () => {
     if (isSubmitting) return;
@@ -209,6 +268,11 @@ export function PaymentSheet({
     try {
       const address = await connectWallet();
       if (!address) { setStep("confirm"); return; }
+      if (challenge.payerAddress && challenge.payerAddress.toLowerCase() !== address.toLowerCase()) {
+        setError(`This payment must be sent from ${challenge.payerAddress}`);
+        setStep("confirm");
+        return;
+      }
       setStep("sending");
       const hash = await sendTransaction(address);
       if (!hash) { setStep("confirm"); return; }
@@ -257,7 +321,12 @@ export function PaymentSheet({
     }
   };
 
-  const formatXpl = (wei: string) => (Number(BigInt(wei)) / 1e18).toFixed(6);
+  const formatAmount = (baseUnits: string) => {
+    const base = 10n ** BigInt(assetDecimals);
+    const units = BigInt(baseUnits);
+    const fraction = (units % base).toString().padStart(assetDecimals, "0").slice(0, 6).padEnd(6, "0");
+    return `${units / base}.${fraction}`;
+  };
   const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
   const formatCountdown = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -266,7 +335,7 @@ export function PaymentSheet({
   };
 
   const displayPurpose = purpose ?? `Unlock: ${challenge.description}`;
-  const explorerBase = challenge.explorerTxBase || config.explorerTxBase;
+  const explorerBase = terms.explorerTxBase || config.explorerTxBase;
 
   return (
     <div className="dg-overlay" onClick={onClose}>
@@ -359,16 +428,16 @@ export function PaymentSheet({
               </div>
               <div className="dg-row">
                 <span>Pay with</span>
-                <span className="dg-value">{formatXpl(challenge.amountWei)} {challenge.assetSymbol}</span>
+                <span className="dg-value">{formatAmount(terms.amountWei)} {terms.assetSymbol}</span>
               </div>
               <div className="dg-row">
                 <span>Chain</span>
-                <span className="dg-value">{challenge.chain}</span>
+                <span className="dg-value">{terms.chain}</span>
               </div>
               <div className="dg-row">
                 <span>Recipient</span>
                 <span className="dg-value" style={{ fontSize: "0.75rem" }}>
-                  {challenge.payeeAddress?.slice(0, 6)}...{challenge.payeeAddress?.slice(-4)}
+                  {terms.payeeAddress?.slice(0, 6)}...{terms.payeeAddress?.slice(-4)}
                 </span>
               </div>
               <div className="dg-divider" />
@@ -398,7 +467,7 @@ export function PaymentSheet({
                 onClick={handlePayment}
                 disabled={isSubmitting || (policyResult?.needsConfirm && !confirmChecked)}
               >
-                {isSubmitting ? "Processing…" : `🦊 Pay with MetaMask (${formatXpl(challenge.amountWei)} XPL)`}
+                {isSubmitting ? "Processing…" : `🦊 Pay with MetaMask (${formatAmount(terms.amountWei)} ${terms.assetSymbol})`}
               </button>
             ) : (
               <button
@@ -452,6 +521,11 @@ export function PaymentSheet({
           <div className="dg-step">
             <div className="dg-spinner-wrap"><div className="dg-spinner" /></div>
             <p style={{ textAlign: "center", color: "var(--text-secondary, #94a3b8)" }}>Confirming on chain...</p>
+            {confirmations && (
+              <p style={{ textAlign: "center", fontSize: "0.75rem", color: "var(--text-secondary, #94a3b8)" }}>
+                {confirmations.current}/{confirmations.required} confirmations
+              </p>
+            )}
             {txHash && (
               <a
                 href={`${explorerBase}${txHash}`}
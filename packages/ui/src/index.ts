@@ -21,6 +21,8 @@ export type { UseDecagonPaymentReturn } from "./useDecagonPayment";
 /* ─── Types ─── */
 export type {
   DecagonChallenge,
+  DecagonChainTerms,
+  DecagonMoney,
   DecagonReceipt,
   DecagonPolicyResult,
   DecagonSpendPolicy,
@@ -1,6 +1,8 @@
 export interface DecagonChallenge {
   challengeId: string;
   resourceId: string;
+  /** Exact price (amountRequired is the same in cents) */
+  price?: DecagonMoney;
   amountRequired: number;
   currency: string;
   chain: string;
@@ -13,6 +15,31 @@ export interface DecagonChallenge {
   chainId: number;
   assetType: "NATIVE" | "ERC20";
   assetSymbol: string;
+  /** Exact amount owed on the default chain (amountWei is the same in base units) */
+  amount?: DecagonMoney;
+  amountWei: string;
+  payeeAddress: string;
+  explorerTxBase: string;
+  payerAddress?: string;
+  paymentReference?: string;
+  /** Every chain/asset the challenge can be paid with (default chain first) */
+  acceptedChains?: DecagonChainTerms[];
+}
+
+/** An exact amount: minor units as an integer string */
+export interface DecagonMoney {
+  amount: string;
+  currency: string;
+  decimals: number;
+}
+
+export interface DecagonChainTerms {
+  chainId: number;
+  chain: string;
+  assetType: "NATIVE" | "ERC20";
+  assetSymbol: string;
+  tokenAddress?: string;
+  assetDecimals?: number;
   amountWei: string;
   payeeAddress: string;
   explorerTxBase: string;
@@ -0,0 +1,52 @@
+/**
+ * JSON Encodings
+ *
+ * Wire forms of protocol types that hold Money. Challenges and receipts
+ * keep their legacy number/string amount fields next to the Money ones,
+ * so `JSON.stringify(value, moneyReplacer)` is all they need. Spend
+ * policies are exchanged in their original `*Cents` shape, which older
+ * clients and stored policies use.
+ */
+
+import { usd, toCents, type Money } from "./money.js";
+import type { SpendPolicy } from "./types.js";
+
+/**
+ * Spend policy as sent and received over HTTP (USD amounts in cents)
+ */
+export interface SpendPolicyJson {
+  readonly maxPerActionCents: number;
+  readonly dailyCapCents: number;
+  readonly autoApproveUnderCents: number;
+  readonly requireConfirmAboveCents: number;
+  readonly allowedOrigins: readonly string[];
+  readonly allowedPaths: readonly string[];
+}
+
+export const encodeSpendPolicy = (policy: SpendPolicy): SpendPolicyJson => ({
+  maxPerActionCents: toCents(policy.maxPerAction),
+  dailyCapCents: toCents(policy.dailyCap),
+  autoApproveUnderCents: toCents(policy.autoApproveUnder),
+  requireConfirmAboveCents: toCents(policy.requireConfirmAbove),
+  allowedOrigins: policy.allowedOrigins,
+  allowedPaths: policy.allowedPaths,
+});
+
+/**
+ * Decode a (possibly partial) policy, taking missing fields from `defaults`
+ */
+export const decodeSpendPolicy = (
+  json: Partial<SpendPolicyJson>,
+  defaults: SpendPolicy
+): SpendPolicy => {
+  const cents = (value: number | undefined, fallback: Money): Money =>
+    value === undefined ? fallback : usd(Math.round(value));
+  return {
+    maxPerAction: cents(json.maxPerActionCents, defaults.maxPerAction),
+    dailyCap: cents(json.dailyCapCents, defaults.dailyCap),
+    autoApproveUnder: cents(json.autoApproveUnderCents, defaults.autoApproveUnder),
+    requireConfirmAbove: cents(json.requireConfirmAboveCents, defaults.requireConfirmAbove),
+    allowedOrigins: json.allowedOrigins ?? defaults.allowedOrigins,
+    allowedPaths: json.allowedPaths ?? defaults.allowedPaths,
+  };
+};
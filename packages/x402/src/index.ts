@@ -5,3 +5,10 @@
  */
 
 export * from "./types.js";
+export * from "./money.js";
+export * from "./encoding.js";
+export * from "./schemas.js";
+export * from "./interop.js";
+export * from "./receipt-signature.js";
+export * from "./transfer-authorization.js";
+export * from "./session-token.js";
@@ -0,0 +1,245 @@
+/**
+ * Open x402 Interop
+ *
+ * The standard x402 wire format (version 1), served next to Decagon's own
+ * 402 body so generic x402 clients can pay our endpoints:
+ * - 402 body: `{ x402Version, error, accepts: PaymentRequirements[] }`
+ * - Request header `X-PAYMENT`: base64 JSON payment payload
+ * - Response header `X-PAYMENT-RESPONSE`: base64 JSON settlement
+ *
+ * Networks are CAIP-2 ids ("eip155:9746"). Two schemes are offered:
+ * - X402_SCHEME ("decagon-tx"): the payer pushes the transaction on chain,
+ *   and the payload carries its hash plus the challenge it pays (from
+ *   `extra.challengeId` of the requirements)
+ * - X402_EXACT_SCHEME ("exact"), on chains whose token supports EIP-3009:
+ *   the payload is a signed transfer authorization the server settles
+ *   itself (see transfer-authorization.ts). `extra.name` and
+ *   `extra.version` are the token's EIP-712 domain, as in the standard.
+ */
+
+import { Either, Encoding, Schema } from "effect";
+import { CHALLENGE_EXPIRY_MINUTES } from "./types.js";
+import type { ChainPaymentTerms, PaymentChallenge, Receipt, ValidationError, VerifyRequest } from "./types.js";
+import type { TransferAuthorization } from "./transfer-authorization.js";
+import { X402PaymentPayloadSchema, decodeWire } from "./schemas.js";
+
+export const X402_VERSION = 1;
+
+/** Non-standard scheme: the payer pushes the transaction and sends its hash */
+export const X402_SCHEME = "decagon-tx";
+
+/** Standard scheme: the payer signs an EIP-3009 authorization the server settles */
+export const X402_EXACT_SCHEME = "exact";
+
+/** Media type a client puts in `Accept` to get the standard 402 body */
+export const X402_MEDIA_TYPE = "application/vnd.x402+json";
+
+export const X_PAYMENT_HEADER = "X-PAYMENT";
+export const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+/** `asset` for a chain's native coin, which has no contract address */
+export const NATIVE_ASSET_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * One way to pay, as listed in `accepts`
+ */
+export interface X402PaymentRequirements {
+  readonly scheme: typeof X402_SCHEME | typeof X402_EXACT_SCHEME;
+  readonly network: string;
+  /** Amount in the asset's smallest unit */
+  readonly maxAmountRequired: string;
+  /** URL of the paid resource */
+  readonly resource: string;
+  readonly description: string;
+  readonly mimeType: string;
+  readonly payTo: string;
+  readonly maxTimeoutSeconds: number;
+  /** Token contract, or NATIVE_ASSET_ADDRESS */
+  readonly asset: string;
+  readonly extra: {
+    /** Asset symbol; for "exact", the token's EIP-712 name */
+    readonly name: string;
+    /** The token's EIP-712 version ("exact" only) */
+    readonly version?: string;
+    readonly decimals?: number;
+    readonly challengeId: string;
+    /** Calldata reference the paying transaction must carry */
+    readonly paymentReference?: string;
+  };
+}
+
+/**
+ * Standard 402 body
+ */
+export interface X402PaymentRequiredResponse {
+  readonly x402Version: number;
+  readonly error: string;
+  readonly accepts: readonly X402PaymentRequirements[];
+}
+
+/**
+ * Decoded `X-PAYMENT` header: a pushed transaction
+ */
+export interface X402TransactionPayload {
+  readonly x402Version: typeof X402_VERSION;
+  readonly scheme: typeof X402_SCHEME;
+  readonly network: string;
+  readonly payload: {
+    readonly challengeId: string;
+    readonly txHash: string;
+    readonly payer?: string;
+  };
+}
+
+/**
+ * Decoded `X-PAYMENT` header: a signed transfer authorization
+ */
+export interface X402ExactPayload {
+  readonly x402Version: typeof X402_VERSION;
+  readonly scheme: typeof X402_EXACT_SCHEME;
+  readonly network: string;
+  readonly payload: {
+    /** 65-byte hex EIP-712 signature over the authorization */
+    readonly signature: string;
+    readonly authorization: TransferAuthorization;
+  };
+}
+
+export type X402PaymentPayload = X402TransactionPayload | X402ExactPayload;
+
+/**
+ * Decoded `X-PAYMENT-RESPONSE` header
+ */
+export interface X402SettlementResponse {
+  readonly success: boolean;
+  readonly transaction: string;
+  readonly network: string;
+  readonly payer?: string;
+  readonly errorReason?: string;
+  /** Decagon extension: session holding the credits left after this request */
+  readonly sessionToken?: string;
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+export const networkForChain = (chainId: number): string => `eip155:${chainId}`;
+
+/** Chain id of a CAIP-2 EVM network, or null for any other network */
+export const chainForNetwork = (network: string): number | null => {
+  const match = /^eip155:(\d+)$/.exec(network);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * The standard 402 body for a challenge: per accepted chain, one
+ * "decagon-tx" entry, plus an "exact" entry where the server settles
+ * transfer authorizations
+ */
+export const toX402PaymentRequired = (
+  challenge: PaymentChallenge,
+  terms: readonly ChainPaymentTerms[],
+  resource: string,
+  error: string
+): X402PaymentRequiredResponse => ({
+  x402Version: X402_VERSION,
+  error,
+  accepts: terms.flatMap((t) => {
+    const pushed: X402PaymentRequirements = {
+      scheme: X402_SCHEME,
+      network: networkForChain(t.chainId),
+      maxAmountRequired: t.amountWei,
+      resource,
+      description: challenge.description,
+      mimeType: "application/json",
+      payTo: t.payeeAddress,
+      maxTimeoutSeconds: CHALLENGE_EXPIRY_MINUTES * 60,
+      asset: t.tokenAddress ?? NATIVE_ASSET_ADDRESS,
+      extra: {
+        name: t.assetSymbol,
+        decimals: t.assetDecimals,
+        challengeId: challenge.challengeId,
+        paymentReference: challenge.paymentReference,
+      },
+    };
+    if (!t.transferAuthorization || !t.tokenAddress) return [pushed];
+    return [
+      pushed,
+      {
+        ...pushed,
+        scheme: X402_EXACT_SCHEME,
+        extra: { ...pushed.extra, name: t.transferAuthorization.name, version: t.transferAuthorization.version },
+      },
+    ];
+  }),
+});
+
+/**
+ * Chain id of a payload's network, or a ValidationError
+ */
+export const chainOfPayment = (payment: X402PaymentPayload): Either.Either<number, ValidationError> => {
+  const chainId = chainForNetwork(payment.network);
+  return chainId === null
+    ? Either.left({
+        _tag: "ValidationError",
+        message: `Unsupported network: ${payment.network}`,
+        timestamp: new Date().toISOString(),
+        field: "network",
+        reason: "Expected a CAIP-2 EVM network such as eip155:9746",
+      })
+    : Either.right(chainId);
+};
+
+/**
+ * The verify request a "decagon-tx" payload amounts to
+ */
+export const verifyRequestFromPayment = (
+  payment: X402TransactionPayload
+): Either.Either<VerifyRequest, ValidationError> =>
+  Either.map(chainOfPayment(payment), (chainId) => ({
+    challengeId: payment.payload.challengeId,
+    txHash: payment.payload.txHash,
+    payerAddress: payment.payload.payer,
+    chainId,
+  }));
+
+/**
+ * Settlement for a verified payment
+ */
+export const settlementFor = (receipt: Receipt, network: string, sessionToken?: string): X402SettlementResponse => ({
+  success: true,
+  transaction: receipt.txHash ?? receipt.transactionRef,
+  network,
+  payer: receipt.payerAddress,
+  sessionToken,
+});
+
+// ============================================
+// Headers
+// ============================================
+
+/**
+ * Decode an `X-PAYMENT` header value (base64 JSON)
+ */
+export const decodePaymentHeader = (header: string): Either.Either<X402PaymentPayload, ValidationError> =>
+  Encoding.decodeBase64String(header.trim()).pipe(
+    Either.mapLeft((): ValidationError => ({
+      _tag: "ValidationError",
+      message: `${X_PAYMENT_HEADER} is not valid base64`,
+      timestamp: new Date().toISOString(),
+      field: X_PAYMENT_HEADER,
+      reason: "Invalid base64",
+    })),
+    Either.flatMap((json) => decodeWire(Schema.parseJson(X402PaymentPayloadSchema), json))
+  );
+
+export const encodePaymentHeader = (payment: X402PaymentPayload): string =>
+  Encoding.encodeBase64(JSON.stringify(payment));
+
+export const encodeSettlementHeader = (settlement: X402SettlementResponse): string =>
+  Encoding.encodeBase64(JSON.stringify(settlement));
@@ -0,0 +1,149 @@
+/**
+ * Money
+ *
+ * Exact decimal amounts: an integer count of minor units (cents, wei,
+ * token base units) with the currency or asset code and its decimals.
+ * Arithmetic is done on bigint, so no amount ever passes through a float.
+ *
+ * JSON has no bigint, so on the wire a Money is encoded as
+ * `{ amount: "<minor units>", currency, decimals }` (see MoneyJson).
+ */
+
+export interface Money {
+  /** Amount in minor units (e.g. 50n cents, 10n ** 14n wei) */
+  readonly minor: bigint;
+  /** ISO currency code or asset symbol (e.g. "USD", "XPL", "USDT") */
+  readonly currency: string;
+  /** Decimal places between minor and whole units (2 for USD, 18 for XPL) */
+  readonly decimals: number;
+}
+
+/**
+ * Wire encoding of Money: minor units as a base-10 integer string
+ */
+export interface MoneyJson {
+  readonly amount: string;
+  readonly currency: string;
+  readonly decimals: number;
+}
+
+// ============================================
+// Construction
+// ============================================
+
+export const money = (minor: bigint | number | string, currency: string, decimals: number): Money => ({
+  minor: BigInt(minor),
+  currency,
+  decimals,
+});
+
+/** US dollars from a cent amount */
+export const usd = (cents: bigint | number): Money => money(cents, "USD", 2);
+
+/**
+ * Parse a decimal string in whole units (e.g. "1.50") exactly.
+ * Throws if it has more fractional digits than the currency allows.
+ */
+export const parseMoney = (value: string, currency: string, decimals: number): Money => {
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) throw new RangeError(`Invalid amount: "${value}"`);
+  const [, sign, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new RangeError(`"${value}" has more than ${decimals} decimals`);
+  }
+  const minor = BigInt(`${whole}${fraction.padEnd(decimals, "0")}`);
+  return money(sign ? -minor : minor, currency, decimals);
+};
+
+// ============================================
+// Arithmetic
+// ============================================
+
+const assertSameUnit = (a: Money, b: Money): void => {
+  if (a.currency !== b.currency || a.decimals !== b.decimals) {
+    throw new TypeError(`Cannot combine ${a.currency}/${a.decimals} with ${b.currency}/${b.decimals}`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameUnit(a, b);
+  return { ...a, minor: a.minor + b.minor };
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameUnit(a, b);
+  return { ...a, minor: a.minor - b.minor };
+};
+
+/** -1, 0 or 1 as `a` is less than, equal to or greater than `b` */
+export const compareMoney = (a: Money, b: Money): -1 | 0 | 1 => {
+  assertSameUnit(a, b);
+  return a.minor < b.minor ? -1 : a.minor > b.minor ? 1 : 0;
+};
+
+export const zeroOf = (m: Money): Money => ({ ...m, minor: 0n });
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Exact decimal string in whole units, e.g. 1500000n @ 6 → "1.500000".
+ * `maxFractionDigits` truncates (never rounds up) for display.
+ */
+export const toDecimalString = (m: Money, maxFractionDigits: number = m.decimals): string => {
+  const negative = m.minor < 0n;
+  const abs = negative ? -m.minor : m.minor;
+  const base = 10n ** BigInt(m.decimals);
+  const whole = (abs / base).toString();
+  const fraction = (abs % base).toString().padStart(m.decimals, "0").slice(0, maxFractionDigits);
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+};
+
+/** Display form, e.g. "0.50 USD", "0.000100 XPL" */
+export const formatMoney = (m: Money, maxFractionDigits: number = Math.min(m.decimals, 6)): string =>
+  `${toDecimalString(m, maxFractionDigits)} ${m.currency}`;
+
+/** Cents of a USD amount, for the legacy `*Cents` number fields */
+export const toCents = (m: Money): number => {
+  if (m.currency !== "USD" || m.decimals !== 2) {
+    throw new TypeError(`Not a USD amount: ${m.currency}/${m.decimals}`);
+  }
+  return Number(m.minor);
+};
+
+// ============================================
+// JSON encoding
+// ============================================
+
+export const encodeMoney = (m: Money): MoneyJson => ({
+  amount: m.minor.toString(),
+  currency: m.currency,
+  decimals: m.decimals,
+});
+
+export const decodeMoney = (json: MoneyJson): Money => money(json.amount, json.currency, json.decimals);
+
+export const isMoney = (value: unknown): value is Money =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Money).minor === "bigint" &&
+  typeof (value as Money).currency === "string" &&
+  typeof (value as Money).decimals === "number";
+
+const isMoneyJson = (value: unknown): value is MoneyJson =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.keys(value).length === 3 &&
+  typeof (value as MoneyJson).amount === "string" &&
+  /^-?\d+$/.test((value as MoneyJson).amount) &&
+  typeof (value as MoneyJson).currency === "string" &&
+  typeof (value as MoneyJson).decimals === "number";
+
+/** `JSON.stringify` replacer that encodes every Money it meets */
+export const moneyReplacer = (_key: string, value: unknown): unknown =>
+  isMoney(value) ? encodeMoney(value) : value;
+
+/** `JSON.parse` reviver that decodes every MoneyJson it meets */
+export const moneyReviver = (_key: string, value: unknown): unknown =>
+  isMoneyJson(value) ? decodeMoney(value) : value;
@@ -0,0 +1,203 @@
+/**
+ * Signed Receipts
+ *
+ * Receipts are signed at issuance as a compact JWS (EdDSA over Ed25519),
+ * carried in `Receipt.signature`. The payload holds the issuance claims:
+ * every receipt field except `status`, which changes if the payment is
+ * reorged.
+ *
+ * The public keys are served as a JWK set at RECEIPT_KEYS_PATH, so anyone
+ * holding a receipt can check it offline with `verifyReceipt`.
+ */
+
+import { Either, Encoding } from "effect";
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { moneyReplacer } from "./money.js";
+import type { Receipt } from "./types.js";
+
+export const RECEIPT_JWS_ALG = "EdDSA";
+
+/** Where the API serves its receipt signing keys */
+export const RECEIPT_KEYS_PATH = "/.well-known/jwks.json";
+
+/** Receipt fields covered by the signature */
+const SIGNED_FIELDS = [
+  "receiptId",
+  "challengeId",
+  "resourceId",
+  "price",
+  "amountPaid",
+  "currency",
+  "transactionRef",
+  "verifiedAt",
+  "expiresAt",
+  "creditsPurchased",
+  "chainId",
+  "txHash",
+  "explorerUrl",
+  "blockNumber",
+  "blockHash",
+  "amountAsset",
+  "amountNative",
+  "payerAddress",
+  "payeeAddress",
+] as const satisfies readonly (keyof Receipt)[];
+
+// ============================================
+// Types
+// ============================================
+
+export type ReceiptClaims = Pick<Receipt, (typeof SIGNED_FIELDS)[number]>;
+
+export interface ReceiptSigningKey {
+  readonly keyId: string;
+  /** 32-byte Ed25519 secret key (seed) */
+  readonly secretKey: Uint8Array;
+}
+
+/**
+ * Public key as published, an OKP JSON Web Key
+ */
+export interface ReceiptPublicJwk {
+  readonly kty: "OKP";
+  readonly crv: "Ed25519";
+  readonly alg: typeof RECEIPT_JWS_ALG;
+  readonly use: "sig";
+  readonly kid: string;
+  /** base64url public key */
+  readonly x: string;
+}
+
+export interface ReceiptJwks {
+  readonly keys: readonly ReceiptPublicJwk[];
+}
+
+/**
+ * Transaction as read from the chain by the verifier, checked against
+ * the receipt's on-chain reference
+ */
+export interface OnChainTransaction {
+  readonly hash: string;
+  readonly chainId?: number;
+  /** Sender of the value */
+  readonly from?: string;
+  /** Recipient of the value (for ERC20, the transfer's recipient, not the token contract) */
+  readonly to?: string;
+  readonly blockNumber?: number;
+}
+
+export type ReceiptVerification =
+  | { readonly valid: true; readonly keyId: string; readonly claims: ReceiptClaims }
+  | { readonly valid: false; readonly reason: string };
+
+// ============================================
+// Signing
+// ============================================
+
+export const receiptClaimsOf = (receipt: Receipt): ReceiptClaims =>
+  Object.fromEntries(SIGNED_FIELDS.map((field) => [field, receipt[field]])) as ReceiptClaims;
+
+export const publicJwkFor = (key: ReceiptSigningKey): ReceiptPublicJwk => ({
+  kty: "OKP",
+  crv: "Ed25519",
+  alg: RECEIPT_JWS_ALG,
+  use: "sig",
+  kid: key.keyId,
+  x: Encoding.encodeBase64Url(ed25519.getPublicKey(key.secretKey)),
+});
+
+/**
+ * Compact JWS over the receipt's claims
+ */
+export const signReceipt = (receipt: Receipt, key: ReceiptSigningKey): string => {
+  const header = Encoding.encodeBase64Url(JSON.stringify({ alg: RECEIPT_JWS_ALG, kid: key.keyId }));
+  const payload = Encoding.encodeBase64Url(JSON.stringify(receiptClaimsOf(receipt), moneyReplacer));
+  const signingInput = `${header}.${payload}`;
+  const signature = ed25519.sign(new TextEncoder().encode(signingInput), key.secretKey);
+  return `${signingInput}.${Encoding.encodeBase64Url(signature)}`;
+};
+
+// ============================================
+// Verification
+// ============================================
+
+const invalid = (reason: string): ReceiptVerification => ({ valid: false, reason });
+
+const parseSegment = (segment: string): Record<string, unknown> | null => {
+  const json = Encoding.decodeBase64UrlString(segment);
+  if (Either.isLeft(json)) return null;
+  try {
+    const value: unknown = JSON.parse(json.right);
+    return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const sameAddress = (a: string | undefined, b: string | undefined): boolean =>
+  a === undefined || b === undefined || a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Check a receipt offline: its signature against the published keys, every
+ * signed field against the receipt, and, when given, the transaction it
+ * references as read from the chain.
+ */
+export const verifyReceipt = (
+  receipt: Receipt,
+  jwks: ReceiptJwks,
+  transaction?: OnChainTransaction
+): ReceiptVerification => {
+  if (!receipt.signature) return invalid("Receipt is not signed");
+
+  const parts = receipt.signature.split(".");
+  if (parts.length !== 3) return invalid("Malformed signature");
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string];
+
+  const header = parseSegment(headerSegment);
+  if (!header || header["alg"] !== RECEIPT_JWS_ALG) return invalid(`Signature algorithm must be ${RECEIPT_JWS_ALG}`);
+  const jwk = jwks.keys.find((k) => k.kid === header["kid"]);
+  if (!jwk) return invalid(`Receipt was signed with an unknown key "${String(header["kid"])}"`);
+
+  const publicKey = Encoding.decodeBase64Url(jwk.x);
+  const signature = Encoding.decodeBase64Url(signatureSegment);
+  if (Either.isLeft(publicKey) || Either.isLeft(signature)) return invalid("Malformed signature");
+  const signingInput = new TextEncoder().encode(`${headerSegment}.${payloadSegment}`);
+  if (!ed25519.verify(signature.right, signingInput, publicKey.right)) {
+    return invalid("Signature does not match");
+  }
+
+  const payload = parseSegment(payloadSegment);
+  if (!payload) return invalid("Malformed signature payload");
+  for (const field of SIGNED_FIELDS) {
+    if (JSON.stringify(receipt[field], moneyReplacer) !== JSON.stringify(payload[field])) {
+      return invalid(`"${field}" differs from the signed receipt`);
+    }
+  }
+
+  if (receipt.txHash !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(receipt.txHash)) {
+    return invalid("txHash is not a transaction hash");
+  }
+  if (receipt.txHash && receipt.explorerUrl && !receipt.explorerUrl.endsWith(receipt.txHash)) {
+    return invalid("explorerUrl does not point at txHash");
+  }
+
+  if (transaction) {
+    if (!receipt.txHash || transaction.hash.toLowerCase() !== receipt.txHash.toLowerCase()) {
+      return invalid("Transaction is not the one the receipt references");
+    }
+    if (transaction.chainId !== undefined && receipt.chainId !== undefined && transaction.chainId !== receipt.chainId) {
+      return invalid(`Transaction is on chain ${transaction.chainId}, receipt says ${receipt.chainId}`);
+    }
+    if (!sameAddress(transaction.from, receipt.payerAddress)) return invalid("Transaction sender is not the payer");
+    if (!sameAddress(transaction.to, receipt.payeeAddress)) return invalid("Transaction recipient is not the payee");
+    if (
+      transaction.blockNumber !== undefined &&
+      receipt.blockNumber !== undefined &&
+      transaction.blockNumber !== receipt.blockNumber
+    ) {
+      return invalid(`Transaction is in block ${transaction.blockNumber}, receipt says ${receipt.blockNumber}`);
+    }
+  }
+
+  return { valid: true, keyId: jwk.kid, claims: receiptClaimsOf(receipt) };
+};
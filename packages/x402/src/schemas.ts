@@ -0,0 +1,585 @@
+/**
+ * Wire Schemas
+ *
+ * Effect Schema definitions for every protocol type. Each schema decodes
+ * the JSON form (Money as MoneyJson, spend policies in `*Cents`) into the
+ * type from types.ts and encodes it back, so request bodies are checked
+ * before they reach a workflow and responses are plain JSON.
+ */
+
+import { Either, ParseResult, Schema } from "effect";
+import { isMoney, toCents, usd, type Money } from "./money.js";
+import type {
+  PaymentChallenge,
+  ChainPaymentTerms,
+  PriceQuote,
+  ContentPreview,
+  PaymentMethod,
+  PaymentRequiredResponse,
+  Receipt,
+  SessionToken,
+  Entitlement,
+  BalanceResponse,
+  TopupRequest,
+  VerifyRequest,
+  VerifyResponse,
+  VerifyAcceptedResponse,
+  VerificationJob,
+  ApiError,
+  ValidationError,
+  SpendPolicy,
+  Agent,
+  User,
+  Article,
+  ArticleResponse,
+} from "./types.js";
+import type { SessionCaveat } from "./session-token.js";
+import type { SpendPolicyJson } from "./encoding.js";
+import type {
+  X402PaymentRequirements,
+  X402PaymentRequiredResponse,
+  X402PaymentPayload,
+  X402SettlementResponse,
+} from "./interop.js";
+import type { ReceiptJwks } from "./receipt-signature.js";
+import type { TransferAuthorization } from "./transfer-authorization.js";
+
+/**
+ * Check that a schema decodes to exactly `A`, whatever its encoded form, and
+ * keep its own type: `schemaOf<Money>()(Schema.Struct({ ... }))`.
+ */
+const schemaOf =
+  <A>() =>
+  <I, S extends Schema.Schema<A, I, never>>(schema: S & Schema.Schema<A, I, never>): S =>
+    schema;
+
+// ============================================
+// Primitives
+// ============================================
+
+const Timestamp = Schema.String;
+
+const ChainId = Schema.Int.pipe(Schema.positive());
+
+const AssetType = Schema.Literal("NATIVE", "ERC20");
+
+/** Base-10 integer string (amounts in an asset's smallest unit) */
+const IntegerString = Schema.String.pipe(
+  Schema.pattern(/^-?\d+$/, { message: () => "Expected an integer string" })
+);
+
+// ============================================
+// Money
+// ============================================
+
+export const MoneyFromSelf: Schema.Schema<Money> = Schema.declare(isMoney, {
+  identifier: "Money",
+});
+
+/** Money ⇄ MoneyJson (`{ amount: "<minor units>", currency, decimals }`) */
+export const MoneySchema = schemaOf<Money>()(Schema.Struct({
+  minor: Schema.propertySignature(Schema.BigInt).pipe(Schema.fromKey("amount")),
+  currency: Schema.String,
+  decimals: Schema.NonNegativeInt,
+}));
+
+/** USD Money ⇄ a non-negative number of cents */
+export const UsdCentsSchema = Schema.transformOrFail(Schema.NonNegativeInt, MoneyFromSelf, {
+  strict: true,
+  decode: (cents) => ParseResult.succeed(usd(cents)),
+  encode: (amount, _options, ast) =>
+    amount.currency === "USD" && amount.decimals === 2
+      ? ParseResult.succeed(toCents(amount))
+      : ParseResult.fail(new ParseResult.Type(ast, amount, `Expected a USD amount, got ${amount.currency}`)),
+});
+
+// ============================================
+// Payment Challenge
+// ============================================
+
+export const PriceQuoteSchema = schemaOf<PriceQuote>()(Schema.Struct({
+  assetSymbol: Schema.String,
+  cents: Schema.NonNegativeInt,
+  amountWei: IntegerString,
+  centsPerUnit: Schema.Number.pipe(Schema.positive()),
+  source: Schema.Literal("override", "feed", "static"),
+  quotedAt: Timestamp,
+  lockedUntil: Timestamp,
+}));
+
+export const ChainPaymentTermsSchema = schemaOf<ChainPaymentTerms>()(Schema.Struct({
+  chainId: ChainId,
+  chain: Schema.String,
+  assetType: AssetType,
+  assetSymbol: Schema.String,
+  tokenAddress: Schema.optional(Schema.String),
+  assetDecimals: Schema.optional(Schema.NonNegativeInt),
+  amountWei: IntegerString,
+  payeeAddress: Schema.String,
+  explorerTxBase: Schema.String,
+  quote: Schema.optional(PriceQuoteSchema),
+  transferAuthorization: Schema.optional(Schema.Struct({
+    name: Schema.String,
+    version: Schema.String,
+  })),
+}));
+
+export const PaymentChallengeSchema = schemaOf<PaymentChallenge>()(Schema.Struct({
+  challengeId: Schema.String,
+  resourceId: Schema.String,
+  price: MoneySchema,
+  amountRequired: Schema.NonNegativeInt,
+  currency: Schema.String,
+  chain: Schema.String,
+  description: Schema.String,
+  payTo: Schema.String,
+  expiresAt: Timestamp,
+  createdAt: Timestamp,
+  creditsOffered: Schema.NonNegativeInt,
+  status: Schema.Literal("pending", "paid", "expired"),
+  chainId: ChainId,
+  assetType: AssetType,
+  assetSymbol: Schema.String,
+  amount: MoneySchema,
+  amountWei: IntegerString,
+  payeeAddress: Schema.String,
+  explorerTxBase: Schema.String,
+  payerAddress: Schema.optional(Schema.String),
+  paymentReference: Schema.optional(Schema.String),
+  depositIndex: Schema.optional(Schema.NonNegativeInt),
+  acceptedChains: Schema.optional(Schema.Array(ChainPaymentTermsSchema)),
+}));
+
+export const ContentPreviewSchema = schemaOf<ContentPreview>()(Schema.Struct({
+  text: Schema.String,
+  hasMore: Schema.Boolean,
+  previewPercent: Schema.Number.pipe(Schema.between(0, 100)),
+}));
+
+export const PaymentMethodSchema = schemaOf<PaymentMethod>()(Schema.Struct({
+  type: Schema.Literal("plasma", "session_credit"),
+  name: Schema.String,
+  available: Schema.Boolean,
+  terms: Schema.optional(ChainPaymentTermsSchema),
+}));
+
+export const PaymentRequiredResponseSchema = schemaOf<PaymentRequiredResponse>()(Schema.Struct({
+  status: Schema.Literal(402),
+  message: Schema.String,
+  challenge: PaymentChallengeSchema,
+  preview: Schema.optional(ContentPreviewSchema),
+  acceptedPaymentMethods: Schema.Array(PaymentMethodSchema),
+}));
+
+// ============================================
+// Receipts, Sessions and Verification
+// ============================================
+
+export const ReceiptSchema = schemaOf<Receipt>()(Schema.Struct({
+  receiptId: Schema.String,
+  challengeId: Schema.String,
+  resourceId: Schema.String,
+  price: MoneySchema,
+  amountPaid: Schema.NonNegativeInt,
+  currency: Schema.String,
+  transactionRef: Schema.String,
+  verifiedAt: Timestamp,
+  expiresAt: Timestamp,
+  creditsPurchased: Schema.NonNegativeInt,
+  status: Schema.Literal("confirmed", "pending", "reorged"),
+  chainId: Schema.optional(ChainId),
+  txHash: Schema.optional(Schema.String),
+  explorerUrl: Schema.optional(Schema.String),
+  blockNumber: Schema.optional(Schema.NonNegativeInt),
+  blockHash: Schema.optional(Schema.String),
+  amountAsset: Schema.optional(MoneySchema),
+  amountNative: Schema.optional(Schema.String),
+  payerAddress: Schema.optional(Schema.String),
+  payeeAddress: Schema.optional(Schema.String),
+  signature: Schema.optional(Schema.String),
+}));
+
+/** Receipt signing keys (see receipt-signature.ts) */
+export const ReceiptJwksSchema = schemaOf<ReceiptJwks>()(Schema.Struct({
+  keys: Schema.Array(
+    Schema.Struct({
+      kty: Schema.Literal("OKP"),
+      crv: Schema.Literal("Ed25519"),
+      alg: Schema.Literal("EdDSA"),
+      use: Schema.Literal("sig"),
+      kid: Schema.String,
+      x: Schema.String,
+    })
+  ),
+}));
+
+export const SessionTokenSchema = schemaOf<SessionToken>()(Schema.Struct({
+  tokenId: Schema.String,
+  credits: Schema.Int,
+  currency: Schema.String,
+  createdAt: Timestamp,
+  expiresAt: Timestamp,
+  accessCount: Schema.NonNegativeInt,
+}));
+
+export const SessionCaveatSchema = schemaOf<SessionCaveat>()(Schema.Union(
+  Schema.Struct({ type: Schema.Literal("credits"), max: Schema.NonNegativeInt }),
+  Schema.Struct({ type: Schema.Literal("path"), prefix: Schema.String }),
+  Schema.Struct({ type: Schema.Literal("expires"), at: Timestamp }),
+  Schema.Struct({ type: Schema.Literal("origin"), origin: Schema.String })
+));
+
+export const EntitlementSchema = schemaOf<Entitlement>()(Schema.Struct({
+  tokenId: Schema.String,
+  resourceId: Schema.String,
+  creditsSpent: Schema.NonNegativeInt,
+  grantedAt: Timestamp,
+  expiresAt: Timestamp,
+}));
+
+export const BalanceResponseSchema = schemaOf<BalanceResponse>()(Schema.Struct({
+  creditsRemaining: Schema.Int,
+  currency: Schema.String,
+  expiresAt: Timestamp,
+}));
+
+export const TopupRequestSchema = schemaOf<TopupRequest>()(Schema.Struct({
+  credits: Schema.optional(Schema.Int.pipe(Schema.positive())),
+  plan: Schema.optional(Schema.Literal("starter", "pro")),
+}));
+
+export const VerifyRequestSchema = schemaOf<VerifyRequest>()(Schema.Struct({
+  challengeId: Schema.NonEmptyString,
+  txHash: Schema.optional(Schema.String),
+  transactionRef: Schema.optional(Schema.String),
+  payerAddress: Schema.optional(Schema.String),
+  chainId: Schema.optional(ChainId),
+}));
+
+export const VerifyResponseSchema = schemaOf<VerifyResponse>()(Schema.Struct({
+  receipt: ReceiptSchema,
+  sessionToken: SessionTokenSchema,
+  creditsRemaining: Schema.Int,
+}));
+
+const VerificationStatusSchema = Schema.Literal("queued", "awaiting_confirmations", "confirmed", "failed");
+
+export const VerifyAcceptedResponseSchema = schemaOf<VerifyAcceptedResponse>()(Schema.Struct({
+  verificationId: Schema.String,
+  status: VerificationStatusSchema,
+  accessToken: Schema.String,
+  statusUrl: Schema.String,
+  eventsUrl: Schema.String,
+}));
+
+// ============================================
+// API Errors
+// ============================================
+
+const errorFields = {
+  message: Schema.String,
+  timestamp: Timestamp,
+};
+
+export const NotFoundErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("NotFoundError"),
+  ...errorFields,
+  resourceType: Schema.String,
+  resourceId: Schema.String,
+});
+
+export const PaymentRequiredErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("PaymentRequiredError"),
+  ...errorFields,
+  challenge: PaymentChallengeSchema,
+});
+
+export const InvalidPaymentErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("InvalidPaymentError"),
+  ...errorFields,
+  reason: Schema.String,
+  challengeId: Schema.String,
+});
+
+export const SessionExpiredErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("SessionExpiredError"),
+  ...errorFields,
+  tokenId: Schema.String,
+  expiredAt: Timestamp,
+});
+
+export const InsufficientCreditsErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("InsufficientCreditsError"),
+  ...errorFields,
+  required: Schema.Int,
+  available: Schema.Int,
+  currency: Schema.String,
+  challenge: Schema.optional(PaymentChallengeSchema),
+});
+
+export const PaymentPendingErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("PaymentPendingError"),
+  ...errorFields,
+  challengeId: Schema.String,
+  confirmations: Schema.NonNegativeInt,
+  requiredConfirmations: Schema.NonNegativeInt,
+});
+
+export const InternalErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("InternalError"),
+  ...errorFields,
+  cause: Schema.optional(Schema.Unknown),
+});
+
+export const ValidationErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("ValidationError"),
+  ...errorFields,
+  field: Schema.String,
+  reason: Schema.String,
+});
+
+export const PolicyViolationErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("PolicyViolationError"),
+  ...errorFields,
+  reason: Schema.Literal("max_per_action", "daily_cap", "origin_blocked", "path_blocked"),
+  limit: Schema.Int,
+  attempted: Schema.Int,
+  subjectType: Schema.Literal("user", "agent"),
+  subjectId: Schema.String,
+});
+
+export const AgentNotAuthorisedErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("AgentNotAuthorisedError"),
+  ...errorFields,
+  agentToken: Schema.String,
+  reason: Schema.String,
+});
+
+export const UnauthorizedErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("UnauthorizedError"),
+  ...errorFields,
+  reason: Schema.String,
+});
+
+export const SessionCaveatErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("SessionCaveatError"),
+  ...errorFields,
+  caveat: Schema.Literal("credits", "path", "origin"),
+  reason: Schema.String,
+});
+
+export const ApiErrorSchema = schemaOf<ApiError>()(Schema.Union(
+  NotFoundErrorSchema,
+  PaymentRequiredErrorSchema,
+  InvalidPaymentErrorSchema,
+  SessionExpiredErrorSchema,
+  InsufficientCreditsErrorSchema,
+  PaymentPendingErrorSchema,
+  InternalErrorSchema,
+  ValidationErrorSchema,
+  PolicyViolationErrorSchema,
+  AgentNotAuthorisedErrorSchema,
+  UnauthorizedErrorSchema,
+  SessionCaveatErrorSchema
+));
+
+export const VerificationJobSchema = schemaOf<VerificationJob>()(Schema.Struct({
+  verificationId: Schema.String,
+  challengeId: Schema.String,
+  transactionRef: Schema.String,
+  status: VerificationStatusSchema,
+  confirmations: Schema.optional(Schema.NonNegativeInt),
+  requiredConfirmations: Schema.optional(Schema.NonNegativeInt),
+  receipt: Schema.optional(ReceiptSchema),
+  sessionToken: Schema.optional(SessionTokenSchema),
+  error: Schema.optional(ApiErrorSchema),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}));
+
+// ============================================
+// Spend Policy, Users and Agents
+// ============================================
+
+/** A spend policy as sent over HTTP (see SpendPolicyJson) */
+export const SpendPolicyJsonSchema = schemaOf<SpendPolicyJson>()(Schema.Struct({
+  maxPerActionCents: Schema.NonNegativeInt,
+  dailyCapCents: Schema.NonNegativeInt,
+  autoApproveUnderCents: Schema.NonNegativeInt,
+  requireConfirmAboveCents: Schema.NonNegativeInt,
+  allowedOrigins: Schema.Array(Schema.String),
+  allowedPaths: Schema.Array(Schema.String),
+}));
+
+/** SpendPolicy ⇄ SpendPolicyJson */
+export const SpendPolicySchema = schemaOf<SpendPolicy>()(Schema.Struct({
+  maxPerAction: Schema.propertySignature(UsdCentsSchema).pipe(Schema.fromKey("maxPerActionCents")),
+  dailyCap: Schema.propertySignature(UsdCentsSchema).pipe(Schema.fromKey("dailyCapCents")),
+  autoApproveUnder: Schema.propertySignature(UsdCentsSchema).pipe(Schema.fromKey("autoApproveUnderCents")),
+  requireConfirmAbove: Schema.propertySignature(UsdCentsSchema).pipe(Schema.fromKey("requireConfirmAboveCents")),
+  allowedOrigins: Schema.Array(Schema.String),
+  allowedPaths: Schema.Array(Schema.String),
+}));
+
+export const UserSchema = schemaOf<User>()(Schema.Struct({
+  userId: Schema.String,
+  name: Schema.String,
+  createdAt: Timestamp,
+  walletAddress: Schema.optional(Schema.String),
+}));
+
+export const AgentSchema = schemaOf<Agent>()(Schema.Struct({
+  agentId: Schema.String,
+  agentToken: Schema.String,
+  userId: Schema.String,
+  policy: SpendPolicySchema,
+  name: Schema.String,
+  createdAt: Timestamp,
+  lastUsedAt: Schema.optional(Timestamp),
+}));
+
+// ============================================
+// Articles
+// ============================================
+
+export const ArticleSchema = schemaOf<Article>()(Schema.Struct({
+  id: Schema.String,
+  title: Schema.String,
+  author: Schema.String,
+  preview: Schema.String,
+  premiumContent: Schema.String,
+  price: Schema.NonNegativeInt,
+  creditCost: Schema.optional(Schema.NonNegativeInt),
+  currency: Schema.String,
+  publishedAt: Timestamp,
+  readTimeMinutes: Schema.NonNegativeInt,
+  tags: Schema.Array(Schema.String),
+}));
+
+export const ArticleResponseSchema = schemaOf<ArticleResponse>()(Schema.Struct({
+  article: ArticleSchema,
+  hasFullAccess: Schema.Boolean,
+  content: Schema.String,
+  entitledUntil: Schema.optional(Timestamp),
+}));
+
+// ============================================
+// Open x402 (see interop.ts)
+// ============================================
+
+export const X402PaymentRequirementsSchema = schemaOf<X402PaymentRequirements>()(Schema.Struct({
+  scheme: Schema.Literal("decagon-tx", "exact"),
+  network: Schema.String,
+  maxAmountRequired: IntegerString,
+  resource: Schema.String,
+  description: Schema.String,
+  mimeType: Schema.String,
+  payTo: Schema.String,
+  maxTimeoutSeconds: Schema.NonNegativeInt,
+  asset: Schema.String,
+  extra: Schema.Struct({
+    name: Schema.String,
+    version: Schema.optional(Schema.String),
+    decimals: Schema.optional(Schema.NonNegativeInt),
+    challengeId: Schema.String,
+    paymentReference: Schema.optional(Schema.String),
+  }),
+}));
+
+export const X402PaymentRequiredResponseSchema = schemaOf<X402PaymentRequiredResponse>()(Schema.Struct({
+  x402Version: Schema.Int,
+  error: Schema.String,
+  accepts: Schema.Array(X402PaymentRequirementsSchema),
+}));
+
+const HexBytes32 = Schema.String.pipe(
+  Schema.pattern(/^0x[0-9a-fA-F]{64}$/, { message: () => "Expected 32 bytes of hex" })
+);
+
+const HexAddress = Schema.String.pipe(
+  Schema.pattern(/^0x[0-9a-fA-F]{40}$/, { message: () => "Expected a 20-byte hex address" })
+);
+
+const Uint256String = Schema.String.pipe(
+  Schema.pattern(/^\d{1,78}$/, { message: () => "Expected an unsigned integer string" })
+);
+
+export const TransferAuthorizationSchema = schemaOf<TransferAuthorization>()(Schema.Struct({
+  from: HexAddress,
+  to: HexAddress,
+  value: Uint256String,
+  validAfter: Uint256String,
+  validBefore: Uint256String,
+  nonce: HexBytes32,
+}));
+
+export const X402PaymentPayloadSchema = schemaOf<X402PaymentPayload>()(Schema.Union(
+  Schema.Struct({
+    x402Version: Schema.Literal(1),
+    scheme: Schema.Literal("decagon-tx"),
+    network: Schema.String,
+    payload: Schema.Struct({
+      challengeId: Schema.NonEmptyString,
+      txHash: Schema.String.pipe(
+        Schema.pattern(/^0x[0-9a-fA-F]{64}$/, { message: () => "Expected a 32-byte hex transaction hash" })
+      ),
+      payer: Schema.optional(Schema.String),
+    }),
+  }),
+  Schema.Struct({
+    x402Version: Schema.Literal(1),
+    scheme: Schema.Literal("exact"),
+    network: Schema.String,
+    payload: Schema.Struct({
+      signature: Schema.String.pipe(
+        Schema.pattern(/^0x[0-9a-fA-F]{130}$/, { message: () => "Expected a 65-byte hex signature" })
+      ),
+      authorization: TransferAuthorizationSchema,
+    }),
+  })
+));
+
+export const X402SettlementResponseSchema = schemaOf<X402SettlementResponse>()(Schema.Struct({
+  success: Schema.Boolean,
+  transaction: Schema.String,
+  network: Schema.String,
+  payer: Schema.optional(Schema.String),
+  errorReason: Schema.optional(Schema.String),
+  sessionToken: Schema.optional(Schema.String),
+}));
+
+// ============================================
+// Decoding
+// ============================================
+
+/**
+ * ValidationError for a failed decode, naming the first offending field
+ * by its path (e.g. "policy.dailyCapCents"), or "body" for the whole input
+ */
+export const toValidationError = (error: ParseResult.ParseError): ValidationError => {
+  const [issue] = ParseResult.ArrayFormatter.formatErrorSync(error);
+  const field = issue && issue.path.length > 0 ? issue.path.join(".") : "body";
+  const reason = issue?.message ?? error.message;
+  return {
+    _tag: "ValidationError",
+    message: `Invalid ${field}: ${reason}`,
+    timestamp: new Date().toISOString(),
+    field,
+    reason,
+  };
+};
+
+/**
+ * Decode untrusted input (e.g. a request body) with a wire schema
+ */
+export const decodeWire = <A, I>(
+  schema: Schema.Schema<A, I>,
+  input: unknown
+): Either.Either<A, ValidationError> =>
+  Schema.decodeUnknownEither(schema)(input).pipe(Either.mapLeft(toValidationError));
+
+/**
+ * Encode a value to its JSON form with a wire schema
+ */
+export const encodeWire = <A, I>(schema: Schema.Schema<A, I>, value: NoInfer<A>): I =>
+  Schema.encodeSync(schema)(value);
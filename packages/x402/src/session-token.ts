@@ -0,0 +1,220 @@
+/**
+ * Session Tokens
+ *
+ * A session is addressed by a macaroon-style bearer token rather than its
+ * bare id. The server mints `dst1.<session id>.<signature>`, where the
+ * signature is an HMAC-SHA256 of the id under a server secret. Anyone
+ * holding a token can narrow it offline with `attenuateSessionToken`:
+ * each caveat is appended and the signature is re-keyed with the previous
+ * one, `sig' = HMAC(sig, caveat)`. Caveats can be added but never removed,
+ * since that would need an earlier signature.
+ *
+ * Caveats:
+ * - `credits=N`  at most N credits may be spent through this token and any
+ *                token derived from it
+ * - `path=/p`    only resources at /p or below it may be unlocked, matched
+ *                by whole segments (/article/1 does not cover /article/10)
+ * - `expires=T`  the token stops working at T (ISO 8601)
+ * - `origin=O`   only requests from origin O are accepted
+ *
+ * A token with a caveat this module does not know is rejected.
+ */
+
+import { Either, Encoding } from "effect";
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils.js";
+
+export const SESSION_TOKEN_PREFIX = "dst1";
+
+// ============================================
+// Types
+// ============================================
+
+export type SessionCaveat =
+  | { readonly type: "credits"; readonly max: number }
+  | { readonly type: "path"; readonly prefix: string }
+  | { readonly type: "expires"; readonly at: string }
+  | { readonly type: "origin"; readonly origin: string };
+
+/**
+ * Spending cap set by a `credits` caveat. The key is derived from the
+ * token's signature at that caveat, so every token attenuated from it
+ * draws on the same budget.
+ */
+export interface CreditBudget {
+  readonly key: string;
+  readonly limit: number;
+}
+
+export type OpenedSessionToken =
+  | {
+      readonly valid: true;
+      /** Session the token addresses */
+      readonly tokenId: string;
+      readonly caveats: readonly SessionCaveat[];
+      readonly budgets: readonly CreditBudget[];
+    }
+  | { readonly valid: false; readonly reason: string };
+
+/**
+ * The request a token is presented with, for checking its caveats
+ */
+export interface SessionTokenRequest {
+  /** Current time, ISO 8601 */
+  readonly now: string;
+  /** Path of the resource being unlocked */
+  readonly path?: string;
+  /** Origin the request came from */
+  readonly origin?: string;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+const encodeCaveat = (caveat: SessionCaveat): string => {
+  switch (caveat.type) {
+    case "credits":
+      return `credits=${caveat.max}`;
+    case "path":
+      return `path=${caveat.prefix}`;
+    case "expires":
+      return `expires=${caveat.at}`;
+    case "origin":
+      return `origin=${caveat.origin}`;
+  }
+};
+
+const decodeCaveat = (text: string): SessionCaveat | null => {
+  const separator = text.indexOf("=");
+  if (separator < 0) return null;
+  const value = text.slice(separator + 1);
+  switch (text.slice(0, separator)) {
+    case "credits":
+      return /^\d+$/.test(value) ? { type: "credits", max: Number(value) } : null;
+    case "path":
+      return value.startsWith("/") ? { type: "path", prefix: value } : null;
+    case "expires":
+      return Number.isNaN(Date.parse(value)) ? null : { type: "expires", at: value };
+    case "origin":
+      return value ? { type: "origin", origin: value } : null;
+    default:
+      return null;
+  }
+};
+
+const decodeSegment = (segment: string): string | null => {
+  const text = Encoding.decodeBase64UrlString(segment);
+  return Either.isRight(text) ? text.right : null;
+};
+
+const chain = (key: Uint8Array, message: string): Uint8Array => hmac(sha256, key, utf8ToBytes(message));
+
+/** Constant-time comparison, so a forged signature leaks nothing through timing */
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+  return diff === 0;
+};
+
+/**
+ * Whether `path` is `prefix` or lies below it. A prefix ending in "/"
+ * already marks a segment boundary.
+ */
+const pathWithin = (path: string, prefix: string): boolean =>
+  path === prefix ||
+  (path.startsWith(prefix) && (prefix.endsWith("/") || path.charAt(prefix.length) === "/"));
+
+// ============================================
+// Minting and Attenuation
+// ============================================
+
+/**
+ * Token for a session, without caveats
+ */
+export const mintSessionToken = (tokenId: string, secret: Uint8Array): string =>
+  [
+    SESSION_TOKEN_PREFIX,
+    Encoding.encodeBase64Url(tokenId),
+    Encoding.encodeBase64Url(chain(secret, tokenId)),
+  ].join(".");
+
+/**
+ * Narrow a token with one more caveat. Needs no secret, so holders can
+ * hand out weaker tokens offline. Returns null if `token` is malformed.
+ */
+export const attenuateSessionToken = (token: string, caveat: SessionCaveat): string | null => {
+  const parts = token.split(".");
+  if (parts[0] !== SESSION_TOKEN_PREFIX || parts.length < 3) return null;
+  const signature = Encoding.decodeBase64Url(parts[parts.length - 1]!);
+  if (Either.isLeft(signature)) return null;
+  const encoded = encodeCaveat(caveat);
+  return [
+    ...parts.slice(0, -1),
+    Encoding.encodeBase64Url(encoded),
+    Encoding.encodeBase64Url(chain(signature.right, encoded)),
+  ].join(".");
+};
+
+// ============================================
+// Verification
+// ============================================
+
+const invalid = (reason: string): OpenedSessionToken => ({ valid: false, reason });
+
+/**
+ * Check a token's signature chain and read the session and caveats it
+ * carries. Caveats are not checked against a request here (see
+ * checkSessionCaveats).
+ */
+export const openSessionToken = (token: string, secret: Uint8Array): OpenedSessionToken => {
+  const parts = token.split(".");
+  if (parts[0] !== SESSION_TOKEN_PREFIX || parts.length < 3) return invalid("Malformed session token");
+
+  const tokenId = decodeSegment(parts[1]!);
+  const signature = Encoding.decodeBase64Url(parts[parts.length - 1]!);
+  if (!tokenId || Either.isLeft(signature)) return invalid("Malformed session token");
+
+  let expected = chain(secret, tokenId);
+  const caveats: SessionCaveat[] = [];
+  const budgets: CreditBudget[] = [];
+  for (const segment of parts.slice(2, -1)) {
+    const text = decodeSegment(segment);
+    const caveat = text === null ? null : decodeCaveat(text);
+    if (!text || !caveat) return invalid("Unknown session token caveat");
+    expected = chain(expected, text);
+    caveats.push(caveat);
+    if (caveat.type === "credits") {
+      // Hashed, so a stored key cannot be used to extend the token
+      budgets.push({ key: bytesToHex(sha256(expected)), limit: caveat.max });
+    }
+  }
+
+  if (!sameBytes(expected, signature.right)) return invalid("Session token signature does not match");
+  return { valid: true, tokenId, caveats, budgets };
+};
+
+/**
+ * Check caveats against the request a token is presented with. Returns the
+ * first caveat the request breaks, or null. A path or origin caveat is
+ * broken by a request with no path or origin. Credit caveats are enforced
+ * when credits are spent, through the token's budgets.
+ */
+export const checkSessionCaveats = (
+  caveats: readonly SessionCaveat[],
+  request: SessionTokenRequest
+): SessionCaveat | null =>
+  caveats.find((caveat) => {
+    switch (caveat.type) {
+      case "credits":
+        return false;
+      case "path":
+        return request.path === undefined || !pathWithin(request.path, caveat.prefix);
+      case "expires":
+        return Date.parse(caveat.at) <= Date.parse(request.now);
+      case "origin":
+        return request.origin === undefined || request.origin.toLowerCase() !== caveat.origin.toLowerCase();
+    }
+  }) ?? null;
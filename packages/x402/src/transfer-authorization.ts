@@ -0,0 +1,201 @@
+/**
+ * Transfer Authorizations (EIP-3009)
+ *
+ * The payload of the x402 "exact" scheme: the payer signs an EIP-712
+ * `TransferWithAuthorization` message for the token contract, and whoever
+ * holds it (here the server) submits `transferWithAuthorization` on chain,
+ * paying the gas. The token moves straight from payer to payee.
+ *
+ * The EIP-712 domain is the token's own: its name and version as the
+ * contract declares them, the chain id and the contract address.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * The signed message; integers are decimal strings, as x402 sends them
+ */
+export interface TransferAuthorization {
+  readonly from: string;
+  readonly to: string;
+  /** Amount in the token's smallest unit */
+  readonly value: string;
+  /** Unix seconds the authorization becomes valid after */
+  readonly validAfter: string;
+  /** Unix seconds the authorization is valid before */
+  readonly validBefore: string;
+  /** 32-byte hex, unique per authorizer */
+  readonly nonce: string;
+}
+
+/**
+ * EIP-712 domain of the token contract
+ */
+export interface TransferAuthorizationDomain {
+  readonly name: string;
+  readonly version: string;
+  readonly chainId: number;
+  readonly verifyingContract: string;
+}
+
+// ============================================
+// Hashing
+// ============================================
+
+const keccakText = (text: string): Uint8Array => keccak_256(utf8ToBytes(text));
+
+const DOMAIN_TYPEHASH = keccakText(
+  "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+);
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPEHASH = bytesToHex(
+  keccakText(
+    "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+  )
+);
+
+/** One ABI word: a uint256 */
+const uintWord = (value: bigint | number | string): Uint8Array =>
+  hexToBytes(BigInt(value).toString(16).padStart(64, "0"));
+
+/** One ABI word: an address, left-padded */
+const addressWord = (address: string): Uint8Array =>
+  hexToBytes(address.toLowerCase().replace(/^0x/, "").padStart(64, "0"));
+
+/** One ABI word: a bytes32 */
+const bytes32Word = (hex: string): Uint8Array => hexToBytes(hex.replace(/^0x/, "").padStart(64, "0"));
+
+/**
+ * EIP-712 domain separator of a token contract
+ */
+export const domainSeparatorOf = (domain: TransferAuthorizationDomain): string =>
+  bytesToHex(
+    keccak_256(
+      concatBytes(
+        DOMAIN_TYPEHASH,
+        keccakText(domain.name),
+        keccakText(domain.version),
+        uintWord(domain.chainId),
+        addressWord(domain.verifyingContract)
+      )
+    )
+  );
+
+/**
+ * The digest the payer signs: keccak256("\x19\x01" ‖ domainSeparator ‖ hashStruct(authorization))
+ */
+export const transferAuthorizationDigest = (
+  domain: TransferAuthorizationDomain,
+  authorization: TransferAuthorization
+): Uint8Array => {
+  const structHash = keccak_256(
+    concatBytes(
+      hexToBytes(TRANSFER_WITH_AUTHORIZATION_TYPEHASH),
+      addressWord(authorization.from),
+      addressWord(authorization.to),
+      uintWord(authorization.value),
+      uintWord(authorization.validAfter),
+      uintWord(authorization.validBefore),
+      bytes32Word(authorization.nonce)
+    )
+  );
+  return keccak_256(concatBytes(new Uint8Array([0x19, 0x01]), hexToBytes(domainSeparatorOf(domain)), structHash));
+};
+
+// ============================================
+// Signatures
+// ============================================
+
+/**
+ * Whether the authorization's fields are well formed: addresses, unsigned
+ * integers and a 32-byte nonce
+ */
+export const isWellFormedAuthorization = (authorization: TransferAuthorization): boolean =>
+  /^0x[0-9a-fA-F]{40}$/.test(authorization.from) &&
+  /^0x[0-9a-fA-F]{40}$/.test(authorization.to) &&
+  [authorization.value, authorization.validAfter, authorization.validBefore].every((n) => /^\d{1,78}$/.test(n)) &&
+  /^0x[0-9a-fA-F]{64}$/.test(authorization.nonce);
+
+/**
+ * Sign an authorization as a wallet's `eth_signTypedData_v4` would:
+ * 65-byte hex r, s, v with v as 27/28
+ */
+export const signTransferAuthorization = (
+  domain: TransferAuthorizationDomain,
+  authorization: TransferAuthorization,
+  secretKey: Uint8Array
+): string => {
+  const signature = secp256k1.sign(transferAuthorizationDigest(domain, authorization), secretKey, {
+    prehash: false,
+    format: "recovered",
+  });
+  return `0x${bytesToHex(signature.slice(1))}${(signature[0]! + 27).toString(16)}`;
+};
+
+/**
+ * Recover the lowercase address that signed the authorization, or null if
+ * the authorization or signature is malformed or recovers no key
+ */
+export const recoverAuthorizationSigner = (
+  domain: TransferAuthorizationDomain,
+  authorization: TransferAuthorization,
+  signature: string
+): string | null => {
+  if (!isWellFormedAuthorization(authorization) || !/^0x[0-9a-fA-F]{130}$/.test(signature)) return null;
+  const bytes = hexToBytes(signature.slice(2));
+  const v = bytes[64]!;
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) return null;
+
+  try {
+    const publicKey = secp256k1.Signature.fromBytes(bytes.slice(0, 64), "compact")
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(transferAuthorizationDigest(domain, authorization))
+      .toBytes(false);
+    return `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+  } catch {
+    return null;
+  }
+};
+
+// ============================================
+// Calldata
+// ============================================
+
+const TRANSFER_WITH_AUTHORIZATION_SELECTOR = keccakText(
+  "transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)"
+).slice(0, 4);
+
+/**
+ * Calldata for `transferWithAuthorization(from, to, value, validAfter,
+ * validBefore, nonce, v, r, s)`, optionally followed by a reference the
+ * contract ignores (see carriesReference in @decagon/core)
+ */
+export const transferWithAuthorizationCalldata = (
+  authorization: TransferAuthorization,
+  signature: string,
+  reference?: string
+): string => {
+  const bytes = hexToBytes(signature.replace(/^0x/, ""));
+  const v = bytes[64]! < 27 ? bytes[64]! + 27 : bytes[64]!;
+  return `0x${bytesToHex(
+    concatBytes(
+      TRANSFER_WITH_AUTHORIZATION_SELECTOR,
+      addressWord(authorization.from),
+      addressWord(authorization.to),
+      uintWord(authorization.value),
+      uintWord(authorization.validAfter),
+      uintWord(authorization.validBefore),
+      bytes32Word(authorization.nonce),
+      uintWord(v),
+      bytes.slice(0, 32),
+      bytes.slice(32, 64)
+    )
+  )}${reference ? reference.replace(/^0x/, "") : ""}`;
+};
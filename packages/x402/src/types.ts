@@ -2,9 +2,13 @@
  * @decagon/x402 - HTTP 402 Protocol Types
  * 
  * This package defines the core protocol types for Decagon's
- * pay-per-use payment layer. No implementation, types only.
+ * pay-per-use payment layer. No implementation, types only
+ * (amount helpers live in money.ts and encoding.ts, runtime schemas
+ * in schemas.ts).
  */
 
+import { usd, type Money } from "./money.js";
+
 // ============================================
 // Constants
 // ============================================
@@ -14,6 +18,9 @@ export const TOPUP_CREDITS = 100;
 export const TOPUP_PRICE_CENTS = 50;
 export const SESSION_EXPIRY_HOURS = 24;
 export const CHALLENGE_EXPIRY_MINUTES = 10;
+export const ENTITLEMENT_EXPIRY_HOURS = 24;
+export const REORG_RECHECK_WINDOW_MINUTES = 60;
+export const VERIFICATION_POLL_SECONDS = 3;
 
 // ============================================
 // Payment Challenge (sent with 402 response)
@@ -26,7 +33,9 @@ export const CHALLENGE_EXPIRY_MINUTES = 10;
 export interface PaymentChallenge {
   readonly challengeId: string;
   readonly resourceId: string;
-  /** Amount in cents for display purposes */
+  /** Price in USD cents */
+  readonly price: Money;
+  /** Legacy mirror of `price`, in cents */
   readonly amountRequired: number;
   readonly currency: string;
   readonly chain: string;
@@ -43,12 +52,77 @@ export interface PaymentChallenge {
   readonly assetType: "NATIVE" | "ERC20";
   /** Asset symbol (e.g., "XPL" for Plasma native token) */
   readonly assetSymbol: string;
-  /** Amount in wei (smallest unit) as string to avoid precision issues */
+  /** Amount to pay on this chain, in the asset's smallest unit */
+  readonly amount: Money;
+  /** Legacy mirror of `amount`: smallest units as a string */
   readonly amountWei: string;
   /** Address to receive payment */
   readonly payeeAddress: string;
   /** Base URL for transaction explorer (e.g., "https://testnet.plasmascan.to/tx/") */
   readonly explorerTxBase: string;
+  /** Expected payer; when set, the paying transaction must come from this address */
+  readonly payerAddress?: string;
+  /** Unique reference the paying transaction must carry in its calldata */
+  readonly paymentReference?: string;
+  /** Derivation index of `payTo` under the deposit xpub, when it is a per-challenge address */
+  readonly depositIndex?: number;
+  /**
+   * Every chain/asset this challenge can be paid with. The top-level
+   * chain fields above mirror the default (first) entry.
+   */
+  readonly acceptedChains?: readonly ChainPaymentTerms[];
+}
+
+/**
+ * What paying a challenge on one particular chain takes
+ */
+export interface ChainPaymentTerms {
+  readonly chainId: number;
+  readonly chain: string;
+  readonly assetType: "NATIVE" | "ERC20";
+  readonly assetSymbol: string;
+  /** ERC20 token contract (only for assetType "ERC20") */
+  readonly tokenAddress?: string;
+  /** Decimals of the asset (18 for XPL, 6 for USDT) */
+  readonly assetDecimals?: number;
+  /** Amount in the asset's smallest unit, as string */
+  readonly amountWei: string;
+  readonly payeeAddress: string;
+  readonly explorerTxBase: string;
+  /** The price quote amountWei was computed from */
+  readonly quote?: PriceQuote;
+  /**
+   * The token's EIP-712 name and version, when the server settles signed
+   * EIP-3009 transfer authorizations on this chain (the x402 "exact" scheme)
+   */
+  readonly transferAuthorization?: {
+    readonly name: string;
+    readonly version: string;
+  };
+}
+
+// ============================================
+// Price Quotes
+// ============================================
+
+/** Where a price came from, in order of precedence */
+export type PriceSourceName = "override" | "feed" | "static";
+
+/**
+ * A cent price converted into one asset at the current rate.
+ * The amount is locked: it is what the payer owes until `lockedUntil`
+ * (the challenge's expiry), however the rate moves in the meantime.
+ */
+export interface PriceQuote {
+  readonly assetSymbol: string;
+  readonly cents: number;
+  /** Amount in the asset's smallest unit, as string */
+  readonly amountWei: string;
+  /** USD cents per whole unit of the asset at quote time */
+  readonly centsPerUnit: number;
+  readonly source: PriceSourceName;
+  readonly quotedAt: string;
+  readonly lockedUntil: string;
 }
 
 // ============================================
@@ -102,6 +176,9 @@ export interface PaymentMethod {
 
   /** Whether this method is currently available */
   readonly available: boolean;
+
+  /** On-chain methods: the chain/asset, amount and payee to pay with */
+  readonly terms?: ChainPaymentTerms;
 }
 
 // ============================================
@@ -116,13 +193,19 @@ export interface Receipt {
   readonly receiptId: string;
   readonly challengeId: string;
   readonly resourceId: string;
+  /** Price paid, in USD cents */
+  readonly price: Money;
+  /** Legacy mirror of `price`, in cents */
   readonly amountPaid: number;
   readonly currency: string;
   readonly transactionRef: string;
   readonly verifiedAt: string;
   readonly expiresAt: string;
   readonly creditsPurchased: number;
-  readonly status: "confirmed" | "pending";
+  /** "reorged" once the paying transaction left the canonical chain; its credits are revoked */
+  readonly status: "confirmed" | "pending" | "reorged";
+  /** Chain the payment was made on */
+  readonly chainId?: number;
   
   /** Transaction hash on the blockchain */
   readonly txHash?: string;
@@ -130,12 +213,18 @@ export interface Receipt {
   readonly explorerUrl?: string;
   /** Block number where tx was confirmed */
   readonly blockNumber?: number;
-  /** Amount in native token (e.g., "0.0001 XPL") */
+  /** Hash of that block, re-checked later to detect reorgs */
+  readonly blockHash?: string;
+  /** Amount transferred on chain, in the asset's smallest unit */
+  readonly amountAsset?: Money;
+  /** Display form of `amountAsset` (e.g., "0.000100 XPL") */
   readonly amountNative?: string;
   /** Payer's wallet address */
   readonly payerAddress?: string;
   /** Payee's wallet address */
   readonly payeeAddress?: string;
+  /** Compact JWS over the issuance claims, checked with `verifyReceipt` */
+  readonly signature?: string;
 }
 
 // ============================================
@@ -155,6 +244,19 @@ export interface SessionToken {
   readonly accessCount: number;
 }
 
+/**
+ * Records that a session has unlocked a resource.
+ * While it is valid, re-reading the resource costs no credits.
+ */
+export interface Entitlement {
+  readonly tokenId: string;
+  readonly resourceId: string;
+  /** Credits consumed when the resource was first unlocked */
+  readonly creditsSpent: number;
+  readonly grantedAt: string;
+  readonly expiresAt: string;
+}
+
 export interface BalanceResponse {
   readonly creditsRemaining: number;
   readonly currency: string;
@@ -169,6 +271,11 @@ export interface TopupRequest {
 export interface VerifyRequest {
   readonly challengeId: string;
   readonly txHash?: string;
+  /** Mock payment reference, accepted in place of txHash */
+  readonly transactionRef?: string;
+  readonly payerAddress?: string;
+  /** Chain the payment was sent on; defaults to the challenge's default chain */
+  readonly chainId?: number;
 }
 
 export interface VerifyResponse {
@@ -177,6 +284,49 @@ export interface VerifyResponse {
   readonly creditsRemaining: number;
 }
 
+/**
+ * Progress of an asynchronous verification:
+ * queued → awaiting_confirmations → confirmed | failed
+ */
+export type VerificationStatus = "queued" | "awaiting_confirmations" | "confirmed" | "failed";
+
+/**
+ * An asynchronous verification of one payment proof, created when
+ * POST /pay/verify is sent with `Prefer: respond-async`. The receipt and
+ * session are only shown to the caller holding the job's access token.
+ */
+export interface VerificationJob {
+  readonly verificationId: string;
+  readonly challengeId: string;
+  readonly transactionRef: string;
+  readonly status: VerificationStatus;
+  /** Confirmations seen so far (while awaiting_confirmations) */
+  readonly confirmations?: number;
+  readonly requiredConfirmations?: number;
+  /** Set once confirmed */
+  readonly receipt?: Receipt;
+  /** Set once confirmed, if the payment opened a session (a top-up keeps the caller's token) */
+  readonly sessionToken?: SessionToken;
+  /** Set once failed */
+  readonly error?: ApiError;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * Body of the 202 returned for an asynchronous verify
+ */
+export interface VerifyAcceptedResponse {
+  readonly verificationId: string;
+  readonly status: VerificationStatus;
+  /** Shown once: send it as a Bearer token to statusUrl to see the receipt and session */
+  readonly accessToken: string;
+  /** Poll for the current VerificationJob */
+  readonly statusUrl: string;
+  /** Server-sent events: one `status` event per transition; carries the access token */
+  readonly eventsUrl: string;
+}
+
 // ============================================
 // API Error (union type, no throwing)
 // ============================================
@@ -233,6 +383,18 @@ export interface InsufficientCreditsError extends BaseError {
   readonly required: number;
   readonly available: number;
   readonly currency: string;
+  /** Top-up challenge the client can pay to continue (if one was issued) */
+  readonly challenge?: PaymentChallenge;
+}
+
+/**
+ * Payment seen on chain but not yet deep enough to accept; retry later
+ */
+export interface PaymentPendingError extends BaseError {
+  readonly _tag: "PaymentPendingError";
+  readonly challengeId: string;
+  readonly confirmations: number;
+  readonly requiredConfirmations: number;
 }
 
 /**
@@ -258,7 +420,9 @@ export interface ValidationError extends BaseError {
 export interface PolicyViolationError extends BaseError {
   readonly _tag: "PolicyViolationError";
   readonly reason: "max_per_action" | "daily_cap" | "origin_blocked" | "path_blocked";
+  /** Limit that was hit, in cents */
   readonly limit: number;
+  /** Amount that would have exceeded it, in cents */
   readonly attempted: number;
   readonly subjectType: "user" | "agent";
   readonly subjectId: string;
@@ -273,6 +437,24 @@ export interface AgentNotAuthorisedError extends BaseError {
   readonly reason: string;
 }
 
+/**
+ * Missing or invalid user credentials (use with HTTP 401)
+ */
+export interface UnauthorizedError extends BaseError {
+  readonly _tag: "UnauthorizedError";
+  readonly reason: string;
+}
+
+/**
+ * Session token used outside the caveats it was attenuated with
+ * (use with HTTP 403). An expired token fails with SessionExpiredError.
+ */
+export interface SessionCaveatError extends BaseError {
+  readonly _tag: "SessionCaveatError";
+  readonly caveat: "credits" | "path" | "origin";
+  readonly reason: string;
+}
+
 /**
  * Union type of all API errors.
  * Use discriminated union pattern with _tag for type narrowing.
@@ -283,10 +465,13 @@ export type ApiError =
   | InvalidPaymentError
   | SessionExpiredError
   | InsufficientCreditsError
+  | PaymentPendingError
   | InternalError
   | ValidationError
   | PolicyViolationError
-  | AgentNotAuthorisedError;
+  | AgentNotAuthorisedError
+  | UnauthorizedError
+  | SessionCaveatError;
 
 // ============================================
 // Helper type guards
@@ -307,6 +492,9 @@ export const isSessionExpiredError = (e: ApiError): e is SessionExpiredError =>
 export const isInsufficientCreditsError = (e: ApiError): e is InsufficientCreditsError =>
   e._tag === "InsufficientCreditsError";
 
+export const isPaymentPendingError = (e: ApiError): e is PaymentPendingError =>
+  e._tag === "PaymentPendingError";
+
 export const isInternalError = (e: ApiError): e is InternalError =>
   e._tag === "InternalError";
 
@@ -319,6 +507,12 @@ export const isPolicyViolationError = (e: ApiError): e is PolicyViolationError =
 export const isAgentNotAuthorisedError = (e: ApiError): e is AgentNotAuthorisedError =>
   e._tag === "AgentNotAuthorisedError";
 
+export const isUnauthorizedError = (e: ApiError): e is UnauthorizedError =>
+  e._tag === "UnauthorizedError";
+
+export const isSessionCaveatError = (e: ApiError): e is SessionCaveatError =>
+  e._tag === "SessionCaveatError";
+
 // ============================================
 // Spend Policy (limits + allowlists)
 // ============================================
@@ -328,17 +522,17 @@ export const isAgentNotAuthorisedError = (e: ApiError): e is AgentNotAuthorisedE
  * Controls payment limits and allowed access patterns.
  */
 export interface SpendPolicy {
-  /** Maximum spend per single action (cents) */
-  readonly maxPerActionCents: number;
+  /** Maximum spend per single action */
+  readonly maxPerAction: Money;
 
-  /** Maximum daily spend (cents) */
-  readonly dailyCapCents: number;
+  /** Maximum daily spend */
+  readonly dailyCap: Money;
 
-  /** Auto-approve payments under this amount (cents) */
-  readonly autoApproveUnderCents: number;
+  /** Auto-approve payments up to this amount */
+  readonly autoApproveUnder: Money;
 
-  /** Require confirmation above this amount (cents) */
-  readonly requireConfirmAboveCents: number;
+  /** Require confirmation above this amount */
+  readonly requireConfirmAbove: Money;
 
   /** Allowed origins (e.g., ["http://localhost:3000"]) */
   readonly allowedOrigins: readonly string[];
@@ -351,10 +545,10 @@ export interface SpendPolicy {
  * Default spend policy for new users
  */
 export const DEFAULT_SPEND_POLICY: SpendPolicy = {
-  maxPerActionCents: 500,        // $5 max per action
-  dailyCapCents: 2000,           // $20 daily cap
-  autoApproveUnderCents: 100,    // Auto-approve under $1
-  requireConfirmAboveCents: 200, // Require confirm over $2
+  maxPerAction: usd(500),        // $5 max per action
+  dailyCap: usd(2000),           // $20 daily cap
+  autoApproveUnder: usd(100),    // Auto-approve under $1
+  requireConfirmAbove: usd(200), // Require confirm over $2
   allowedOrigins: ["*"],         // Allow all origins
   allowedPaths: ["*"],           // Allow all paths
 };
@@ -363,6 +557,18 @@ export const DEFAULT_SPEND_POLICY: SpendPolicy = {
 // Agent (scoped tokens with policies)
 // ============================================
 
+/**
+ * An account that owns a spend policy, agents and transfers.
+ * Authenticated with API keys, which are only stored hashed.
+ */
+export interface User {
+  readonly userId: string;
+  readonly name: string;
+  readonly createdAt: string;
+  /** Lowercase wallet address for users who signed in with Ethereum; receipts it paid belong to them */
+  readonly walletAddress?: string;
+}
+
 /**
  * Agent token for automated/AI access.
  * Agents have their own spend policies separate from users.
@@ -384,6 +590,23 @@ export type PolicyCheckResult =
   | { allowed: true; needsConfirm: boolean }
   | { allowed: false; error: PolicyViolationError };
 
+// ============================================
+// Resource pricing
+// ============================================
+
+/**
+ * Pricing declared by a paid resource.
+ * A resource can be unlocked either by spending session credits
+ * or by paying its direct-purchase price on-chain.
+ */
+export interface ResourcePricing {
+  /** Credits consumed from a session per unlock */
+  readonly creditCost: number;
+
+  /** Direct-purchase price in cents (the 402 challenge amount) */
+  readonly priceCents: number;
+}
+
 // ============================================
 // Article types (for content access)
 // ============================================
@@ -410,6 +633,9 @@ export interface Article {
   /** Price to unlock in smallest unit */
   readonly price: number;
 
+  /** Credits consumed per unlock (defaults to CREDITS_PER_UNLOCK) */
+  readonly creditCost?: number;
+
   /** Currency code */
   readonly currency: string;
 
@@ -435,4 +661,7 @@ export interface ArticleResponse {
 
   /** Content to display (preview or full) */
   readonly content: string;
+
+  /** When the session's free re-read access ends (if entitled) */
+  readonly entitledUntil?: string;
 }
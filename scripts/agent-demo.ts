@@ -150,6 +150,26 @@ async function agentDemo(): Promise<void> {
   console.log("PART 1: USER POLICY MANAGEMENT");
   console.log("=".repeat(60));
 
+  log("STEP 1.0", "🔑 Registering user...");
+  await sleep(300);
+
+  const registerRes = await fetch(`${API_BASE}/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "Agent Demo User" }),
+  });
+
+  if (!registerRes.ok) {
+    log("STEP 1.0", "❌ Failed to register user");
+    return;
+  }
+
+  const { user, apiKey } = await registerRes.json();
+  log("STEP 1.0", "✅ User registered", { userId: user.userId, apiKey: apiKey.slice(0, 12) + "..." });
+
+  // Policy, agent and transfer routes act for the user behind the API key
+  const userHeaders = { "Content-Type": "application/json", "X-Api-Key": apiKey };
+
   log("STEP 1.1", "📋 Setting user spend policy...");
   await sleep(300);
 
@@ -164,7 +184,7 @@ async function agentDemo(): Promise<void> {
 
   const policyRes = await fetch(`${API_BASE}/policy`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: userHeaders,
     body: JSON.stringify({ policy: userPolicy }),
   });
 
@@ -202,7 +222,7 @@ async function agentDemo(): Promise<void> {
 
   const strictAgentRes = await fetch(`${API_BASE}/agent/create`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: userHeaders,
     body: JSON.stringify({ 
       name: "Strict Research Agent", 
       policy: strictAgentPolicy 
@@ -237,7 +257,7 @@ async function agentDemo(): Promise<void> {
 
   const permissiveAgentRes = await fetch(`${API_BASE}/agent/create`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: userHeaders,
     body: JSON.stringify({ 
       name: "Permissive Research Agent", 
       policy: permissiveAgentPolicy 
@@ -362,7 +382,7 @@ async function agentDemo(): Promise<void> {
 
     const policyRes = await fetch(`${API_BASE}/policy/check`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: userHeaders,
       body: JSON.stringify({
         amountCents: challenge.amountRequired,
         path: `/article/${articleId}`,
@@ -387,7 +407,7 @@ async function agentDemo(): Promise<void> {
 
     const payResponse = await fetch(`${API_BASE}/pay/verify`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: userHeaders,
       body: JSON.stringify({
         challengeId: challenge.challengeId,
         transactionRef: `agent_tx_${Date.now()}`,
@@ -479,7 +499,7 @@ async function agentDemo(): Promise<void> {
 
       const verifyRes = await fetch(`${API_BASE}/pay/verify`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: userHeaders,
         body: JSON.stringify({
           challengeId: challenge.challengeId,
           txHash: txHash,
@@ -530,7 +550,7 @@ async function agentDemo(): Promise<void> {
 
   const transferRes = await fetch(`${API_BASE}/transfer/create`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: userHeaders,
     body: JSON.stringify({
       recipientAddress: RECIPIENT,
       note: "Agent-initiated rent payment",
@@ -553,7 +573,7 @@ async function agentDemo(): Promise<void> {
 
     const transferPolicyRes = await fetch(`${API_BASE}/policy/check`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: userHeaders,
       body: JSON.stringify({
         amountCents: transferChallenge.amountRequired,
         path: "/transfer",
@@ -573,7 +593,7 @@ async function agentDemo(): Promise<void> {
 
       const verifyRes = await fetch(`${API_BASE}/transfer/verify`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: userHeaders,
         body: JSON.stringify({
           challengeId: transferChallenge.challengeId,
           transactionRef: `agent_transfer_${Date.now()}`,
@@ -604,7 +624,7 @@ async function agentDemo(): Promise<void> {
   log("STEP 7.4", "📜 Checking transfer history...");
   await sleep(300);
 
-  const historyRes = await fetch(`${API_BASE}/transfer/history`);
+  const historyRes = await fetch(`${API_BASE}/transfer/history`, { headers: userHeaders });
   if (historyRes.ok) {
     const historyData = await historyRes.json();
     log("STEP 7.4", `✅ Found ${historyData.transfers?.length ?? 0} transfer(s) in history`);
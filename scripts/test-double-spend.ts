@@ -0,0 +1,147 @@
+#!/usr/bin/env npx tsx
+/**
+ * Double-Spend Test Script
+ *
+ * Tests:
+ *   1. Create two challenges (GET /article/:id → 402, twice)
+ *   2. Fire concurrent /pay/verify calls with the SAME txRef against both
+ *   3. Exactly one call succeeds, so one receipt and one session token exist
+ *   4. Every rejected call fails with InvalidPaymentError (not a 500)
+ *   5. A later verify with the same txRef and the issued token maps to that
+ *      one receipt; without the token it is rejected
+ *
+ * Run against an API started with USE_SQLITE=true to exercise the
+ * durable used_transactions registry.
+ *
+ * Usage:
+ *   npx tsx scripts/test-double-spend.ts [API_BASE]
+ *   # defaults to http://localhost:4000
+ */
+
+const API_BASE = process.argv[2] || "http://localhost:4000";
+
+const ARTICLE_ID = "article-1";
+const MOCK_TX_REF = `double_spend_test_${Date.now()}`;
+const CONCURRENT_REQUESTS = 6;
+
+interface Challenge {
+  challengeId: string;
+  resourceId: string;
+  amountRequired: number;
+}
+
+interface VerifyResult {
+  status: number;
+  body: {
+    success?: boolean;
+    receipt?: { receiptId: string; challengeId: string };
+    sessionToken?: { tokenId: string };
+    _tag?: string;
+    message?: string;
+  };
+}
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+async function getChallenge(): Promise<Challenge> {
+  const res = await fetch(`${API_BASE}/article/${ARTICLE_ID}`);
+  const data = await res.json();
+  return data.challenge as Challenge;
+}
+
+async function verify(challengeId: string, sessionToken?: string): Promise<VerifyResult> {
+  const res = await fetch(`${API_BASE}/pay/verify`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
+    },
+    body: JSON.stringify({
+      challengeId,
+      transactionRef: MOCK_TX_REF,
+      payerAddress: "0xTestDoubleSpend",
+    }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Double-Spend Test`);
+  console.log(`   API: ${API_BASE}\n`);
+
+  // ── Step 1: Two challenges ───────────────────────────────────
+  console.log("Step 1: Trigger 402 twice to get two PaymentChallenges");
+  const challengeA = await getChallenge();
+  const challengeB = await getChallenge();
+  assert(!!challengeA?.challengeId, `Got challenge A: ${challengeA?.challengeId}`);
+  assert(!!challengeB?.challengeId, `Got challenge B: ${challengeB?.challengeId}`);
+
+  // ── Step 2: Concurrent verifies with the same txRef ──────────
+  console.log(`\nStep 2: ${CONCURRENT_REQUESTS} concurrent /pay/verify calls with the same txRef`);
+  const results = await Promise.all(
+    Array.from({ length: CONCURRENT_REQUESTS }, (_, i) =>
+      verify(i % 2 === 0 ? challengeA.challengeId : challengeB.challengeId)
+    )
+  );
+  const ok = results.filter((r) => r.status >= 200 && r.status < 300);
+  const rejected = results.filter((r) => r.status >= 400);
+  console.log(`   ${ok.length} succeeded, ${rejected.length} rejected`);
+
+  // ── Step 3: Exactly one receipt ──────────────────────────────
+  console.log("\nStep 3: Exactly one verify succeeded");
+  assert(ok.length === 1, "One verify succeeded", `${ok.length} succeeded`);
+  const winner = ok[0]?.body;
+
+  // ── Step 4: Rejections are clean ─────────────────────────────
+  console.log("\nStep 4: Rejected verifies fail with InvalidPaymentError");
+  for (const r of rejected) {
+    assert(
+      r.status === 400 && r.body._tag === "InvalidPaymentError",
+      `HTTP ${r.status} ${r.body._tag}: ${r.body.message}`
+    );
+  }
+
+  // ── Step 5: Replay after the race ────────────────────────────
+  console.log("\nStep 5: Replaying the txRef later returns the same receipt to the token holder");
+  const paidChallengeId = winner?.receipt?.challengeId ?? challengeA.challengeId;
+  const replay = await verify(paidChallengeId, winner?.sessionToken?.tokenId);
+  assert(
+    replay.body.receipt?.receiptId !== undefined && replay.body.receipt.receiptId === winner?.receipt?.receiptId,
+    `Replay returned receipt ${replay.body.receipt?.receiptId ?? "<none>"}`,
+    `HTTP ${replay.status} ${replay.body.message ?? ""}`
+  );
+  assert(replay.body.sessionToken?.tokenId === winner?.sessionToken?.tokenId, "Replay kept the same session token");
+  const anonymous = await verify(paidChallengeId);
+  assert(
+    anonymous.status === 400 && anonymous.body._tag === "InvalidPaymentError",
+    "Replay without the token is rejected",
+    `HTTP ${anonymous.status} ${anonymous.body._tag}`
+  );
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
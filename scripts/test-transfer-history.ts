@@ -0,0 +1,134 @@
+#!/usr/bin/env npx tsx
+/**
+ * Transfer History Test Script
+ *
+ * Tests:
+ *   1. Register two users (POST /auth/register)
+ *   2. Sender creates a transfer (POST /transfer/create → 402 challenge)
+ *   3. Sender verifies it with a mock txRef (POST /transfer/verify)
+ *   4. Sender's GET /transfer/history lists that transfer
+ *   5. The other user's history is empty
+ *   6. Without an API key the route answers 401
+ *
+ * Usage:
+ *   npx tsx scripts/test-transfer-history.ts [API_BASE]
+ *   # defaults to http://localhost:4000
+ */
+
+const API_BASE = process.argv[2] || "http://localhost:4000";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const MOCK_TX_REF = `transfer_history_test_${Date.now()}`;
+
+interface TransferRecord {
+  receiptId: string;
+  challengeId: string;
+  resourceId: string;
+}
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, detail?: string) {
+  if (condition) {
+    console.log(`  ✅ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ❌ ${label}${detail ? ` — ${detail}` : ""}`);
+    failed++;
+  }
+}
+
+async function register(name: string): Promise<string> {
+  const res = await fetch(`${API_BASE}/auth/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  assert(res.status === 201, `Registered ${name} (HTTP ${res.status})`);
+  const data = await res.json();
+  return data.apiKey;
+}
+
+async function history(apiKey?: string): Promise<Response> {
+  return fetch(`${API_BASE}/transfer/history`, {
+    headers: apiKey ? { "X-Api-Key": apiKey } : {},
+  });
+}
+
+async function main() {
+  console.log(`\n🧪 Decagon Transfer History Test`);
+  console.log(`   API: ${API_BASE}\n`);
+
+  // ── Step 1: Users ────────────────────────────────────────────
+  console.log("Step 1: Register a sender and another user");
+  const senderKey = await register("History Sender");
+  const otherKey = await register("History Bystander");
+
+  // ── Step 2: Create transfer ──────────────────────────────────
+  console.log("\nStep 2: Sender creates a transfer");
+  const createRes = await fetch(`${API_BASE}/transfer/create`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Api-Key": senderKey },
+    body: JSON.stringify({ recipientAddress: RECIPIENT, amountCents: 100 }),
+  });
+  assert(createRes.ok, `Create succeeded (HTTP ${createRes.status})`);
+  const created = await createRes.json();
+  assert(created.status === 402, "Transfer asks for payment (status 402)");
+  const challengeId: string = created.challenge?.challengeId;
+  assert(!!challengeId, `Got challengeId: ${challengeId}`);
+
+  // ── Step 3: Verify transfer ──────────────────────────────────
+  console.log("\nStep 3: Sender verifies the transfer with a mock txRef");
+  const verifyRes = await fetch(`${API_BASE}/transfer/verify`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Api-Key": senderKey },
+    body: JSON.stringify({ challengeId, transactionRef: MOCK_TX_REF }),
+  });
+  assert(verifyRes.ok, `Verify succeeded (HTTP ${verifyRes.status})`);
+  const receiptId: string = (await verifyRes.json()).receipt?.receiptId;
+
+  // ── Step 4: Sender's history ─────────────────────────────────
+  console.log("\nStep 4: Sender's history lists the transfer");
+  const senderRes = await history(senderKey);
+  assert(senderRes.ok, `History endpoint OK (HTTP ${senderRes.status})`);
+  const senderTransfers: TransferRecord[] = (await senderRes.json()).transfers ?? [];
+  assert(senderTransfers.length === 1, `One transfer listed: ${senderTransfers.length}`);
+  assert(
+    senderTransfers[0]?.receiptId === receiptId,
+    "Listed transfer is the verified one",
+    `Expected ${receiptId}, got ${senderTransfers[0]?.receiptId}`
+  );
+  assert(
+    senderTransfers[0]?.resourceId === `transfer:${RECIPIENT}`,
+    `Resource is transfer:${RECIPIENT.slice(0, 8)}…`
+  );
+
+  // ── Step 5: Other user's history ─────────────────────────────
+  console.log("\nStep 5: Another user's history does not show it");
+  const otherRes = await history(otherKey);
+  assert(otherRes.ok, `History endpoint OK (HTTP ${otherRes.status})`);
+  const otherTransfers: TransferRecord[] = (await otherRes.json()).transfers ?? [];
+  assert(otherTransfers.length === 0, `No transfers listed: ${otherTransfers.length}`);
+
+  // ── Step 6: Anonymous ────────────────────────────────────────
+  console.log("\nStep 6: History without an API key");
+  const anonRes = await history();
+  assert(anonRes.status === 401, `Returns 401 (HTTP ${anonRes.status})`);
+
+  // ── Summary ──────────────────────────────────────────────────
+  console.log(`\n${"─".repeat(50)}`);
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  if (failed > 0) {
+    console.log("❌ SOME TESTS FAILED");
+    process.exit(1);
+  } else {
+    console.log("✅ ALL TESTS PASSED");
+    process.exit(0);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});